@@ -0,0 +1,88 @@
+import { Component, For, Show, createResource } from "solid-js"
+import type { BillingEntry } from "@opencode-ai/sdk/v2"
+import { Dialog } from "@opencode-ai/ui/dialog"
+import { IconButton } from "@opencode-ai/ui/icon-button"
+import { TextField } from "@opencode-ai/ui/text-field"
+import { Tooltip } from "@opencode-ai/ui/tooltip"
+import { showToast } from "@opencode-ai/ui/toast"
+import { useSDK } from "@/context/sdk"
+
+type Field = "date" | "hours" | "task" | "activity" | "narrative"
+
+export const DialogBilling: Component<{ sessionID: string }> = (props) => {
+  const sdk = useSDK()
+
+  // Proposing refreshes entries nobody has edited yet, so the list reflects the latest activity
+  const [entries, { mutate }] = createResource(async () => {
+    const result = await sdk.client.billing.propose({ sessionID: props.sessionID })
+    return result.data ?? []
+  })
+
+  const total = () => (entries() ?? []).reduce((sum, entry) => sum + entry.hours, 0)
+
+  const save = async (entry: BillingEntry, field: Field, value: string) => {
+    const text = value.trim()
+    if (text === String(field === "hours" ? entry.hours.toFixed(1) : (entry[field] ?? ""))) return
+    const hours = Number(text)
+    if (field === "hours" && (text === "" || !Number.isFinite(hours) || hours < 0)) {
+      showToast({ variant: "error", title: "Invalid hours", description: "Enter hours in tenths, e.g. 0.3" })
+      return
+    }
+    if (field === "date" && !/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+      showToast({ variant: "error", title: "Invalid date", description: "Enter the date as YYYY-MM-DD" })
+      return
+    }
+    const result = await sdk.client.billing.update({
+      entryID: entry.id,
+      [field]: field === "hours" ? hours : text,
+    })
+    if (result.data) mutate((entries() ?? []).map((item) => (item.id === entry.id ? result.data! : item)))
+  }
+
+  // Fields save when they lose focus, so a half-typed value is never sent
+  const blur = (entry: BillingEntry, field: Field) => (event: FocusEvent & { currentTarget: HTMLInputElement }) =>
+    save(entry, field, event.currentTarget.value)
+
+  const remove = async (entry: BillingEntry) => {
+    await sdk.client.billing.remove({ entryID: entry.id })
+    mutate((entries() ?? []).filter((item) => item.id !== entry.id))
+  }
+
+  return (
+    <Dialog title="Time entries" description={`${total().toFixed(1)} hours`}>
+      <div class="flex flex-col gap-6 px-2.5 pb-3">
+        <Show when={entries()?.length === 0}>
+          <span class="text-14-regular text-text-weak">No activity to bill in this session yet</span>
+        </Show>
+        <For each={entries()}>
+          {(entry) => (
+            <div class="flex flex-col gap-2">
+              <div class="flex items-end gap-2">
+                <TextField label="Date" value={entry.date} onBlur={blur(entry, "date")} />
+                <TextField label="Hours" value={entry.hours.toFixed(1)} onBlur={blur(entry, "hours")} />
+                <TextField label="Task" value={entry.task ?? ""} placeholder="L110" onBlur={blur(entry, "task")} />
+                <TextField
+                  label="Activity"
+                  value={entry.activity ?? ""}
+                  placeholder="A103"
+                  onBlur={blur(entry, "activity")}
+                />
+                <Tooltip value="Remove entry" placement="top">
+                  <IconButton icon="circle-x" variant="ghost" onClick={() => remove(entry)} />
+                </Tooltip>
+              </div>
+              <TextField
+                label="Narrative"
+                hideLabel
+                multiline
+                value={entry.narrative}
+                description={entry.time.edited ? "Edited" : "Proposed from session activity"}
+                onBlur={blur(entry, "narrative")}
+              />
+            </div>
+          )}
+        </For>
+      </div>
+    </Dialog>
+  )
+}
@@ -0,0 +1,142 @@
+import { Component, For, Show, createMemo, createResource, createSignal } from "solid-js"
+import type { ChronologySource } from "@opencode-ai/sdk/v2"
+import { Button } from "@opencode-ai/ui/button"
+import { Dialog } from "@opencode-ai/ui/dialog"
+import { Select } from "@opencode-ai/ui/select"
+import { Tag } from "@opencode-ai/ui/tag"
+import { showToast } from "@opencode-ai/ui/toast"
+import { useSDK } from "@/context/sdk"
+
+function timestamp(seconds: number) {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = Math.floor(seconds % 60)
+  return `${hours}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
+}
+
+// Same citation form as the chronology file: "Lease.pdf, p. 4", "Deposition of Jane Doe 45:12 [0:12:03]"
+function cite(source: ChronologySource) {
+  if (source.line !== undefined) {
+    return `${source.name} ${source.page}:${source.line}${source.timestamp !== undefined ? ` [${timestamp(source.timestamp)}]` : ""}`
+  }
+  if (source.timestamp !== undefined) return `${source.name} [${timestamp(source.timestamp)}]`
+  if (source.page !== undefined) return `${source.name}, p. ${source.page}`
+  return source.name
+}
+
+export const DialogChronology: Component = () => {
+  const sdk = useSDK()
+  const [chronologies] = createResource(async () => {
+    const result = await sdk.client.chronology.list()
+    return result.data ?? []
+  })
+  const [selected, setSelected] = createSignal<string>()
+  const [person, setPerson] = createSignal("")
+  const [issue, setIssue] = createSignal("")
+
+  const chronology = createMemo(() => {
+    const list = chronologies() ?? []
+    return list.find((item) => item.id === selected()) ?? list[0]
+  })
+  const people = createMemo(() => [...new Set(chronology()?.events.flatMap((event) => event.people))].sort())
+  const issues = createMemo(() => [...new Set(chronology()?.events.flatMap((event) => event.issues))].sort())
+  const events = createMemo(() =>
+    (chronology()?.events ?? []).filter(
+      (event) => (!person() || event.people.includes(person())) && (!issue() || event.issues.includes(issue())),
+    ),
+  )
+
+  const exportAs = async (format: "pdf" | "docx") => {
+    const current = chronology()
+    if (!current) return
+    const result = await sdk.client.chronology.export({
+      chronologyID: current.id,
+      format,
+      person: person() || undefined,
+      issue: issue() || undefined,
+    })
+    if (!result.data) {
+      showToast({ variant: "error", title: "Export failed", description: "Check that Case.dev is connected" })
+      return
+    }
+    showToast({
+      variant: "success",
+      icon: "circle-check",
+      title: `Exported ${result.data.events} event(s)`,
+      description: result.data.file,
+    })
+  }
+
+  return (
+    <Dialog
+      title="Chronology"
+      description={chronology()?.title ?? "Build one by asking for a chronology of the matter"}
+    >
+      <div class="flex flex-col gap-6 px-2.5 pb-3">
+        <Show when={chronologies()?.length === 0}>
+          <span class="text-14-regular text-text-weak">No chronology has been built in this matter yet</span>
+        </Show>
+        <Show when={chronology()}>
+          {(current) => (
+            <>
+              <div class="flex flex-wrap items-center gap-2">
+                <Show when={(chronologies()?.length ?? 0) > 1}>
+                  <Select
+                    options={chronologies() ?? []}
+                    current={current()}
+                    value={(x) => x.id}
+                    label={(x) => `${x.title} (${new Date(x.time.created).toLocaleDateString()})`}
+                    onSelect={(x) => x && setSelected(x.id)}
+                    variant="ghost"
+                  />
+                </Show>
+                <Select
+                  options={["", ...people()]}
+                  current={person()}
+                  label={(x) => x || "All people"}
+                  onSelect={(x) => setPerson(x ?? "")}
+                  variant="ghost"
+                />
+                <Select
+                  options={["", ...issues()]}
+                  current={issue()}
+                  label={(x) => x || "All issues"}
+                  onSelect={(x) => setIssue(x ?? "")}
+                  variant="ghost"
+                />
+                <div class="grow" />
+                <Button variant="ghost" onClick={() => exportAs("pdf")}>
+                  Export PDF
+                </Button>
+                <Button variant="ghost" onClick={() => exportAs("docx")}>
+                  Export DOCX
+                </Button>
+              </div>
+              <span class="text-12-regular text-text-weak">
+                {events().length} of {current().events.length} event(s) · {current().file}
+              </span>
+              <ol class="flex flex-col border-l border-border-base">
+                <For each={events()}>
+                  {(event) => (
+                    <li class="flex flex-col gap-1 pl-4 pb-4 relative">
+                      <span class="absolute -left-1 top-1.5 size-2 rounded-full bg-text-weak" />
+                      <span class="text-12-medium text-text-weak">{event.date}</span>
+                      <span class="text-14-regular text-text-strong">{event.description}</span>
+                      <Show when={event.people.length > 0 || event.issues.length > 0}>
+                        <div class="flex flex-wrap gap-1">
+                          <For each={event.people}>{(name) => <Tag>{name}</Tag>}</For>
+                          <For each={event.issues}>{(name) => <Tag>{name}</Tag>}</For>
+                        </div>
+                      </Show>
+                      <span class="text-12-regular text-text-weak">{event.sources.map(cite).join("; ")}</span>
+                    </li>
+                  )}
+                </For>
+              </ol>
+            </>
+          )}
+        </Show>
+      </div>
+    </Dialog>
+  )
+}
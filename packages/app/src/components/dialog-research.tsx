@@ -0,0 +1,92 @@
+import { Component, For, Show, createResource, createSignal } from "solid-js"
+import type { ResearchArtifact } from "@opencode-ai/sdk/v2"
+import { Button } from "@opencode-ai/ui/button"
+import { Dialog } from "@opencode-ai/ui/dialog"
+import { IconButton } from "@opencode-ai/ui/icon-button"
+import { TextField } from "@opencode-ai/ui/text-field"
+import { Tooltip } from "@opencode-ai/ui/tooltip"
+import { useDialog } from "@opencode-ai/ui/context/dialog"
+import { useSDK } from "@/context/sdk"
+import { usePrompt } from "@/context/prompt"
+
+export const DialogResearch: Component = () => {
+  const sdk = useSDK()
+  const dialog = useDialog()
+  const prompt = usePrompt()
+  const [query, setQuery] = createSignal("")
+
+  const [artifacts, { mutate }] = createResource(query, async (query) => {
+    const result = await sdk.client.research.list({ query: query.trim() || undefined })
+    return result.data ?? []
+  })
+
+  const remove = async (artifact: ResearchArtifact) => {
+    await sdk.client.research.remove({ researchID: artifact.id })
+    mutate((artifacts() ?? []).filter((item) => item.id !== artifact.id))
+  }
+
+  // Puts the original question back in the prompt, so it can be edited before it is sent again
+  const rerun = (artifact: ResearchArtifact) => {
+    const text =
+      artifact.tool === "casedev_search"
+        ? `Research again with casedev_search${artifact.mode ? ` in ${artifact.mode} mode` : ""}: ${artifact.query}`
+        : `Search vault ${artifact.vaultID} again with casedev_vault_search: ${artifact.query}`
+    prompt.set([{ type: "text", content: text, start: 0, end: text.length }], text.length)
+    dialog.close()
+  }
+
+  return (
+    <Dialog title="Research" description="Research saved in this matter by earlier sessions">
+      <div class="flex flex-col gap-6 px-2.5 pb-3">
+        <TextField label="Search" hideLabel placeholder="Search saved research" value={query()} onChange={setQuery} />
+        <Show when={artifacts()?.length === 0}>
+          <span class="text-14-regular text-text-weak">
+            {query().trim() ? "No saved research matches" : "No research has been saved yet"}
+          </span>
+        </Show>
+        <For each={artifacts()}>
+          {(artifact) => (
+            <div class="flex flex-col gap-2">
+              <div class="flex items-start gap-2">
+                <div class="flex flex-col gap-0.5 grow min-w-0">
+                  <span class="text-14-medium text-text-strong">{artifact.query}</span>
+                  <span class="text-12-regular text-text-weak">
+                    {new Date(artifact.time.created).toLocaleDateString()} ·{" "}
+                    {artifact.tool === "casedev_search" ? "Web research" : "Vault search"}
+                    {artifact.mode ? ` (${artifact.mode})` : ""}
+                    {artifact.offline ? " · offline index" : ""} · {artifact.sources.length} sources
+                  </span>
+                </div>
+                <Button variant="ghost" onClick={() => rerun(artifact)}>
+                  Re-run
+                </Button>
+                <Tooltip value="Remove research" placement="top">
+                  <IconButton icon="circle-x" variant="ghost" onClick={() => remove(artifact)} />
+                </Tooltip>
+              </div>
+              <Show when={artifact.summary}>
+                <p class="text-14-regular text-text-base whitespace-pre-wrap line-clamp-6">{artifact.summary}</p>
+              </Show>
+              <ol class="flex flex-col gap-1 list-decimal pl-5 text-12-regular text-text-base">
+                <For each={artifact.sources}>
+                  {(source) => (
+                    <li>
+                      <Show when={source.url} fallback={source.title}>
+                        <a href={source.url} target="_blank" class="underline">
+                          {source.title}
+                        </a>
+                      </Show>
+                      <Show when={source.snippet}>
+                        <span class="block text-text-weak">{source.snippet}</span>
+                      </Show>
+                    </li>
+                  )}
+                </For>
+              </ol>
+            </div>
+          )}
+        </For>
+      </div>
+    </Dialog>
+  )
+}
@@ -0,0 +1,47 @@
+import { createMemo, Show } from "solid-js"
+import { Icon } from "@opencode-ai/ui/icon"
+import { useSync } from "@/context/sync"
+import { Tooltip } from "@opencode-ai/ui/tooltip"
+
+export function SessionJobIndicator(props: { sessionID?: string }) {
+  const sync = useSync()
+
+  const jobs = createMemo(() => (props.sessionID ? (sync.data.job[props.sessionID] ?? []) : []))
+
+  const jobStats = createMemo(() => {
+    const active = jobs().filter((j) => j.status === "pending" || j.status === "running").length
+    const hasError = jobs().some((j) => j.status === "failed")
+    const total = jobs().length
+    return { active, hasError, total }
+  })
+
+  const tooltipContent = createMemo(() =>
+    jobs()
+      .map((j) => {
+        if (j.status === "running" && j.progress !== undefined) return `${j.title}: ${j.progress}%`
+        if (j.status === "failed") return `${j.title}: ${j.error ?? "failed"}`
+        return `${j.title}: ${j.status}`
+      })
+      .join("\n"),
+  )
+
+  return (
+    <Show when={jobStats().total > 0}>
+      <Tooltip placement="top" value={<div class="whitespace-pre-line">{tooltipContent()}</div>}>
+        <div class="flex items-center gap-1 px-2 cursor-default select-none">
+          <Icon
+            name="checklist"
+            size="small"
+            classList={{
+              "text-icon-critical-base": jobStats().hasError,
+              "text-icon-success-base": !jobStats().hasError && jobStats().active === 0,
+            }}
+          />
+          <span class="text-12-regular text-text-weak">
+            {jobStats().active > 0 ? `${jobStats().active} running` : `${jobStats().total} jobs`}
+          </span>
+        </div>
+      </Tooltip>
+    </Show>
+  )
+}
@@ -8,6 +8,7 @@ import {
   type Project,
   type FileDiff,
   type Todo,
+  type CaseDevJob,
   type SessionStatus,
   type ProviderListResponse,
   type ProviderAuthResponse,
@@ -45,6 +46,9 @@ type State = {
   todo: {
     [sessionID: string]: Todo[]
   }
+  job: {
+    [sessionID: string]: CaseDevJob[]
+  }
   permission: {
     [sessionID: string]: Permission[]
   }
@@ -97,6 +101,7 @@ function createGlobalSync() {
         session_status: {},
         session_diff: {},
         todo: {},
+        job: {},
         permission: {},
         mcp: {},
         lsp: [],
@@ -248,6 +253,26 @@ function createGlobalSync() {
       case "todo.updated":
         setStore("todo", event.properties.sessionID, reconcile(event.properties.todos))
         break
+      case "casedev.job.updated": {
+        const jobs = store.job[event.properties.sessionID]
+        if (!jobs) {
+          setStore("job", event.properties.sessionID, [event.properties])
+          break
+        }
+        const result = Binary.search(jobs, event.properties.id, (j) => j.id)
+        if (result.found) {
+          setStore("job", event.properties.sessionID, result.index, reconcile(event.properties))
+          break
+        }
+        setStore(
+          "job",
+          event.properties.sessionID,
+          produce((draft) => {
+            draft.splice(result.index, 0, event.properties)
+          }),
+        )
+        break
+      }
       case "session.status": {
         setStore("session_status", event.properties.sessionID, reconcile(event.properties.status))
         break
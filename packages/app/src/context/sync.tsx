@@ -61,11 +61,12 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
           )
         },
         async sync(sessionID: string, _isRetry = false) {
-          const [session, messages, todo, diff] = await Promise.all([
+          const [session, messages, todo, diff, job] = await Promise.all([
             retry(() => sdk.client.session.get({ sessionID })),
             retry(() => sdk.client.session.messages({ sessionID, limit: 100 })),
             retry(() => sdk.client.session.todo({ sessionID })),
             retry(() => sdk.client.session.diff({ sessionID })),
+            retry(() => sdk.client.session.job({ sessionID })),
           ])
           setStore(
             produce((draft) => {
@@ -73,6 +74,7 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
               if (match.found) draft.session[match.index] = session.data!
               if (!match.found) draft.session.splice(match.index, 0, session.data!)
               draft.todo[sessionID] = todo.data ?? []
+              draft.job[sessionID] = job.data ?? []
               draft.message[sessionID] = messages
                 .data!.map((x) => x.info)
                 .slice()
@@ -8,6 +8,7 @@ import { DataProvider } from "@opencode-ai/ui/context"
 import { iife } from "@opencode-ai/util/iife"
 import { useLayout } from "@/context/layout"
 import { FileBrowser } from "@/components/file-browser"
+import { usePlatform } from "@/context/platform"
 
 export default function Layout(props: ParentProps) {
   const params = useParams()
@@ -22,6 +23,7 @@ export default function Layout(props: ParentProps) {
           {iife(() => {
             const sync = useSync()
             const sdk = useSDK()
+            const platform = usePlatform()
             return (
               <DataProvider
                 data={sync.data}
@@ -29,6 +31,7 @@ export default function Layout(props: ParentProps) {
                 onPermissionRespond={(input) => {
                   sdk.client.permission.respond(input)
                 }}
+                onOpenLink={platform.openLink}
               >
                 <LocalProvider>
                   <div class="flex size-full min-h-0">
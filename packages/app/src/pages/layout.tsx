@@ -513,6 +513,12 @@ export default function Layout(props: ParentProps) {
     setStore("activeDraggable", undefined)
   }
 
+  // Matters are listed by caption, falling back to the matter ID; other projects by folder name
+  function projectName(project: LocalProject) {
+    if (project.matter) return project.matter.caption ?? project.matter.id
+    return getFilename(project.worktree)
+  }
+
   const ProjectAvatar = (props: {
     project: LocalProject
     class?: string
@@ -522,7 +528,7 @@ export default function Layout(props: ParentProps) {
     const notification = useNotification()
     const notifications = createMemo(() => notification.project.unseen(props.project.worktree))
     const hasError = createMemo(() => notifications().some((n) => n.type === "error"))
-    const name = createMemo(() => getFilename(props.project.worktree))
+    const name = createMemo(() => projectName(props.project))
     const mask = "radial-gradient(circle 5px at calc(100% - 2px) 2px, transparent 5px, black 5.5px)"
     return (
       <div class="relative size-5 shrink-0 rounded-sm">
@@ -556,7 +562,7 @@ export default function Layout(props: ParentProps) {
   }
 
   const ProjectVisual = (props: { project: LocalProject; class?: string }): JSX.Element => {
-    const name = createMemo(() => getFilename(props.project.worktree))
+    const name = createMemo(() => projectName(props.project))
     const current = createMemo(() => base64Decode(params.dir ?? ""))
     return (
       <Switch>
@@ -699,7 +705,7 @@ export default function Layout(props: ParentProps) {
     const sortable = createSortable(props.project.worktree)
     const showExpanded = createMemo(() => props.mobile || layout.sidebar.opened())
     const slug = createMemo(() => base64Encode(props.project.worktree))
-    const name = createMemo(() => getFilename(props.project.worktree))
+    const name = createMemo(() => projectName(props.project))
     const [store, setProjectStore] = globalSync.child(props.project.worktree)
     const sessions = createMemo(() => store.session.toSorted(sortSessions))
     const rootSessions = createMemo(() => sessions().filter((s) => !s.parentID))
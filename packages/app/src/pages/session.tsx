@@ -50,6 +50,9 @@ import { useDialog } from "@opencode-ai/ui/context/dialog"
 import { DialogSelectFile } from "@/components/dialog-select-file"
 import { DialogSelectModel } from "@/components/dialog-select-model"
 import { DialogSelectMcp } from "@/components/dialog-select-mcp"
+import { DialogBilling } from "@/components/dialog-billing"
+import { DialogResearch } from "@/components/dialog-research"
+import { DialogChronology } from "@/components/dialog-chronology"
 import { useCommand } from "@/context/command"
 import { useNavigate, useParams } from "@solidjs/router"
 import { UserMessage } from "@opencode-ai/sdk/v2"
@@ -60,6 +63,7 @@ import { ConstrainDragYAxis, getDraggableId } from "@/utils/solid-dnd"
 import { StatusBar } from "@/components/status-bar"
 import { SessionMcpIndicator } from "@/components/session-mcp-indicator"
 import { SessionLspIndicator } from "@/components/session-lsp-indicator"
+import { SessionJobIndicator } from "@/components/session-job-indicator"
 
 export default function Page() {
   const layout = useLayout()
@@ -362,6 +366,35 @@ export default function Page() {
         setActiveMessage(priorMsg)
       },
     },
+    {
+      id: "session.billing",
+      title: "Time entries",
+      description: "Review and edit the time entries for this session",
+      category: "Session",
+      slash: "billing",
+      disabled: !params.id,
+      onSelect: () => {
+        const sessionID = params.id
+        if (!sessionID) return
+        dialog.show(() => <DialogBilling sessionID={sessionID} />)
+      },
+    },
+    {
+      id: "session.research",
+      title: "Research",
+      description: "Find, re-run and remove research saved in this matter",
+      category: "Session",
+      slash: "research",
+      onSelect: () => dialog.show(() => <DialogResearch />),
+    },
+    {
+      id: "session.chronology",
+      title: "Chronology",
+      description: "Review the matter's chronology by person and issue, and export it",
+      category: "Session",
+      slash: "chronology",
+      onSelect: () => dialog.show(() => <DialogChronology />),
+    },
   ])
 
   const handleKeyDown = (event: KeyboardEvent) => {
@@ -935,6 +968,7 @@ export default function Page() {
         </div>
       </Show>
       <StatusBar>
+        <SessionJobIndicator sessionID={params.id} />
         <SessionLspIndicator />
         <SessionMcpIndicator />
       </StatusBar>
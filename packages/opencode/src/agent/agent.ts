@@ -37,6 +37,7 @@ export namespace Agent {
         doom_loop: Config.Permission.optional(),
         external_directory: Config.Permission.optional(),
       }),
+      confidentiality: Config.Confidentiality.optional(),
       model: z
         .object({
           modelID: z.string(),
@@ -253,6 +254,7 @@ export namespace Agent {
         permission,
         color,
         maxSteps,
+        confidentiality,
         ...extra
       } = value
       item.options = {
@@ -278,6 +280,7 @@ export namespace Agent {
       // just here for consistency & to prevent it from being added as an option
       if (name) item.name = name
       if (maxSteps != undefined) item.maxSteps = maxSteps
+      if (confidentiality) item.confidentiality = confidentiality
 
       if (permission ?? cfg.permission) {
         item.permission = mergeAgentPermissions(cfg.permission ?? {}, permission ?? {})
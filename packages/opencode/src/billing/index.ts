@@ -0,0 +1,407 @@
+import z from "zod"
+import path from "path"
+import { Config } from "../config/config"
+import { Identifier } from "../id/id"
+import { Instance } from "../project/instance"
+import { Session } from "../session"
+import { MessageV2 } from "../session/message-v2"
+import { Storage } from "../storage/storage"
+import { fn } from "@/util/fn"
+import { Csv } from "../util/csv"
+
+/**
+ * Time entries proposed from session activity. Each session gets one entry per day it was worked on, in tenths
+ * of an hour, with a narrative and UTBMS codes drawn from the tools that were used. Entries are proposals until
+ * edited; proposing again refreshes the ones nobody has touched.
+ */
+export namespace Billing {
+  export const Entry = z
+    .object({
+      id: Identifier.schema("billing"),
+      projectID: z.string(),
+      sessionID: Identifier.schema("session"),
+      matterID: z.string().optional(),
+      date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+      hours: z.number().nonnegative(),
+      narrative: z.string(),
+      task: z.string().optional().describe("UTBMS task code, e.g. L110"),
+      activity: z.string().optional().describe("UTBMS activity code, e.g. A103"),
+      timekeeper: z.string().optional(),
+      time: z.object({
+        created: z.number(),
+        updated: z.number(),
+        edited: z.number().optional(),
+      }),
+    })
+    .meta({
+      ref: "BillingEntry",
+    })
+  export type Entry = z.infer<typeof Entry>
+
+  export const Update = Entry.pick({
+    date: true,
+    hours: true,
+    narrative: true,
+    task: true,
+    activity: true,
+  }).partial()
+  export type Update = z.infer<typeof Update>
+
+  export const Filter = z.object({
+    sessionID: z.string().optional(),
+    from: z.string().optional().meta({ description: "First date to include (YYYY-MM-DD)" }),
+    to: z.string().optional().meta({ description: "Last date to include (YYYY-MM-DD)" }),
+  })
+  export type Filter = z.infer<typeof Filter>
+
+  export type Proposal = Pick<Entry, "date" | "hours" | "narrative" | "task" | "activity">
+
+  type Category = "research" | "draft" | "review" | "files"
+
+  const CATEGORIES: Record<string, Category> = {
+    casedev_search: "research",
+    casedev_citations: "research",
+    casedev_vault_search: "research",
+    websearch: "research",
+    webfetch: "research",
+    codesearch: "research",
+    write: "draft",
+    edit: "draft",
+    multiedit: "draft",
+    patch: "draft",
+    casedev_format: "draft",
+    casedev_redline: "draft",
+    casedev_redact: "draft",
+    casedev_deposition_format: "draft",
+    read: "review",
+    casedev_vault_text: "review",
+    casedev_ocr_process: "review",
+    casedev_ocr_download: "review",
+    casedev_transcribe: "review",
+    casedev_deposition_designations: "review",
+    casedev_vault_create: "files",
+    casedev_vault_upload: "files",
+    casedev_vault_ingest: "files",
+    casedev_vault_mirror: "files",
+    casedev_vault_download: "files",
+  }
+
+  // UTBMS activity codes
+  const ACTIVITY: Record<Category | "none", string> = {
+    none: "A101",
+    research: "A102",
+    draft: "A103",
+    review: "A104",
+    files: "A110",
+  }
+
+  // UTBMS task codes for tools that only serve one phase of a case
+  const TASKS: Record<string, string> = {
+    casedev_deposition_designations: "L330",
+    casedev_deposition_format: "L330",
+    casedev_redact: "L320",
+  }
+
+  const DEFAULT_TASK = "L120"
+  const DEFAULT_IDLE = 10
+  const TENTH = 6 * 60 * 1000
+
+  function day(time: number) {
+    const date = new Date(time)
+    return [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+      .map((value) => String(value).padStart(2, "0"))
+      .join("-")
+  }
+
+  /**
+   * Billable milliseconds in a day's messages: work runs from each message to the end of its response, and
+   * gaps of up to the idle limit between them count as reading and reviewing
+   */
+  function worked(messages: MessageV2.WithParts[], idle: number) {
+    const spans = messages
+      .map((message) => {
+        const start = message.info.time.created
+        if (message.info.role === "user") return [start, start]
+        const ends = message.parts.flatMap((part) =>
+          part.type === "tool" && (part.state.status === "completed" || part.state.status === "error")
+            ? [part.state.time.end]
+            : [],
+        )
+        return [start, Math.max(start, message.info.time.completed ?? 0, ...ends)]
+      })
+      .sort((a, b) => a[0] - b[0])
+    let total = 0
+    let current: number[] | undefined
+    for (const span of spans) {
+      if (current && span[0] - current[1] <= idle) {
+        current[1] = Math.max(current[1], span[1])
+        continue
+      }
+      if (current) total += current[1] - current[0]
+      current = [...span]
+    }
+    if (current) total += current[1] - current[0]
+    return total
+  }
+
+  function files(parts: MessageV2.ToolPart[]) {
+    const names = new Set<string>()
+    for (const part of parts) {
+      const input = part.state.input as Record<string, unknown>
+      const file = input.filePath ?? input.file_path ?? input.revised ?? input.path
+      if (typeof file === "string" && path.extname(file)) names.add(path.basename(file))
+    }
+    return [...names]
+  }
+
+  function enumerate(names: string[], fallback: string) {
+    if (names.length === 0) return fallback
+    if (names.length <= 3) return names.join(", ").replace(/, ([^,]*)$/, " and $1")
+    return `${names.slice(0, 2).join(", ")} and ${names.length - 2} other documents`
+  }
+
+  function narrative(title: string | undefined, used: Map<Category, MessageV2.ToolPart[]>) {
+    const phrases: string[] = []
+    if (used.has("research")) phrases.push("legal research")
+    if (used.has("review")) phrases.push(`reviewed ${enumerate(files(used.get("review")!), "documents")}`)
+    if (used.has("draft")) phrases.push(`drafted and revised ${enumerate(files(used.get("draft")!), "documents")}`)
+    if (used.has("files")) phrases.push("organized matter documents")
+    if (phrases.length === 0) phrases.push("analysis and strategy")
+    const text = phrases.join("; ")
+    if (title) return `${title}: ${text}.`
+    return text[0].toUpperCase() + text.slice(1) + "."
+  }
+
+  /**
+   * Entries for a session's messages, one per day with any activity
+   */
+  export function draft(
+    session: Pick<Session.Info, "title">,
+    messages: MessageV2.WithParts[],
+    options: { idle?: number; task?: string } = {},
+  ): Proposal[] {
+    const idle = (options.idle ?? DEFAULT_IDLE) * 60 * 1000
+    const days = new Map<string, MessageV2.WithParts[]>()
+    for (const message of messages) {
+      const date = day(message.info.time.created)
+      days.set(date, [...(days.get(date) ?? []), message])
+    }
+    const title = Session.isDefaultTitle(session.title) ? undefined : session.title
+
+    return [...days.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, messages]) => {
+        const used = new Map<Category, MessageV2.ToolPart[]>()
+        const tools = messages.flatMap((message) =>
+          message.parts.filter((part): part is MessageV2.ToolPart => part.type === "tool"),
+        )
+        for (const part of tools) {
+          const category = CATEGORIES[part.tool]
+          if (category) used.set(category, [...(used.get(category) ?? []), part])
+        }
+        const main = [...used.entries()].sort((a, b) => b[1].length - a[1].length)[0]?.[0] ?? "none"
+        const task = tools.map((part) => TASKS[part.tool]).find(Boolean)
+        return {
+          date,
+          hours: Math.max(1, Math.ceil(worked(messages, idle) / TENTH)) / 10,
+          narrative: narrative(title, used),
+          task: task ?? options.task ?? DEFAULT_TASK,
+          activity: ACTIVITY[main],
+        }
+      })
+  }
+
+  export async function list(projectID: string, filter: Filter = {}) {
+    const keys = await Storage.list(["billing", projectID])
+    const entries = await Promise.all(keys.map((key) => Storage.read<Entry>(key).catch(() => undefined)))
+    return entries
+      .filter(
+        (entry): entry is Entry =>
+          !!entry &&
+          (!filter.sessionID || entry.sessionID === filter.sessionID) &&
+          (!filter.from || entry.date >= filter.from) &&
+          (!filter.to || entry.date <= filter.to),
+      )
+      .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id))
+  }
+
+  /**
+   * Proposes entries for a session from its messages. Entries that have been edited are kept as they are.
+   */
+  export const propose = fn(Identifier.schema("session"), async (sessionID) => {
+    const project = Instance.project
+    const config = await Config.get()
+    const session = await Session.get(sessionID)
+    const messages = await Session.messages({ sessionID })
+    const existing = await list(project.id, { sessionID })
+    const now = Date.now()
+    for (const proposal of draft(session, messages, config.billing)) {
+      const match = existing.find((entry) => entry.date === proposal.date)
+      if (match?.time.edited) continue
+      const entry: Entry = {
+        id: match?.id ?? Identifier.ascending("billing"),
+        projectID: project.id,
+        sessionID,
+        matterID: project.matter?.id,
+        timekeeper: config.billing?.timekeeper_id,
+        ...proposal,
+        time: {
+          created: match?.time.created ?? now,
+          updated: now,
+        },
+      }
+      await Storage.write(["billing", project.id, entry.id], entry)
+    }
+    return list(project.id, { sessionID })
+  })
+
+  export async function update(entryID: string, input: Update) {
+    const projectID = Instance.project.id
+    return Storage.update<Entry>(["billing", projectID, entryID], (draft) => {
+      Object.assign(draft, input)
+      if (input.hours !== undefined) draft.hours = Math.round(input.hours * 10) / 10
+      draft.time.updated = Date.now()
+      draft.time.edited = draft.time.updated
+    })
+  }
+
+  export async function remove(entryID: string) {
+    const projectID = Instance.project.id
+    await Storage.read(["billing", projectID, entryID])
+    await Storage.remove(["billing", projectID, entryID])
+  }
+
+  function amount(entry: Entry, rate?: number) {
+    return rate === undefined ? undefined : (entry.hours * rate).toFixed(2)
+  }
+
+  export function csv(entries: Entry[], rate?: number) {
+    const header = [
+      "date",
+      "matter",
+      "session",
+      "timekeeper",
+      "hours",
+      "rate",
+      "amount",
+      "task",
+      "activity",
+      "narrative",
+    ]
+    const rows = entries.map((entry) =>
+      [
+        entry.date,
+        entry.matterID,
+        entry.sessionID,
+        entry.timekeeper,
+        entry.hours.toFixed(1),
+        rate?.toFixed(2),
+        amount(entry, rate),
+        entry.task,
+        entry.activity,
+        entry.narrative,
+      ]
+        .map(Csv.quote)
+        .join(","),
+    )
+    return [header.join(","), ...rows].join("\n") + "\n"
+  }
+
+  export interface Invoice {
+    number: string
+    date: string
+    client?: string
+    matter?: string
+    // The client's own number for the matter, if it has one
+    clientMatter?: string
+    description?: string
+    lawFirmID?: string
+    rate?: number
+    timekeeper?: {
+      id?: string
+      name?: string
+      classification?: string
+    }
+  }
+
+  const LEDES_FIELDS = [
+    "INVOICE_DATE",
+    "INVOICE_NUMBER",
+    "CLIENT_ID",
+    "LAW_FIRM_MATTER_ID",
+    "INVOICE_TOTAL",
+    "BILLING_START_DATE",
+    "BILLING_END_DATE",
+    "INVOICE_DESCRIPTION",
+    "LINE_ITEM_NUMBER",
+    "EXP/FEE/INV_ADJ_TYPE",
+    "LINE_ITEM_NUMBER_OF_UNITS",
+    "LINE_ITEM_ADJUSTMENT_AMOUNT",
+    "LINE_ITEM_TOTAL",
+    "LINE_ITEM_DATE",
+    "LINE_ITEM_TASK_CODE",
+    "LINE_ITEM_EXPENSE_CODE",
+    "LINE_ITEM_ACTIVITY_CODE",
+    "TIMEKEEPER_ID",
+    "LINE_ITEM_DESCRIPTION",
+    "LAW_FIRM_ID",
+    "LINE_ITEM_UNIT_COST",
+    "TIMEKEEPER_NAME",
+    "TIMEKEEPER_CLASSIFICATION",
+    "CLIENT_MATTER_ID",
+  ]
+
+  // Pipes separate fields and [] ends a record, so neither may appear in a value
+  function field(value: string | undefined) {
+    return (value ?? "")
+      .replace(/\[\]/g, "")
+      .replace(/\s*[|\r\n]+\s*/g, " ")
+      .trim()
+  }
+
+  function compact(date: string) {
+    return date.replace(/-/g, "")
+  }
+
+  /**
+   * LEDES 1998B invoice with one fee line per entry
+   */
+  export function ledes(entries: Entry[], invoice: Invoice) {
+    const rate = invoice.rate ?? 0
+    const totals = entries.map((entry) => Math.round(entry.hours * rate * 100) / 100)
+    const total = totals.reduce((sum, value) => sum + value, 0).toFixed(2)
+    const dates = entries.map((entry) => entry.date).sort()
+    const lines = entries.map(
+      (entry, index) =>
+        [
+          compact(invoice.date),
+          invoice.number,
+          invoice.client,
+          invoice.matter ?? entry.matterID,
+          total,
+          compact(dates[0]),
+          compact(dates[dates.length - 1]),
+          invoice.description,
+          String(index + 1),
+          "F",
+          entry.hours.toFixed(1),
+          "0.00",
+          totals[index].toFixed(2),
+          compact(entry.date),
+          entry.task,
+          undefined,
+          entry.activity,
+          entry.timekeeper ?? invoice.timekeeper?.id,
+          entry.narrative,
+          invoice.lawFirmID,
+          rate.toFixed(2),
+          invoice.timekeeper?.name,
+          invoice.timekeeper?.classification,
+          invoice.clientMatter,
+        ]
+          .map(field)
+          .join("|") + "[]",
+    )
+    return ["LEDES1998B[]", LEDES_FIELDS.join("|") + "[]", ...lines].join("\n") + "\n"
+  }
+}
@@ -0,0 +1,561 @@
+import z from "zod"
+import path from "path"
+import fs from "fs/promises"
+import { BlobWriter, TextReader, ZipWriter } from "@zip.js/zip.js"
+import { Identifier } from "../id/id"
+import { Instance } from "../project/instance"
+import { Storage } from "../storage/storage"
+import { Deposition } from "../tool/casedev/deposition"
+import { DocumentFormat } from "../tool/casedev/format"
+import { Csv } from "../util/csv"
+
+/**
+ * Case chronologies: dated events pulled from the text of vault documents, OCR output and transcripts. Every event
+ * keeps the document and page, page:line or timestamp it came from, and the same event found in several documents
+ * is merged into one row citing all of them.
+ */
+export namespace Chronology {
+  // Share of the shorter description's words two descriptions of the same day must have in common to be merged
+  export const SIMILARITY = 0.6
+  const DESCRIPTION_LENGTH = 400
+
+  const MONTHS = [
+    "january",
+    "february",
+    "march",
+    "april",
+    "may",
+    "june",
+    "july",
+    "august",
+    "september",
+    "october",
+    "november",
+    "december",
+  ]
+  const MONTH =
+    "(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sept?(?:ember)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?"
+
+  // Full dates come first so "March 3, 2021" is not also read as "March 2021"
+  const PATTERNS: { regex: RegExp; parse: (match: RegExpExecArray) => [number, number?, number?] }[] = [
+    {
+      regex: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g,
+      parse: (match) => [Number(match[1]), Number(match[2]), Number(match[3])],
+    },
+    {
+      regex: /\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g,
+      parse: (match) => [year(match[3]), Number(match[1]), Number(match[2])],
+    },
+    {
+      regex: new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, "gi"),
+      parse: (match) => [Number(match[3]), month(match[1]), Number(match[2])],
+    },
+    {
+      regex: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:day\\s+)?(?:of\\s+)?${MONTH},?\\s+(\\d{4})\\b`, "gi"),
+      parse: (match) => [Number(match[3]), month(match[2]), Number(match[1])],
+    },
+    {
+      regex: new RegExp(`\\b${MONTH},?\\s+(\\d{4})\\b`, "gi"),
+      parse: (match) => [Number(match[2]), month(match[1])],
+    },
+  ]
+
+  const STOPWORDS = new Set([
+    "the",
+    "and",
+    "for",
+    "with",
+    "that",
+    "this",
+    "was",
+    "were",
+    "from",
+    "into",
+    "which",
+    "has",
+  ])
+
+  // Abbreviations that end in a period without ending the sentence
+  const ABBREVIATIONS =
+    /(?:^|\s)(?:mr|mrs|ms|dr|jr|sr|st|no|nos|inc|corp|co|ltd|llc|v|vs|cf|e\.g|i\.e|u\.s|jan|feb|mar|apr|jun|jul|aug|sep|sept|oct|nov|dec|[a-z])\.$/i
+
+  export const Kind = z.enum(["vault", "ocr", "transcript"])
+  export type Kind = z.infer<typeof Kind>
+
+  export const Source = z
+    .object({
+      kind: Kind,
+      id: z.string().describe("Vault object ID, OCR job ID or transcript ID"),
+      vaultID: z.string().optional(),
+      name: z.string().describe("File name or transcript title"),
+      page: z.number().optional(),
+      line: z.number().optional().describe("Transcript line on the page"),
+      timestamp: z.number().optional().describe("Seconds into the recording"),
+      quote: z.string(),
+    })
+    .meta({
+      ref: "ChronologySource",
+    })
+  export type Source = z.infer<typeof Source>
+
+  export const Event = z
+    .object({
+      date: z.string().describe("YYYY-MM-DD, or YYYY-MM when the source only gives the month"),
+      description: z.string(),
+      people: z.string().array(),
+      issues: z.string().array(),
+      sources: Source.array(),
+    })
+    .meta({
+      ref: "ChronologyEvent",
+    })
+  export type Event = z.infer<typeof Event>
+
+  export const Format = z.enum(["csv", "xlsx", "md"])
+  export type Format = z.infer<typeof Format>
+
+  export const Info = z
+    .object({
+      id: Identifier.schema("chronology"),
+      projectID: z.string(),
+      matterID: z.string().optional(),
+      title: z.string(),
+      events: Event.array(),
+      file: z.string(),
+      format: Format,
+      time: z.object({
+        created: z.number(),
+      }),
+    })
+    .meta({
+      ref: "Chronology",
+    })
+  export type Info = z.infer<typeof Info>
+
+  export const Filter = z.object({
+    person: z.string().optional(),
+    issue: z.string().optional(),
+  })
+  export type Filter = z.infer<typeof Filter>
+
+  /**
+   * Where in a document a passage's text starts, from offset onwards: a page, a transcript page and line, or a
+   * point in a recording
+   */
+  export interface Mark {
+    offset: number
+    page?: number
+    line?: number
+    timestamp?: number
+  }
+
+  export interface Passage {
+    text: string
+    marks: Mark[]
+  }
+
+  export interface Document {
+    kind: Kind
+    id: string
+    vaultID?: string
+    name: string
+    passages: Passage[]
+  }
+
+  export interface Tags {
+    people: { name: string; aliases?: string[] }[]
+    // Issue name -> words that mark an event as being about it
+    issues: Record<string, string[]>
+  }
+
+  function year(text: string) {
+    const value = Number(text)
+    if (text.length === 4) return value
+    return value < 50 ? 2000 + value : 1900 + value
+  }
+
+  // Lowercase "may" is usually the verb, so month names only count when capitalized (or in capitals)
+  function month(text: string) {
+    if (text[0] !== text[0].toUpperCase()) return 0
+    return MONTHS.findIndex((name) => name.startsWith(text.replace(/\.$/, "").toLowerCase().slice(0, 3))) + 1
+  }
+
+  function valid(y: number, m?: number, d?: number) {
+    if (y < 1900 || y > 2100) return false
+    if (m === undefined) return true
+    if (m < 1 || m > 12) return false
+    if (d === undefined) return true
+    return d >= 1 && d <= new Date(Date.UTC(y, m, 0)).getUTCDate()
+  }
+
+  /**
+   * Dates written in text, as YYYY-MM-DD (or YYYY-MM for "March 2021"), in the order they appear. Numeric dates are
+   * read month first, as US documents write them.
+   */
+  export function dates(text: string) {
+    const found: { date: string; index: number; length: number }[] = []
+    for (const pattern of PATTERNS) {
+      for (const match of text.matchAll(pattern.regex)) {
+        const [y, m, d] = pattern.parse(match)
+        if (!valid(y, m, d)) continue
+        const index = match.index
+        if (found.some((item) => index < item.index + item.length && item.index < index + match[0].length)) continue
+        const date = [y, m, d]
+          .filter((part) => part !== undefined)
+          .map((part, i) => String(part).padStart(i === 0 ? 4 : 2, "0"))
+          .join("-")
+        found.push({ date, index, length: match[0].length })
+      }
+    }
+    return found.sort((a, b) => a.index - b.index)
+  }
+
+  /**
+   * Split text into sentences with their offsets, without breaking after abbreviations such as "Mr." or "v."
+   */
+  export function sentences(text: string) {
+    const result: { text: string; offset: number }[] = []
+    let start = 0
+    for (const match of text.matchAll(/[.!?]["”')\]]*\s+|\n\s*\n/g)) {
+      const end = match.index + match[0].length
+      if (match[0].trim() === "." && ABBREVIATIONS.test(text.slice(start, match.index + 1))) continue
+      result.push({ text: text.slice(start, end), offset: start })
+      start = end
+    }
+    if (start < text.length) result.push({ text: text.slice(start), offset: start })
+    return result
+      .map((sentence) => {
+        const lead = sentence.text.length - sentence.text.trimStart().length
+        return { text: sentence.text.trim().replace(/\s+/g, " "), offset: sentence.offset + lead }
+      })
+      .filter((sentence) => sentence.text.length > 0)
+  }
+
+  function escape(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  }
+
+  function mentions(text: string, terms: string[]) {
+    return terms.some((term) => term.trim() && new RegExp(`\\b${escape(term.trim())}`, "i").test(text))
+  }
+
+  /**
+   * The people and issues an event's description mentions
+   */
+  export function tag(text: string, tags: Tags) {
+    return {
+      people: tags.people
+        .filter((person) => mentions(text, [person.name, ...(person.aliases ?? [])]))
+        .map((person) => person.name),
+      issues: Object.entries(tags.issues)
+        .filter(([issue, words]) => mentions(text, [issue, ...words]))
+        .map(([issue]) => issue),
+    }
+  }
+
+  function shorten(text: string, around: number) {
+    if (text.length <= DESCRIPTION_LENGTH) return text
+    const start = Math.max(0, Math.min(around - DESCRIPTION_LENGTH / 2, text.length - DESCRIPTION_LENGTH))
+    return (
+      (start > 0 ? "..." : "") +
+      text.slice(start, start + DESCRIPTION_LENGTH).trim() +
+      (start + DESCRIPTION_LENGTH < text.length ? "..." : "")
+    )
+  }
+
+  /**
+   * One event per date found in a document, described by the sentence that mentions it
+   */
+  export function extract(document: Document, tags: Tags = { people: [], issues: {} }): Event[] {
+    const events: Event[] = []
+    for (const passage of document.passages) {
+      for (const sentence of sentences(passage.text)) {
+        for (const found of dates(sentence.text)) {
+          // Sentences are whitespace-normalized, so the mark is found from the sentence start
+          const mark = passage.marks.findLast((mark) => mark.offset <= sentence.offset) ?? passage.marks[0]
+          const description = shorten(sentence.text, found.index)
+          events.push({
+            date: found.date,
+            description,
+            ...tag(sentence.text, tags),
+            sources: [
+              {
+                kind: document.kind,
+                id: document.id,
+                vaultID: document.vaultID,
+                name: document.name,
+                page: mark?.page,
+                line: mark?.line,
+                timestamp: mark?.timestamp,
+                quote: description,
+              },
+            ],
+          })
+        }
+      }
+    }
+    return events
+  }
+
+  /**
+   * Passages of a page-by-page document such as a vault object or OCR output
+   */
+  export function pages(texts: string[]): Passage[] {
+    return texts.map((text, i) => ({ text, marks: [{ offset: 0, page: i + 1 }] }))
+  }
+
+  /**
+   * Passages of a formatted deposition, one per speaker turn, marked with the page and line of every line
+   */
+  export function testimony(lines: Deposition.Line[]): Passage[] {
+    const result: Passage[] = []
+    let current: Passage | undefined
+    let speaker: string | undefined
+    for (const line of lines) {
+      if (!current || line.speaker !== speaker) {
+        current = { text: "", marks: [] }
+        result.push(current)
+        speaker = line.speaker
+      }
+      if (current.text) current.text += " "
+      current.marks.push({ offset: current.text.length, page: line.page, line: line.line, timestamp: line.start })
+      current.text += line.text.trim()
+    }
+    return result
+  }
+
+  /**
+   * Passages of a raw transcript, one per utterance, marked with its start time
+   */
+  export function utterances(items: { text: string; start: number; speaker?: string }[]): Passage[] {
+    return items.map((item) => ({
+      text: item.speaker ? `${item.speaker}: ${item.text}` : item.text,
+      marks: [{ offset: 0, timestamp: item.start }],
+    }))
+  }
+
+  function words(text: string) {
+    return new Set(
+      (text.toLowerCase().match(/\p{L}+/gu) ?? []).filter(
+        (word) => word.length > 2 && !STOPWORDS.has(word) && !MONTHS.some((name) => name.startsWith(word)),
+      ),
+    )
+  }
+
+  export function similar(a: string, b: string) {
+    if (a.toLowerCase() === b.toLowerCase()) return true
+    const left = words(a)
+    const right = words(b)
+    const smaller = Math.min(left.size, right.size)
+    if (smaller === 0) return false
+    const shared = [...left].filter((word) => right.has(word)).length
+    return shared >= Math.min(2, smaller) && shared / smaller >= SIMILARITY
+  }
+
+  function same(a: Source, b: Source) {
+    return a.kind === b.kind && a.id === b.id && a.page === b.page && a.line === b.line
+  }
+
+  /**
+   * Merge events on the same date that describe the same thing, keeping the fullest description and every source,
+   * and sort them by date and then by where they were found
+   */
+  export function merge(events: Event[]) {
+    const result: Event[] = []
+    for (const event of events) {
+      const match = result.find((item) => item.date === event.date && similar(item.description, event.description))
+      if (!match) {
+        result.push({ ...event, people: [...event.people], issues: [...event.issues], sources: [...event.sources] })
+        continue
+      }
+      if (event.description.length > match.description.length) match.description = event.description
+      for (const source of event.sources) {
+        if (!match.sources.some((item) => same(item, source))) match.sources.push(source)
+      }
+      match.people = [...new Set([...match.people, ...event.people])]
+      match.issues = [...new Set([...match.issues, ...event.issues])]
+    }
+    return result.sort((a, b) => {
+      if (a.date !== b.date) return a.date < b.date ? -1 : 1
+      const x = a.sources[0]
+      const y = b.sources[0]
+      return (
+        x.name.localeCompare(y.name) ||
+        (x.page ?? 0) - (y.page ?? 0) ||
+        (x.line ?? 0) - (y.line ?? 0) ||
+        (x.timestamp ?? 0) - (y.timestamp ?? 0)
+      )
+    })
+  }
+
+  export function filter(events: Event[], filter: Filter) {
+    return events.filter(
+      (event) =>
+        (!filter.person || event.people.includes(filter.person)) &&
+        (!filter.issue || event.issues.includes(filter.issue)),
+    )
+  }
+
+  /**
+   * A source as it would be cited: "Lease.pdf, p. 4", "Deposition of Jane Doe 45:12 [0:12:03]"
+   */
+  export function cite(source: Source) {
+    if (source.line !== undefined) {
+      const at = source.timestamp !== undefined ? ` [${Deposition.timestamp(source.timestamp)}]` : ""
+      return `${source.name} ${source.page}:${source.line}${at}`
+    }
+    if (source.timestamp !== undefined) return `${source.name} [${Deposition.timestamp(source.timestamp)}]`
+    if (source.page !== undefined) return `${source.name}, p. ${source.page}`
+    return source.name
+  }
+
+  const COLUMNS = ["Date", "Event", "People", "Issues", "Sources"]
+
+  function row(event: Event) {
+    return [
+      event.date,
+      event.description,
+      event.people.join("; "),
+      event.issues.join("; "),
+      event.sources.map(cite).join("; "),
+    ]
+  }
+
+  export function csv(events: Event[]) {
+    return [COLUMNS, ...events.map(row)].map((cells) => cells.map(Csv.quote).join(",")).join("\n") + "\n"
+  }
+
+  /**
+   * Chronology as a markdown table, for the Case.dev Format pipeline
+   */
+  export function markdown(events: Event[], title = "Chronology") {
+    const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ")
+    return [
+      `# ${title}`,
+      "",
+      `| ${COLUMNS.join(" | ")} |`,
+      `| ${COLUMNS.map(() => "---").join(" | ")} |`,
+      ...events.map((event) => `| ${row(event).map(cell).join(" | ")} |`),
+      "",
+      `${events.length} event(s)`,
+      "",
+    ].join("\n")
+  }
+
+  function xml(text: string) {
+    return text
+      .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, " ")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+  }
+
+  const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`
+
+  const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+
+  const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`
+
+  // Column widths in characters, matching COLUMNS
+  const WIDTHS = [12, 80, 24, 24, 48]
+
+  /**
+   * Chronology as an Excel workbook. Dates are written as YYYY-MM-DD text so month-only dates sort with the rest;
+   * the header row is frozen and filterable.
+   */
+  export async function xlsx(events: Event[]) {
+    const rows = [COLUMNS, ...events.map(row)]
+    const last = String.fromCharCode(64 + COLUMNS.length)
+    const range = `A1:${last}${rows.length}`
+    const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><cols>${WIDTHS.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join("")}</cols><sheetData>${rows
+      .map(
+        (cells, r) =>
+          `<row r="${r + 1}">${cells
+            .map(
+              (value, c) =>
+                `<c r="${String.fromCharCode(65 + c)}${r + 1}" t="inlineStr"><is><t xml:space="preserve">${xml(value)}</t></is></c>`,
+            )
+            .join("")}</row>`,
+      )
+      .join("")}</sheetData><autoFilter ref="${range}"/></worksheet>`
+    const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Chronology" sheetId="1" r:id="rId1"/></sheets><definedNames><definedName name="_xlnm._FilterDatabase" localSheetId="0" hidden="1">Chronology!$A$1:$${last}$${rows.length}</definedName></definedNames></workbook>`
+
+    const writer = new ZipWriter(new BlobWriter("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"))
+    await writer.add("[Content_Types].xml", new TextReader(CONTENT_TYPES))
+    await writer.add("_rels/.rels", new TextReader(PACKAGE_RELS))
+    await writer.add("xl/_rels/workbook.xml.rels", new TextReader(WORKBOOK_RELS))
+    await writer.add("xl/workbook.xml", new TextReader(workbook))
+    await writer.add("xl/worksheets/sheet1.xml", new TextReader(sheet))
+    return new Uint8Array(await (await writer.close()).arrayBuffer())
+  }
+
+  /**
+   * Write a chronology file in the format its extension names
+   */
+  export async function write(file: string, events: Event[], title: string) {
+    const format = Format.parse(path.extname(file).slice(1).toLowerCase())
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    if (format === "xlsx") await Bun.write(file, await xlsx(events))
+    else await Bun.write(file, format === "csv" ? csv(events) : markdown(events, title))
+    return format
+  }
+
+  export async function save(input: Pick<Info, "title" | "events" | "file" | "format">) {
+    const project = Instance.project
+    const info: Info = {
+      ...input,
+      id: Identifier.ascending("chronology"),
+      projectID: project.id,
+      matterID: project.matter?.id,
+      time: {
+        created: Date.now(),
+      },
+    }
+    await Storage.write(["chronology", project.id, info.id], info)
+    return info
+  }
+
+  export async function get(chronologyID: string) {
+    return Storage.read<Info>(["chronology", Instance.project.id, chronologyID])
+  }
+
+  /**
+   * Chronologies built in a project, newest first
+   */
+  export async function list(projectID: string) {
+    const keys = await Storage.list(["chronology", projectID])
+    const items = await Promise.all(keys.map((key) => Storage.read<Info>(key).catch(() => undefined)))
+    return items
+      .filter((item): item is Info => !!item)
+      .sort((a, b) => b.time.created - a.time.created || b.id.localeCompare(a.id))
+  }
+
+  /**
+   * Render the rows of a chronology that pass a filter as PDF or DOCX with the casedev_format pipeline, next to the
+   * chronology file
+   */
+  export async function render(chronologyID: string, input: Filter & { format: "pdf" | "docx"; signal?: AbortSignal }) {
+    const info = await get(chronologyID)
+    const events = filter(info.events, input)
+    const label = [input.person, input.issue].filter(Boolean).join(", ")
+    const title = label ? `${info.title} (${label})` : info.title
+    const { data } = await DocumentFormat.render({
+      content: markdown(events, title),
+      output_format: input.format,
+      signal: input.signal,
+    })
+    const base = path.basename(info.file, path.extname(info.file))
+    const file = path.join(
+      path.dirname(info.file),
+      `${base}${label ? ` - ${label.replace(/[\\/:*?"<>|]+/g, "-")}` : ""}.${input.format}`,
+    )
+    await Bun.write(file, data)
+    return { file, events: events.length }
+  }
+}
@@ -0,0 +1,118 @@
+import type { Argv } from "yargs"
+import path from "path"
+import { cmd } from "./cmd"
+import { bootstrap } from "../bootstrap"
+import { UI } from "../ui"
+import { Billing } from "../../billing"
+import { Config } from "../../config/config"
+import { Instance } from "../../project/instance"
+import { Session } from "../../session"
+
+export const BillingCommand = cmd({
+  command: "billing",
+  describe: "manage time entries",
+  builder: (yargs: Argv) => yargs.command(BillingExportCommand).demandCommand(),
+  async handler() {},
+})
+
+export const BillingExportCommand = cmd({
+  command: "export",
+  describe: "export time entries as LEDES 1998B or CSV",
+  builder: (yargs: Argv) => {
+    return yargs
+      .option("format", {
+        describe: "output format",
+        type: "string",
+        choices: ["ledes", "csv"],
+        default: "ledes",
+      })
+      .option("output", {
+        alias: "o",
+        describe: "file to write (default: stdout)",
+        type: "string",
+      })
+      .option("from", {
+        describe: "first date to include (YYYY-MM-DD)",
+        type: "string",
+      })
+      .option("to", {
+        describe: "last date to include (YYYY-MM-DD)",
+        type: "string",
+      })
+      .option("session", {
+        describe: "only export entries for this session",
+        type: "string",
+      })
+      .option("invoice", {
+        describe: "invoice number (default: the matter ID and today's date)",
+        type: "string",
+      })
+      .option("rate", {
+        describe: "hourly rate (default: billing.rate in config)",
+        type: "number",
+      })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      for (const date of [args.from, args.to]) {
+        if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+          UI.error(`Invalid date: ${date}. Use YYYY-MM-DD.`)
+          return
+        }
+      }
+
+      // Sessions worked on in the range get fresh proposals; edited entries are kept as they are
+      const since = args.from ? new Date(`${args.from}T00:00:00`).getTime() : 0
+      for await (const session of Session.list()) {
+        if (session.parentID) continue
+        if (args.session && session.id !== args.session) continue
+        if (session.time.updated < since) continue
+        await Billing.propose(session.id)
+      }
+
+      const entries = await Billing.list(Instance.project.id, {
+        sessionID: args.session,
+        from: args.from,
+        to: args.to,
+      })
+      if (entries.length === 0) {
+        UI.error("No time entries found")
+        return
+      }
+
+      const config = await Config.get()
+      const rate = args.rate ?? config.billing?.rate
+      const matter = Instance.project.matter
+      const today = new Date().toISOString().slice(0, 10)
+      const output =
+        args.format === "csv"
+          ? Billing.csv(entries, rate)
+          : Billing.ledes(entries, {
+              number: args.invoice ?? [matter?.id, today.replace(/-/g, "")].filter(Boolean).join("-"),
+              date: today,
+              client: matter?.client,
+              matter: matter?.id,
+              description: matter?.caption,
+              lawFirmID: config.billing?.law_firm_id,
+              rate,
+              timekeeper: {
+                id: config.billing?.timekeeper_id,
+                name: config.billing?.timekeeper_name,
+                classification: config.billing?.timekeeper_classification,
+              },
+            })
+
+      if (!args.output) {
+        process.stdout.write(output)
+        return
+      }
+      const file = path.resolve(process.cwd(), args.output)
+      await Bun.write(file, output)
+      const hours = entries.reduce((sum, entry) => sum + entry.hours, 0)
+      UI.println(`Exported ${entries.length} time entries (${hours.toFixed(1)} hours) to ${file}`)
+      if (args.format === "ledes" && rate === undefined) {
+        UI.println("No hourly rate is set, so fees are 0.00. Pass --rate or set billing.rate in config.")
+      }
+    })
+  },
+})
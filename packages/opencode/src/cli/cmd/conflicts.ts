@@ -0,0 +1,71 @@
+import type { Argv } from "yargs"
+import path from "path"
+import { cmd } from "./cmd"
+import { bootstrap } from "../bootstrap"
+import { UI } from "../ui"
+import { Instance } from "../../project/instance"
+import { Matter } from "../../project/matter"
+import { Conflict } from "../../conflict"
+
+export const ConflictsCommand = cmd({
+  command: "conflicts <names..>",
+  describe: "check party names for conflicts against every matter on this machine",
+  builder: (yargs: Argv) => {
+    return yargs
+      .positional("names", {
+        describe: "names of the people and organizations to check",
+        type: "string",
+        array: true,
+        demandOption: true,
+      })
+      .option("role", {
+        alias: "r",
+        describe: "role of the parties in the new matter",
+        type: "string",
+        choices: Matter.Party.shape.role.unwrap().options,
+      })
+      .option("alias", {
+        alias: "a",
+        describe: "another name of the party, checked along with each name",
+        type: "string",
+        array: true,
+      })
+      .option("affiliate", {
+        describe: "parent company, subsidiary or other affiliate of the party",
+        type: "string",
+        array: true,
+      })
+      .option("threshold", {
+        alias: "t",
+        describe: "minimum name similarity for a match, from 0 to 1",
+        type: "number",
+        default: Conflict.DEFAULT_THRESHOLD,
+      })
+      .option("output", {
+        alias: "o",
+        describe: "save the conflicts report to this markdown file",
+        type: "string",
+      })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const parties = args.names.map((name) => ({
+        name,
+        role: args.role as Matter.Party["role"] | undefined,
+        aliases: args.alias,
+        affiliates: args.affiliate,
+      }))
+      const entries = await Conflict.index()
+      const hits = await Conflict.check(parties, { threshold: args.threshold })
+      const matters = entries.filter((entry) => entry.projectID !== Instance.project.id).length
+      const report = Conflict.report(parties, hits, { matter: Instance.project.matter?.id, matters })
+
+      if (args.output) {
+        const file = path.resolve(process.cwd(), args.output)
+        await Bun.write(file, report)
+        UI.println(`Conflicts report: ${file}`)
+      }
+      UI.println(report)
+    })
+  },
+})
@@ -0,0 +1,29 @@
+import { EOL } from "os"
+import path from "path"
+import { CaseDevEmulator } from "../../../tool/casedev/emulator"
+import { cmd } from "../cmd"
+
+export const CaseDevCommand = cmd({
+  command: "casedev",
+  describe: "run a local Case.dev API emulator until interrupted",
+  builder: (yargs) =>
+    yargs
+      .option("port", {
+        type: "number",
+        description: "Port to listen on (default: a free port)",
+      })
+      .option("fixtures", {
+        type: "string",
+        description: "JSON file with vaults, document text, transcripts and research results to serve",
+      }),
+  async handler(args) {
+    const fixtures = args.fixtures
+      ? CaseDevEmulator.Fixtures.parse(await Bun.file(path.resolve(process.cwd(), args.fixtures)).json())
+      : undefined
+    const emulator = CaseDevEmulator.start({ port: args.port, fixtures })
+    process.stdout.write(`Case.dev emulator listening on ${emulator.url}` + EOL)
+    process.stdout.write(`Run Thurgood with CASEDEV_API_URL=${emulator.url} CASEDEV_API_KEY=test` + EOL)
+    await new Promise<void>((resolve) => process.once("SIGINT", resolve))
+    await emulator.stop()
+  },
+})
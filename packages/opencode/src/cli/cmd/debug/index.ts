@@ -1,6 +1,7 @@
 import { Global } from "../../../global"
 import { bootstrap } from "../../bootstrap"
 import { cmd } from "../cmd"
+import { CaseDevCommand } from "./casedev"
 import { ConfigCommand } from "./config"
 import { FileCommand } from "./file"
 import { LSPCommand } from "./lsp"
@@ -8,18 +9,21 @@ import { RipgrepCommand } from "./ripgrep"
 import { ScrapCommand } from "./scrap"
 import { SkillCommand } from "./skill"
 import { SnapshotCommand } from "./snapshot"
+import { TemplateCommand } from "./template"
 
 export const DebugCommand = cmd({
   command: "debug",
   builder: (yargs) =>
     yargs
       .command(ConfigCommand)
+      .command(CaseDevCommand)
       .command(LSPCommand)
       .command(RipgrepCommand)
       .command(FileCommand)
       .command(ScrapCommand)
       .command(SkillCommand)
       .command(SnapshotCommand)
+      .command(TemplateCommand)
       .command(PathsCommand)
       .command({
         command: "wait",
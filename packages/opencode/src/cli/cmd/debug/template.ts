@@ -0,0 +1,21 @@
+import { EOL } from "os"
+import { Template } from "../../../template"
+import { bootstrap } from "../../bootstrap"
+import { cmd } from "../cmd"
+
+export const TemplateCommand = cmd({
+  command: "template",
+  builder: (yargs) => yargs,
+  async handler() {
+    await bootstrap(process.cwd(), async () => {
+      const templates = await Template.all()
+      process.stdout.write(
+        JSON.stringify(
+          templates.map(({ content, ...template }) => template),
+          null,
+          2,
+        ) + EOL,
+      )
+    })
+  },
+})
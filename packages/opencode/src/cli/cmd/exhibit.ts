@@ -0,0 +1,100 @@
+import type { Argv } from "yargs"
+import path from "path"
+import { cmd } from "./cmd"
+import { bootstrap } from "../bootstrap"
+import { UI } from "../ui"
+import { Exhibit } from "../../tool/casedev/exhibit"
+
+export const ExhibitCommand = cmd({
+  command: "exhibits <files..>",
+  describe: "Bates-stamp PDFs as numbered exhibits and write an exhibit index",
+  builder: (yargs: Argv) => {
+    return yargs
+      .positional("files", {
+        describe: "PDFs in exhibit order; use vault://<vault_id>/<object_id> for a vault object",
+        type: "string",
+        array: true,
+        demandOption: true,
+      })
+      .option("prefix", {
+        alias: "p",
+        describe: "Bates prefix, e.g. ACME",
+        type: "string",
+        default: "",
+      })
+      .option("start", {
+        describe: "first Bates number",
+        type: "number",
+        default: 1,
+      })
+      .option("digits", {
+        describe: "digits in the Bates number",
+        type: "number",
+        default: 6,
+      })
+      .option("position", {
+        describe: "where the Bates number goes on the page",
+        type: "string",
+        choices: Exhibit.Position.options,
+        default: "bottom-right",
+      })
+      .option("letters", {
+        describe: "letter exhibits A, B, C instead of numbering them",
+        type: "boolean",
+      })
+      .option("description", {
+        alias: "d",
+        describe: "exhibit description, once per file in order (default: the file name)",
+        type: "string",
+        array: true,
+      })
+      .option("output", {
+        alias: "o",
+        describe: "folder for the stamped exhibits and index",
+        type: "string",
+        default: "Exhibits",
+      })
+      .option("index", {
+        describe: "exhibit index format",
+        type: "string",
+        choices: ["docx", "csv", "both"],
+        default: "both",
+      })
+      .option("title", {
+        describe: "title of the exhibit index",
+        type: "string",
+      })
+  },
+  handler: async (args) => {
+    await bootstrap(process.cwd(), async () => {
+      const exhibits = args.files.map((file, i) => {
+        const description = args.description?.[i]
+        const match = file.match(/^vault:\/\/([^/]+)\/([^/]+)$/)
+        if (match) return { vault_id: match[1], object_id: match[2], description }
+        return { file: path.resolve(process.cwd(), file), description }
+      })
+
+      const result = await Exhibit.build({
+        exhibits,
+        prefix: args.prefix,
+        start: args.start,
+        digits: args.digits,
+        position: args.position as Exhibit.Position,
+        numbering: args.letters ? "letters" : "numbers",
+        output: path.resolve(process.cwd(), args.output),
+        index: args.index as "docx" | "csv" | "both",
+        title: args.title,
+      }).catch((error) => {
+        UI.error(error instanceof Error ? error.message : String(error))
+      })
+      if (!result) return
+
+      for (const item of result.items) {
+        UI.println(`Exhibit ${item.exhibit}  ${item.begin}-${item.end}  ${item.pages} page(s)  ${item.description}`)
+      }
+      for (const file of result.index) UI.println(`Exhibit index: ${file}`)
+      for (const warning of result.warnings) UI.error(warning)
+      UI.println(`Next Bates number: ${Exhibit.label(args.prefix, result.next, args.digits)}`)
+    })
+  },
+})
@@ -0,0 +1,119 @@
+import { createMemo, createResource, createSignal } from "solid-js"
+import type { BillingEntry } from "@opencode-ai/sdk/v2"
+import { DialogSelect } from "@tui/ui/dialog-select"
+import { DialogPrompt } from "@tui/ui/dialog-prompt"
+import { useDialog } from "@tui/ui/dialog"
+import { useSDK } from "@tui/context/sdk"
+import { useTheme } from "@tui/context/theme"
+import { Keybind } from "@/util/keybind"
+import { Locale } from "@/util/locale"
+
+type Field = "hours" | "narrative" | "task" | "activity" | "date"
+
+const FIELDS: { field: Field; title: string; placeholder: string }[] = [
+  { field: "hours", title: "Hours", placeholder: "0.1" },
+  { field: "narrative", title: "Narrative", placeholder: "Description of the work" },
+  { field: "task", title: "Task code", placeholder: "UTBMS task code, e.g. L110" },
+  { field: "activity", title: "Activity code", placeholder: "UTBMS activity code, e.g. A103" },
+  { field: "date", title: "Date", placeholder: "YYYY-MM-DD" },
+]
+
+export function DialogBilling(props: { sessionID: string }) {
+  const dialog = useDialog()
+  const sdk = useSDK()
+  const { theme } = useTheme()
+  const [toDelete, setToDelete] = createSignal<string>()
+
+  // Proposing refreshes entries nobody has edited yet, so the list reflects the latest activity
+  const [entries, { mutate }] = createResource(async () => {
+    const result = await sdk.client.billing.propose({ sessionID: props.sessionID })
+    return result.data ?? []
+  })
+
+  const options = createMemo(() =>
+    (entries() ?? []).map((entry) => ({
+      title: toDelete() === entry.id ? "Press ctrl+d again to confirm" : Locale.truncate(entry.narrative, 60),
+      bg: toDelete() === entry.id ? theme.error : undefined,
+      value: entry,
+      description: `${entry.hours.toFixed(1)}h`,
+      footer: [entry.date, entry.task, entry.activity, entry.time.edited ? "edited" : "proposed"]
+        .filter(Boolean)
+        .join(" · "),
+    })),
+  )
+
+  return (
+    <DialogSelect
+      title="Time entries"
+      options={options()}
+      onMove={() => setToDelete(undefined)}
+      onSelect={(option) => {
+        dialog.replace(() => <DialogBillingEntry entry={option.value} />)
+      }}
+      keybind={[
+        {
+          keybind: Keybind.parse("ctrl+d")[0],
+          title: "delete",
+          onTrigger: async (option) => {
+            if (toDelete() !== option.value.id) {
+              setToDelete(option.value.id)
+              return
+            }
+            await sdk.client.billing.remove({ entryID: option.value.id })
+            mutate((entries() ?? []).filter((entry) => entry.id !== option.value.id))
+            setToDelete(undefined)
+          },
+        },
+      ]}
+    />
+  )
+}
+
+function DialogBillingEntry(props: { entry: BillingEntry }) {
+  const dialog = useDialog()
+  const sdk = useSDK()
+  const [entry, setEntry] = createSignal(props.entry)
+
+  const options = createMemo(() =>
+    FIELDS.map((item) => {
+      const value = entry()[item.field]
+      return {
+        title: item.title,
+        value: item,
+        description: typeof value === "number" ? value.toFixed(1) : Locale.truncate(value ?? "", 60),
+      }
+    }),
+  )
+
+  const edit = async (item: (typeof FIELDS)[number]) => {
+    const current = entry()[item.field]
+    const value = await DialogPrompt.show(dialog, item.title, {
+      value: current === undefined ? "" : String(current),
+      placeholder: item.placeholder,
+    })
+    if (value !== null) {
+      const text = value.trim()
+      const hours = Number(text)
+      const valid =
+        item.field === "hours"
+          ? text !== "" && Number.isFinite(hours) && hours >= 0
+          : item.field !== "date" || /^\d{4}-\d{2}-\d{2}$/.test(text)
+      if (valid) {
+        const result = await sdk.client.billing.update({
+          entryID: entry().id,
+          [item.field]: item.field === "hours" ? hours : text,
+        })
+        if (result.data) setEntry(result.data)
+      }
+    }
+    dialog.replace(() => <DialogBillingEntry entry={entry()} />)
+  }
+
+  return (
+    <DialogSelect
+      title={`Time entry · ${entry().date}`}
+      options={options()}
+      onSelect={(option) => edit(option.value)}
+    />
+  )
+}
@@ -6,6 +6,7 @@ import type {
   Part,
   Config,
   Todo,
+  CaseDevJob,
   Command,
   Permission,
   LspStatus,
@@ -52,6 +53,9 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
       todo: {
         [sessionID: string]: Todo[]
       }
+      job: {
+        [sessionID: string]: CaseDevJob[]
+      }
       message: {
         [sessionID: string]: Message[]
       }
@@ -83,6 +87,7 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
       session_status: {},
       session_diff: {},
       todo: {},
+      job: {},
       message: {},
       part: {},
       lsp: [],
@@ -136,6 +141,27 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
           setStore("todo", event.properties.sessionID, event.properties.todos)
           break
 
+        case "casedev.job.updated": {
+          const jobs = store.job[event.properties.sessionID]
+          if (!jobs) {
+            setStore("job", event.properties.sessionID, [event.properties])
+            break
+          }
+          const match = Binary.search(jobs, event.properties.id, (j) => j.id)
+          setStore(
+            "job",
+            event.properties.sessionID,
+            produce((draft) => {
+              if (match.found) {
+                draft[match.index] = event.properties
+                return
+              }
+              draft.splice(match.index, 0, event.properties)
+            }),
+          )
+          break
+        }
+
         case "session.diff":
           setStore("session_diff", event.properties.sessionID, event.properties.diff)
           break
@@ -343,11 +369,12 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
         },
         async sync(sessionID: string) {
           if (fullSyncedSessions.has(sessionID)) return
-          const [session, messages, todo, diff] = await Promise.all([
+          const [session, messages, todo, diff, job] = await Promise.all([
             sdk.client.session.get({ sessionID }, { throwOnError: true }),
             sdk.client.session.messages({ sessionID, limit: 100 }),
             sdk.client.session.todo({ sessionID }),
             sdk.client.session.diff({ sessionID }),
+            sdk.client.session.job({ sessionID }),
           ])
           setStore(
             produce((draft) => {
@@ -355,6 +382,7 @@ export const { use: useSync, provider: SyncProvider } = createSimpleContext({
               if (match.found) draft.session[match.index] = session.data!
               if (!match.found) draft.session.splice(match.index, 0, session.data!)
               draft.todo[sessionID] = todo.data ?? []
+              draft.job[sessionID] = job.data ?? []
               draft.message[sessionID] = messages.data!.map((x) => x.info)
               for (const message of messages.data!) {
                 draft.part[message.info.id] = message.parts
@@ -40,6 +40,9 @@ import type { EditTool } from "@/tool/edit"
 import type { PatchTool } from "@/tool/patch"
 import type { WebFetchTool } from "@/tool/webfetch"
 import type { TaskTool } from "@/tool/task"
+import type { VaultSearchTool } from "@/tool/casedev/vault"
+import type { LegalResearch, LegalSearchTool } from "@/tool/casedev/search"
+import { VaultProvenance } from "@/tool/casedev/provenance"
 import { useKeyboard, useRenderer, useTerminalDimensions, type BoxProps, type JSX } from "@opentui/solid"
 import { useSDK } from "@tui/context/sdk"
 import { useCommandDialog } from "@tui/component/dialog-command"
@@ -55,6 +58,7 @@ import { DialogConfirm } from "@tui/ui/dialog-confirm"
 import { DialogTimeline } from "./dialog-timeline"
 import { DialogForkFromTimeline } from "./dialog-fork-from-timeline"
 import { DialogSessionRename } from "../../component/dialog-session-rename"
+import { DialogBilling } from "../../component/dialog-billing"
 import { Sidebar } from "./sidebar"
 import { LANGUAGE_EXTENSIONS } from "@/lsp/language"
 import parsers from "../../../../../../parsers-config.ts"
@@ -67,6 +71,7 @@ import { Footer } from "./footer.tsx"
 import { usePromptRef } from "../../context/prompt"
 import { Filesystem } from "@/util/filesystem"
 import { DialogExportOptions } from "../../ui/dialog-export-options"
+import open from "open"
 
 addDefaultParsers(parsers.parsers)
 
@@ -333,6 +338,14 @@ export function Session() {
         dialog.replace(() => <DialogSessionRename session={route.sessionID} />)
       },
     },
+    {
+      title: "Time entries",
+      value: "session.billing",
+      category: "Session",
+      onSelect: (dialog) => {
+        dialog.replace(() => <DialogBilling sessionID={route.sessionID} />)
+      },
+    },
     {
       title: "Jump to message",
       value: "session.timeline",
@@ -1764,6 +1777,77 @@ ToolRegistry.register({
   },
 })
 
+ToolRegistry.register<typeof VaultSearchTool>({
+  name: "casedev_vault_search",
+  container: "block",
+  render(props) {
+    const { theme } = useTheme()
+    const metadata = props.metadata as Record<string, any>
+    const citations = createMemo(() => (metadata.citations ?? []) as VaultProvenance.Source[])
+    return (
+      <>
+        <ToolTitle icon="◇" fallback="Searching vault..." when={props.input.query}>
+          Vault Search "{props.input.query}"{" "}
+          <Show when={metadata.resultCount !== undefined}>
+            ({metadata.resultCount} results{metadata.offline ? ", offline" : ""})
+          </Show>
+        </ToolTitle>
+        <Show when={citations().length}>
+          <box>
+            <For each={citations()}>
+              {(citation, index) => (
+                <text
+                  fg={theme.textMuted}
+                  onMouseUp={() => {
+                    if (citation.link) open(citation.link).catch(() => {})
+                  }}
+                >
+                  {index() === citations().length - 1 ? "└" : "├"} {VaultProvenance.cite(citation)}
+                  <Show when={citation.link}>
+                    <span style={{ fg: theme.primary }}> {citation.link}</span>
+                  </Show>
+                </text>
+              )}
+            </For>
+          </box>
+        </Show>
+      </>
+    )
+  },
+})
+
+ToolRegistry.register<typeof LegalSearchTool>({
+  name: "casedev_search",
+  container: "block",
+  render(props) {
+    const { theme } = useTheme()
+    const metadata = props.metadata as Record<string, any>
+    const steps = createMemo(() => (metadata.steps ?? []) as LegalResearch.Step[])
+    const sources = createMemo(() => (metadata.sources ?? []) as LegalResearch.Source[])
+    const running = createMemo(() => props.output === undefined)
+    return (
+      <>
+        <ToolTitle icon="◈" fallback="Researching..." when={props.input.query}>
+          Research "{props.input.query}" <Show when={sources().length}>({sources().length} sources)</Show>
+        </ToolTitle>
+        <Show when={running() && steps().at(-1)}>{(step) => <text fg={theme.textMuted}>└ {step().text}</text>}</Show>
+        <Show when={!running() && sources().length}>
+          <box>
+            <For each={sources()}>
+              {(source, index) => (
+                <text fg={theme.textMuted} onMouseUp={() => open(source.url).catch(() => {})}>
+                  {index() === sources().length - 1 ? "└" : "├"} {source.title}
+                  <span style={{ fg: theme.primary }}> {source.url}</span>
+                </text>
+              )}
+            </For>
+          </box>
+        </Show>
+      </>
+    )
+  },
+})
+
 ToolRegistry.register<typeof EditTool>({
   name: "edit",
   container: "block",
@@ -18,12 +18,14 @@ export function Sidebar(props: { sessionID: string }) {
   const session = createMemo(() => sync.session.get(props.sessionID)!)
   const diff = createMemo(() => sync.data.session_diff[props.sessionID] ?? [])
   const todo = createMemo(() => sync.data.todo[props.sessionID] ?? [])
+  const job = createMemo(() => sync.data.job[props.sessionID] ?? [])
   const messages = createMemo(() => sync.data.message[props.sessionID] ?? [])
 
   const [expanded, setExpanded] = createStore({
     mcp: true,
     diff: true,
     todo: true,
+    job: true,
     lsp: true,
   })
 
@@ -219,6 +221,59 @@ export function Sidebar(props: { sessionID: string }) {
                 </Show>
               </box>
             </Show>
+            <Show when={job().length > 0}>
+              <box>
+                <box
+                  flexDirection="row"
+                  gap={1}
+                  onMouseDown={() => job().length > 2 && setExpanded("job", !expanded.job)}
+                >
+                  <Show when={job().length > 2}>
+                    <text fg={theme.text}>{expanded.job ? "▼" : "▶"}</text>
+                  </Show>
+                  <text fg={theme.text}>
+                    <b>Jobs</b>
+                    <Show when={!expanded.job}>
+                      <span style={{ fg: theme.textMuted }}>
+                        {" "}
+                        ({job().filter((x) => x.status === "pending" || x.status === "running").length} active)
+                      </span>
+                    </Show>
+                  </text>
+                </box>
+                <Show when={job().length <= 2 || expanded.job}>
+                  <For each={job()}>
+                    {(item) => (
+                      <box flexDirection="row" gap={1}>
+                        <text
+                          flexShrink={0}
+                          style={{
+                            fg: {
+                              pending: theme.textMuted,
+                              running: theme.warning,
+                              completed: theme.success,
+                              failed: theme.error,
+                            }[item.status],
+                          }}
+                        >
+                          •
+                        </text>
+                        <text fg={theme.textMuted} wrapMode="word">
+                          {item.title}{" "}
+                          <Switch>
+                            <Match when={item.status === "running" && item.progress !== undefined}>
+                              {item.progress}%
+                            </Match>
+                            <Match when={item.status === "failed"}>{item.error ?? "failed"}</Match>
+                            <Match when={true}>{item.status}</Match>
+                          </Switch>
+                        </text>
+                      </box>
+                    )}
+                  </For>
+                </Show>
+              </box>
+            </Show>
             <Show when={diff().length > 0}>
               <box>
                 <box
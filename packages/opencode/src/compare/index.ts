@@ -0,0 +1,155 @@
+import path from "path"
+import { readableStreamToText } from "bun"
+import { BlobWriter, TextReader, ZipWriter } from "@zip.js/zip.js"
+import { Redline } from "@opencode-ai/util/redline"
+import { Docx } from "../extract/docx"
+import { Xml } from "../extract/xml"
+import { Extract } from "../extract"
+
+/**
+ * Document comparison: paragraphs from two versions of a DOCX, PDF or text draft are compared word by word, and
+ * the result can be written out as a Word document with tracked changes.
+ */
+export namespace Compare {
+  export const EXTENSIONS = [".docx", ".pdf", ".md", ".txt"]
+
+  /**
+   * Paragraphs of a PDF, from pdftotext
+   */
+  export async function pdf(filepath: string) {
+    if (Bun.which("pdftotext") === null) {
+      throw new Error("Comparing PDFs needs pdftotext (poppler-utils) to extract their text")
+    }
+    const proc = Bun.spawn({ cmd: ["pdftotext", "-enc", "UTF-8", filepath, "-"], stdout: "pipe", stderr: "pipe" })
+    const [stdout, stderr, exit] = await Promise.all([
+      readableStreamToText(proc.stdout),
+      readableStreamToText(proc.stderr),
+      proc.exited,
+    ])
+    if (exit !== 0) throw new Error(`pdftotext exited with code ${exit}: ${stderr.trim().slice(0, 500)}`)
+    return blocks(stdout.replace(/\f/g, "\n\n"))
+  }
+
+  /**
+   * Paragraphs of plain text separated by blank lines, with wrapped lines joined
+   */
+  export function blocks(text: string) {
+    return text
+      .split(/\n\s*\n/)
+      .map((block) =>
+        block
+          .split("\n")
+          .map((line) => line.trim())
+          .filter(Boolean)
+          .reduce((result, line) => (result.endsWith("-") ? result + line : result ? `${result} ${line}` : line), ""),
+      )
+      .filter(Boolean)
+  }
+
+  export async function paragraphs(filepath: string) {
+    const ext = path.extname(filepath).toLowerCase()
+    if (ext === ".docx") {
+      const part = await Xml.open(await Bun.file(filepath).bytes())
+      const document = await part("word/document.xml")
+      if (!document) throw new Error(`Not a Word document: ${filepath}`)
+      return Docx.paragraphs(document, true).filter((line) => line.trim())
+    }
+    if (ext === ".pdf") return pdf(filepath)
+    if (Extract.supported(filepath)) return (await Extract.text(filepath)).split("\n").filter((line) => line.trim())
+    return blocks(await Bun.file(filepath).text())
+  }
+
+  export async function compare(original: string, revised: string) {
+    const [before, after] = await Promise.all([paragraphs(original), paragraphs(revised)])
+    return Redline.compare(before, after)
+  }
+
+  function escape(text: string) {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+  }
+
+  const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/></Types>`
+
+  const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`
+
+  const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings" Target="settings.xml"/></Relationships>`
+
+  // Edits the client makes to the redline are tracked too
+  const SETTINGS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:settings xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:trackRevisions/></w:settings>`
+
+  /**
+   * WordprocessingML body with each change as a tracked insertion, deletion or move
+   */
+  export function document(result: Redline.Result, author: string, date = new Date()) {
+    let id = 0
+    const stamp = `w:author="${escape(author)}" w:date="${date.toISOString().replace(/\.\d{3}Z$/, "Z")}"`
+    const run = (text: string, deleted = false) =>
+      deleted
+        ? `<w:r><w:delText xml:space="preserve">${escape(text)}</w:delText></w:r>`
+        : `<w:r><w:t xml:space="preserve">${escape(text)}</w:t></w:r>`
+    const change = (segment: Redline.Segment) => {
+      if (segment.type === "equal") return run(segment.text)
+      if (segment.type === "insert") return `<w:ins w:id="${++id}" ${stamp}>${run(segment.text)}</w:ins>`
+      return `<w:del w:id="${++id}" ${stamp}>${run(segment.text, true)}</w:del>`
+    }
+
+    const body = result.paragraphs.map((paragraph) => {
+      const text = paragraph.segments.map((segment) => segment.text).join("")
+      switch (paragraph.type) {
+        case "equal":
+        case "modify":
+          return `<w:p>${paragraph.segments.map(change).join("")}</w:p>`
+        // The paragraph mark is tracked too, so accepting the change removes or keeps the whole paragraph
+        case "insert":
+          return `<w:p><w:pPr><w:rPr><w:ins w:id="${++id}" ${stamp}/></w:rPr></w:pPr>${change(paragraph.segments[0])}</w:p>`
+        case "delete":
+          return `<w:p><w:pPr><w:rPr><w:del w:id="${++id}" ${stamp}/></w:rPr></w:pPr>${change(paragraph.segments[0])}</w:p>`
+        case "move-from": {
+          const range = ++id
+          return [
+            `<w:p><w:pPr><w:rPr><w:moveFrom w:id="${++id}" ${stamp}/></w:rPr></w:pPr>`,
+            `<w:moveFromRangeStart w:id="${range}" w:name="move${paragraph.move}" ${stamp}/>`,
+            `<w:moveFrom w:id="${++id}" ${stamp}>${run(text)}</w:moveFrom>`,
+            `<w:moveFromRangeEnd w:id="${range}"/></w:p>`,
+          ].join("")
+        }
+        case "move-to": {
+          const range = ++id
+          // Words changed after the move are ordinary insertions and deletions inside the moved paragraph
+          const content = paragraph.segments
+            .map((segment) =>
+              segment.type === "equal"
+                ? `<w:moveTo w:id="${++id}" ${stamp}>${run(segment.text)}</w:moveTo>`
+                : change(segment),
+            )
+            .join("")
+          return [
+            `<w:p><w:pPr><w:rPr><w:moveTo w:id="${++id}" ${stamp}/></w:rPr></w:pPr>`,
+            `<w:moveToRangeStart w:id="${range}" w:name="move${paragraph.move}" ${stamp}/>`,
+            content,
+            `<w:moveToRangeEnd w:id="${range}"/></w:p>`,
+          ].join("")
+        }
+      }
+    })
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body.join("")}</w:body></w:document>`
+  }
+
+  export async function docx(result: Redline.Result, author: string, date?: Date) {
+    const writer = new ZipWriter(
+      new BlobWriter("application/vnd.openxmlformats-officedocument.wordprocessingml.document"),
+    )
+    await writer.add("[Content_Types].xml", new TextReader(CONTENT_TYPES))
+    await writer.add("_rels/.rels", new TextReader(PACKAGE_RELS))
+    await writer.add("word/_rels/document.xml.rels", new TextReader(DOCUMENT_RELS))
+    await writer.add("word/settings.xml", new TextReader(SETTINGS))
+    await writer.add("word/document.xml", new TextReader(document(result, author, date)))
+    return new Uint8Array(await (await writer.close()).arrayBuffer())
+  }
+}
@@ -155,7 +155,7 @@ export namespace Config {
     }
   })
 
-  const INVALID_DIRS = new Bun.Glob(`{${["agents", "commands", "plugins", "tools", "skills"].join(",")}}/`)
+  const INVALID_DIRS = new Bun.Glob(`{${["agents", "commands", "plugins", "tools", "skills", "templates"].join(",")}}/`)
   async function assertValid(dir: string) {
     const invalid = await Array.fromAsync(
       INVALID_DIRS.scan({
@@ -397,6 +397,29 @@ export namespace Config {
   })
   export type Command = z.infer<typeof Command>
 
+  export const Confidentiality = z
+    .object({
+      terms: z
+        .array(z.string())
+        .describe("Protected terms such as client names, case numbers and opposing parties, matched without case"),
+      action: z
+        .enum(["block", "ask", "scrub"])
+        .optional()
+        .describe(
+          "What to do when an outbound tool's arguments mention a protected term: block the call, ask first, or replace the terms (default: ask)",
+        ),
+      tools: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "More tools to check, as wildcard patterns. webfetch, websearch, codesearch, casedev_search and remote MCP tools are always checked",
+        ),
+    })
+    .meta({
+      ref: "ConfidentialityConfig",
+    })
+  export type Confidentiality = z.infer<typeof Confidentiality>
+
   export const Agent = z
     .object({
       model: z.string().optional(),
@@ -428,6 +451,9 @@ export namespace Config {
           external_directory: Permission.optional(),
         })
         .optional(),
+      confidentiality: Confidentiality.optional().describe(
+        "Confidentiality policy for this agent. Its terms are added to the project's, and its action replaces the project's",
+      ),
     })
     .catchall(z.any())
     .meta({
@@ -781,6 +807,58 @@ export namespace Config {
             error: "For custom LSP servers, 'extensions' array is required.",
           },
         ),
+      ocr: z
+        .object({
+          local: z.boolean().optional().describe("Set to false to never run OCR on this machine"),
+          command: z
+            .array(z.string())
+            .optional()
+            .describe(
+              "Command for local OCR instead of tesseract. $FILE is replaced with the document path; the text is read from stdout, with pages separated by form feeds",
+            ),
+          max_size: z
+            .number()
+            .int()
+            .positive()
+            .optional()
+            .describe("Largest file, in bytes, that is OCR'd locally (default 25 MB)"),
+        })
+        .optional()
+        .describe("Local OCR for scanned PDFs and images"),
+      billing: z
+        .object({
+          timekeeper_id: z.string().optional().describe("Timekeeper ID on exported time entries"),
+          timekeeper_name: z.string().optional(),
+          timekeeper_classification: z
+            .string()
+            .optional()
+            .describe("LEDES timekeeper classification, e.g. PT for partner or AS for associate"),
+          rate: z.number().positive().optional().describe("Hourly rate used for exported fees"),
+          law_firm_id: z.string().optional().describe("Law firm ID, usually its tax ID, for LEDES invoices"),
+          task: z
+            .string()
+            .optional()
+            .describe("UTBMS task code for entries with no more specific task (default: L120)"),
+          idle: z
+            .number()
+            .int()
+            .positive()
+            .optional()
+            .describe("Minutes without session activity after which the time is not billed (default: 10)"),
+        })
+        .optional()
+        .describe("Time entries proposed from session activity"),
+      casedev: z
+        .object({
+          url: z
+            .string()
+            .optional()
+            .describe(
+              "Base URL of the Case.dev API (default: https://api.case.dev). The CASEDEV_API_URL environment variable overrides it",
+            ),
+        })
+        .optional()
+        .describe("Case.dev API used by the casedev_* tools"),
       instructions: z.array(z.string()).optional().describe("Additional instruction files or patterns to include"),
       layout: Layout.optional().describe("@deprecated Always uses stretch layout."),
       permission: z
@@ -794,6 +872,9 @@ export namespace Config {
         })
         .optional(),
       tools: z.record(z.string(), z.boolean()).optional(),
+      confidentiality: Confidentiality.optional().describe(
+        "Terms that must not be sent to third parties by web search, web fetch and remote MCP tools",
+      ),
       enterprise: z
         .object({
           url: z.string().optional().describe("Enterprise URL"),
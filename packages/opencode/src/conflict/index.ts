@@ -0,0 +1,464 @@
+import z from "zod"
+import { Instance } from "../project/instance"
+import { Matter } from "../project/matter"
+import { Project } from "../project/project"
+import { Storage } from "../storage/storage"
+import { VaultMirror } from "../tool/casedev/mirror"
+import { Log } from "../util/log"
+
+/**
+ * Conflicts checks against a local index of the parties in every matter: the parties in the matter file, the
+ * caption, and the people, organizations and counsel named in the matter's mirrored vault documents. New party
+ * names are matched fuzzily against names, aliases and corporate affiliates.
+ */
+export namespace Conflict {
+  const log = Log.create({ service: "conflict" })
+
+  export const DEFAULT_THRESHOLD = 0.85
+
+  export const Party = Matter.Party.extend({
+    // matter, caption, or the file name of the document that names the party
+    source: z.string(),
+  })
+  export type Party = z.infer<typeof Party>
+
+  export const Entry = z.object({
+    projectID: z.string(),
+    matter: Matter.Info.pick({ id: true, client: true, caption: true }),
+    parties: Party.array(),
+    time: z.object({
+      indexed: z.number(),
+    }),
+  })
+  export type Entry = z.infer<typeof Entry>
+
+  export const Hit = z.object({
+    query: z.string(),
+    party: Party,
+    matched: z.string(),
+    via: z.enum(["name", "alias", "affiliate"]),
+    score: z.number(),
+    level: z.enum(["conflict", "review"]),
+    projectID: z.string(),
+    matter: Entry.shape.matter,
+  })
+  export type Hit = z.infer<typeof Hit>
+
+  const SUFFIXES = new Set([
+    "inc",
+    "incorporated",
+    "corp",
+    "corporation",
+    "co",
+    "company",
+    "llc",
+    "lc",
+    "ltd",
+    "limited",
+    "lp",
+    "llp",
+    "lllp",
+    "pllc",
+    "pc",
+    "pa",
+    "plc",
+    "na",
+    "gmbh",
+    "ag",
+    "sa",
+    "bv",
+    "nv",
+    "the",
+  ])
+  const HONORIFICS = new Set(["mr", "mrs", "ms", "miss", "dr", "hon", "jr", "sr", "ii", "iii", "iv", "esq"])
+
+  // A run of capitalized words, allowing the connecting words found in names
+  const NAME = String.raw`[A-Z][\w&'.,-]*(?:[ \t]+(?:[A-Z][\w&'.,-]*|&|of|and|the|de))*`
+  const ORGANIZATION = new RegExp(
+    String.raw`\b(${NAME}?),?[ \t]+(Inc\.?|Incorporated|Corp\.?|Corporation|Company|Co\.|LLC|L\.L\.C\.|Ltd\.?|Limited|L\.P\.|LP|LLP|L\.L\.P\.|PLLC|P\.C\.|P\.A\.|plc|N\.A\.|GmbH|AG|S\.A\.)(?![\w])`,
+    "g",
+  )
+  const LAW_FIRM = /(?:LLP|L\.L\.P\.|PLLC|P\.C\.|P\.A\.)$/
+  // The side of a case each party designation is on
+  const SIDES: Record<string, string> = {
+    plaintiff: "plaintiff",
+    petitioner: "plaintiff",
+    claimant: "plaintiff",
+    defendant: "defendant",
+    respondent: "defendant",
+    counterclaimant: "defendant",
+    appellant: "appellant",
+    appellee: "appellee",
+  }
+
+  /**
+   * Lowercase name tokens without punctuation, corporate suffixes or honorifics
+   */
+  export function tokens(name: string) {
+    return name
+      .toLowerCase()
+      .replace(/[.,'’]/g, "")
+      .split(/[^\p{L}\p{N}&]+/u)
+      .filter((token) => token && !SUFFIXES.has(token) && !HONORIFICS.has(token))
+  }
+
+  export function normalize(name: string) {
+    return tokens(name).join(" ")
+  }
+
+  function jaro(a: string, b: string) {
+    if (a === b) return 1
+    const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+    const matchedA = new Array(a.length).fill(false)
+    const matchedB = new Array(b.length).fill(false)
+    let matches = 0
+    for (let i = 0; i < a.length; i++) {
+      for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+        if (matchedB[j] || a[i] !== b[j]) continue
+        matchedA[i] = matchedB[j] = true
+        matches++
+        break
+      }
+    }
+    if (matches === 0) return 0
+    let transpositions = 0
+    for (let i = 0, j = 0; i < a.length; i++) {
+      if (!matchedA[i]) continue
+      while (!matchedB[j]) j++
+      if (a[i] !== b[j++]) transpositions++
+    }
+    return (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+  }
+
+  /**
+   * Jaro-Winkler similarity, which favors strings that share a prefix
+   */
+  export function jaroWinkler(a: string, b: string) {
+    const score = jaro(a, b)
+    let prefix = 0
+    while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++
+    return score + prefix * 0.1 * (1 - score)
+  }
+
+  function same(a: string, b: string) {
+    // An initial matches any name it abbreviates
+    if (a.length === 1 || b.length === 1) return a[0] === b[0]
+    return jaroWinkler(a, b) >= 0.92
+  }
+
+  /**
+   * Similarity of two names from 0 to 1. Word order, punctuation, corporate suffixes and honorifics are ignored,
+   * and misspelled or abbreviated words still count toward the match.
+   */
+  export function similarity(a: string, b: string) {
+    const left = tokens(a)
+    const right = tokens(b)
+    if (left.length === 0 || right.length === 0) return 0
+    if (left.join(" ") === right.join(" ")) return 1
+    const used = new Set<number>()
+    let common = 0
+    for (const token of left) {
+      const index = right.findIndex((other, i) => !used.has(i) && same(token, other))
+      if (index === -1) continue
+      used.add(index)
+      common++
+    }
+    // A single shared word, like a surname, is not enough to match a longer name
+    const dice = common < 2 && Math.max(left.length, right.length) > 1 ? 0 : (2 * common) / (left.length + right.length)
+    return Math.max(dice, jaroWinkler(left.join(" "), right.join(" ")))
+  }
+
+  function clean(name: string) {
+    return name
+      .replace(/\s+/g, " ")
+      .replace(
+        /^(?:(?:plaintiffs?|defendants?|petitioners?|respondents?|appellants?|appellees?|witness|deponent|and|by|of|to|from|for|with)\s+)+/i,
+        "",
+      )
+      .replace(/[\s,;:]+$/, "")
+      .trim()
+  }
+
+  const UPPERCASE = /^(?:LLP|LLC|PLLC|LLLP|LP|L\.L\.C\.|L\.L\.P\.|P\.C\.|P\.A\.|N\.A\.|II|III|IV|USA)$/
+
+  /**
+   * Names in all capitals, as in captions, in title case
+   */
+  function title(name: string) {
+    if (name !== name.toUpperCase()) return name
+    return name
+      .split(" ")
+      .map((word) =>
+        UPPERCASE.test(word.replace(/,$/, ""))
+          ? word
+          : word.toLowerCase().replace(/(^|-)(\p{L})/gu, (_, dash, letter) => dash + letter.toUpperCase()),
+      )
+      .join(" ")
+  }
+
+  /**
+   * The two sides of a caption such as "Acme Corp. v. Widget Co., et al."
+   */
+  export function caption(text: string) {
+    const sides = text.split(/\s+v(?:s)?\.?\s+/i)
+    if (sides.length !== 2) return []
+    return sides.map((side) => clean(side.replace(/,?\s+et\s+al\.?/i, "")))
+  }
+
+  /**
+   * People, organizations and counsel named in a document, with their roles where the text gives them. Parties
+   * on the client's side of the case are co-parties and those on the other side adverse; without a client, or
+   * when the client is not named, parties are only related.
+   */
+  export function entities(text: string, source: string, client?: string): Party[] {
+    const found = new Map<string, Party>()
+    const sides = new Map<string, string>()
+    const add = (
+      name: string,
+      role: Matter.Party["role"],
+      extra: Partial<Pick<Party, "aliases" | "affiliates">> & { side?: string } = {},
+    ) => {
+      const cleaned = title(clean(name))
+      const key = normalize(cleaned)
+      if (!key || key.length < 3) return
+      if (extra.side && !sides.has(key)) sides.set(key, extra.side)
+      const existing = found.get(key)
+      if (existing) {
+        // A role from a caption or signature block says more than a bare mention
+        if (existing.role === "related") existing.role = role
+        existing.aliases.push(...(extra.aliases ?? []).filter((alias) => !existing.aliases.includes(alias)))
+        existing.affiliates.push(...(extra.affiliates ?? []).filter((item) => !existing.affiliates.includes(item)))
+        return
+      }
+      found.set(key, { name: cleaned, role, aliases: extra.aliases ?? [], affiliates: extra.affiliates ?? [], source })
+    }
+
+    // Caption blocks: "ACME CORPORATION,\n    Plaintiff,"
+    for (const match of text.matchAll(
+      new RegExp(
+        String.raw`^[ \t]*(${NAME}?),?[ \t]*(?:\n[ \t]*)?(Plaintiff|Defendant|Petitioner|Respondent|Appellant|Appellee|Claimant|Counterclaimant|Intervenor)s?(?:[ \t-]+(?:Appellant|Appellee|Counter-?Defendant|Counterclaimant)s?)?[ \t]*[,.]?[ \t]*$`,
+        "gm",
+      ),
+    )) {
+      // Several parties on one side: "INITECH, LLC and JOHN Q. PUBLIC,"
+      for (const name of match[1].split(/,?\s+and\s+|;\s*/)) {
+        add(name, "related", { side: SIDES[match[2].toLowerCase()] })
+      }
+    }
+
+    // Signature blocks and appearances
+    for (const match of text.matchAll(/\/s\/\s*([A-Z][A-Za-z.'\- ]{2,60}?)\s*$/gm)) add(match[1], "counsel")
+    for (const match of text.matchAll(/^\s*([A-Z][\w&,.'\- ]{2,80}?(?:LLP|L\.L\.P\.|PLLC|P\.C\.|P\.A\.))\s*$/gm)) {
+      add(match[1], "counsel")
+    }
+
+    // Organizations, with defined short names, other names, and parents
+    for (const match of text.matchAll(ORGANIZATION)) {
+      const name = `${match[1]} ${match[2]}`
+      const after = text.slice(match.index! + match[0].length, match.index! + match[0].length + 200)
+      const aliases = [
+        ...after.matchAll(
+          /^\s*(?:\((?:hereinafter\s+)?(?:the\s+)?["“]([^"”]{2,60})["”]\)|,?\s*(?:a\/k\/a|d\/b\/a|f\/k\/a)\s+([^,;()\n]{2,60}))/gi,
+        ),
+      ].map((alias) =>
+        // The sentence may end after the other name
+        clean(alias[1] ?? alias[2]).replace(/(\b[A-Za-z]{4,})\.$/, "$1"),
+      )
+      const parent = after.match(
+        new RegExp(String.raw`^[^.]{0,40}?(?:[Ss]ubsidiary|[Aa]ffiliate|[Dd]ivision)\s+of\s+(?:[Tt]he\s+)?(${NAME})`),
+      )
+      add(name, LAW_FIRM.test(name) ? "counsel" : "related", {
+        aliases,
+        affiliates: parent ? [clean(parent[1])] : [],
+      })
+    }
+
+    // People introduced by their role, e.g. "Plaintiff Jane Roe" or "witness John Smith"
+    for (const match of text.matchAll(
+      /\b(Plaintiff|Defendant|Petitioner|Respondent|[Ww]itness|[Dd]eponent)s?\s+((?:Mr\.|Ms\.|Mrs\.|Dr\.)?\s*[A-Z][a-z]+(?:\s+[A-Z]\.)?\s+[A-Z][a-z]+(?:-[A-Z][a-z]+)?)/g,
+    )) {
+      const role = match[1].toLowerCase()
+      if (role === "witness" || role === "deponent") add(match[2], "witness")
+      else add(match[2], "related", { side: SIDES[role] })
+    }
+
+    const ours = client
+      ? [...sides].find(([key]) => similarity(found.get(key)!.name, client) >= DEFAULT_THRESHOLD)?.[1]
+      : undefined
+    if (ours) {
+      for (const [key, side] of sides) {
+        const party = found.get(key)!
+        if (party.role !== "related") continue
+        party.role =
+          similarity(party.name, client!) >= DEFAULT_THRESHOLD ? "client" : side === ours ? "co-party" : "adverse"
+      }
+    }
+    return [...found.values()]
+  }
+
+  /**
+   * The parties of a matter: those in the matter file, both sides of the caption, and the entities in its
+   * mirrored vault documents. The side of the caption that names the client is the client's.
+   */
+  export async function parties(matter: Matter.Info, projectID: string) {
+    const result: Party[] = matter.parties.map((party) => ({ ...party, source: "matter" }))
+    const known = (name: string) => result.some((party) => similarity(party.name, name) >= 0.95)
+    if (matter.client && !known(matter.client)) {
+      result.push({ name: matter.client, role: "client", aliases: [], affiliates: [], source: "matter" })
+    }
+    const sides = matter.caption ? caption(matter.caption) : []
+    const client = matter.client ? sides.findIndex((side) => similarity(side, matter.client!) >= DEFAULT_THRESHOLD) : -1
+    sides.forEach((side, i) => {
+      if (known(side)) return
+      const role = client === -1 ? "related" : i === client ? "co-party" : "adverse"
+      result.push({ name: side, role, aliases: [], affiliates: [], source: "caption" })
+    })
+
+    for (const vaultID of matter.vaults) {
+      const documents = await VaultMirror.list(vaultID, projectID).catch((error) => {
+        log.warn("failed to read vault mirror", { vaultID, error })
+        return []
+      })
+      for (const document of documents) {
+        for (const entity of entities(document.pages.join("\n"), document.filename, matter.client)) {
+          if (known(entity.name)) continue
+          result.push(entity)
+        }
+      }
+    }
+    return result
+  }
+
+  /**
+   * Rebuild the index entry of every matter this machine knows about
+   */
+  export async function index() {
+    const entries: Entry[] = []
+    for (const project of await Project.list()) {
+      if (!project?.matter) continue
+      const entry: Entry = {
+        projectID: project.id,
+        matter: { id: project.matter.id, client: project.matter.client, caption: project.matter.caption },
+        parties: await parties(project.matter, project.id),
+        time: { indexed: Date.now() },
+      }
+      await Storage.write(["conflict", project.id], entry)
+      entries.push(entry)
+    }
+    return entries
+  }
+
+  export async function list() {
+    const keys = await Storage.list(["conflict"])
+    return Promise.all(keys.map((key) => Storage.read<Entry>(key)))
+  }
+
+  function opposed(a?: Matter.Party["role"], b?: Matter.Party["role"]) {
+    const sides = [a, b].sort().join(" ")
+    return sides === "adverse client" || sides === "adverse co-party"
+  }
+
+  /**
+   * Match new parties against the index. Hits are graded "conflict" when the party was on the other side of a
+   * matter from the role it has now, and "review" otherwise. The current matter is left out.
+   */
+  export async function check(
+    input: { name: string; role?: Matter.Party["role"]; aliases?: string[]; affiliates?: string[] }[],
+    options: { threshold?: number; exclude?: string } = {},
+  ) {
+    const threshold = options.threshold ?? DEFAULT_THRESHOLD
+    const exclude = options.exclude ?? Instance.project.id
+    const entries = (await list()).filter((entry) => entry.projectID !== exclude)
+    const hits: Hit[] = []
+    for (const query of input) {
+      const names = [query.name, ...(query.aliases ?? [])]
+      for (const entry of entries) {
+        for (const party of entry.parties) {
+          const candidates: { matched: string; via: Hit["via"]; names: string[] }[] = [
+            { matched: party.name, via: "name", names },
+            ...party.aliases.map((alias) => ({ matched: alias, via: "alias" as const, names })),
+            // Affiliates on either side: the new party's parent in the index, or an indexed party's parent
+            ...party.affiliates.map((affiliate) => ({ matched: affiliate, via: "affiliate" as const, names })),
+            ...(query.affiliates ?? []).flatMap((affiliate) => [
+              { matched: party.name, via: "affiliate" as const, names: [affiliate] },
+              ...party.aliases.map((alias) => ({ matched: alias, via: "affiliate" as const, names: [affiliate] })),
+            ]),
+          ]
+          let best: { matched: string; via: Hit["via"]; score: number } | undefined
+          for (const candidate of candidates) {
+            for (const name of candidate.names) {
+              const score = similarity(name, candidate.matched)
+              if (score >= threshold && (!best || score > best.score)) best = { ...candidate, score }
+            }
+          }
+          if (!best) continue
+          hits.push({
+            query: query.name,
+            party,
+            matched: best.matched,
+            via: best.via,
+            score: Math.round(best.score * 100) / 100,
+            level: best.via !== "affiliate" && opposed(query.role, party.role) ? "conflict" : "review",
+            projectID: entry.projectID,
+            matter: entry.matter,
+          })
+        }
+      }
+    }
+    return hits.sort((a, b) => (a.level === b.level ? b.score - a.score : a.level === "conflict" ? -1 : 1))
+  }
+
+  /**
+   * Conflicts report in markdown, listing every hit for each new party
+   */
+  export function report(
+    input: { name: string; role?: string }[],
+    hits: Hit[],
+    options: { matter?: string; date?: string; matters?: number } = {},
+  ) {
+    const lines = [
+      `# Conflicts Report${options.matter ? `: ${options.matter}` : ""}`,
+      "",
+      `Date: ${options.date ?? new Date().toISOString().slice(0, 10)}`,
+      ...(options.matters !== undefined ? [`Matters searched: ${options.matters}`] : []),
+      "",
+    ]
+    for (const query of input) {
+      const found = hits.filter((hit) => hit.query === query.name)
+      lines.push(`## ${query.name}${query.role ? ` (${query.role})` : ""}`, "")
+      if (found.length === 0) {
+        lines.push("No matches.", "")
+        continue
+      }
+      lines.push(
+        "| Level | Matter | Party | Role | Matched | Score | Source |",
+        "| --- | --- | --- | --- | --- | --- | --- |",
+      )
+      for (const hit of found) {
+        const matter = [hit.matter.id, hit.matter.caption ?? hit.matter.client].filter(Boolean).join(" - ")
+        const matched = hit.via === "name" ? "name" : `${hit.via}: ${hit.matched}`
+        const cells = [
+          hit.level,
+          matter,
+          hit.party.name,
+          hit.party.role,
+          matched,
+          hit.score.toFixed(2),
+          hit.party.source,
+        ]
+        lines.push(`| ${cells.map((cell) => cell.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ")).join(" | ")} |`)
+      }
+      lines.push("")
+    }
+    const conflicts = hits.filter((hit) => hit.level === "conflict").length
+    lines.push(
+      conflicts > 0
+        ? `${conflicts} potential conflict(s) and ${hits.length - conflicts} other match(es) need attorney review.`
+        : hits.length > 0
+          ? `${hits.length} match(es) need attorney review.`
+          : "No matches found in the party index.",
+      "",
+    )
+    return lines.join("\n")
+  }
+}
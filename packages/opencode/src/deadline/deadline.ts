@@ -0,0 +1,518 @@
+import z from "zod"
+import path from "path"
+import { Config } from "../config/config"
+import { Instance } from "../project/instance"
+import { NamedError } from "@opencode-ai/util/error"
+import { Log } from "../util/log"
+
+/**
+ * Deadlines counted from a trigger event under a court's rule set. Periods are counted the way Fed. R. Civ. P.
+ * 6(a) counts them, with the rule set's holidays and the days it adds for the method of service. Firms add
+ * local and state rule sets as JSON or YAML files under deadline/ in a config directory.
+ */
+export namespace Deadline {
+  const log = Log.create({ service: "deadline" })
+
+  const DAY = 24 * 60 * 60 * 1000
+  const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const
+  const DATE = /^\d{4}-\d{2}-\d{2}$/
+
+  export const Holiday = z.union([
+    z.object({
+      name: z.string(),
+      // MM-DD every year, or YYYY-MM-DD once
+      date: z.string().regex(/^(\d{4}-)?\d{2}-\d{2}$/),
+      // A holiday on a Saturday is observed on the Friday before, one on a Sunday on the Monday after
+      observed: z.boolean().default(true),
+      since: z.number().int().optional(),
+    }),
+    z.object({
+      name: z.string(),
+      month: z.number().int().min(1).max(12),
+      weekday: z.enum(WEEKDAYS),
+      week: z.union([z.number().int().min(1).max(5), z.literal("last")]),
+      // Days after the weekday, e.g. 1 for the day after Thanksgiving
+      offset: z.number().int().default(0),
+      since: z.number().int().optional(),
+    }),
+  ])
+  export type Holiday = z.input<typeof Holiday>
+
+  export const Rule = z.object({
+    id: z.string(),
+    name: z.string(),
+    trigger: z.string(),
+    days: z.number().int().min(0),
+    direction: z.enum(["after", "before"]).default("after"),
+    // Court days skip weekends and holidays while counting; calendar days only roll the last day forward
+    unit: z.enum(["calendar", "court"]).default("calendar"),
+    // Whether the days added for the method of service apply, as they do for periods that run from service
+    service: z.boolean().default(false),
+    citation: z.string().optional(),
+    note: z.string().optional(),
+  })
+  export type Rule = z.infer<typeof Rule>
+
+  export const RuleSet = z.object({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    jurisdiction: z
+      .union([z.string(), z.string().array()])
+      .transform((value) => (Array.isArray(value) ? value : [value]))
+      .default([]),
+    // Another rule set whose holidays, service days and rules this one builds on, e.g. frcp for a district's local rules
+    extends: z.string().optional(),
+    federal_holidays: z.boolean().default(true),
+    holidays: Holiday.array().default([]),
+    // Days added to a period that runs from service, by method of service
+    service: z.record(z.string(), z.number().int().min(0)).default({}),
+    rules: Rule.array().default([]),
+  })
+
+  export const Info = z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    jurisdiction: z.string().array(),
+    federal_holidays: z.boolean(),
+    holidays: Holiday.array(),
+    service: z.record(z.string(), z.number()),
+    rules: Rule.array(),
+    location: z.string().optional(),
+  })
+  export type Info = z.infer<typeof Info>
+
+  export interface Result {
+    ruleset: string
+    rule: Pick<Rule, "id" | "name" | "citation" | "note">
+    trigger: { event: string; date: string }
+    service?: string
+    date: string
+    steps: string[]
+  }
+
+  export const InvalidError = NamedError.create(
+    "DeadlineRuleSetInvalidError",
+    z.object({
+      path: z.string(),
+      message: z.string().optional(),
+      issues: z.custom<z.core.$ZodIssue[]>().optional(),
+    }),
+  )
+
+  export const FEDERAL_HOLIDAYS: Holiday[] = [
+    { name: "New Year's Day", date: "01-01" },
+    { name: "Birthday of Martin Luther King, Jr.", month: 1, weekday: "monday", week: 3 },
+    { name: "Washington's Birthday", month: 2, weekday: "monday", week: 3 },
+    { name: "Memorial Day", month: 5, weekday: "monday", week: "last" },
+    { name: "Juneteenth National Independence Day", date: "06-19", since: 2021 },
+    { name: "Independence Day", date: "07-04" },
+    { name: "Labor Day", month: 9, weekday: "monday", week: 1 },
+    { name: "Columbus Day", month: 10, weekday: "monday", week: 2 },
+    { name: "Veterans Day", date: "11-11" },
+    { name: "Thanksgiving Day", month: 11, weekday: "thursday", week: 4 },
+    { name: "Christmas Day", date: "12-25" },
+  ]
+
+  export const FRCP: Info = {
+    ...RuleSet.parse({
+      description: "Federal Rules of Civil Procedure and Federal Rules of Appellate Procedure",
+      jurisdiction: ["federal", "fed"],
+      // Fed. R. Civ. P. 6(d): service by mail, by leaving with the clerk, or by other consented means adds 3 days
+      service: { personal: 0, electronic: 0, mail: 3, clerk: 3, other: 3 },
+      rules: [
+        {
+          id: "answer",
+          name: "Answer to complaint",
+          trigger: "service_of_summons",
+          days: 21,
+          citation: "Fed. R. Civ. P. 12(a)(1)(A)(i)",
+        },
+        {
+          id: "answer_waiver",
+          name: "Answer after waiving service",
+          trigger: "waiver_sent",
+          days: 60,
+          citation: "Fed. R. Civ. P. 12(a)(1)(A)(ii)",
+          note: "90 days if the request for waiver was sent outside the United States",
+        },
+        {
+          id: "answer_us",
+          name: "Answer by the United States or its agency or officer",
+          trigger: "service_on_us_attorney",
+          days: 60,
+          citation: "Fed. R. Civ. P. 12(a)(2)",
+        },
+        {
+          id: "reply_counterclaim",
+          name: "Answer to counterclaim or crossclaim",
+          trigger: "service_of_counterclaim",
+          days: 21,
+          service: true,
+          citation: "Fed. R. Civ. P. 12(a)(1)(B)",
+        },
+        {
+          id: "amend_as_of_course",
+          name: "Amend pleading once as a matter of course",
+          trigger: "service_of_responsive_pleading",
+          days: 21,
+          service: true,
+          citation: "Fed. R. Civ. P. 15(a)(1)(B)",
+        },
+        {
+          id: "interrogatories",
+          name: "Answers and objections to interrogatories",
+          trigger: "service_of_discovery",
+          days: 30,
+          service: true,
+          citation: "Fed. R. Civ. P. 33(b)(2)",
+        },
+        {
+          id: "document_requests",
+          name: "Response to requests for production",
+          trigger: "service_of_discovery",
+          days: 30,
+          service: true,
+          citation: "Fed. R. Civ. P. 34(b)(2)(A)",
+        },
+        {
+          id: "admissions",
+          name: "Response to requests for admission",
+          trigger: "service_of_discovery",
+          days: 30,
+          service: true,
+          citation: "Fed. R. Civ. P. 36(a)(3)",
+          note: "Matters not answered or objected to in time are admitted",
+        },
+        {
+          id: "pretrial_disclosures",
+          name: "Pretrial disclosures",
+          trigger: "trial",
+          days: 30,
+          direction: "before",
+          citation: "Fed. R. Civ. P. 26(a)(3)(B)",
+        },
+        {
+          id: "summary_judgment",
+          name: "Last day to move for summary judgment",
+          trigger: "close_of_discovery",
+          days: 30,
+          citation: "Fed. R. Civ. P. 56(b)",
+          note: "Unless a local rule or the scheduling order sets a different time",
+        },
+        {
+          id: "new_trial",
+          name: "Motion for a new trial or to alter or amend the judgment",
+          trigger: "entry_of_judgment",
+          days: 28,
+          citation: "Fed. R. Civ. P. 59(b), (e)",
+          note: "Cannot be extended (Fed. R. Civ. P. 6(b)(2))",
+        },
+        {
+          id: "judgment_as_matter_of_law",
+          name: "Renewed motion for judgment as a matter of law",
+          trigger: "entry_of_judgment",
+          days: 28,
+          citation: "Fed. R. Civ. P. 50(b)",
+          note: "Cannot be extended (Fed. R. Civ. P. 6(b)(2))",
+        },
+        {
+          id: "costs_objection",
+          name: "Motion to review the clerk's taxation of costs",
+          trigger: "taxation_of_costs",
+          days: 7,
+          citation: "Fed. R. Civ. P. 54(d)(1)",
+        },
+        {
+          id: "attorneys_fees",
+          name: "Motion for attorney's fees",
+          trigger: "entry_of_judgment",
+          days: 14,
+          citation: "Fed. R. Civ. P. 54(d)(2)(B)(i)",
+        },
+        {
+          id: "notice_of_appeal",
+          name: "Notice of appeal",
+          trigger: "entry_of_judgment",
+          days: 30,
+          citation: "Fed. R. App. P. 4(a)(1)(A)",
+          note: "60 days if the United States or its agency or officer is a party (Fed. R. App. P. 4(a)(1)(B))",
+        },
+      ],
+    }),
+    name: "frcp",
+  }
+
+  function parse(date: string) {
+    const [year, month, day] = date.split("-").map(Number)
+    return Date.UTC(year, month - 1, day)
+  }
+
+  function format(time: number) {
+    return new Date(time).toISOString().slice(0, 10)
+  }
+
+  function weekday(time: number) {
+    return WEEKDAYS[new Date(time).getUTCDay()]
+  }
+
+  function label(time: number) {
+    const name = weekday(time)
+    return `${name[0].toUpperCase()}${name.slice(1)} ${format(time)}`
+  }
+
+  /**
+   * The set's holidays in a year, by date, with weekend holidays moved to the day they are observed
+   */
+  export function holidays(set: Pick<Info, "federal_holidays" | "holidays">, year: number) {
+    const result = new Map<string, string>()
+    const all = [...(set.federal_holidays ? FEDERAL_HOLIDAYS : []), ...set.holidays].map((item) => Holiday.parse(item))
+    // New Year's Day on a Saturday is observed on December 31 of the year before
+    for (const y of [year, year + 1]) {
+      for (const holiday of all) {
+        if (holiday.since && y < holiday.since) continue
+        let time: number
+        if ("date" in holiday) {
+          const parts = holiday.date.split("-").map(Number)
+          if (parts.length === 3 && parts[0] !== y) continue
+          const [month, day] = parts.slice(-2)
+          time = Date.UTC(y, month - 1, day)
+          if (holiday.observed) {
+            const dow = new Date(time).getUTCDay()
+            if (dow === 6) time -= DAY
+            if (dow === 0) time += DAY
+          }
+        } else {
+          const target = WEEKDAYS.indexOf(holiday.weekday)
+          if (holiday.week === "last") {
+            time = Date.UTC(y, holiday.month, 0)
+            time -= ((new Date(time).getUTCDay() - target + 7) % 7) * DAY
+          } else {
+            time = Date.UTC(y, holiday.month - 1, 1)
+            time += (((target - new Date(time).getUTCDay() + 7) % 7) + (holiday.week - 1) * 7) * DAY
+          }
+          time += holiday.offset * DAY
+        }
+        if (new Date(time).getUTCFullYear() === year) result.set(format(time), holiday.name)
+      }
+    }
+    return result
+  }
+
+  /**
+   * Why the court is closed on a day (a weekend or a holiday), or undefined when it is open
+   */
+  export function closed(set: Pick<Info, "federal_holidays" | "holidays">, date: string) {
+    const time = parse(date)
+    const dow = new Date(time).getUTCDay()
+    if (dow === 0 || dow === 6) return dow === 6 ? "a Saturday" : "a Sunday"
+    const holiday = holidays(set, new Date(time).getUTCFullYear()).get(date)
+    if (holiday) return `a legal holiday (${holiday})`
+  }
+
+  /**
+   * Count a period from a trigger date. The trigger day is excluded and the last day included; a last day on a
+   * weekend or holiday continues to the next day the court is open (the day before, for periods counted
+   * backward). Days added for service are added after the period expires, as Fed. R. Civ. P. 6(d) requires.
+   */
+  export function compute(
+    set: Pick<Info, "federal_holidays" | "holidays">,
+    input: {
+      date: string
+      days: number
+      direction?: "after" | "before"
+      unit?: "calendar" | "court"
+      extra?: number
+      service?: string
+    },
+  ) {
+    if (!DATE.test(input.date)) throw new Error(`Invalid date: ${input.date}. Use YYYY-MM-DD.`)
+    const steps: string[] = []
+    const direction = input.direction ?? "after"
+    const step = direction === "before" ? -DAY : DAY
+    let time = parse(input.date)
+
+    const roll = (by: number) => {
+      for (let reason = closed(set, format(time)); reason; reason = closed(set, format(time))) {
+        const next = time + by
+        steps.push(`${label(time)} is ${reason}; moved to ${label(next)}`)
+        time = next
+      }
+    }
+
+    if (input.unit === "court") {
+      for (let count = 0; count < input.days; ) {
+        time += step
+        if (!closed(set, format(time))) count++
+      }
+      steps.push(`${input.days} court day(s) ${direction} ${label(parse(input.date))}: ${label(time)}`)
+    } else {
+      time += step * input.days
+      steps.push(`${input.days} day(s) ${direction} ${label(parse(input.date))}: ${label(time)}`)
+      roll(step)
+    }
+
+    if (input.extra) {
+      time += input.extra * DAY
+      steps.push(`${input.extra} day(s) added for service by ${input.service}: ${label(time)}`)
+      roll(DAY)
+    }
+    return { date: format(time), steps }
+  }
+
+  const DEADLINE_GLOB = new Bun.Glob("deadline/**/*.{json,yaml,yml}")
+
+  export const state = Instance.state(async () => {
+    const directories = await Config.directories()
+    const sets: Record<string, z.output<typeof RuleSet> & { name: string; location?: string }> = { frcp: FRCP }
+
+    for (const dir of directories) {
+      for await (const match of DEADLINE_GLOB.scan({
+        cwd: dir,
+        absolute: true,
+        onlyFiles: true,
+        followSymlinks: true,
+      })) {
+        const data = await Bun.file(match)
+          .text()
+          .then((text) => (match.endsWith(".json") ? JSON.parse(text) : Bun.YAML.parse(text)))
+          .catch((error) => {
+            log.error("failed to load deadline rule set", { path: match, error })
+            return undefined
+          })
+        if (data === undefined) continue
+
+        const parsed = RuleSet.safeParse(data)
+        if (!parsed.success) {
+          log.error("invalid deadline rule set", {
+            error: new InvalidError({ path: match, issues: parsed.error.issues }),
+          })
+          continue
+        }
+
+        const name = parsed.data.name ?? path.basename(match, path.extname(match))
+        if (sets[name]?.location) {
+          log.warn("duplicate deadline rule set name", {
+            name,
+            existing: sets[name].location,
+            duplicate: match,
+          })
+        }
+        sets[name] = { ...parsed.data, name, location: match }
+      }
+    }
+
+    // A set's own holidays, service days and rules are added to, and replace by ID, those of the set it extends
+    const resolve = (name: string, seen: string[]): Info | undefined => {
+      const set = sets[name]
+      if (!set) return
+      const base = set.extends && !seen.includes(set.extends) ? resolve(set.extends, [...seen, name]) : undefined
+      if (set.extends && !base) log.warn("deadline rule set extends an unknown set", { name, extends: set.extends })
+      const ids = new Set(set.rules.map((rule) => rule.id))
+      return {
+        name,
+        description: set.description,
+        jurisdiction: set.jurisdiction,
+        federal_holidays: set.federal_holidays,
+        holidays: [...(base?.holidays ?? []), ...set.holidays.map((holiday) => Holiday.parse(holiday))],
+        service: { ...base?.service, ...set.service },
+        rules: [...(base?.rules ?? []).filter((rule) => !ids.has(rule.id)), ...set.rules],
+        location: set.location,
+      }
+    }
+    return Object.fromEntries(Object.keys(sets).map((name) => [name, resolve(name, [])!]))
+  })
+
+  export async function all() {
+    return state().then((x) => Object.values(x))
+  }
+
+  /**
+   * The rule set named, or whose jurisdictions include, the given name. Defaults to the matter's jurisdiction,
+   * then to the federal rules. Sets loaded from config win over the built-in federal rules.
+   */
+  export async function get(jurisdiction?: string) {
+    const name = (jurisdiction ?? Instance.project.matter?.jurisdiction ?? "federal").trim().toLowerCase()
+    const sets = await all()
+    return (
+      sets.find((set) => set.name.toLowerCase() === name) ??
+      sets.findLast((set) => set.jurisdiction.some((item) => item.toLowerCase() === name))
+    )
+  }
+
+  /**
+   * Every deadline a rule set attaches to a trigger event
+   */
+  export function calculate(set: Info, input: { event: string; date: string; service?: string }): Result[] {
+    if (input.service !== undefined && set.service[input.service] === undefined) {
+      throw new Error(
+        `Unknown service method "${input.service}" in ${set.name}. Known methods: ${Object.keys(set.service).join(", ")}`,
+      )
+    }
+    return set.rules
+      .filter((rule) => rule.trigger === input.event || rule.id === input.event)
+      .map((rule) => {
+        const extra = rule.service && input.service ? set.service[input.service] : 0
+        const result = compute(set, { ...rule, date: input.date, extra, service: input.service })
+        return {
+          ruleset: set.name,
+          rule: { id: rule.id, name: rule.name, citation: rule.citation, note: rule.note },
+          trigger: { event: rule.trigger, date: input.date },
+          service: rule.service ? input.service : undefined,
+          ...result,
+        }
+      })
+      .sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  function text(value: string) {
+    return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n")
+  }
+
+  // Content lines are folded at 75 octets (RFC 5545 section 3.1)
+  function fold(line: string) {
+    const bytes = Buffer.from(line)
+    if (bytes.length <= 75) return line
+    const parts: string[] = []
+    let start = 0
+    while (start < bytes.length) {
+      let end = Math.min(start + (start === 0 ? 75 : 74), bytes.length)
+      // Do not split a multi-byte character
+      while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--
+      parts.push(bytes.subarray(start, end).toString())
+      start = end
+    }
+    return parts.join("\r\n ")
+  }
+
+  /**
+   * Deadlines as an iCalendar file of all-day events
+   */
+  export function ics(results: Result[], options: { matter?: string; now?: number } = {}) {
+    const stamp = new Date(options.now ?? Date.now()).toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "")
+    const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//Thurgood//Deadlines//EN", "CALSCALE:GREGORIAN"]
+    for (const result of results) {
+      const start = result.date.replace(/-/g, "")
+      const end = format(parse(result.date) + DAY).replace(/-/g, "")
+      const description = [
+        result.rule.citation,
+        `Trigger: ${result.trigger.event} on ${result.trigger.date}`,
+        result.service ? `Service: ${result.service}` : undefined,
+        ...result.steps,
+        result.rule.note,
+      ].filter((line): line is string => Boolean(line))
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${[options.matter, result.ruleset, result.rule.id, result.trigger.date].filter(Boolean).join("-")}@thurgood`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${start}`,
+        `DTEND;VALUE=DATE:${end}`,
+        `SUMMARY:${text([options.matter, result.rule.name].filter(Boolean).join(": "))}`,
+        `DESCRIPTION:${text(description.join("\n"))}`,
+        "TRANSP:TRANSPARENT",
+        "END:VEVENT",
+      )
+    }
+    lines.push("END:VCALENDAR")
+    return lines.map(fold).join("\r\n") + "\r\n"
+  }
+}
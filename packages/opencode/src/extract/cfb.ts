@@ -0,0 +1,111 @@
+/**
+ * Reading Compound File Binary containers, the storage format of Outlook .msg files. Only reading is
+ * supported, and every stream is loaded into memory.
+ */
+export namespace Cfb {
+  export interface Entry {
+    name: string
+    type: "storage" | "stream" | "root"
+    children: Entry[]
+    content: Uint8Array
+  }
+
+  const SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]
+  // Sector numbers at or above this mark the end of a chain or unused sectors
+  const MAX_SECTOR = 0xfffffffa
+  const NO_STREAM = 0xffffffff
+  const DIFAT_IN_HEADER = 109
+  const ENTRY_SIZE = 128
+  const TYPES: Record<number, Entry["type"]> = { 1: "storage", 2: "stream", 5: "root" }
+
+  export function is(bytes: Uint8Array) {
+    return SIGNATURE.every((byte, i) => bytes[i] === byte)
+  }
+
+  export function read(bytes: Uint8Array): Entry {
+    if (!is(bytes)) throw new Error("Not a compound file: the signature does not match")
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const sectorSize = 1 << view.getUint16(0x1e, true)
+    const miniSectorSize = 1 << view.getUint16(0x20, true)
+    const cutoff = view.getUint32(0x38, true)
+    const sectors = Math.floor((bytes.byteLength - sectorSize) / sectorSize)
+
+    const sector = (n: number) => bytes.subarray((n + 1) * sectorSize, (n + 2) * sectorSize)
+    const uint32s = (data: Uint8Array) => {
+      const words = new DataView(data.buffer, data.byteOffset, data.byteLength)
+      return Array.from({ length: data.byteLength / 4 }, (_, i) => words.getUint32(i * 4, true))
+    }
+
+    // The FAT's own sectors are listed in the header, then in a chain of DIFAT sectors
+    const difat = uint32s(bytes.subarray(0x4c, 0x4c + DIFAT_IN_HEADER * 4))
+    for (let next = view.getUint32(0x44, true), seen = 0; next < MAX_SECTOR && seen < sectors; seen++) {
+      const entries = uint32s(sector(next))
+      difat.push(...entries.slice(0, -1))
+      next = entries[entries.length - 1]
+    }
+    const fat = difat.filter((n) => n < MAX_SECTOR).flatMap((n) => uint32s(sector(n)))
+
+    const chain = (start: number, table: number[]) => {
+      const result: number[] = []
+      for (let n = start; n < MAX_SECTOR && result.length <= table.length; n = table[n]) result.push(n)
+      return result
+    }
+    const concat = (parts: Uint8Array[]) => {
+      const result = new Uint8Array(parts.reduce((sum, part) => sum + part.byteLength, 0))
+      let offset = 0
+      for (const part of parts) {
+        result.set(part, offset)
+        offset += part.byteLength
+      }
+      return result
+    }
+
+    const directory = concat(chain(view.getUint32(0x30, true), fat).map(sector))
+    const miniFat = concat(chain(view.getUint32(0x3c, true), fat).map(sector))
+    const miniTable = uint32s(miniFat)
+
+    const entries = Array.from({ length: directory.byteLength / ENTRY_SIZE }, (_, i) => {
+      const entry = new DataView(directory.buffer, directory.byteOffset + i * ENTRY_SIZE, ENTRY_SIZE)
+      const length = Math.max(0, entry.getUint16(0x40, true) - 2)
+      return {
+        name: new TextDecoder("utf-16le").decode(directory.subarray(i * ENTRY_SIZE, i * ENTRY_SIZE + length)),
+        type: entry.getUint8(0x42),
+        left: entry.getUint32(0x44, true),
+        right: entry.getUint32(0x48, true),
+        child: entry.getUint32(0x4c, true),
+        start: entry.getUint32(0x74, true),
+        // Version 3 files only use the low 32 bits of the size
+        size: entry.getUint32(0x78, true),
+      }
+    })
+    const root = entries[0]
+    if (!root || root.type !== 5) throw new Error("Not a compound file: the root entry is missing")
+    const ministream = concat(chain(root.start, fat).map(sector))
+
+    const content = (entry: (typeof entries)[number]) => {
+      if (entry.type !== 2) return new Uint8Array()
+      if (entry.size >= cutoff) return concat(chain(entry.start, fat).map(sector)).subarray(0, entry.size)
+      const parts = chain(entry.start, miniTable).map((n) =>
+        ministream.subarray(n * miniSectorSize, (n + 1) * miniSectorSize),
+      )
+      return concat(parts).subarray(0, entry.size)
+    }
+
+    // Siblings are stored as a binary tree, so the children of a storage are an in-order walk from its child
+    const visited = new Set<number>()
+    const children = (id: number): Entry[] => {
+      if (id === NO_STREAM || visited.has(id) || !entries[id]) return []
+      visited.add(id)
+      const entry = entries[id]
+      return [...children(entry.left), build(entry), ...children(entry.right)]
+    }
+    const build = (entry: (typeof entries)[number]): Entry => ({
+      name: entry.name,
+      type: TYPES[entry.type] ?? "stream",
+      children: entry.type === 2 ? [] : children(entry.child),
+      content: content(entry),
+    })
+    visited.add(0)
+    return build(root)
+  }
+}
@@ -0,0 +1,227 @@
+import { Xml } from "./xml"
+import { table } from "./table"
+
+/**
+ * Text of Word documents as markdown-like lines: headings, list items and tables are kept, tracked changes
+ * are shown inline with their author, and comments are listed after the body.
+ */
+export namespace Docx {
+  interface Comment {
+    id: string
+    author?: string
+    date?: string
+    text: string
+  }
+
+  interface Revision {
+    kind: "Inserted" | "Deleted" | "Moved to" | "Moved from"
+    author?: string
+    text: string
+  }
+
+  // Content that duplicates or annotates the visible text rather than being part of it
+  const SKIP = new Set(["mc:Fallback", "w:instrText", "w:rPr", "w:sectPr", "w:tblPr", "w:trPr", "w:tcPr"])
+
+  const REVISIONS: Record<string, Revision["kind"]> = {
+    "w:ins": "Inserted",
+    "w:del": "Deleted",
+    "w:moveTo": "Moved to",
+    "w:moveFrom": "Moved from",
+  }
+
+  function date(value?: string) {
+    return value?.slice(0, 10)
+  }
+
+  /**
+   * Walk a WordprocessingML body and return its paragraphs. Paragraphs inside table cells are joined into
+   * the cell; text boxes nested in a paragraph become paragraphs of their own. With clean set, tracked changes
+   * are accepted and comment and footnote markers are left out, which is the text a comparison needs.
+   */
+  export function paragraphs(xml: string, clean = false) {
+    const lines: string[] = []
+    const stack: { text: string; style?: string; list: boolean; deleted?: boolean }[] = []
+    const tables: string[][][] = []
+    const revisions: Revision[] = []
+    let skip = 0
+    let field = false
+
+    const append = (text: string) => {
+      const revision = revisions.at(-1)
+      if (revision) {
+        revision.text += text
+        return
+      }
+      const paragraph = stack.at(-1)
+      if (paragraph) paragraph.text += text
+    }
+
+    for (const token of Xml.tokens(xml)) {
+      // An empty revision marker in the paragraph mark's run properties tracks the paragraph mark itself
+      if (token.type === "open" && token.empty && (token.name === "w:del" || token.name === "w:moveFrom")) {
+        if (stack.at(-1)) stack.at(-1)!.deleted = true
+        continue
+      }
+      if (token.type === "open" && SKIP.has(token.name)) {
+        if (!token.empty) skip++
+        continue
+      }
+      if (token.type === "close" && SKIP.has(token.name)) {
+        skip--
+        continue
+      }
+      if (skip > 0) continue
+
+      if (token.type === "text") {
+        if (field) append(token.text)
+        continue
+      }
+
+      if (token.type === "open") {
+        switch (token.name) {
+          case "w:p":
+            if (!token.empty) stack.push({ text: "", list: false })
+            else if (tables.length === 0) lines.push("")
+            break
+          case "w:pStyle":
+            if (stack.at(-1)) stack.at(-1)!.style = token.attrs["w:val"]
+            break
+          case "w:numPr":
+            if (stack.at(-1)) stack.at(-1)!.list = true
+            break
+          case "w:t":
+          case "w:delText":
+            field = !token.empty
+            break
+          case "w:tab":
+            append("\t")
+            break
+          case "w:br":
+          case "w:cr":
+            append(tables.length > 0 ? " " : "\n")
+            break
+          case "w:ins":
+          case "w:del":
+          case "w:moveTo":
+          case "w:moveFrom":
+            if (!token.empty) revisions.push({ kind: REVISIONS[token.name], author: token.attrs["w:author"], text: "" })
+            break
+          case "w:commentReference":
+            if (!clean) append(`[Comment ${token.attrs["w:id"]}]`)
+            break
+          case "w:footnoteReference":
+            if (!clean) append(`[^${token.attrs["w:id"]}]`)
+            break
+          case "w:tbl":
+            tables.push([])
+            break
+          case "w:tr":
+            tables.at(-1)?.push([])
+            break
+          case "w:tc":
+            tables.at(-1)?.at(-1)?.push("")
+            break
+        }
+        continue
+      }
+
+      switch (token.name) {
+        case "w:t":
+        case "w:delText":
+          field = false
+          break
+        case "w:ins":
+        case "w:del":
+        case "w:moveTo":
+        case "w:moveFrom": {
+          const revision = revisions.pop()
+          if (!revision?.text) break
+          if (!clean) append(`[${revision.kind}${revision.author ? ` by ${revision.author}` : ""}: ${revision.text}]`)
+          else if (revision.kind === "Inserted" || revision.kind === "Moved to") append(revision.text)
+          break
+        }
+        case "w:p": {
+          const paragraph = stack.pop()
+          if (!paragraph) break
+          const current = tables.at(-1)
+          if (current) {
+            const row = current.at(-1)
+            if (row && row.length > 0) {
+              const cell = row[row.length - 1]
+              row[row.length - 1] = [cell, paragraph.text.trim()].filter(Boolean).join(" ")
+            }
+            break
+          }
+          // A deleted paragraph is gone once its changes are accepted
+          if (clean && paragraph.deleted && !paragraph.text.trim()) break
+          lines.push(prefix(paragraph.style, paragraph.list) + paragraph.text.trimEnd())
+          break
+        }
+        case "w:tbl": {
+          const rows = tables.pop()
+          if (!rows) break
+          const rendered = table(rows)
+          const parent = tables.at(-1)?.at(-1)
+          // Nested tables are flattened into the enclosing cell
+          if (parent && parent.length > 0) parent[parent.length - 1] += ` ${rendered.join(" ")}`
+          else lines.push(...rendered)
+          break
+        }
+      }
+    }
+    return lines
+  }
+
+  function prefix(style: string | undefined, list: boolean) {
+    const heading = style?.match(/^(?:Heading|heading)\s?(\d)$/)
+    if (heading) return "#".repeat(Math.min(Number(heading[1]), 6)) + " "
+    if (style === "Title") return "# "
+    if (list || style?.startsWith("ListParagraph") || style?.startsWith("ListBullet")) return "- "
+    return ""
+  }
+
+  export function comments(xml: string): Comment[] {
+    const result: Comment[] = []
+    let current: Comment | undefined
+    let field = false
+    for (const token of Xml.tokens(xml)) {
+      if (token.type === "open" && token.name === "w:comment") {
+        current = {
+          id: token.attrs["w:id"],
+          author: token.attrs["w:author"],
+          date: date(token.attrs["w:date"]),
+          text: "",
+        }
+        continue
+      }
+      if (!current) continue
+      if (token.type === "open" && token.name === "w:t") field = !token.empty
+      if (token.type === "close" && token.name === "w:t") field = false
+      if (token.type === "close" && token.name === "w:p") current.text += "\n"
+      if (token.type === "text" && field) current.text += token.text
+      if (token.type === "close" && token.name === "w:comment") {
+        current.text = current.text.trim()
+        result.push(current)
+        current = undefined
+      }
+    }
+    return result
+  }
+
+  export async function text(bytes: Uint8Array) {
+    const part = await Xml.open(bytes)
+    const document = await part("word/document.xml")
+    if (!document) throw new Error("Not a Word document: word/document.xml is missing")
+
+    const lines = paragraphs(document)
+    const notes = await part("word/comments.xml").then((xml) => (xml ? comments(xml) : []))
+    if (notes.length > 0) {
+      lines.push("", "## Comments", "")
+      for (const note of notes) {
+        const by = [note.author, note.date].filter(Boolean).join(", ")
+        lines.push(`[Comment ${note.id}]${by ? ` ${by}` : ""}: ${note.text.replace(/\n+/g, " ")}`)
+      }
+    }
+    return lines.join("\n")
+  }
+}
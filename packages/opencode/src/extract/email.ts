@@ -0,0 +1,280 @@
+import TurndownService from "turndown"
+import { Cfb } from "./cfb"
+
+/**
+ * Exported email messages, as .eml (MIME) or Outlook .msg files. The text has the message headers, a list of
+ * attachments with their sizes, and the body, preferring the plain text part over HTML.
+ */
+export namespace Email {
+  export interface Attachment {
+    name: string
+    type?: string
+    size: number
+  }
+
+  export interface Message {
+    from?: string
+    to?: string
+    cc?: string
+    date?: string
+    subject?: string
+    attachments: Attachment[]
+    body: string
+  }
+
+  interface Part {
+    headers: Map<string, string>
+    body: string
+  }
+
+  function html(input: string) {
+    const turndown = new TurndownService({
+      headingStyle: "atx",
+      hr: "---",
+      bulletListMarker: "-",
+    })
+    turndown.remove(["script", "style", "meta", "link", "title"])
+    return turndown.turndown(input)
+  }
+
+  function charset(label?: string) {
+    try {
+      return new TextDecoder(label ?? "utf-8")
+    } catch {
+      return new TextDecoder("utf-8")
+    }
+  }
+
+  function size(bytes: number) {
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+  }
+
+  export function format(message: Message) {
+    const lines: string[] = []
+    if (message.from) lines.push(`From: ${message.from}`)
+    if (message.to) lines.push(`To: ${message.to}`)
+    if (message.cc) lines.push(`Cc: ${message.cc}`)
+    if (message.date) lines.push(`Date: ${message.date}`)
+    if (message.subject) lines.push(`Subject: ${message.subject}`)
+    if (message.attachments.length > 0) {
+      lines.push("Attachments:")
+      for (const attachment of message.attachments) {
+        const details = [attachment.type, size(attachment.size)].filter(Boolean).join(", ")
+        lines.push(`- ${attachment.name} (${details})`)
+      }
+    }
+    lines.push("", message.body.replace(/\r\n/g, "\n").trim())
+    return lines.join("\n")
+  }
+
+  /**
+   * Decode RFC 2047 encoded words such as =?UTF-8?B?...?= in header values
+   */
+  export function words(value: string) {
+    return value
+      .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?[^?]+\?[bq]\?[^?]*\?=)/gi, "$1")
+      .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([bq])\?([^?]*)\?=/gi, (_, label: string, encoding: string, text: string) => {
+        const bytes = encoding.toLowerCase() === "b" ? Buffer.from(text, "base64") : quoted(text.replace(/_/g, " "))
+        return charset(label).decode(bytes)
+      })
+  }
+
+  function quoted(text: string) {
+    const binary = text
+      .replace(/=\r?\n/g, "")
+      .replace(/=([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    return Buffer.from(binary, "latin1")
+  }
+
+  function parse(raw: string): Part {
+    // A part that starts with a blank line has no headers
+    const blank = /^\r?\n/.exec(raw) ?? /\r?\n\r?\n/.exec(raw)
+    const head = blank ? raw.slice(0, blank.index) : raw
+    const body = blank ? raw.slice(blank.index + blank[0].length) : ""
+    const headers = new Map<string, string>()
+    for (const line of head.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+      const colon = line.indexOf(":")
+      if (colon <= 0) continue
+      const name = line.slice(0, colon).trim().toLowerCase()
+      if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim())
+    }
+    return { headers, body }
+  }
+
+  /**
+   * The value of a structured header such as Content-Type, with its parameters
+   */
+  function structured(value = "") {
+    const [first, ...rest] = value.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+    const params: Record<string, string> = {}
+    for (const param of rest) {
+      const eq = param.indexOf("=")
+      if (eq === -1) continue
+      const key = param.slice(0, eq).trim().toLowerCase()
+      let text = param
+        .slice(eq + 1)
+        .trim()
+        .replace(/^"(.*)"$/, "$1")
+      // RFC 2231 extended parameters such as filename*=UTF-8''name.pdf
+      if (key.endsWith("*")) {
+        const match = text.match(/^([^']*)'[^']*'(.*)$/)
+        if (match) text = charset(match[1] || undefined).decode(quoted(match[2].replace(/%/g, "=")))
+        params[key.slice(0, -1)] = text
+        continue
+      }
+      params[key] = words(text)
+    }
+    return { value: first.trim().toLowerCase(), params }
+  }
+
+  function decode(part: Part) {
+    const encoding = part.headers.get("content-transfer-encoding")?.toLowerCase()
+    if (encoding === "base64") return Buffer.from(part.body.replace(/\s+/g, ""), "base64")
+    if (encoding === "quoted-printable") return quoted(part.body)
+    return Buffer.from(part.body, "latin1")
+  }
+
+  /**
+   * Parse a MIME message. The input is the raw bytes as a latin1 string so that 8bit bodies can be decoded
+   * with their declared charset.
+   */
+  export function eml(raw: string): Message {
+    const root = parse(raw)
+    const attachments: Attachment[] = []
+    let plain: string | undefined
+    let rich: string | undefined
+
+    const walk = (part: Part) => {
+      const type = structured(part.headers.get("content-type") ?? "text/plain")
+      const disposition = structured(part.headers.get("content-disposition"))
+      if (type.value.startsWith("multipart/") && type.params["boundary"]) {
+        const boundary = `--${type.params["boundary"]}`.replace(/[.*+?^$()|[\]{}\\]/g, "\\$&")
+        const sections = part.body.split(new RegExp(`^${boundary}(?:--)?[ \\t]*\\r?$\\n?`, "m"))
+        // The first section is the preamble and anything after the closing boundary is the epilogue
+        for (const section of sections.slice(1)) {
+          if (section.trim()) walk(parse(section.replace(/\r?\n$/, "")))
+        }
+        return
+      }
+      const name = disposition.params["filename"] ?? type.params["name"]
+      if (disposition.value === "attachment" || name || !type.value.startsWith("text/")) {
+        attachments.push({
+          name: name ?? (type.value === "message/rfc822" ? "forwarded-message.eml" : "attachment"),
+          type: type.value,
+          size: decode(part).byteLength,
+        })
+        return
+      }
+      const text = charset(type.params["charset"]).decode(decode(part))
+      if (type.value === "text/html") rich ??= text
+      else plain ??= text
+    }
+    walk(root)
+
+    const header = (name: string) => {
+      const value = root.headers.get(name)
+      return value ? words(value) : undefined
+    }
+    return {
+      from: header("from"),
+      to: header("to"),
+      cc: header("cc"),
+      date: header("date"),
+      subject: header("subject"),
+      attachments,
+      body: plain ?? (rich ? html(rich) : ""),
+    }
+  }
+
+  // MAPI property IDs, as the first four hex digits of a __substg1.0_ stream name
+  const PROPERTY = {
+    subject: "0037",
+    date: "0039",
+    senderName: "0C1A",
+    senderAddress: "0C1F",
+    senderSmtp: "5D01",
+    cc: "0E03",
+    to: "0E04",
+    delivered: "0E06",
+    body: "1000",
+    html: "1013",
+    attachName: "3001",
+    attachData: "3701",
+    attachFilename: "3704",
+    attachLongFilename: "3707",
+    attachMime: "370E",
+  }
+  // 100ns intervals between the FILETIME epoch (1601) and the Unix epoch
+  const FILETIME_OFFSET = 116444736000000000n
+
+  function properties(storage: Cfb.Entry) {
+    const streams = new Map<string, Uint8Array>()
+    for (const child of storage.children) {
+      const match = child.name.match(/^__substg1\.0_([0-9A-F]{4})([0-9A-F]{4})$/i)
+      if (match) streams.set(`${match[1].toUpperCase()}:${match[2].toUpperCase()}`, child.content)
+    }
+    const string = (id: string) => {
+      const unicode = streams.get(`${id}:001F`)
+      if (unicode) return new TextDecoder("utf-16le").decode(unicode).replace(/\0+$/, "")
+      const ansi = streams.get(`${id}:001E`)
+      if (ansi) return new TextDecoder("windows-1252").decode(ansi).replace(/\0+$/, "")
+    }
+    const binary = (id: string) => streams.get(`${id}:0102`)
+
+    // Fixed-size values such as dates are not streams but 16-byte entries in the properties stream
+    const fixed = storage.children.find((child) => child.name === "__properties_version1.0")?.content
+    const time = (id: string) => {
+      if (!fixed) return
+      const view = new DataView(fixed.buffer, fixed.byteOffset, fixed.byteLength)
+      // The message's own properties stream has a 32-byte header, embedded objects have 8
+      const start = storage.type === "root" ? 32 : 8
+      for (let offset = start; offset + 16 <= fixed.byteLength; offset += 16) {
+        const tag = view.getUint32(offset, true)
+        if (tag >>> 16 !== parseInt(id, 16) || (tag & 0xffff) !== 0x0040) continue
+        const ticks = view.getBigUint64(offset + 8, true)
+        return new Date(Number((ticks - FILETIME_OFFSET) / 10000n)).toUTCString()
+      }
+    }
+    return { string, binary, time }
+  }
+
+  export function msg(bytes: Uint8Array): Message {
+    const root = Cfb.read(bytes)
+    const props = properties(root)
+    const name = props.string(PROPERTY.senderName)
+    const address = props.string(PROPERTY.senderSmtp) ?? props.string(PROPERTY.senderAddress)
+    const from = name && address && name !== address ? `${name} <${address}>` : (name ?? address)
+
+    const attachments = root.children
+      .filter((child) => child.type === "storage" && child.name.startsWith("__attach_version1.0_"))
+      .map((storage): Attachment => {
+        const attachment = properties(storage)
+        return {
+          name:
+            attachment.string(PROPERTY.attachLongFilename) ??
+            attachment.string(PROPERTY.attachFilename) ??
+            attachment.string(PROPERTY.attachName) ??
+            "attachment",
+          type: attachment.string(PROPERTY.attachMime),
+          size: attachment.binary(PROPERTY.attachData)?.byteLength ?? 0,
+        }
+      })
+
+    const rich = props.string(PROPERTY.html) ?? props.binary(PROPERTY.html)
+    const body =
+      props.string(PROPERTY.body) ??
+      (rich === undefined ? "" : html(typeof rich === "string" ? rich : new TextDecoder().decode(rich)))
+
+    return {
+      from,
+      to: props.string(PROPERTY.to),
+      cc: props.string(PROPERTY.cc),
+      date: props.time(PROPERTY.delivered) ?? props.time(PROPERTY.date),
+      subject: props.string(PROPERTY.subject),
+      attachments,
+      body,
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import path from "path"
+import { Docx } from "./docx"
+import { Xlsx } from "./xlsx"
+import { Email } from "./email"
+import { Rtf } from "./rtf"
+
+/**
+ * Text extraction for document formats that are not plain text but that the read tool can still page
+ * through: Word documents, Excel workbooks, exported emails and RTF.
+ */
+export namespace Extract {
+  const FORMATS: Record<string, (bytes: Uint8Array) => string | Promise<string>> = {
+    ".docx": Docx.text,
+    ".docm": Docx.text,
+    ".xlsx": Xlsx.text,
+    ".xlsm": Xlsx.text,
+    ".eml": (bytes) => Email.format(Email.eml(Buffer.from(bytes).toString("latin1"))),
+    ".msg": (bytes) => Email.format(Email.msg(bytes)),
+    ".rtf": (bytes) => Rtf.text(Buffer.from(bytes).toString("latin1")),
+  }
+
+  export function supported(filepath: string) {
+    return path.extname(filepath).toLowerCase() in FORMATS
+  }
+
+  export async function text(filepath: string) {
+    return content(filepath, await Bun.file(filepath).bytes())
+  }
+
+  /**
+   * Text of a document that is not on disk, such as an earlier version from a snapshot
+   */
+  export async function content(filepath: string, bytes: Uint8Array) {
+    const extract = FORMATS[path.extname(filepath).toLowerCase()]
+    if (!extract) throw new Error(`No text extractor for ${path.extname(filepath) || filepath}`)
+    return extract(bytes)
+  }
+}
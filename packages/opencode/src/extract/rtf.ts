@@ -0,0 +1,156 @@
+/**
+ * Plain text of RTF documents. Formatting is dropped; paragraphs, tabs, table rows and Unicode text are kept.
+ */
+export namespace Rtf {
+  // Destinations whose content is not part of the document text
+  const SKIP = new Set([
+    "author",
+    "buptim",
+    "colortbl",
+    "comment",
+    "creatim",
+    "datastore",
+    "doccomm",
+    "filetbl",
+    "fldinst",
+    "fonttbl",
+    "footer",
+    "footerf",
+    "footerl",
+    "footerr",
+    "header",
+    "headerf",
+    "headerl",
+    "headerr",
+    "info",
+    "keywords",
+    "latentstyles",
+    "listoverridetable",
+    "listtable",
+    "object",
+    "operator",
+    "pict",
+    "printim",
+    "revtbl",
+    "revtim",
+    "rsidtbl",
+    "stylesheet",
+    "subject",
+    "themedata",
+    "title",
+    "xmlnstbl",
+  ])
+
+  const SYMBOLS: Record<string, string> = {
+    par: "\n",
+    line: "\n",
+    sect: "\n\n",
+    page: "\n\n",
+    row: "\n",
+    cell: " | ",
+    tab: "\t",
+    emdash: "—",
+    endash: "–",
+    lquote: "‘",
+    rquote: "’",
+    ldblquote: "“",
+    rdblquote: "”",
+    bullet: "•",
+    emspace: " ",
+    enspace: " ",
+  }
+
+  const TOKEN = /\\([a-z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|[\r\n]+|([^\\{}\r\n]+)/gi
+
+  export function text(input: string) {
+    const ansi = new TextDecoder("windows-1252")
+    let output = ""
+    // Each group inherits whether it is skipped and how many fallback characters follow a \u escape
+    let state = { skip: false, uc: 1 }
+    const stack: (typeof state)[] = []
+    let fallback = 0
+    let bytes: number[] = []
+    let binary = 0
+
+    const emit = (value: string) => {
+      if (bytes.length > 0) {
+        const decoded = ansi.decode(new Uint8Array(bytes))
+        bytes = []
+        if (!state.skip) output += decoded
+      }
+      if (!state.skip) output += value
+    }
+
+    for (const match of input.matchAll(TOKEN)) {
+      // \binN is followed by N raw bytes
+      if (binary > 0) {
+        binary -= match[0].length
+        continue
+      }
+      const [, word, param, hex, symbol, brace, plain] = match
+      if (hex !== undefined) {
+        if (fallback > 0) {
+          fallback--
+          continue
+        }
+        if (!state.skip) bytes.push(parseInt(hex, 16))
+        continue
+      }
+      if (plain !== undefined) {
+        let value = plain
+        if (fallback > 0) {
+          const skipped = Math.min(fallback, value.length)
+          value = value.slice(skipped)
+          fallback -= skipped
+        }
+        emit(value)
+        continue
+      }
+      fallback = 0
+      if (brace === "{") {
+        emit("")
+        stack.push(state)
+        state = { ...state }
+        continue
+      }
+      if (brace === "}") {
+        emit("")
+        state = stack.pop() ?? state
+        continue
+      }
+      if (symbol !== undefined) {
+        if (symbol === "*") state.skip = true
+        else if (symbol === "~") emit(" ")
+        else if (symbol === "_") emit("-")
+        else if (symbol === "\n" || symbol === "\r") emit("\n")
+        else if (symbol === "\\" || symbol === "{" || symbol === "}") emit(symbol)
+        continue
+      }
+      if (word === undefined) continue
+      if (SKIP.has(word)) {
+        state.skip = true
+        continue
+      }
+      if (word === "uc") {
+        state.uc = Number(param ?? 1)
+        continue
+      }
+      if (word === "u") {
+        const code = Number(param ?? 0)
+        emit(String.fromCharCode(code < 0 ? code + 65536 : code))
+        fallback = state.uc
+        continue
+      }
+      if (word === "bin") {
+        binary = Number(param ?? 0)
+        continue
+      }
+      if (SYMBOLS[word] !== undefined) emit(SYMBOLS[word])
+    }
+    emit("")
+    return output
+      .replace(/[ \t]*\| \n/g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Render rows as a markdown table, using the first row as the header
+ */
+export function table(rows: string[][]) {
+  if (rows.length === 0) return []
+  const width = Math.max(...rows.map((row) => row.length))
+  const line = (row: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => (row[i] ?? "").replace(/\|/g, "\\|").replace(/\s+/g, " ").trim()).join(" | ")} |`
+  return [line(rows[0]), `|${" --- |".repeat(width)}`, ...rows.slice(1).map(line)]
+}
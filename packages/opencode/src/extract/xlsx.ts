@@ -0,0 +1,184 @@
+import path from "path"
+import { Xml } from "./xml"
+import { table } from "./table"
+
+/**
+ * Worksheets of Excel workbooks as markdown tables, one section per sheet. Cells keep their displayed
+ * column position, shared strings are resolved and date-formatted numbers are shown as ISO dates.
+ */
+export namespace Xlsx {
+  export interface Sheet {
+    name: string
+    rows: string[][]
+  }
+
+  // Built-in number formats that display dates; times of day and durations are left as numbers
+  const DATE_FORMATS = new Set([14, 15, 16, 17, 22])
+  // Excel's day zero in the 1900 date system, which includes the fictional 29 February 1900
+  const EPOCH = Date.UTC(1899, 11, 30)
+
+  export function column(reference: string) {
+    let index = 0
+    for (const char of reference.replace(/\d+$/, "").toUpperCase()) index = index * 26 + char.charCodeAt(0) - 64
+    return index - 1
+  }
+
+  export function date(serial: number) {
+    const iso = new Date(EPOCH + Math.round(serial * 86_400_000)).toISOString()
+    return serial % 1 === 0 ? iso.slice(0, 10) : iso.slice(0, 19).replace("T", " ")
+  }
+
+  function strings(xml: string) {
+    const result: string[] = []
+    let current: string | undefined
+    let field = false
+    // Phonetic runs (rPh) repeat East Asian text as a reading guide
+    let phonetic = false
+    for (const token of Xml.tokens(xml)) {
+      if (token.type === "open" && token.name === "si") current = ""
+      if (token.type === "open" && token.name === "rPh") phonetic = !token.empty
+      if (token.type === "close" && token.name === "rPh") phonetic = false
+      if (token.type === "open" && token.name === "t") field = !token.empty
+      if (token.type === "close" && token.name === "t") field = false
+      if (token.type === "text" && field && !phonetic && current !== undefined) current += token.text
+      if (token.type === "close" && token.name === "si") {
+        result.push(current ?? "")
+        current = undefined
+      }
+    }
+    return result
+  }
+
+  /**
+   * Whether each cell style (the s attribute of a cell) displays its number as a date
+   */
+  function styles(xml: string) {
+    const custom = new Set<number>()
+    const result: boolean[] = []
+    let xfs = false
+    for (const token of Xml.tokens(xml)) {
+      if (token.type === "open" && token.name === "numFmt") {
+        // Date formats use d, m or y outside quoted literals and bracketed colours or conditions; m alone
+        // next to h or s means minutes
+        const code = (token.attrs["formatCode"] ?? "").replace(/"[^"]*"|\[[^\]]*\]/g, "")
+        if (/[dy]/i.test(code) || (/m/i.test(code) && !/[hs]/i.test(code))) custom.add(Number(token.attrs["numFmtId"]))
+      }
+      if (token.type === "open" && token.name === "cellXfs") xfs = !token.empty
+      if (token.type === "close" && token.name === "cellXfs") xfs = false
+      if (xfs && token.type === "open" && token.name === "xf") {
+        const id = Number(token.attrs["numFmtId"] ?? 0)
+        result.push(DATE_FORMATS.has(id) || custom.has(id))
+      }
+    }
+    return result
+  }
+
+  export function rows(xml: string, shared: string[] = [], dates: boolean[] = []) {
+    const result: string[][] = []
+    let row: string[] | undefined
+    let cell: { column: number; type?: string; style: number; value: string } | undefined
+    let field = false
+    for (const token of Xml.tokens(xml)) {
+      if (token.type === "open") {
+        switch (token.name) {
+          case "row":
+            row = []
+            if (token.empty) result.push(row)
+            break
+          case "c":
+            cell = {
+              column: token.attrs["r"] ? column(token.attrs["r"]) : (row?.length ?? 0),
+              type: token.attrs["t"],
+              style: Number(token.attrs["s"] ?? 0),
+              value: "",
+            }
+            if (token.empty) cell = undefined
+            break
+          case "v":
+          case "t":
+            field = !token.empty
+            break
+        }
+        continue
+      }
+      if (token.type === "text") {
+        if (field && cell) cell.value += token.text
+        continue
+      }
+      switch (token.name) {
+        case "v":
+        case "t":
+          field = false
+          break
+        case "c": {
+          if (!cell || !row) break
+          while (row.length < cell.column) row.push("")
+          row[cell.column] = value(cell, shared, dates)
+          cell = undefined
+          break
+        }
+        case "row":
+          if (row) result.push(row)
+          row = undefined
+          break
+      }
+    }
+    return result
+  }
+
+  function value(cell: { type?: string; style: number; value: string }, shared: string[], dates: boolean[]) {
+    switch (cell.type) {
+      case "s":
+        return shared[Number(cell.value)] ?? ""
+      case "b":
+        return cell.value === "1" ? "TRUE" : "FALSE"
+      case "str":
+      case "inlineStr":
+      case "e":
+        return cell.value
+      default: {
+        const number = Number(cell.value)
+        if (cell.value !== "" && dates[cell.style] && !Number.isNaN(number)) return date(number)
+        return cell.value
+      }
+    }
+  }
+
+  export async function sheets(bytes: Uint8Array): Promise<Sheet[]> {
+    const part = await Xml.open(bytes)
+    const workbook = await part("xl/workbook.xml")
+    if (!workbook) throw new Error("Not an Excel workbook: xl/workbook.xml is missing")
+
+    const targets = new Map<string, string>()
+    for (const token of Xml.tokens((await part("xl/_rels/workbook.xml.rels")) ?? "")) {
+      if (token.type === "open" && token.name === "Relationship") {
+        const target = token.attrs["Target"]
+        targets.set(token.attrs["Id"], target.startsWith("/") ? target.slice(1) : path.posix.join("xl", target))
+      }
+    }
+    const shared = await part("xl/sharedStrings.xml").then((xml) => (xml ? strings(xml) : []))
+    const dates = await part("xl/styles.xml").then((xml) => (xml ? styles(xml) : []))
+
+    const result: Sheet[] = []
+    for (const token of Xml.tokens(workbook)) {
+      if (token.type !== "open" || token.name !== "sheet") continue
+      const target = targets.get(token.attrs["r:id"])
+      const xml = target ? await part(target) : undefined
+      if (!xml) continue
+      result.push({ name: token.attrs["name"], rows: rows(xml, shared, dates) })
+    }
+    return result
+  }
+
+  export async function text(bytes: Uint8Array) {
+    const lines: string[] = []
+    for (const sheet of await sheets(bytes)) {
+      if (lines.length > 0) lines.push("")
+      lines.push(`## Sheet: ${sheet.name}`, "")
+      const rows = sheet.rows.filter((row) => row.some((cell) => cell.trim()))
+      if (rows.length === 0) lines.push("(empty)")
+      else lines.push(...table(rows))
+    }
+    return lines.join("\n")
+  }
+}
@@ -0,0 +1,66 @@
+import { ZipReader, BlobReader, TextWriter } from "@zip.js/zip.js"
+
+/**
+ * Reading Office Open XML packages (DOCX, XLSX): the zip container and a minimal XML tokenizer. The tokenizer
+ * does not validate or resolve namespaces, which text extraction does not need.
+ */
+export namespace Xml {
+  export type Token =
+    | { type: "open"; name: string; attrs: Record<string, string>; empty: boolean }
+    | { type: "close"; name: string }
+    | { type: "text"; text: string }
+
+  const TOKEN =
+    /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<[?!][\s\S]*?>|<(\/?)([^\s/>]+)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|([^<]+)/g
+  const ATTR = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+  const ENTITIES: Record<string, string> = {
+    lt: "<",
+    gt: ">",
+    amp: "&",
+    quot: '"',
+    apos: "'",
+  }
+
+  export function decode(text: string) {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+      if (entity[0] !== "#") return ENTITIES[entity] ?? match
+      const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1))
+      return Number.isNaN(code) ? match : String.fromCodePoint(code)
+    })
+  }
+
+  export function* tokens(xml: string): Generator<Token> {
+    for (const match of xml.matchAll(TOKEN)) {
+      if (match[1] !== undefined) {
+        yield { type: "text", text: match[1] }
+        continue
+      }
+      if (match[6] !== undefined) {
+        yield { type: "text", text: decode(match[6]) }
+        continue
+      }
+      if (match[3] === undefined) continue
+      if (match[2] === "/") {
+        yield { type: "close", name: match[3] }
+        continue
+      }
+      const attrs: Record<string, string> = {}
+      for (const attr of match[4].matchAll(ATTR)) attrs[attr[1]] = decode(attr[2] ?? attr[3])
+      yield { type: "open", name: match[3], attrs, empty: match[5] === "/" }
+    }
+  }
+
+  /**
+   * Open a zip package and return a reader for its parts by path, e.g. "word/document.xml"
+   */
+  export async function open(bytes: Uint8Array) {
+    const reader = new ZipReader(new BlobReader(new Blob([bytes as Uint8Array<ArrayBuffer>])))
+    const entries = new Map((await reader.getEntries()).map((entry) => [entry.filename, entry]))
+    return async (name: string) => {
+      const entry = entries.get(name)
+      if (!entry?.getData) return
+      return entry.getData(new TextWriter())
+    }
+  }
+}
@@ -9,6 +9,12 @@ export namespace Identifier {
     user: "usr",
     part: "prt",
     pty: "pty",
+    job: "job",
+    audit: "aud",
+    rule: "rul",
+    billing: "bil",
+    research: "res",
+    chronology: "chr",
   } as const
 
   export function schema(prefix: keyof typeof prefixes) {
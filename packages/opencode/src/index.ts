@@ -27,6 +27,9 @@ import { EOL } from "os"
 import { WebCommand } from "./cli/cmd/web"
 import { PrCommand } from "./cli/cmd/pr"
 import { SessionCommand } from "./cli/cmd/session"
+import { BillingCommand } from "./cli/cmd/billing"
+import { ExhibitCommand } from "./cli/cmd/exhibit"
+import { ConflictsCommand } from "./cli/cmd/conflicts"
 
 process.on("unhandledRejection", (e) => {
   Log.Default.error("rejection", {
@@ -99,6 +102,9 @@ const cli = yargs(hideBin(process.argv))
   .command(GithubCommand)
   .command(PrCommand)
   .command(SessionCommand)
+  .command(BillingCommand)
+  .command(ExhibitCommand)
+  .command(ConflictsCommand)
   .fail((msg) => {
     if (
       msg.startsWith("Unknown argument") ||
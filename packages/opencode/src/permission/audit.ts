@@ -0,0 +1,119 @@
+import z from "zod"
+import { Storage } from "../storage/storage"
+import { Csv } from "../util/csv"
+
+/**
+ * Append-only record of every permission decision in a project: what was asked, whether it was allowed, and
+ * whether the user, an earlier "always" answer, a saved rule or a plugin decided it. Entries are never updated
+ * or removed, so the log shows what the agent was allowed to do in a matter.
+ */
+export namespace PermissionAudit {
+  export const Entry = z
+    .object({
+      id: z.string(),
+      projectID: z.string(),
+      permissionID: z.string(),
+      sessionID: z.string(),
+      messageID: z.string(),
+      callID: z.string().optional(),
+      type: z.string(),
+      pattern: z.union([z.string(), z.array(z.string())]).optional(),
+      title: z.string(),
+      metadata: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])),
+      decision: z.enum(["allow", "deny"]),
+      response: z.enum(["once", "always", "reject"]).optional(),
+      by: z.enum(["user", "session", "rule", "plugin", "shutdown"]),
+      // Name of the user who answered, or ID of the rule that allowed it
+      user: z.string().optional(),
+      ruleID: z.string().optional(),
+      time: z.object({
+        asked: z.number(),
+        decided: z.number(),
+      }),
+    })
+    .meta({
+      ref: "PermissionAuditEntry",
+    })
+  export type Entry = z.infer<typeof Entry>
+
+  export const Filter = z.object({
+    sessionID: z.string().optional(),
+    type: z.string().optional(),
+    since: z.coerce.number().optional().meta({ description: "Only decisions made at or after this time (ms)" }),
+    until: z.coerce.number().optional().meta({ description: "Only decisions made before this time (ms)" }),
+  })
+  export type Filter = z.infer<typeof Filter>
+
+  // Tool inputs such as file contents can be large; the log keeps enough to identify the call
+  const MAX_VALUE_LENGTH = 200
+
+  /**
+   * Scalar metadata only, with long strings shortened
+   */
+  export function summarize(metadata: Record<string, any>) {
+    const result: Entry["metadata"] = {}
+    for (const [key, value] of Object.entries(metadata)) {
+      if (typeof value === "number" || typeof value === "boolean") result[key] = value
+      if (typeof value !== "string") continue
+      result[key] = value.length > MAX_VALUE_LENGTH ? value.slice(0, MAX_VALUE_LENGTH) + "…" : value
+    }
+    return result
+  }
+
+  export async function record(entry: Entry) {
+    await Storage.write(["permission_audit", entry.projectID, entry.id], entry)
+  }
+
+  export async function list(projectID: string, filter: Filter = {}) {
+    const keys = await Storage.list(["permission_audit", projectID])
+    const entries = await Promise.all(keys.map((key) => Storage.read<Entry>(key).catch(() => undefined)))
+    return entries.filter(
+      (entry): entry is Entry =>
+        !!entry &&
+        (!filter.sessionID || entry.sessionID === filter.sessionID) &&
+        (!filter.type || entry.type === filter.type) &&
+        (filter.since === undefined || entry.time.decided >= filter.since) &&
+        (filter.until === undefined || entry.time.decided < filter.until),
+    )
+  }
+
+  export function csv(entries: Entry[]) {
+    const header = [
+      "id",
+      "asked",
+      "decided",
+      "session",
+      "message",
+      "call",
+      "type",
+      "pattern",
+      "title",
+      "decision",
+      "response",
+      "by",
+      "user",
+      "rule",
+    ]
+    const rows = entries.map((entry) =>
+      [
+        entry.id,
+        new Date(entry.time.asked).toISOString(),
+        new Date(entry.time.decided).toISOString(),
+        entry.sessionID,
+        entry.messageID,
+        entry.callID,
+        entry.type,
+        Array.isArray(entry.pattern) ? entry.pattern.join(" ") : entry.pattern,
+        entry.title,
+        entry.decision,
+        entry.response,
+        entry.by,
+        entry.user,
+        entry.ruleID,
+      ]
+        .map(Csv.quote)
+        .join(","),
+    )
+    return [header.join(","), ...rows].join("\n") + "\n"
+  }
+}
@@ -0,0 +1,155 @@
+import z from "zod"
+import type { Agent } from "../agent/agent"
+import { Config } from "../config/config"
+import { Wildcard } from "../util/wildcard"
+import { Permission } from "."
+
+/**
+ * Keeps protected matter terms out of tools that send their arguments to third parties. The arguments of each
+ * outbound call are checked before it runs, and the call is blocked, asked about or sent with the terms replaced,
+ * as the policy says. The decision is recorded in the tool part's metadata.
+ */
+export namespace Confidentiality {
+  // Tools that send their arguments to a search engine or an arbitrary URL
+  const OUTBOUND = ["webfetch", "websearch", "codesearch", "casedev_search"]
+
+  const REPLACEMENT = "[REDACTED]"
+
+  export const Decision = z.object({
+    action: z.enum(["block", "ask", "scrub"]),
+    terms: z.array(z.string()),
+    outcome: z.enum(["clear", "blocked", "approved", "rejected", "scrubbed"]),
+  })
+  export type Decision = z.infer<typeof Decision>
+
+  /**
+   * A call the policy blocked. Unlike Permission.RejectedError it does not stop the session: it is returned to the
+   * model as a tool error, so the model can rephrase the call without the protected terms.
+   */
+  export class BlockedError extends Error {
+    constructor(
+      public readonly terms: string[],
+      public readonly metadata: { confidentiality: Decision },
+    ) {
+      super(
+        `This call was blocked because it would send protected matter terms to a third party: ${terms.join(", ")}. Do not retry with the same terms; rephrase the request without client or matter details.`,
+      )
+    }
+  }
+
+  export interface Policy {
+    terms: string[]
+    action: Decision["action"]
+    tools: string[]
+  }
+
+  /**
+   * The project policy with the agent's terms added and its action taking precedence
+   */
+  export function policy(config: Config.Info, agent?: Agent.Info): Policy | undefined {
+    const project = config.confidentiality
+    const own = agent?.confidentiality
+    const terms = [...new Set([...(project?.terms ?? []), ...(own?.terms ?? [])].map((term) => term.trim()))].filter(
+      Boolean,
+    )
+    if (terms.length === 0) return
+    // MCP tool IDs are the sanitized server name followed by the tool name
+    const remote = Object.entries(config.mcp ?? {})
+      .filter(([, mcp]) => mcp.type === "remote")
+      .map(([name]) => name.replace(/[^a-zA-Z0-9_-]/g, "_") + "_*")
+    return {
+      terms,
+      action: own?.action ?? project?.action ?? "ask",
+      tools: [...OUTBOUND, ...remote, ...(project?.tools ?? []), ...(own?.tools ?? [])],
+    }
+  }
+
+  export function outbound(policy: Policy, tool: string) {
+    return policy.tools.some((pattern) => Wildcard.match(tool, pattern))
+  }
+
+  // Words of a term may be joined by spaces, or by the separators of URLs and slugs
+  function pattern(term: string) {
+    const body = term
+      .split(/\s+/)
+      .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("(?:\\s|\\+|%20|_|-)+")
+    const start = /^\w/.test(term) ? "\\b" : ""
+    const end = /\w$/.test(term) ? "\\b" : ""
+    return new RegExp(start + body + end, "gi")
+  }
+
+  function walk(value: unknown, fn: (text: string) => string): unknown {
+    if (typeof value === "string") return fn(value)
+    if (Array.isArray(value)) return value.map((item) => walk(item, fn))
+    if (value && typeof value === "object")
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, walk(item, fn)]))
+    return value
+  }
+
+  /**
+   * Protected terms that appear in any string in the arguments
+   */
+  export function find(args: unknown, terms: string[]) {
+    const found = new Set<string>()
+    walk(args, (text) => {
+      for (const term of terms) if (pattern(term).test(text)) found.add(term)
+      return text
+    })
+    return terms.filter((term) => found.has(term))
+  }
+
+  export function scrub<T>(args: T, terms: string[]): T {
+    return walk(args, (text) => terms.reduce((result, term) => result.replace(pattern(term), REPLACEMENT), text)) as T
+  }
+
+  /**
+   * Checks an outbound call and returns the arguments to send it with, along with metadata to merge into the
+   * result. Throws BlockedError when the call is blocked, and Permission.RejectedError when the user rejects it.
+   */
+  export async function guard<T>(input: {
+    policy?: Policy
+    tool: string
+    args: T
+    sessionID: string
+    messageID: string
+    callID?: string
+  }): Promise<{ args: T; metadata: { confidentiality?: Decision } }> {
+    const { policy } = input
+    if (!policy || !outbound(policy, input.tool)) return { args: input.args, metadata: {} }
+    const terms = find(input.args, policy.terms)
+    const decide = (outcome: Decision["outcome"]) => ({ action: policy.action, terms, outcome })
+    if (terms.length === 0) return { args: input.args, metadata: { confidentiality: decide("clear") } }
+
+    switch (policy.action) {
+      case "block":
+        throw new BlockedError(terms, { confidentiality: decide("blocked") })
+      case "scrub":
+        return { args: scrub(input.args, terms), metadata: { confidentiality: decide("scrubbed") } }
+      case "ask":
+        await Permission.ask({
+          type: "confidentiality",
+          // "Always" lets these terms go to this tool for the rest of the session
+          pattern: terms.map((term) => `${input.tool}:${term}`),
+          sessionID: input.sessionID,
+          messageID: input.messageID,
+          callID: input.callID,
+          title: `Send protected terms to ${input.tool}: ${terms.join(", ")}`,
+          metadata: {
+            tool: input.tool,
+            terms: terms.join(", "),
+          },
+        }).catch((error) => {
+          if (!(error instanceof Permission.RejectedError)) throw error
+          throw new Permission.RejectedError(
+            error.sessionID,
+            error.permissionID,
+            error.toolCallID,
+            { confidentiality: decide("rejected") },
+            error.reason,
+          )
+        })
+        return { args: input.args, metadata: { confidentiality: decide("approved") } }
+    }
+  }
+}
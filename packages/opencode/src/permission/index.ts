@@ -6,6 +6,9 @@ import { Identifier } from "../id/id"
 import { Plugin } from "../plugin"
 import { Instance } from "../project/instance"
 import { Wildcard } from "../util/wildcard"
+import { Storage } from "../storage/storage"
+import { Config } from "../config/config"
+import { PermissionAudit } from "./audit"
 
 export namespace Permission {
   const log = Log.create({ service: "permission" })
@@ -38,6 +41,22 @@ export namespace Permission {
     })
   export type Info = z.infer<typeof Info>
 
+  export const Rule = z
+    .object({
+      id: z.string(),
+      projectID: z.string(),
+      type: z.string(),
+      // Without a pattern the rule allows every request of its type
+      pattern: z.array(z.string()).optional(),
+      time: z.object({
+        created: z.number(),
+      }),
+    })
+    .meta({
+      ref: "PermissionRule",
+    })
+  export type Rule = z.infer<typeof Rule>
+
   export const Event = {
     Updated: BusEvent.define("permission.updated", Info),
     Replied: BusEvent.define(
@@ -71,17 +90,48 @@ export namespace Permission {
       return {
         pending,
         approved,
+        projectID: Instance.project.id,
       }
     },
     async (state) => {
       for (const pending of Object.values(state.pending)) {
         for (const item of Object.values(pending)) {
+          await audit(state.projectID, item.info, { decision: "deny", by: "shutdown" })
           item.reject(new RejectedError(item.info.sessionID, item.info.id, item.info.callID, item.info.metadata))
         }
       }
     },
   )
 
+  async function audit(
+    projectID: string,
+    info: Info,
+    decision: Pick<PermissionAudit.Entry, "decision" | "response" | "by" | "ruleID">,
+  ) {
+    // The ID and time are taken before anything is awaited so entries stay in the order decisions were made
+    const id = Identifier.ascending("audit")
+    const decided = Date.now()
+    const user = decision.by === "user" ? await Config.get().then((config) => config.username) : undefined
+    await PermissionAudit.record({
+      id,
+      projectID,
+      permissionID: info.id,
+      sessionID: info.sessionID,
+      messageID: info.messageID,
+      callID: info.callID,
+      type: info.type,
+      pattern: info.pattern,
+      title: info.title,
+      metadata: PermissionAudit.summarize(info.metadata),
+      ...decision,
+      user,
+      time: {
+        asked: info.time.created,
+        decided,
+      },
+    }).catch((error) => log.error("failed to record permission decision", { error, permissionID: info.id }))
+  }
+
   export function pending() {
     return state().pending
   }
@@ -106,16 +156,13 @@ export namespace Permission {
     messageID: Info["messageID"]
     metadata: Info["metadata"]
   }) {
-    const { pending, approved } = state()
+    const { pending, approved, projectID } = state()
     log.info("asking", {
       sessionID: input.sessionID,
       messageID: input.messageID,
       toolCallID: input.callID,
       pattern: input.pattern,
     })
-    const approvedForSession = approved[input.sessionID] || {}
-    const keys = toKeys(input.pattern, input.type)
-    if (covered(keys, approvedForSession)) return
     const info: Info = {
       id: Identifier.ascending("permission"),
       type: input.type,
@@ -129,15 +176,31 @@ export namespace Permission {
         created: Date.now(),
       },
     }
+    const approvedForSession = approved[input.sessionID] || {}
+    const keys = toKeys(input.pattern, input.type)
+    if (covered(keys, approvedForSession)) {
+      await audit(projectID, info, { decision: "allow", by: "session" })
+      return
+    }
+    // A saved rule allows the request unless a plugin says otherwise
+    const rule = await rules().then((rules) =>
+      rules.find((rule) => rule.type === input.type && (!rule.pattern || covered(keys, toRecord(rule.pattern)))),
+    )
 
     switch (
       await Plugin.trigger("permission.ask", info, {
-        status: "ask",
+        status: rule ? "allow" : "ask",
       }).then((x) => x.status)
     ) {
       case "deny":
+        await audit(projectID, info, { decision: "deny", by: "plugin" })
         throw new RejectedError(info.sessionID, info.id, info.callID, info.metadata)
       case "allow":
+        await audit(
+          projectID,
+          info,
+          rule ? { decision: "allow", by: "rule", ruleID: rule.id } : { decision: "allow", by: "plugin" },
+        )
         return
     }
 
@@ -155,12 +218,20 @@ export namespace Permission {
   export const Response = z.enum(["once", "always", "reject"])
   export type Response = z.infer<typeof Response>
 
-  export function respond(input: { sessionID: Info["sessionID"]; permissionID: Info["id"]; response: Response }) {
+  export function respond(
+    input: { sessionID: Info["sessionID"]; permissionID: Info["id"]; response: Response },
+    by: "user" | "session" = "user",
+  ) {
     log.info("response", input)
-    const { pending, approved } = state()
+    const { pending, approved, projectID } = state()
     const match = pending[input.sessionID]?.[input.permissionID]
     if (!match) return
     delete pending[input.sessionID][input.permissionID]
+    audit(projectID, match.info, {
+      decision: input.response === "reject" ? "deny" : "allow",
+      response: input.response,
+      by,
+    })
     Bus.publish(Event.Replied, {
       sessionID: input.sessionID,
       permissionID: input.permissionID,
@@ -182,16 +253,55 @@ export namespace Permission {
       for (const item of Object.values(items)) {
         const itemKeys = toKeys(item.info.pattern, item.info.type)
         if (covered(itemKeys, approved[input.sessionID])) {
-          respond({
-            sessionID: item.info.sessionID,
-            permissionID: item.info.id,
-            response: input.response,
-          })
+          respond(
+            {
+              sessionID: item.info.sessionID,
+              permissionID: item.info.id,
+              response: input.response,
+            },
+            "session",
+          )
         }
       }
     }
   }
 
+  function toRecord(patterns: string[]) {
+    return Object.fromEntries(patterns.map((pattern) => [pattern, true]))
+  }
+
+  /**
+   * Allow rules saved for the current project, which outlive the session and the app
+   */
+  export async function rules() {
+    const keys = await Storage.list(["permission_rule", Instance.project.id])
+    const rules = await Promise.all(keys.map((key) => Storage.read<Rule>(key).catch(() => undefined)))
+    return rules.filter((rule): rule is Rule => !!rule)
+  }
+
+  export async function allow(input: { type: Rule["type"]; pattern?: Rule["pattern"] }) {
+    const rule: Rule = {
+      id: Identifier.ascending("rule"),
+      projectID: Instance.project.id,
+      type: input.type,
+      pattern: input.pattern,
+      time: {
+        created: Date.now(),
+      },
+    }
+    await Storage.write(["permission_rule", rule.projectID, rule.id], rule)
+    log.info("rule added", { id: rule.id, type: rule.type, pattern: rule.pattern })
+    return rule
+  }
+
+  export async function revoke(ruleID: Rule["id"]) {
+    // Throws Storage.NotFoundError for a rule that does not exist
+    const rule = await Storage.read<Rule>(["permission_rule", Instance.project.id, ruleID])
+    await Storage.remove(["permission_rule", Instance.project.id, ruleID])
+    log.info("rule removed", { id: ruleID })
+    return rule
+  }
+
   export class RejectedError extends Error {
     constructor(
       public readonly sessionID: string,
@@ -0,0 +1,68 @@
+import z from "zod"
+import path from "path"
+import { Log } from "../util/log"
+
+/**
+ * A matter is a client folder marked by .thurgood/matter.json. Folders that are not git repositories get their
+ * own project per matter instead of sharing the global project.
+ */
+export namespace Matter {
+  const log = Log.create({ service: "matter" })
+
+  export const FILE = path.join(".thurgood", "matter.json")
+
+  export const Party = z
+    .object({
+      name: z.string().min(1),
+      role: z.enum(["client", "adverse", "co-party", "counsel", "witness", "related"]).default("related"),
+      aliases: z.string().array().default([]).describe("Other names, e.g. former names, d/b/a names and short forms"),
+      affiliates: z.string().array().default([]).describe("Parents, subsidiaries and other corporate affiliates"),
+    })
+    .meta({
+      ref: "MatterParty",
+    })
+  export type Party = z.infer<typeof Party>
+
+  export const Info = z
+    .object({
+      id: z.string().min(1).describe("Matter number or other identifier, unique within the firm"),
+      client: z.string().optional(),
+      caption: z.string().optional().describe("Case caption or matter name, e.g. Smith v. Jones"),
+      jurisdiction: z.string().optional(),
+      vaults: z.string().array().default([]).describe("Case.dev vault IDs linked to the matter"),
+      parties: Party.array().default([]).describe("Parties and counsel, for conflicts checks"),
+      conflicts_cleared: z.boolean().default(false),
+    })
+    .meta({
+      ref: "Matter",
+    })
+  export type Info = z.infer<typeof Info>
+
+  /**
+   * The folder a matter marker belongs to
+   */
+  export function root(marker: string) {
+    return path.dirname(path.dirname(marker))
+  }
+
+  /**
+   * Project IDs double as storage keys, so the matter ID is reduced to characters that are safe in a path. A hash
+   * of the ID as written keeps matters apart whose IDs only differ in separators, such as 2024/0113 and 2024-0113.
+   */
+  export function projectID(matter: Info) {
+    const hash = new Bun.CryptoHasher("sha256").update(matter.id).digest("hex").slice(0, 8)
+    return `matter_${matter.id.replace(/[^a-zA-Z0-9._-]+/g, "-")}_${hash}`
+  }
+
+  export async function read(marker: string) {
+    const json = await Bun.file(marker)
+      .json()
+      .catch(() => undefined)
+    const parsed = Info.safeParse(json)
+    if (!parsed.success) {
+      log.warn("invalid matter file", { marker, issues: parsed.error?.issues })
+      return
+    }
+    return parsed.data
+  }
+}
@@ -1,6 +1,7 @@
 import z from "zod"
 import { Filesystem } from "../util/filesystem"
 import path from "path"
+import { exists } from "fs/promises"
 import { $ } from "bun"
 import { Storage } from "../storage/storage"
 import { Log } from "../util/log"
@@ -11,6 +12,7 @@ import { fn } from "@opencode-ai/util/fn"
 import { BusEvent } from "@/bus/bus-event"
 import { iife } from "@/util/iife"
 import { GlobalBus } from "@/bus/global"
+import { Matter } from "./matter"
 
 export namespace Project {
   const log = Log.create({ service: "project" })
@@ -19,6 +21,7 @@ export namespace Project {
       id: z.string(),
       worktree: z.string(),
       vcs: z.literal("git").optional(),
+      matter: Matter.Info.optional(),
       name: z.string().optional(),
       icon: z
         .object({
@@ -44,10 +47,24 @@ export namespace Project {
   export async function fromDirectory(directory: string) {
     log.info("fromDirectory", { directory })
 
-    const { id, worktree, vcs } = await iife(async () => {
-      const matches = Filesystem.up({ targets: [".git"], start: directory })
-      const git = await matches.next().then((x) => x.value)
-      await matches.return()
+    const { id, worktree, vcs, matter } = await iife(async () => {
+      // The nearest marker wins, so a matter folder inside a repository is its own project
+      let git: string | undefined
+      for await (const match of Filesystem.up({ targets: [Matter.FILE, ".git"], start: directory })) {
+        if (path.basename(match) === ".git") {
+          git = match
+          break
+        }
+        const matter = await Matter.read(match)
+        if (!matter) continue
+        const worktree = Matter.root(match)
+        return {
+          id: Matter.projectID(matter),
+          worktree,
+          vcs: (await exists(path.join(worktree, ".git"))) ? "git" : Info.shape.vcs.parse(Flag.OPENCODE_FAKE_VCS),
+          matter,
+        }
+      }
       if (git) {
         let worktree = path.dirname(git)
         let id = await Bun.file(path.join(git, "opencode"))
@@ -98,6 +115,7 @@ export namespace Project {
         id,
         worktree,
         vcs: vcs as Info["vcs"],
+        matter,
         time: {
           created: Date.now(),
           updated: Date.now(),
@@ -112,6 +130,7 @@ export namespace Project {
       ...existing,
       worktree,
       vcs: vcs as Info["vcs"],
+      matter,
       time: {
         ...existing.time,
         updated: Date.now(),
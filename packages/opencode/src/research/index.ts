@@ -0,0 +1,157 @@
+import z from "zod"
+import { Identifier } from "../id/id"
+import { Instance } from "../project/instance"
+import { Storage } from "../storage/storage"
+
+/**
+ * Research results kept with the project. Every casedev_search and casedev_vault_search run is saved with its
+ * query, sources and summary, so later sessions can find and cite it after the tool output has been pruned from
+ * the conversation.
+ */
+export namespace Research {
+  const SNIPPET_LENGTH = 300
+
+  export const Tool = z.enum(["casedev_search", "casedev_vault_search"])
+  export type Tool = z.infer<typeof Tool>
+
+  export const Source = z
+    .object({
+      title: z.string(),
+      url: z.string().optional().describe("Web address, or a link that opens a vault document at the page"),
+      snippet: z.string().optional(),
+      objectId: z.string().optional().describe("Vault object the source was found in"),
+    })
+    .meta({
+      ref: "ResearchArtifactSource",
+    })
+  export type Source = z.infer<typeof Source>
+
+  export const Artifact = z
+    .object({
+      id: Identifier.schema("research"),
+      projectID: z.string(),
+      sessionID: Identifier.schema("session"),
+      matterID: z.string().optional(),
+      tool: Tool,
+      query: z.string(),
+      mode: z.string().optional().describe("Research mode, or vault search method"),
+      vaultID: z.string().optional(),
+      remoteID: z.string().optional().describe("Case.dev research ID"),
+      summary: z.string().optional(),
+      sources: Source.array(),
+      offline: z.boolean().optional().describe("Found in the offline vault index while Case.dev was unreachable"),
+      time: z.object({
+        created: z.number(),
+      }),
+    })
+    .meta({
+      ref: "ResearchArtifact",
+    })
+  export type Artifact = z.infer<typeof Artifact>
+
+  export const Filter = z.object({
+    query: z.string().optional().meta({ description: "Words to look for in the query, summary and sources" }),
+    sessionID: z.string().optional(),
+    tool: Tool.optional(),
+  })
+  export type Filter = z.infer<typeof Filter>
+
+  export type Input = Omit<Artifact, "id" | "projectID" | "matterID" | "time">
+
+  /**
+   * Save a research result to the current project
+   */
+  export async function save(input: Input) {
+    const project = Instance.project
+    const artifact: Artifact = {
+      ...input,
+      id: Identifier.ascending("research"),
+      projectID: project.id,
+      matterID: project.matter?.id,
+      sources: input.sources.map((source) => ({
+        ...source,
+        snippet: source.snippet ? snippet(source.snippet) : undefined,
+      })),
+      time: {
+        created: Date.now(),
+      },
+    }
+    await Storage.write(["research", project.id, artifact.id], artifact)
+    return artifact
+  }
+
+  export async function get(researchID: string) {
+    return Storage.read<Artifact>(["research", Instance.project.id, researchID])
+  }
+
+  export async function remove(researchID: string) {
+    const projectID = Instance.project.id
+    await Storage.read(["research", projectID, researchID])
+    await Storage.remove(["research", projectID, researchID])
+  }
+
+  /**
+   * Research in a project, newest first. With a query, only research mentioning its words is listed, best
+   * matches first; words in the original query count more than words in the summary or sources.
+   */
+  export async function list(projectID: string, filter: Filter = {}) {
+    const keys = await Storage.list(["research", projectID])
+    const artifacts = (await Promise.all(keys.map((key) => Storage.read<Artifact>(key).catch(() => undefined))))
+      .filter(
+        (artifact): artifact is Artifact =>
+          !!artifact &&
+          (!filter.sessionID || artifact.sessionID === filter.sessionID) &&
+          (!filter.tool || artifact.tool === filter.tool),
+      )
+      .sort((a, b) => b.time.created - a.time.created || b.id.localeCompare(a.id))
+    const terms = words(filter.query ?? "")
+    if (terms.length === 0) return artifacts
+    return artifacts
+      .map((artifact) => ({ artifact, score: score(artifact, terms) }))
+      .filter((item) => item.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .map((item) => item.artifact)
+  }
+
+  function words(text: string) {
+    return [...new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])].filter((word) => word.length > 1)
+  }
+
+  function score(artifact: Artifact, terms: string[]) {
+    const query = new Set(words(artifact.query))
+    const rest = new Set(
+      words(
+        [artifact.summary, ...artifact.sources.flatMap((source) => [source.title, source.url, source.snippet])].join(
+          " ",
+        ),
+      ),
+    )
+    return terms.reduce((total, term) => total + (query.has(term) ? 3 : 0) + (rest.has(term) ? 1 : 0), 0)
+  }
+
+  function snippet(text: string) {
+    const flat = text.replace(/\s+/g, " ").trim()
+    return flat.length > SNIPPET_LENGTH ? flat.slice(0, SNIPPET_LENGTH - 3) + "..." : flat
+  }
+
+  /**
+   * A research record as text the model can quote and cite from
+   */
+  export function format(artifact: Artifact) {
+    const lines = [
+      `Research ${artifact.id} (${new Date(artifact.time.created).toISOString().slice(0, 10)})`,
+      `Query: ${artifact.query}`,
+      `Tool: ${artifact.tool}${artifact.mode ? ` (${artifact.mode})` : ""}${artifact.offline ? ", offline index" : ""}`,
+    ]
+    if (artifact.vaultID) lines.push(`Vault: ${artifact.vaultID}`)
+    if (artifact.summary) lines.push("", "Summary:", artifact.summary)
+    if (artifact.sources.length > 0) {
+      lines.push("", "Sources:")
+      for (const [index, source] of artifact.sources.entries()) {
+        lines.push(`[${index + 1}] ${source.title}${source.url ? ` - ${source.url}` : ""}`)
+        if (source.snippet) lines.push(`    ${source.snippet}`)
+      }
+    }
+    return lines.join("\n")
+  }
+}
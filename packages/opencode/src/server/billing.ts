@@ -0,0 +1,82 @@
+import { Hono } from "hono"
+import { describeRoute, validator } from "hono-openapi"
+import { resolver } from "hono-openapi"
+import { Instance } from "../project/instance"
+import { Billing } from "../billing"
+import z from "zod"
+import { errors } from "./error"
+import { lazy } from "../util/lazy"
+
+export const BillingRoute = lazy(() =>
+  new Hono()
+    .get(
+      "/",
+      describeRoute({
+        summary: "List time entries",
+        description: "Get the time entries proposed or edited for the current project.",
+        operationId: "billing.list",
+        responses: {
+          200: {
+            description: "Time entries",
+            content: {
+              "application/json": {
+                schema: resolver(Billing.Entry.array()),
+              },
+            },
+          },
+        },
+      }),
+      validator("query", Billing.Filter),
+      async (c) => {
+        return c.json(await Billing.list(Instance.project.id, c.req.valid("query")))
+      },
+    )
+    .patch(
+      "/:entryID",
+      describeRoute({
+        summary: "Update time entry",
+        description: "Edit a time entry. Edited entries are no longer replaced when entries are proposed again.",
+        operationId: "billing.update",
+        responses: {
+          200: {
+            description: "Updated entry",
+            content: {
+              "application/json": {
+                schema: resolver(Billing.Entry),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator("param", z.object({ entryID: z.string() })),
+      validator("json", Billing.Update),
+      async (c) => {
+        return c.json(await Billing.update(c.req.valid("param").entryID, c.req.valid("json")))
+      },
+    )
+    .delete(
+      "/:entryID",
+      describeRoute({
+        summary: "Remove time entry",
+        description: "Remove a time entry from the current project.",
+        operationId: "billing.remove",
+        responses: {
+          200: {
+            description: "Entry removed",
+            content: {
+              "application/json": {
+                schema: resolver(z.boolean()),
+              },
+            },
+          },
+          ...errors(404),
+        },
+      }),
+      validator("param", z.object({ entryID: z.string() })),
+      async (c) => {
+        await Billing.remove(c.req.valid("param").entryID)
+        return c.json(true)
+      },
+    ),
+)
@@ -0,0 +1,81 @@
+import { Hono } from "hono"
+import { describeRoute, validator } from "hono-openapi"
+import { resolver } from "hono-openapi"
+import { Instance } from "../project/instance"
+import { Chronology } from "../chronology"
+import z from "zod"
+import { errors } from "./error"
+import { lazy } from "../util/lazy"
+
+export const ChronologyRoute = lazy(() =>
+  new Hono()
+    .get(
+      "/",
+      describeRoute({
+        summary: "List chronologies",
+        description: "Get the chronologies built in the current project with the chronology tool, newest first.",
+        operationId: "chronology.list",
+        responses: {
+          200: {
+            description: "Chronologies",
+            content: {
+              "application/json": {
+                schema: resolver(Chronology.Info.array()),
+              },
+            },
+          },
+        },
+      }),
+      async (c) => {
+        return c.json(await Chronology.list(Instance.project.id))
+      },
+    )
+    .get(
+      "/:chronologyID",
+      describeRoute({
+        summary: "Get chronology",
+        description: "Get a chronology with its events and their sources.",
+        operationId: "chronology.get",
+        responses: {
+          200: {
+            description: "Chronology",
+            content: {
+              "application/json": {
+                schema: resolver(Chronology.Info),
+              },
+            },
+          },
+          ...errors(404),
+        },
+      }),
+      validator("param", z.object({ chronologyID: z.string() })),
+      async (c) => {
+        return c.json(await Chronology.get(c.req.valid("param").chronologyID))
+      },
+    )
+    .post(
+      "/:chronologyID/export",
+      describeRoute({
+        summary: "Export chronology",
+        description:
+          "Render the events of a chronology, optionally only those about a person or issue, as PDF or DOCX with the casedev_format pipeline. The file is saved next to the chronology file.",
+        operationId: "chronology.export",
+        responses: {
+          200: {
+            description: "Exported file",
+            content: {
+              "application/json": {
+                schema: resolver(z.object({ file: z.string(), events: z.number() })),
+              },
+            },
+          },
+          ...errors(400, 404),
+        },
+      }),
+      validator("param", z.object({ chronologyID: z.string() })),
+      validator("json", Chronology.Filter.extend({ format: z.enum(["pdf", "docx"]) })),
+      async (c) => {
+        return c.json(await Chronology.render(c.req.valid("param").chronologyID, c.req.valid("json")))
+      },
+    ),
+)
@@ -0,0 +1,138 @@
+import { Hono } from "hono"
+import { describeRoute, validator } from "hono-openapi"
+import { resolver } from "hono-openapi"
+import { Instance } from "../project/instance"
+import { Permission } from "../permission"
+import { PermissionAudit } from "../permission/audit"
+import z from "zod"
+import { errors } from "./error"
+import { lazy } from "../util/lazy"
+
+export const PermissionRoute = lazy(() =>
+  new Hono()
+    .get(
+      "/audit",
+      describeRoute({
+        summary: "List permission decisions",
+        description:
+          "Get the audit log of permission decisions for the current project: what was asked, whether it was allowed, and who decided.",
+        operationId: "permission.audit.list",
+        responses: {
+          200: {
+            description: "Permission decisions, oldest first",
+            content: {
+              "application/json": {
+                schema: resolver(PermissionAudit.Entry.array()),
+              },
+            },
+          },
+          ...errors(400),
+        },
+      }),
+      validator("query", PermissionAudit.Filter),
+      async (c) => {
+        return c.json(await PermissionAudit.list(Instance.project.id, c.req.valid("query")))
+      },
+    )
+    .get(
+      "/audit/export",
+      describeRoute({
+        summary: "Export permission decisions",
+        description: "Download the permission audit log for the current project as CSV or JSON.",
+        operationId: "permission.audit.export",
+        responses: {
+          200: {
+            description: "Audit log file",
+            content: {
+              "text/csv": {
+                schema: resolver(z.string()),
+              },
+              "application/json": {
+                schema: resolver(PermissionAudit.Entry.array()),
+              },
+            },
+          },
+          ...errors(400),
+        },
+      }),
+      validator("query", PermissionAudit.Filter.extend({ format: z.enum(["csv", "json"]).default("csv") })),
+      async (c) => {
+        const { format, ...filter } = c.req.valid("query")
+        const entries = await PermissionAudit.list(Instance.project.id, filter)
+        const filename = `permission-audit-${Instance.project.id}.${format}`
+        c.header("Content-Disposition", `attachment; filename="${filename}"`)
+        if (format === "json") return c.json(entries)
+        c.header("Content-Type", "text/csv; charset=utf-8")
+        return c.body(PermissionAudit.csv(entries))
+      },
+    )
+    .get(
+      "/rule",
+      describeRoute({
+        summary: "List permission rules",
+        description: "Get the allow rules saved for the current project.",
+        operationId: "permission.rule.list",
+        responses: {
+          200: {
+            description: "Saved allow rules",
+            content: {
+              "application/json": {
+                schema: resolver(Permission.Rule.array()),
+              },
+            },
+          },
+        },
+      }),
+      async (c) => {
+        return c.json(await Permission.rules())
+      },
+    )
+    .post(
+      "/rule",
+      describeRoute({
+        summary: "Add permission rule",
+        description:
+          "Save an allow rule for the current project, so matching requests are allowed without asking in every session.",
+        operationId: "permission.rule.create",
+        responses: {
+          200: {
+            description: "Saved rule",
+            content: {
+              "application/json": {
+                schema: resolver(Permission.Rule),
+              },
+            },
+          },
+          ...errors(400),
+        },
+      }),
+      validator("json", Permission.Rule.pick({ type: true, pattern: true })),
+      async (c) => {
+        return c.json(await Permission.allow(c.req.valid("json")))
+      },
+    )
+    .delete(
+      "/rule/:ruleID",
+      describeRoute({
+        summary: "Remove permission rule",
+        description: "Remove a saved allow rule from the current project.",
+        operationId: "permission.rule.remove",
+        responses: {
+          200: {
+            description: "Rule removed",
+            content: {
+              "application/json": {
+                schema: resolver(z.boolean()),
+              },
+            },
+          },
+          ...errors(404),
+        },
+      }),
+      validator("param", z.object({ ruleID: z.string() })),
+      async (c) => {
+        await Permission.revoke(c.req.valid("param").ruleID)
+        return c.json(true)
+      },
+    ),
+)
@@ -0,0 +1,82 @@
+import { Hono } from "hono"
+import { describeRoute, validator } from "hono-openapi"
+import { resolver } from "hono-openapi"
+import { Instance } from "../project/instance"
+import { Research } from "../research"
+import z from "zod"
+import { errors } from "./error"
+import { lazy } from "../util/lazy"
+
+export const ResearchRoute = lazy(() =>
+  new Hono()
+    .get(
+      "/",
+      describeRoute({
+        summary: "List research",
+        description:
+          "Get the research saved in the current project by casedev_search and casedev_vault_search, newest first, or the research matching a query.",
+        operationId: "research.list",
+        responses: {
+          200: {
+            description: "Saved research",
+            content: {
+              "application/json": {
+                schema: resolver(Research.Artifact.array()),
+              },
+            },
+          },
+        },
+      }),
+      validator("query", Research.Filter),
+      async (c) => {
+        return c.json(await Research.list(Instance.project.id, c.req.valid("query")))
+      },
+    )
+    .get(
+      "/:researchID",
+      describeRoute({
+        summary: "Get research",
+        description: "Get a saved research record with its summary and sources.",
+        operationId: "research.get",
+        responses: {
+          200: {
+            description: "Research record",
+            content: {
+              "application/json": {
+                schema: resolver(Research.Artifact),
+              },
+            },
+          },
+          ...errors(404),
+        },
+      }),
+      validator("param", z.object({ researchID: z.string() })),
+      async (c) => {
+        return c.json(await Research.get(c.req.valid("param").researchID))
+      },
+    )
+    .delete(
+      "/:researchID",
+      describeRoute({
+        summary: "Remove research",
+        description: "Remove a saved research record from the current project.",
+        operationId: "research.remove",
+        responses: {
+          200: {
+            description: "Research removed",
+            content: {
+              "application/json": {
+                schema: resolver(z.boolean()),
+              },
+            },
+          },
+          ...errors(404),
+        },
+      }),
+      validator("param", z.object({ researchID: z.string() })),
+      async (c) => {
+        await Research.remove(c.req.valid("param").researchID)
+        return c.json(true)
+      },
+    ),
+)
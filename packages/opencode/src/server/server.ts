@@ -29,6 +29,10 @@ import { Command } from "../command"
 import { ProviderAuth } from "../provider/auth"
 import { Global } from "../global"
 import { ProjectRoute } from "./project"
+import { PermissionRoute } from "./permission"
+import { BillingRoute } from "./billing"
+import { ResearchRoute } from "./research"
+import { ChronologyRoute } from "./chronology"
 import { ToolRegistry } from "../tool/registry"
 import { zodToJsonSchema } from "zod-to-json-schema"
 import { SessionPrompt } from "../session/prompt"
@@ -36,6 +40,8 @@ import { SessionCompaction } from "../session/compaction"
 import { SessionRevert } from "../session/revert"
 import { lazy } from "../util/lazy"
 import { Todo } from "../session/todo"
+import { CaseDevJob } from "../tool/casedev/job"
+import { Billing } from "../billing"
 import { InstanceBootstrap } from "../project/bootstrap"
 import { MCP } from "../mcp"
 import { Storage } from "../storage/storage"
@@ -751,6 +757,35 @@ export namespace Server {
           return c.json(todos)
         },
       )
+      .get(
+        "/session/:sessionID/job",
+        describeRoute({
+          summary: "Get session jobs",
+          description: "Retrieve the background Case.dev jobs (OCR, transcription, ingestion) tracked for a session.",
+          operationId: "session.job",
+          responses: {
+            200: {
+              description: "List of jobs",
+              content: {
+                "application/json": {
+                  schema: resolver(CaseDevJob.Info.array()),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator(
+          "param",
+          z.object({
+            sessionID: z.string().meta({ description: "Session ID" }),
+          }),
+        ),
+        async (c) => {
+          const sessionID = c.req.valid("param").sessionID
+          return c.json(CaseDevJob.list(sessionID))
+        },
+      )
       .post(
         "/session",
         describeRoute({
@@ -1554,6 +1589,35 @@ export namespace Server {
           return c.json(permissions)
         },
       )
+      // Built on first use: permissions, billing, research and chronology load the server back through plugins
+      .route("/permission", PermissionRoute())
+      .route("/billing", BillingRoute())
+      .post(
+        "/session/:sessionID/billing",
+        describeRoute({
+          summary: "Propose time entries",
+          description:
+            "Propose time entries for a session from its activity. Entries that have been edited are kept as they are.",
+          operationId: "billing.propose",
+          responses: {
+            200: {
+              description: "The session's time entries",
+              content: {
+                "application/json": {
+                  schema: resolver(Billing.Entry.array()),
+                },
+              },
+            },
+            ...errors(400, 404),
+          },
+        }),
+        validator("param", z.object({ sessionID: z.string() })),
+        async (c) => {
+          return c.json(await Billing.propose(c.req.valid("param").sessionID))
+        },
+      )
+      .route("/research", ResearchRoute())
+      .route("/chronology", ChronologyRoute())
       .get(
         "/command",
         describeRoute({
@@ -4,6 +4,7 @@ import { Identifier } from "@/id/id"
 import { Session } from "."
 import { Agent } from "@/agent/agent"
 import { Permission } from "@/permission"
+import { Confidentiality } from "@/permission/confidentiality"
 import { Snapshot } from "@/snapshot"
 import { SessionSummary } from "./summary"
 import { Bus } from "@/bus"
@@ -13,6 +14,7 @@ import { Plugin } from "@/plugin"
 import type { Provider } from "@/provider/provider"
 import { LLM } from "./llm"
 import { Config } from "@/config/config"
+import { NamedError } from "@opencode-ai/util/error"
 
 export namespace SessionProcessor {
   const DOOM_LOOP_THRESHOLD = 3
@@ -206,13 +208,21 @@ export namespace SessionProcessor {
                 case "tool-error": {
                   const match = toolcalls[value.toolCallId]
                   if (match && match.state.status === "running") {
+                    // Typed errors keep their data, such as the request ID a Case.dev error was reported under
+                    const metadata =
+                      value.error instanceof Permission.RejectedError ||
+                      value.error instanceof Confidentiality.BlockedError
+                        ? value.error.metadata
+                        : value.error instanceof NamedError
+                          ? { error: value.error.toObject() }
+                          : undefined
                     await Session.updatePart({
                       ...match,
                       state: {
                         status: "error",
                         input: value.input,
                         error: (value.error as any).toString(),
-                        metadata: value.error instanceof Permission.RejectedError ? value.error.metadata : undefined,
+                        metadata,
                         time: {
                           start: match.state.time.start,
                           end: Date.now(),
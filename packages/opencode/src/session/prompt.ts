@@ -43,6 +43,8 @@ import { SessionStatus } from "./status"
 import { LLM } from "./llm"
 import { iife } from "@/util/iife"
 import { Shell } from "@/shell/shell"
+import { Config } from "@/config/config"
+import { Confidentiality } from "@/permission/confidentiality"
 
 // @ts-ignore
 globalThis.AI_SDK_LOG_WARNINGS = false
@@ -583,6 +585,7 @@ export namespace SessionPrompt {
       mergeDeep(await ToolRegistry.enabled(input.agent)),
       mergeDeep(input.tools ?? {}),
     )
+    const policy = Confidentiality.policy(await Config.get(), input.agent)
     for (const item of await ToolRegistry.tools(input.model.providerID, input.agent)) {
       if (Wildcard.all(item.id, enabledTools) === false) continue
       const schema = ProviderTransform.schema(input.model, z.toJSONSchema(item.parameters))
@@ -602,7 +605,16 @@ export namespace SessionPrompt {
               args,
             },
           )
-          const result = await item.execute(args, {
+          // Checked after the plugins so the arguments are the ones that will be sent
+          const guarded = await Confidentiality.guard({
+            policy,
+            tool: item.id,
+            args,
+            sessionID: input.sessionID,
+            messageID: input.processor.message.id,
+            callID: options.toolCallId,
+          })
+          const result = await item.execute(guarded.args, {
             sessionID: input.sessionID,
             abort: options.abortSignal!,
             messageID: input.processor.message.id,
@@ -636,7 +648,7 @@ export namespace SessionPrompt {
             },
             result,
           )
-          return result
+          return { ...result, metadata: { ...result.metadata, ...guarded.metadata } }
         },
         toModelOutput(result) {
           return {
@@ -664,7 +676,15 @@ export namespace SessionPrompt {
             args,
           },
         )
-        const result = await execute(args, opts)
+        const guarded = await Confidentiality.guard({
+          policy,
+          tool: key,
+          args,
+          sessionID: input.sessionID,
+          messageID: input.processor.message.id,
+          callID: opts.toolCallId,
+        })
+        const result = await execute(guarded.args, opts)
 
         await Plugin.trigger(
           "tool.execute.after",
@@ -697,7 +717,7 @@ export namespace SessionPrompt {
 
         return {
           title: "",
-          metadata: result.metadata ?? {},
+          metadata: { ...result.metadata, ...guarded.metadata },
           output: textParts.join("\n\n"),
           attachments,
           content: result.content, // directly return content to preserve ordering when outputting to model
@@ -24,33 +24,41 @@ export namespace SessionRetry {
     if (error) {
       const headers = error.data.responseHeaders
       if (headers) {
-        const retryAfterMs = headers["retry-after-ms"]
-        if (retryAfterMs) {
-          const parsedMs = Number.parseFloat(retryAfterMs)
-          if (!Number.isNaN(parsedMs)) {
-            return parsedMs
-          }
-        }
+        return after(headers) ?? RETRY_INITIAL_DELAY * Math.pow(RETRY_BACKOFF_FACTOR, attempt - 1)
+      }
+    }
 
-        const retryAfter = headers["retry-after"]
-        if (retryAfter) {
-          const parsedSeconds = Number.parseFloat(retryAfter)
-          if (!Number.isNaN(parsedSeconds)) {
-            // convert seconds to milliseconds
-            return Math.ceil(parsedSeconds * 1000)
-          }
-          // Try parsing as HTTP date format
-          const parsed = Date.parse(retryAfter) - Date.now()
-          if (!Number.isNaN(parsed) && parsed > 0) {
-            return Math.ceil(parsed)
-          }
-        }
+    return Math.min(RETRY_INITIAL_DELAY * Math.pow(RETRY_BACKOFF_FACTOR, attempt - 1), RETRY_MAX_DELAY_NO_HEADERS)
+  }
 
-        return RETRY_INITIAL_DELAY * Math.pow(RETRY_BACKOFF_FACTOR, attempt - 1)
+  /**
+   * Delay the server asked for, in milliseconds, from retry-after-ms or retry-after (seconds or an HTTP date).
+   * Header names must be lowercase.
+   */
+  export function after(headers: Record<string, string>) {
+    const retryAfterMs = headers["retry-after-ms"]
+    if (retryAfterMs) {
+      const parsedMs = Number.parseFloat(retryAfterMs)
+      if (!Number.isNaN(parsedMs)) {
+        return parsedMs
       }
     }
 
-    return Math.min(RETRY_INITIAL_DELAY * Math.pow(RETRY_BACKOFF_FACTOR, attempt - 1), RETRY_MAX_DELAY_NO_HEADERS)
+    const retryAfter = headers["retry-after"]
+    if (retryAfter) {
+      const parsedSeconds = Number.parseFloat(retryAfter)
+      if (!Number.isNaN(parsedSeconds)) {
+        // convert seconds to milliseconds
+        return Math.ceil(parsedSeconds * 1000)
+      }
+      // Try parsing as HTTP date format
+      const parsed = Date.parse(retryAfter) - Date.now()
+      if (!Number.isNaN(parsed) && parsed > 0) {
+        return Math.ceil(parsed)
+      }
+    }
+
+    return undefined
   }
 
   export function retryable(error: ReturnType<NamedError["toObject"]>) {
@@ -4,6 +4,7 @@ import { Filesystem } from "../util/filesystem"
 import { Config } from "../config/config"
 
 import { Instance } from "../project/instance"
+import type { Matter } from "../project/matter"
 import path from "path"
 import os from "os"
 
@@ -42,9 +43,10 @@ export namespace SystemPrompt {
         `  Platform: ${process.platform}`,
         `  Today's date: ${new Date().toDateString()}`,
         `</env>`,
+        ...matter(project.matter),
         `<files>`,
         `  ${
-          project.vcs === "git"
+          project.vcs === "git" || project.matter
             ? await Ripgrep.tree({
                 cwd: Instance.directory,
                 limit: 200,
@@ -56,6 +58,23 @@ export namespace SystemPrompt {
     ]
   }
 
+  function matter(info?: Matter.Info) {
+    if (!info) return []
+    return [
+      `<matter>`,
+      `  Matter: ${info.id}`,
+      ...(info.caption ? [`  Caption: ${info.caption}`] : []),
+      ...(info.client ? [`  Client: ${info.client}`] : []),
+      ...(info.jurisdiction ? [`  Jurisdiction: ${info.jurisdiction}`] : []),
+      ...(info.vaults.length > 0 ? [`  Vaults: ${info.vaults.join(", ")}`] : []),
+      ...(info.parties.length > 0
+        ? [`  Parties: ${info.parties.map((party) => `${party.name} (${party.role})`).join(", ")}`]
+        : []),
+      `  Conflicts cleared: ${info.conflicts_cleared ? "yes" : "no"}`,
+      `</matter>`,
+    ]
+  }
+
   const LOCAL_RULE_FILES = [
     "AGENTS.md",
     "CLAUDE.md",
@@ -1,35 +1,53 @@
 import { $ } from "bun"
 import path from "path"
+import os from "os"
 import fs from "fs/promises"
 import { Log } from "../util/log"
 import { Global } from "../global"
 import z from "zod"
 import { Config } from "../config/config"
 import { Instance } from "../project/instance"
+import { Extract } from "../extract"
+import { Compare } from "../compare"
+import { diffLines } from "diff"
 
 export namespace Snapshot {
   const log = Log.create({ service: "snapshot" })
 
+  // Folders that are not git repositories have no ignore rules of their own
+  const IGNORE = ["node_modules/", ".DS_Store", "Thumbs.db", "desktop.ini", "~$*", ".~lock.*#", "*.tmp"]
+  export const MAX_FILES = 10_000
+  export const MAX_FILE_SIZE = 100 * 1024 * 1024
+
   export async function track() {
-    if (Instance.project.vcs !== "git") return
     const cfg = await Config.get()
     if (cfg.snapshot === false) return
+    if (Instance.project.vcs !== "git") {
+      // Never snapshot a whole disk or home folder that was opened without a matter marker
+      if (worktree() === path.parse(worktree()).root || worktree() === os.homedir()) return
+      if (Bun.which("git") === null) {
+        log.warn("git is not installed, snapshots are disabled")
+        return
+      }
+    }
     const git = gitdir()
     if (await fs.mkdir(git, { recursive: true })) {
       await $`git init`
         .env({
           ...process.env,
           GIT_DIR: git,
-          GIT_WORK_TREE: Instance.worktree,
+          GIT_WORK_TREE: worktree(),
         })
         .quiet()
         .nothrow()
       // Configure git to not convert line endings on Windows
       await $`git --git-dir ${git} config core.autocrlf false`.quiet().nothrow()
+      if (Instance.project.vcs !== "git")
+        await fs.appendFile(path.join(git, "info", "exclude"), IGNORE.join("\n") + "\n")
       log.info("initialized")
     }
-    await $`git --git-dir ${git} --work-tree ${Instance.worktree} add .`.quiet().cwd(Instance.directory).nothrow()
-    const hash = await $`git --git-dir ${git} --work-tree ${Instance.worktree} write-tree`
+    if (!(await add(git))) return
+    const hash = await $`git --git-dir ${git} --work-tree ${worktree()} write-tree`
       .quiet()
       .cwd(Instance.directory)
       .nothrow()
@@ -38,6 +56,48 @@ export namespace Snapshot {
     return hash.trim()
   }
 
+  async function add(git: string) {
+    if (Instance.project.vcs !== "git" && !(await bounded(git))) return false
+    await $`git --git-dir ${git} --work-tree ${worktree()} add .`.quiet().cwd(Instance.directory).nothrow()
+    return true
+  }
+
+  /**
+   * Keep the shadow repository of a folder that is not a git repository within bounds: new files over
+   * MAX_FILE_SIZE are left out of snapshots, and a folder with more than MAX_FILES files is not snapshotted.
+   */
+  async function bounded(git: string) {
+    const files = async (...args: string[]) =>
+      (
+        await $`git --git-dir ${git} --work-tree ${worktree()} ls-files -z ${args}`
+          .quiet()
+          .cwd(worktree())
+          .nothrow()
+          .text()
+      )
+        .split("\0")
+        .filter(Boolean)
+    const added = await files("--others", "--exclude-standard")
+    const large: string[] = []
+    for (const file of added) {
+      const stat = await fs.stat(path.join(worktree(), file)).catch(() => undefined)
+      if (stat && stat.size > MAX_FILE_SIZE) large.push(file)
+    }
+    if (large.length > 0) {
+      log.info("leaving large files out of snapshots", { files: large })
+      await fs.appendFile(
+        path.join(git, "info", "exclude"),
+        large.map((file) => "/" + file.replace(/[\\*?[]/g, "\\$&")).join("\n") + "\n",
+      )
+    }
+    const total = (await files("--cached")).length + added.length - large.length
+    if (total > MAX_FILES) {
+      log.warn("folder has too many files to snapshot", { worktree: worktree(), files: total })
+      return false
+    }
+    return true
+  }
+
   export const Patch = z.object({
     hash: z.string(),
     files: z.string().array(),
@@ -46,9 +106,9 @@ export namespace Snapshot {
 
   export async function patch(hash: string): Promise<Patch> {
     const git = gitdir()
-    await $`git --git-dir ${git} --work-tree ${Instance.worktree} add .`.quiet().cwd(Instance.directory).nothrow()
+    await add(git)
     const result =
-      await $`git -c core.autocrlf=false --git-dir ${git} --work-tree ${Instance.worktree} diff --no-ext-diff --name-only ${hash} -- .`
+      await $`git -c core.autocrlf=false --git-dir ${git} --work-tree ${worktree()} diff --no-ext-diff --name-only ${hash} -- .`
         .quiet()
         .cwd(Instance.directory)
         .nothrow()
@@ -67,7 +127,7 @@ export namespace Snapshot {
         .split("\n")
         .map((x) => x.trim())
         .filter(Boolean)
-        .map((x) => path.join(Instance.worktree, x)),
+        .map((x) => path.join(worktree(), x)),
     }
   }
 
@@ -75,9 +135,9 @@ export namespace Snapshot {
     log.info("restore", { commit: snapshot })
     const git = gitdir()
     const result =
-      await $`git --git-dir ${git} --work-tree ${Instance.worktree} read-tree ${snapshot} && git --git-dir ${git} --work-tree ${Instance.worktree} checkout-index -a -f`
+      await $`git --git-dir ${git} --work-tree ${worktree()} read-tree ${snapshot} && git --git-dir ${git} --work-tree ${worktree()} checkout-index -a -f`
         .quiet()
-        .cwd(Instance.worktree)
+        .cwd(worktree())
         .nothrow()
 
     if (result.exitCode !== 0) {
@@ -97,16 +157,16 @@ export namespace Snapshot {
       for (const file of item.files) {
         if (files.has(file)) continue
         log.info("reverting", { file, hash: item.hash })
-        const result = await $`git --git-dir ${git} --work-tree ${Instance.worktree} checkout ${item.hash} -- ${file}`
+        const result = await $`git --git-dir ${git} --work-tree ${worktree()} checkout ${item.hash} -- ${file}`
           .quiet()
-          .cwd(Instance.worktree)
+          .cwd(worktree())
           .nothrow()
         if (result.exitCode !== 0) {
-          const relativePath = path.relative(Instance.worktree, file)
+          const relativePath = path.relative(worktree(), file)
           const checkTree =
-            await $`git --git-dir ${git} --work-tree ${Instance.worktree} ls-tree ${item.hash} -- ${relativePath}`
+            await $`git --git-dir ${git} --work-tree ${worktree()} ls-tree ${item.hash} -- ${relativePath}`
               .quiet()
-              .cwd(Instance.worktree)
+              .cwd(worktree())
               .nothrow()
           if (checkTree.exitCode === 0 && checkTree.text().trim()) {
             log.info("file existed in snapshot but checkout failed, keeping", {
@@ -124,11 +184,11 @@ export namespace Snapshot {
 
   export async function diff(hash: string) {
     const git = gitdir()
-    await $`git --git-dir ${git} --work-tree ${Instance.worktree} add .`.quiet().cwd(Instance.directory).nothrow()
+    await add(git)
     const result =
-      await $`git -c core.autocrlf=false --git-dir ${git} --work-tree ${Instance.worktree} diff --no-ext-diff ${hash} -- .`
+      await $`git -c core.autocrlf=false --git-dir ${git} --work-tree ${worktree()} diff --no-ext-diff ${hash} -- .`
         .quiet()
-        .cwd(Instance.worktree)
+        .cwd(worktree())
         .nothrow()
 
     if (result.exitCode !== 0) {
@@ -159,7 +219,7 @@ export namespace Snapshot {
   export async function diffFull(from: string, to: string): Promise<FileDiff[]> {
     const git = gitdir()
     const result: FileDiff[] = []
-    for await (const line of $`git -c core.autocrlf=false --git-dir ${git} --work-tree ${Instance.worktree} diff --no-ext-diff --no-renames --numstat ${from} ${to} -- .`
+    for await (const line of $`git -c core.autocrlf=false --git-dir ${git} --work-tree ${worktree()} diff --no-ext-diff --no-renames --numstat ${from} ${to} -- .`
       .quiet()
       .cwd(Instance.directory)
       .nothrow()
@@ -167,18 +227,18 @@ export namespace Snapshot {
       if (!line) continue
       const [additions, deletions, file] = line.split("\t")
       const isBinaryFile = additions === "-" && deletions === "-"
-      const before = isBinaryFile
-        ? ""
-        : await $`git -c core.autocrlf=false --git-dir ${git} --work-tree ${Instance.worktree} show ${from}:${file}`
-            .quiet()
-            .nothrow()
-            .text()
-      const after = isBinaryFile
-        ? ""
-        : await $`git -c core.autocrlf=false --git-dir ${git} --work-tree ${Instance.worktree} show ${to}:${file}`
-            .quiet()
-            .nothrow()
-            .text()
+      if (isBinaryFile) {
+        result.push(await document(git, from, to, file))
+        continue
+      }
+      const before = await $`git -c core.autocrlf=false --git-dir ${git} --work-tree ${worktree()} show ${from}:${file}`
+        .quiet()
+        .nothrow()
+        .text()
+      const after = await $`git -c core.autocrlf=false --git-dir ${git} --work-tree ${worktree()} show ${to}:${file}`
+        .quiet()
+        .nothrow()
+        .text()
       result.push({
         file,
         before,
@@ -190,8 +250,56 @@ export namespace Snapshot {
     return result
   }
 
+  /**
+   * Binary drafts such as DOCX and PDF are compared on their extracted text when the format is supported
+   */
+  async function document(git: string, from: string, to: string, file: string): Promise<FileDiff> {
+    const result: FileDiff = { file, before: "", after: "", additions: 0, deletions: 0 }
+    const isPdf = path.extname(file).toLowerCase() === ".pdf"
+    if (!isPdf && !Extract.supported(file)) return result
+    const text = async (hash: string) => {
+      const output = await $`git --git-dir ${git} --work-tree ${worktree()} show ${hash}:${file}`.quiet().nothrow()
+      if (output.exitCode !== 0) return ""
+      if (isPdf) return pdf(output.stdout).catch(() => "")
+      return Extract.content(file, output.stdout).catch(() => "")
+    }
+    result.before = await text(from)
+    result.after = await text(to)
+    for (const change of diffLines(result.before, result.after)) {
+      if (change.added) result.additions += change.count || 0
+      if (change.removed) result.deletions += change.count || 0
+    }
+    return result
+  }
+
+  /**
+   * pdftotext reads from a file, so an earlier version is written out to a temporary one first
+   */
+  async function pdf(bytes: Uint8Array) {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "snapshot-"))
+    const filepath = path.join(dir, "document.pdf")
+    try {
+      await Bun.write(filepath, bytes)
+      return (await Compare.pdf(filepath)).join("\n")
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true })
+    }
+  }
+
+  /**
+   * The folder snapshots cover. Snapshots live in a shadow repository under the data directory, so folders
+   * that are not git repositories, such as matter folders, can be reverted too.
+   */
+  function worktree() {
+    const project = Instance.project
+    if (project.id === "global" && project.vcs !== "git") return Instance.directory
+    return Instance.worktree
+  }
+
   function gitdir() {
     const project = Instance.project
-    return path.join(Global.Path.data, "snapshot", project.id)
+    if (project.id !== "global") return path.join(Global.Path.data, "snapshot", project.id)
+    // Folders without a project of their own share the global project, so each gets its own repository
+    return path.join(Global.Path.data, "snapshot", "global", Bun.hash(worktree()).toString(16))
   }
 }
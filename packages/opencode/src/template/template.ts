@@ -0,0 +1,177 @@
+import z from "zod"
+import path from "path"
+import { Config } from "../config/config"
+import { Instance } from "../project/instance"
+import { NamedError } from "@opencode-ai/util/error"
+import { ConfigMarkdown } from "../config/markdown"
+import { Log } from "../util/log"
+
+export namespace Template {
+  const log = Log.create({ service: "template" })
+
+  export const Variable = z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    required: z.boolean().default(true),
+    default: z.string().optional(),
+  })
+  export type Variable = z.infer<typeof Variable>
+
+  export const Frontmatter = z.object({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    format: z.enum(["pdf", "docx", "html_preview"]).default("pdf"),
+    // "- court" is shorthand for a required variable with no description
+    variables: z
+      .union([z.string().transform((name) => Variable.parse({ name })), Variable])
+      .array()
+      .default([]),
+    caption: z.string().optional(),
+    signature: z.string().optional(),
+  })
+
+  export const Info = z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    format: z.enum(["pdf", "docx", "html_preview"]),
+    variables: Variable.array(),
+    caption: z.string().optional(),
+    signature: z.string().optional(),
+    content: z.string(),
+    location: z.string(),
+  })
+  export type Info = z.infer<typeof Info>
+
+  export const InvalidError = NamedError.create(
+    "TemplateInvalidError",
+    z.object({
+      path: z.string(),
+      message: z.string().optional(),
+      issues: z.custom<z.core.$ZodIssue[]>().optional(),
+    }),
+  )
+
+  export const MissingVariablesError = NamedError.create(
+    "TemplateMissingVariablesError",
+    z.object({
+      name: z.string(),
+      missing: z.string().array(),
+    }),
+  )
+
+  const TEMPLATE_GLOB = new Bun.Glob("template/**/*.md")
+  const VARIABLE_REGEX = /\{\{\s*([\w.-]+)\s*\}\}/g
+  // Placeholders filled by later stages of the format pipeline rather than by template variables
+  const RESERVED = new Set(["caption", "signature", "content", "table_of_authorities"])
+
+  export const state = Instance.state(async () => {
+    const directories = await Config.directories()
+    const templates: Record<string, Info> = {}
+
+    for (const dir of directories) {
+      for await (const match of TEMPLATE_GLOB.scan({
+        cwd: dir,
+        absolute: true,
+        onlyFiles: true,
+        followSymlinks: true,
+      })) {
+        const md = await ConfigMarkdown.parse(match).catch((error) => {
+          log.error("failed to load template", { path: match, error })
+          return undefined
+        })
+        if (!md) continue
+
+        const parsed = Frontmatter.safeParse(md.data)
+        if (!parsed.success) {
+          log.error("invalid template", {
+            error: new InvalidError({ path: match, issues: parsed.error.issues }),
+          })
+          continue
+        }
+
+        const name = parsed.data.name ?? path.basename(match, ".md")
+        if (templates[name]) {
+          log.warn("duplicate template name", {
+            name,
+            existing: templates[name].location,
+            duplicate: match,
+          })
+        }
+
+        templates[name] = {
+          name,
+          description: parsed.data.description,
+          format: parsed.data.format,
+          variables: parsed.data.variables,
+          caption: parsed.data.caption,
+          signature: parsed.data.signature,
+          content: md.content.trim(),
+          location: match,
+        }
+      }
+    }
+
+    return templates
+  })
+
+  export async function get(name: string) {
+    return state().then((x) => x[name])
+  }
+
+  export async function all() {
+    return state().then((x) => Object.values(x))
+  }
+
+  /**
+   * Variables whose value is neither supplied nor defaulted
+   */
+  export function missing(template: Info, values: Record<string, string>) {
+    return template.variables
+      .filter((v) => v.required && v.default === undefined && !values[v.name]?.trim())
+      .map((v) => v.name)
+  }
+
+  /**
+   * Assemble the caption, body and signature block and fill in every declared variable.
+   * Throws MissingVariablesError when a required variable has no value.
+   */
+  export function render(template: Info, values: Record<string, string>) {
+    const absent = missing(template, values)
+    if (absent.length > 0) throw new MissingVariablesError({ name: template.name, missing: absent })
+
+    let content = template.content
+    // Content given for a template with no slot for it goes after the body rather than being dropped
+    if (values.content !== undefined && !/\{\{\s*content\s*\}\}/.test(content)) {
+      content = `${content.trimEnd()}\n\n{{content}}`
+    }
+    // Function replacers keep $-sequences in a caption or signature block from being expanded
+    if (template.caption) {
+      const caption = template.caption.trim()
+      content = content.includes("{{caption}}")
+        ? content.replace("{{caption}}", () => caption)
+        : `${caption}\n\n${content}`
+    }
+    if (template.signature) {
+      const signature = template.signature.trim()
+      content = content.includes("{{signature}}")
+        ? content.replace("{{signature}}", () => signature)
+        : `${content}\n\n${signature}`
+    }
+
+    const declared = new Map(template.variables.map((v) => [v.name, v]))
+    const unknown = new Set<string>()
+    const result = content.replace(VARIABLE_REGEX, (match, name: string) => {
+      if (values[name] !== undefined) return values[name]
+      const variable = declared.get(name)
+      if (variable) return variable.default ?? ""
+      if (!RESERVED.has(name)) unknown.add(name)
+      return match
+    })
+
+    return {
+      content: result,
+      // Placeholders in the template that are not declared in its frontmatter
+      unknown: [...unknown],
+    }
+  }
+}
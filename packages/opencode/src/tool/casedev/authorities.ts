@@ -0,0 +1,203 @@
+import { Citation } from "./citation"
+
+/**
+ * Builds a Table of Authorities for a markdown brief. The final layout is only known after rendering,
+ * so page numbers are estimated from explicit page breaks and a double-spaced words-per-page budget, and the
+ * table carries a note saying so.
+ */
+export namespace TableOfAuthorities {
+  export const PLACEHOLDER = "{{table_of_authorities}}"
+  export const WORDS_PER_PAGE = 250
+  export const ESTIMATED = "Page numbers are estimated. Confirm them against the final document before filing."
+  // Courts expect "passim" instead of a page list for authorities cited throughout
+  const PASSIM_PAGES = 5
+
+  export const PAGE_BREAK =
+    /^[ \t]*(?:\\newpage|\\pagebreak|<!--\s*pagebreak\s*-->|<div[^>]*page-break-(?:before|after)[^>]*>\s*<\/div>)[ \t]*$/gim
+
+  const PAGE_BREAK_HTML = `<div style="page-break-after: always"></div>`
+
+  export type Category = "cases" | "constitution" | "statutes" | "rules"
+
+  const HEADINGS: Record<Category, string> = {
+    cases: "Cases",
+    constitution: "Constitutional Provisions",
+    statutes: "Statutes",
+    rules: "Rules and Regulations",
+  }
+
+  export interface Authority {
+    category: Category
+    /** Markdown shown in the table, e.g. "*Roe v. Wade*, 410 U.S. 113 (1973)" */
+    heading: string
+    pages: number[]
+    anchors: string[]
+    sort: string
+  }
+
+  export interface Result {
+    /** The document with the table inserted and an anchor before every cited authority */
+    content: string
+    authorities: Authority[]
+  }
+
+  /**
+   * Insert a Table of Authorities at {{table_of_authorities}}, or after the document title when there is no
+   * placeholder. Only citations after the table are indexed, and pages are counted from there.
+   */
+  export function build(content: string): Result {
+    const placeholder = content.indexOf(PLACEHOLDER)
+    const title = content.match(/^#\s.*\n/)
+    const split = placeholder >= 0 ? placeholder : (title?.[0].length ?? 0)
+    const head = content.slice(0, split)
+    const body = content.slice(placeholder >= 0 ? split + PLACEHOLDER.length : split)
+
+    const citations = Citation.extract(body)
+    const page = paginate(body)
+    const authorities = new Map<string, Authority>()
+    const anchors: { offset: number; id: string }[] = []
+
+    citations.forEach((citation, i) => {
+      const target = authority(citations, i)
+      if (!target) return
+      const id = `toa-${anchors.length + 1}`
+      anchors.push({ offset: citation.span.start, id })
+      const existing = authorities.get(target.key)
+      const entry = existing ?? { ...target.info, pages: [], anchors: [] }
+      const number = page(citation.span.start)
+      if (!entry.pages.includes(number)) {
+        entry.pages.push(number)
+        entry.anchors.push(id)
+      }
+      authorities.set(target.key, entry)
+    })
+
+    let anchored = body
+    for (const anchor of [...anchors].reverse()) {
+      anchored = anchored.slice(0, anchor.offset) + `<a id="${anchor.id}"></a>` + anchored.slice(anchor.offset)
+    }
+
+    const list = [...authorities.values()]
+    return {
+      content: [head.trimEnd(), render(list).trimEnd(), PAGE_BREAK_HTML, anchored.trimStart()]
+        .filter(Boolean)
+        .join("\n\n"),
+      authorities: list,
+    }
+  }
+
+  /**
+   * Markdown for the table itself, grouped by category and sorted within each group
+   */
+  export function render(authorities: Authority[]) {
+    let output = `## Table of Authorities\n`
+    if (authorities.length === 0) return output + `\nNo authorities cited.\n`
+    for (const category of Object.keys(HEADINGS) as Category[]) {
+      const group = authorities
+        .filter((a) => a.category === category)
+        .sort((a, b) => a.sort.localeCompare(b.sort, undefined, { numeric: true }))
+      if (group.length === 0) continue
+      output += `\n### ${HEADINGS[category]}\n\n| Authority | Page(s)\\* |\n| --- | --- |\n`
+      for (const entry of group) {
+        const pages =
+          entry.pages.length >= PASSIM_PAGES
+            ? `[*passim*](#${entry.anchors[0]})`
+            : entry.pages.map((p, i) => `[${p}](#${entry.anchors[i]})`).join(", ")
+        output += `| ${entry.heading.replace(/\|/g, "\\|")} | ${pages} |\n`
+      }
+    }
+    return output + `\n\\* ${ESTIMATED}\n`
+  }
+
+  /**
+   * Estimated page number for each character offset, honoring explicit page breaks
+   */
+  export function paginate(text: string) {
+    const breaks = [...text.matchAll(PAGE_BREAK)].map((m) => m.index + m[0].length)
+    const starts = [0]
+    let words = 0
+    for (const word of text.matchAll(/\S+/g)) {
+      while (breaks.length > 0 && word.index >= breaks[0]) {
+        starts.push(breaks.shift()!)
+        words = 0
+      }
+      if (words === WORDS_PER_PAGE) {
+        starts.push(word.index)
+        words = 0
+      }
+      words++
+    }
+    return (offset: number) => {
+      let page = 0
+      while (page + 1 < starts.length && starts[page + 1] <= offset) page++
+      return page + 1
+    }
+  }
+
+  /**
+   * The authority a citation counts toward. Short forms, Id. and parallel cites count toward the full citation.
+   */
+  function authority(citations: Citation.Info[], index: number) {
+    const resolved = Citation.resolve(citations, index)
+    if (!resolved) return
+    switch (resolved.type) {
+      case "case": {
+        let lead = citations.indexOf(resolved)
+        while (lead > 0 && citations[lead].parallel) lead--
+        const group = [citations[lead]]
+        for (let i = lead + 1; citations[i]?.parallel; i++) group.push(citations[i])
+        const last = group[group.length - 1]
+        const reporters = group.map((c) => `${c.volume} ${c.reporter} ${c.page}`).join(", ")
+        const year = last.year ? ` (${last.court ? last.court + " " : ""}${last.year})` : ""
+        const name = group[0].caseName
+        return {
+          key: `case:${group[0].volume} ${group[0].reporter} ${group[0].page}`,
+          info: {
+            category: "cases" as const,
+            heading: `${name ? `*${name}*, ` : ""}${reporters}${year}`,
+            sort: (name ?? reporters).toLowerCase(),
+          },
+        }
+      }
+      case "statute":
+      case "regulation":
+      case "rule": {
+        const heading =
+          resolved.type === "rule"
+            ? `${resolved.code} ${resolved.section}`
+            : `${resolved.title} ${resolved.code} § ${resolved.section}`
+        return {
+          key: `${resolved.type}:${heading}`,
+          info: {
+            category: resolved.type === "statute" ? ("statutes" as const) : ("rules" as const),
+            heading,
+            // Statutes first, then regulations, then court rules
+            sort: `${resolved.type === "statute" ? 0 : resolved.type === "regulation" ? 1 : 2} ${heading}`,
+          },
+        }
+      }
+      case "constitution": {
+        const heading = resolved.normalized
+        const [, kind, numeral] = resolved.section!.match(/^(art|amend|pmbl)\.\s*([IVXL]*)/) ?? []
+        return {
+          key: `constitution:${heading}`,
+          info: {
+            category: "constitution" as const,
+            heading,
+            sort: `${kind === "pmbl" ? 0 : kind === "art" ? 1 : 2} ${String(roman(numeral ?? "")).padStart(2, "0")} ${heading}`,
+          },
+        }
+      }
+    }
+  }
+
+  function roman(numeral: string) {
+    const values: Record<string, number> = { I: 1, V: 5, X: 10, L: 50 }
+    let result = 0
+    for (let i = 0; i < numeral.length; i++) {
+      const value = values[numeral[i]]
+      result += value < (values[numeral[i + 1]] ?? 0) ? -value : value
+    }
+    return result
+  }
+}
@@ -0,0 +1,581 @@
+import z from "zod"
+import path from "path"
+import { Tool } from "../tool"
+import { MessageV2 } from "../../session/message-v2"
+
+/**
+ * Local Bluebook citation parser. Finds full case citations, short forms, Id. references, and
+ * U.S.C./C.F.R. cites, normalizes them, and flags ones that are malformed or have no antecedent.
+ * It checks form only; it does not confirm that a cited authority exists.
+ */
+export namespace Citation {
+  export type Type = "case" | "short" | "id" | "statute" | "regulation" | "rule" | "constitution"
+
+  export interface Info {
+    type: Type
+    /** The citation as written */
+    text: string
+    normalized: string
+    span: {
+      start: number
+      end: number
+      line: number
+    }
+    caseName?: string
+    volume?: number
+    reporter?: string
+    page?: number
+    pincite?: string
+    court?: string
+    year?: number
+    /** Code, rule set, or constitution, e.g. "U.S.C.", "Fed. R. Civ. P.", "U.S. Const." */
+    code?: string
+    /** Statute or regulation title number and section, rule number, or constitutional provision */
+    title?: number
+    section?: string
+    /** Index of the citation a short form or Id. refers to */
+    antecedent?: number
+    /** True for the second and later cites of a parallel citation */
+    parallel?: boolean
+    issues: string[]
+  }
+
+  type Court = "supreme" | "federal" | "regional" | "state"
+
+  interface Reporter {
+    abbreviation: string
+    court: Court
+    start: number
+    end?: number
+  }
+
+  const REPORTERS: Reporter[] = [
+    { abbreviation: "U.S.", court: "supreme", start: 1790 },
+    { abbreviation: "S. Ct.", court: "supreme", start: 1882 },
+    { abbreviation: "L. Ed.", court: "supreme", start: 1790, end: 1956 },
+    { abbreviation: "L. Ed. 2d", court: "supreme", start: 1956 },
+    { abbreviation: "F.", court: "federal", start: 1880, end: 1924 },
+    { abbreviation: "F.2d", court: "federal", start: 1924, end: 1993 },
+    { abbreviation: "F.3d", court: "federal", start: 1993, end: 2021 },
+    { abbreviation: "F.4th", court: "federal", start: 2021 },
+    { abbreviation: "F. App'x", court: "federal", start: 2001, end: 2021 },
+    { abbreviation: "F. Supp.", court: "federal", start: 1932, end: 1998 },
+    { abbreviation: "F. Supp. 2d", court: "federal", start: 1998, end: 2014 },
+    { abbreviation: "F. Supp. 3d", court: "federal", start: 2014 },
+    { abbreviation: "F.R.D.", court: "federal", start: 1938 },
+    { abbreviation: "B.R.", court: "federal", start: 1979 },
+    { abbreviation: "A.", court: "regional", start: 1885, end: 1938 },
+    { abbreviation: "A.2d", court: "regional", start: 1938, end: 2010 },
+    { abbreviation: "A.3d", court: "regional", start: 2010 },
+    { abbreviation: "P.", court: "regional", start: 1883, end: 1931 },
+    { abbreviation: "P.2d", court: "regional", start: 1931, end: 2000 },
+    { abbreviation: "P.3d", court: "regional", start: 2000 },
+    { abbreviation: "N.E.", court: "regional", start: 1885, end: 1936 },
+    { abbreviation: "N.E.2d", court: "regional", start: 1936, end: 2014 },
+    { abbreviation: "N.E.3d", court: "regional", start: 2014 },
+    { abbreviation: "N.W.", court: "regional", start: 1879, end: 1941 },
+    { abbreviation: "N.W.2d", court: "regional", start: 1941, end: 2024 },
+    { abbreviation: "N.W.3d", court: "regional", start: 2024 },
+    { abbreviation: "S.E.", court: "regional", start: 1887, end: 1939 },
+    { abbreviation: "S.E.2d", court: "regional", start: 1939 },
+    { abbreviation: "S.W.", court: "regional", start: 1886, end: 1928 },
+    { abbreviation: "S.W.2d", court: "regional", start: 1928, end: 1999 },
+    { abbreviation: "S.W.3d", court: "regional", start: 1999 },
+    { abbreviation: "So.", court: "regional", start: 1887, end: 1941 },
+    { abbreviation: "So. 2d", court: "regional", start: 1941, end: 2008 },
+    { abbreviation: "So. 3d", court: "regional", start: 2008 },
+    { abbreviation: "Cal. Rptr.", court: "regional", start: 1959, end: 1991 },
+    { abbreviation: "Cal. Rptr. 2d", court: "regional", start: 1991, end: 2003 },
+    { abbreviation: "Cal. Rptr. 3d", court: "regional", start: 2003 },
+    { abbreviation: "N.Y.S.2d", court: "regional", start: 1938, end: 2015 },
+    { abbreviation: "N.Y.S.3d", court: "regional", start: 2015 },
+    { abbreviation: "Ill. Dec.", court: "regional", start: 1976 },
+    { abbreviation: "Cal. 2d", court: "state", start: 1934, end: 1969 },
+    { abbreviation: "Cal. 3d", court: "state", start: 1969, end: 1991 },
+    { abbreviation: "Cal. 4th", court: "state", start: 1991, end: 2017 },
+    { abbreviation: "Cal. 5th", court: "state", start: 2017 },
+    { abbreviation: "N.Y.2d", court: "state", start: 1956, end: 2004 },
+    { abbreviation: "N.Y.3d", court: "state", start: 2003 },
+    { abbreviation: "Ill. 2d", court: "state", start: 1953 },
+    { abbreviation: "Mass.", court: "state", start: 1867 },
+    { abbreviation: "Wis. 2d", court: "state", start: 1957 },
+  ]
+
+  // Reporter lookups ignoring spacing, and ignoring spacing and periods (for "US" instead of "U.S.")
+  const BY_KEY = new Map(REPORTERS.map((r) => [r.abbreviation.replace(/\s+/g, ""), r]))
+  const BY_LOOSE_KEY = new Map(REPORTERS.map((r) => [r.abbreviation.replace(/[\s.]+/g, ""), r]))
+
+  const REPORTER_TOKEN = String.raw`(?:[A-Z][A-Za-z']*\.?|\d(?:d|th))`
+  const REPORTER = String.raw`${REPORTER_TOKEN}(?:\s?${REPORTER_TOKEN}){0,5}`
+  const PIN = String.raw`\d+(?:\s*[-–]\s*\d+)?`
+  const SECTION = String.raw`\d+[A-Za-z0-9-]*(?:\((?:[a-z]{1,4}|[A-Z]{1,2}|\d{1,3})\))*`
+  const YEAR_PAREN = String.raw`(?:\s*\(([^()]{0,40}?)\s*(\d{4})\))?`
+
+  const FULL_CASE = new RegExp(
+    String.raw`\b(\d{1,4})\s+(${REPORTER})\s+(\d{1,5})\b(?:,\s*(${PIN})(?![\d–-]|\s+[A-Z]))?${YEAR_PAREN}`,
+    "g",
+  )
+  const SHORT_CASE = new RegExp(String.raw`\b(\d{1,4})\s+(${REPORTER})\s+at\s+(${PIN})`, "g")
+  const ID = new RegExp(String.raw`(?<![A-Za-z])[Ii]d\.(?:\s+at\s+(${PIN}))?`, "g")
+  const USC = new RegExp(
+    String.raw`\b(\d{1,2})\s+(U\.?\s?S\.?\s?C\.?(?:\s?[AS]\.?)?)\s*(§§?)?\s*(${SECTION}(?:\s*[-–]\s*${SECTION})?)${YEAR_PAREN}`,
+    "g",
+  )
+  const CFR = new RegExp(
+    String.raw`\b(\d{1,2})\s+(C\.?\s?F\.?\s?R\.?)\s*(?:(§§?)\s*|(pt\.|part)\s+)?(\d+(?:\.\d+[a-z]?)?(?:\((?:[a-z]{1,4}|[A-Z]{1,2}|\d{1,3})\))*)${YEAR_PAREN}`,
+    "g",
+  )
+  const RULE = new RegExp(
+    String.raw`\bFed\.\s?R\.\s?(Civ\.\s?P\.|Crim\.\s?P\.|App\.\s?P\.|Bankr\.\s?P\.|Evid\.)\s*(\d+(?:\.\d+)?(?:\((?:[a-z]{1,4}|[A-Z]{1,2}|\d{1,3})\))*)`,
+    "g",
+  )
+  const CONSTITUTION = new RegExp(
+    String.raw`\bU\.\s?S\.\s?Const\.\s*((?:art\.|amend\.)\s*[IVXL]+|pmbl\.)((?:,\s*§\s*\d+)?(?:,\s*cl\.\s*\d+)?)`,
+    "g",
+  )
+
+  const USC_TITLES = 54
+  const CFR_TITLES = 50
+  const SIGNALS =
+    /^(?:See,? e\.g\.,?|See also|See generally|See|But see|But cf\.|Cf\.|Compare|Accord|Contra|E\.g\.,?|In(?! re\b))\s+/
+  const CONNECTORS = new Set([
+    "v.",
+    "of",
+    "the",
+    "and",
+    "&",
+    "ex",
+    "rel.",
+    "re",
+    "for",
+    "de",
+    "la",
+    "del",
+    "on",
+    "behalf",
+  ])
+
+  /**
+   * Extract every citation from the text, in document order
+   */
+  export function extract(text: string): Info[] {
+    const lines = lineStarts(text)
+    const line = (index: number) => {
+      let lo = 0
+      let hi = lines.length - 1
+      while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1
+        if (lines[mid] <= index) lo = mid
+        else hi = mid - 1
+      }
+      return lo + 1
+    }
+    const result: Info[] = []
+    const taken: [number, number][] = []
+    const overlaps = (start: number, end: number) => taken.some(([s, e]) => start < e && end > s)
+    const add = (info: Omit<Info, "span" | "issues"> & { issues?: string[] }, start: number, end: number) => {
+      taken.push([start, end])
+      result.push({ ...info, issues: info.issues ?? [], span: { start, end, line: line(start) } })
+    }
+
+    for (const match of text.matchAll(USC)) {
+      const [raw, title, code, symbol, section, court, year] = match
+      const issues: string[] = []
+      const loose = code.replace(/[\s.]+/g, "")
+      const canonical = loose === "USCA" ? "U.S.C.A." : loose === "USCS" ? "U.S.C.S." : "U.S.C."
+      if (code.replace(/\s+/g, "") !== canonical) issues.push(`write the code as "${canonical}"`)
+      if (!symbol) issues.push(`missing "§" before the section number`)
+      if (Number(title) < 1 || Number(title) > USC_TITLES) issues.push(`title ${title} of the U.S. Code does not exist`)
+      if (year && Number(year) > new Date().getFullYear()) issues.push(`year ${year} is in the future`)
+      add(
+        {
+          type: "statute",
+          text: raw,
+          code: canonical,
+          normalized: `${title} ${canonical} ${symbol ?? "§"} ${section}${year ? ` (${court ? court.trim() + " " : ""}${year})` : ""}`,
+          title: Number(title),
+          section,
+          court: court?.trim() || undefined,
+          year: year ? Number(year) : undefined,
+          issues,
+        },
+        match.index,
+        match.index + raw.length,
+      )
+    }
+
+    for (const match of text.matchAll(CFR)) {
+      const [raw, title, code, symbol, part, section, court, year] = match
+      const issues: string[] = []
+      if (code.replace(/\s+/g, "") !== "C.F.R.") issues.push(`write the code as "C.F.R."`)
+      if (!symbol && !part) issues.push(`missing "§" before the section number`)
+      if (Number(title) < 1 || Number(title) > CFR_TITLES) issues.push(`title ${title} of the C.F.R. does not exist`)
+      if (year && Number(year) > new Date().getFullYear()) issues.push(`year ${year} is in the future`)
+      add(
+        {
+          type: "regulation",
+          text: raw,
+          code: "C.F.R.",
+          normalized: `${title} C.F.R. ${part ? "pt." : (symbol ?? "§")} ${section}${year ? ` (${court ? court.trim() + " " : ""}${year})` : ""}`,
+          title: Number(title),
+          section,
+          court: court?.trim() || undefined,
+          year: year ? Number(year) : undefined,
+          issues,
+        },
+        match.index,
+        match.index + raw.length,
+      )
+    }
+
+    for (const match of text.matchAll(RULE)) {
+      const [raw, set, rule] = match
+      const code = `Fed. R. ${set.replace(/\.\s*(?=\S)/g, ". ")}`
+      add(
+        {
+          type: "rule",
+          text: raw,
+          code,
+          normalized: `${code} ${rule}`,
+          section: rule,
+        },
+        match.index,
+        match.index + raw.length,
+      )
+    }
+
+    for (const match of text.matchAll(CONSTITUTION)) {
+      const [raw, provision, rest] = match
+      const section = (provision.replace(/\.\s*/, ". ") + rest.replace(/,\s*/g, ", ").replace(/§\s*/, "§ ")).trim()
+      add(
+        {
+          type: "constitution",
+          text: raw,
+          code: "U.S. Const.",
+          normalized: `U.S. Const. ${section}`,
+          section,
+        },
+        match.index,
+        match.index + raw.length,
+      )
+    }
+
+    for (const match of text.matchAll(FULL_CASE)) {
+      const [raw, volume, written, page, pincite, court, year] = match
+      if (overlaps(match.index, match.index + raw.length)) continue
+      const reporter = lookup(written)
+      // Without a year parenthetical only a well-formed known reporter is distinctive enough to count
+      if (!year && reporter?.exact !== true) continue
+      add(
+        {
+          type: "case",
+          text: raw,
+          normalized: "",
+          caseName: caseName(text, match.index),
+          volume: Number(volume),
+          reporter: reporter?.info.abbreviation ?? written,
+          page: Number(page),
+          pincite: pincite?.replace(/\s*[-–]\s*/, "–"),
+          court: court?.trim().replace(/,$/, "") || undefined,
+          year: year ? Number(year) : undefined,
+        },
+        match.index,
+        match.index + raw.length,
+      )
+    }
+
+    for (const match of text.matchAll(SHORT_CASE)) {
+      const [raw, volume, written, pincite] = match
+      if (overlaps(match.index, match.index + raw.length)) continue
+      const reporter = lookup(written)
+      if (!reporter) continue
+      add(
+        {
+          type: "short",
+          text: raw,
+          normalized: `${volume} ${reporter.info.abbreviation} at ${pincite.replace(/\s*[-–]\s*/, "–")}`,
+          volume: Number(volume),
+          reporter: reporter.info.abbreviation,
+          pincite: pincite.replace(/\s*[-–]\s*/, "–"),
+          issues: reporter.exact ? [] : [`write the reporter as "${reporter.info.abbreviation}"`],
+        },
+        match.index,
+        match.index + raw.length,
+      )
+    }
+
+    for (const match of text.matchAll(ID)) {
+      const [raw, pincite] = match
+      if (overlaps(match.index, match.index + raw.length)) continue
+      add(
+        {
+          type: "id",
+          text: raw,
+          normalized: pincite ? `Id. at ${pincite.replace(/\s*[-–]\s*/, "–")}` : "Id.",
+          pincite: pincite?.replace(/\s*[-–]\s*/, "–"),
+        },
+        match.index,
+        match.index + raw.length,
+      )
+    }
+
+    result.sort((a, b) => a.span.start - b.span.start)
+    parallels(text, result)
+    for (let i = 0; i < result.length; i++) verify(result, i)
+    return result
+  }
+
+  /**
+   * Citations that need attention
+   */
+  export function flagged(citations: Info[]) {
+    return citations.filter((c) => c.issues.length > 0)
+  }
+
+  function lineStarts(text: string) {
+    const result = [0]
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === "\n") result.push(i + 1)
+    }
+    return result
+  }
+
+  function lookup(written: string) {
+    const exact = BY_KEY.get(written.replace(/\s+/g, ""))
+    if (exact) return { info: exact, exact: exact.abbreviation === written }
+    const loose = BY_LOOSE_KEY.get(written.replace(/[\s.]+/g, ""))
+    if (loose) return { info: loose, exact: false }
+    return undefined
+  }
+
+  /**
+   * Read the case name written before a citation, e.g. "Roe v. Wade" in "See Roe v. Wade, 410 U.S. 113"
+   */
+  function caseName(text: string, start: number) {
+    const before = text.slice(Math.max(0, start - 200), start)
+    const comma = before.match(/,\s*$/)
+    if (!comma) return
+    const sentence = before
+      .slice(0, comma.index)
+      .split(/(?<=[a-z]{3}[.!?])\s+(?=[A-Z])|[;:\n()]/)
+      .pop()!
+    const words = sentence.split(/\s+/).map((w) => w.replace(/^[*_]+|[*_]+$/g, ""))
+    const name: string[] = []
+    for (let i = words.length - 1; i >= 0; i--) {
+      const word = words[i]
+      if (!word) break
+      if (!/^[A-Z&]/.test(word) && !CONNECTORS.has(word)) break
+      name.unshift(word)
+    }
+    const result = name.join(" ").replace(SIGNALS, "")
+    if (/\sv\.\s/.test(result) || /^(?:In re|Ex parte|In the Matter of)\s/.test(result)) return result
+    return undefined
+  }
+
+  /**
+   * "410 U.S. 113, 93 S. Ct. 705 (1973)" is one authority; the year and court belong to every part
+   */
+  function parallels(text: string, citations: Info[]) {
+    for (let i = citations.length - 2; i >= 0; i--) {
+      const current = citations[i]
+      const next = citations[i + 1]
+      if (current.type !== "case" || next.type !== "case" || current.year) continue
+      if (!/^,\s*$/.test(text.slice(current.span.end, next.span.start))) continue
+      current.year = next.year
+      current.court = next.court
+      next.parallel = true
+      next.caseName = undefined
+    }
+  }
+
+  function verify(citations: Info[], index: number) {
+    const citation = citations[index]
+    switch (citation.type) {
+      case "case": {
+        const reporter = lookup(citation.reporter!)
+        const written = citation.text.slice(String(citation.volume).length).trim()
+        if (!reporter) {
+          citation.issues.push(`unrecognized reporter "${citation.reporter}"`)
+        } else if (!written.startsWith(reporter.info.abbreviation + " ")) {
+          citation.issues.push(`write the reporter as "${reporter.info.abbreviation}"`)
+        }
+        if (!citation.year) {
+          citation.issues.push("missing year parenthetical")
+        } else {
+          if (citation.year > new Date().getFullYear()) citation.issues.push(`year ${citation.year} is in the future`)
+          const info = reporter?.info
+          // Volumes straddle calendar years, so allow a year of slack at either end
+          if (info && (citation.year < info.start - 1 || (info.end && citation.year > info.end + 1))) {
+            citation.issues.push(
+              `${info.abbreviation} covers ${info.start}–${info.end ?? "present"}, not ${citation.year}`,
+            )
+          }
+          if (info?.court === "supreme" && citation.court) {
+            citation.issues.push(`omit the court ("${citation.court}") for U.S. Supreme Court reporters`)
+          }
+          if ((info?.court === "federal" || info?.court === "regional") && !citation.court) {
+            citation.issues.push("missing court in the year parenthetical")
+          }
+        }
+        if (citation.pincite && Number.parseInt(citation.pincite) < citation.page!) {
+          citation.issues.push(`pincite ${citation.pincite} is before the first page ${citation.page}`)
+        }
+        if (!citation.caseName && !citation.parallel) citation.issues.push("no case name before the citation")
+        citation.normalized = [
+          citation.caseName ? `${citation.caseName}, ` : "",
+          `${citation.volume} ${citation.reporter} ${citation.page}`,
+          citation.pincite ? `, ${citation.pincite}` : "",
+          citation.year && !citations[index + 1]?.parallel
+            ? ` (${citation.court ? citation.court + " " : ""}${citation.year})`
+            : "",
+        ].join("")
+        return
+      }
+      case "short": {
+        for (let i = index - 1; i >= 0; i--) {
+          const candidate = citations[i]
+          if (candidate.type !== "case") continue
+          if (candidate.volume !== citation.volume || candidate.reporter !== citation.reporter) continue
+          citation.antecedent = i
+          break
+        }
+        const antecedent = citation.antecedent === undefined ? undefined : citations[citation.antecedent]
+        if (!antecedent) {
+          citation.issues.push("short form with no earlier full citation to the same authority")
+        } else if (Number.parseInt(citation.pincite!) < antecedent.page!) {
+          citation.issues.push(`pincite ${citation.pincite} is before the first page ${antecedent.page}`)
+        }
+        return
+      }
+      case "id": {
+        if (index === 0) {
+          citation.issues.push("Id. with no preceding citation")
+          return
+        }
+        citation.antecedent = index - 1
+        return
+      }
+    }
+  }
+
+  /**
+   * Follow short forms and Id. chains back to the full citation they stand for
+   */
+  export function resolve(citations: Info[], index: number): Info | undefined {
+    let current = citations[index]
+    while (current?.antecedent !== undefined) current = citations[current.antecedent]
+    if (current?.type === "short" || current?.type === "id") return undefined
+    return current
+  }
+}
+
+interface CitationsMetadata {
+  source?: string
+  total?: number
+  flagged?: number
+  citations?: Citation.Info[]
+  error?: true
+}
+
+export const CitationsTool = Tool.define("casedev_citations", {
+  description: `Extract and check legal citations in a draft, file, or session message. Runs locally.
+
+Finds and normalizes:
+- Case citations in Bluebook form: 410 U.S. 113 (1973), F.2d/F.3d/F.4th, F. Supp., S. Ct., regional and state reporters
+- Parallel citations: 410 U.S. 113, 93 S. Ct. 705 (1973)
+- Short forms (410 U.S. at 120) and Id. references, linked to the citation they refer to
+- Statutes (42 U.S.C. § 1983) and regulations (29 C.F.R. § 1630.2)
+- Federal rules (Fed. R. Civ. P. 12(b)(6), Fed. R. Evid. 403) and the Constitution (U.S. Const. amend. XIV, § 1)
+
+Each citation is returned with its line and character span. Citations are flagged when they are malformed
+(wrong reporter abbreviation, missing year or court, year outside the reporter's range, missing §)
+or unsupported (short form or Id. with no earlier full citation).
+
+This checks form only. It does not confirm that a case exists or that it says what the draft claims.
+
+Run this on briefs, motions, and memos before generating the final document with casedev_format.
+
+Provide exactly one of:
+- text: the draft itself
+- file_path: a text or markdown file
+- message_id: a message in this session`,
+  parameters: z.object({
+    text: z.string().optional().describe("Text to check"),
+    file_path: z.string().optional().describe("Path to a text or markdown file to check"),
+    message_id: z.string().optional().describe("ID of a message in this session to check"),
+  }),
+  async execute(params, ctx): Promise<Tool.Result<CitationsMetadata>> {
+    const provided = [params.text, params.file_path, params.message_id].filter((x) => x !== undefined)
+    if (provided.length !== 1) {
+      return {
+        title: "Error: Invalid parameters",
+        metadata: { error: true },
+        output: "Provide exactly one of text, file_path, or message_id.",
+      }
+    }
+
+    const source = params.file_path
+      ? path.basename(params.file_path)
+      : params.message_id
+        ? `message ${params.message_id}`
+        : "text"
+    const text = await (async () => {
+      if (params.file_path) return Bun.file(path.resolve(params.file_path)).text()
+      if (params.message_id) {
+        const message = await MessageV2.get({ sessionID: ctx.sessionID, messageID: params.message_id })
+        return message.parts
+          .flatMap((part) => (part.type === "text" && !part.synthetic ? [part.text] : []))
+          .join("\n\n")
+      }
+      return params.text!
+    })()
+
+    const citations = Citation.extract(text)
+    const flagged = Citation.flagged(citations)
+    const count = (type: Citation.Type) => citations.filter((c) => c.type === type).length
+
+    if (citations.length === 0) {
+      return {
+        title: "No citations found",
+        metadata: { source, total: 0, flagged: 0, citations },
+        output: `No case, statute, regulation, rule, or constitutional citations were found in ${source}.`,
+      }
+    }
+
+    let output = `Found ${citations.length} citation(s) in ${source}: `
+    output += `${count("case")} case, ${count("short") + count("id")} short form/Id., `
+    output += `${count("statute")} statute, ${count("regulation")} regulation, `
+    output += `${count("rule")} rule, ${count("constitution")} constitutional\n`
+    output += flagged.length > 0 ? `${flagged.length} citation(s) need attention.\n` : `No problems found.\n`
+
+    if (flagged.length > 0) {
+      output += `\n--- Flagged ---\n`
+      for (const citation of flagged) {
+        output += `L${citation.span.line} ${citation.text}\n`
+        if (citation.normalized && citation.normalized !== citation.text) {
+          output += `  normalized: ${citation.normalized}\n`
+        }
+        for (const issue of citation.issues) output += `  ! ${issue}\n`
+      }
+    }
+
+    output += `\n--- Citations ---\n`
+    citations.forEach((citation, i) => {
+      output += `L${citation.span.line} [${citation.type}] ${citation.normalized}`
+      const full = citation.antecedent !== undefined ? Citation.resolve(citations, i) : undefined
+      if (full) output += ` -> ${full.normalized}`
+      output += `\n`
+    })
+
+    return {
+      title: `${citations.length} citation(s), ${flagged.length} flagged`,
+      metadata: {
+        source,
+        total: citations.length,
+        flagged: flagged.length,
+        citations,
+      },
+      output,
+    }
+  },
+})
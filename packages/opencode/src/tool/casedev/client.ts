@@ -1,5 +1,8 @@
+import z from "zod"
+import { NamedError } from "@opencode-ai/util/error"
 import { Auth } from "@/auth"
 import { Config } from "@/config/config"
+import { SessionRetry } from "@/session/retry"
 import { Log } from "@/util/log"
 
 const log = Log.create({ service: "casedev.client" })
@@ -7,6 +10,120 @@ const log = Log.create({ service: "casedev.client" })
 export const CASEDEV_API_URL = "https://api.case.dev"
 
 export namespace CaseDevClient {
+  export const MAX_ATTEMPTS = 4
+  // A rate limit that lifts later than this is reported instead of waited out
+  export const MAX_RETRY_AFTER = 60_000
+  export const DEFAULT_TIMEOUT = 30_000
+  export const UPLOAD_TIMEOUT = 10 * 60 * 1000
+
+  const ErrorData = z.object({
+    message: z.string(),
+    endpoint: z.string(),
+    status: z.number().optional(),
+    requestID: z.string().optional().describe("Case.dev request ID, for reporting the error to support"),
+  })
+
+  export const AuthError = NamedError.create("CaseDevAuthError", ErrorData)
+  export const QuotaError = NamedError.create("CaseDevQuotaError", ErrorData)
+  export const RateLimitedError = NamedError.create(
+    "CaseDevRateLimitedError",
+    ErrorData.extend({
+      retryAfter: z.number().optional().describe("Milliseconds until the rate limit lifts, when the API said"),
+    }),
+  )
+  export const NotFoundError = NamedError.create("CaseDevNotFoundError", ErrorData)
+  export const ServerError = NamedError.create("CaseDevServerError", ErrorData)
+  // Any other rejected request, such as invalid parameters
+  export const RequestError = NamedError.create("CaseDevRequestError", ErrorData)
+  /**
+   * Thrown when api.case.dev cannot be reached at all (no network, DNS failure, timeout),
+   * as opposed to the API answering with an error status
+   */
+  export const UnreachableError = NamedError.create("CaseDevUnreachableError", ErrorData)
+
+  export type Error =
+    | InstanceType<typeof AuthError>
+    | InstanceType<typeof QuotaError>
+    | InstanceType<typeof RateLimitedError>
+    | InstanceType<typeof NotFoundError>
+    | InstanceType<typeof ServerError>
+    | InstanceType<typeof RequestError>
+    | InstanceType<typeof UnreachableError>
+
+  /**
+   * NamedErrors carry their name as the message; the tools report the API's message and request ID instead
+   */
+  function named<E extends Error>(error: E) {
+    error.message = error.data.requestID
+      ? `${error.data.message} (request ID: ${error.data.requestID})`
+      : error.data.message
+    return error
+  }
+
+  /**
+   * The typed error for an error response
+   */
+  export function classify(input: {
+    status: number
+    body: string
+    endpoint: string
+    requestID?: string
+    headers?: Record<string, string>
+  }): Error {
+    const data = {
+      message: `Case.dev API error (${input.status}): ${input.body}`,
+      endpoint: input.endpoint,
+      status: input.status,
+      requestID: input.requestID,
+    }
+    if (input.status === 401 || input.status === 403) {
+      return named(
+        new AuthError({
+          ...data,
+          message: `Case.dev rejected the API key (${input.status}): ${input.body}. Check THURGOOD_API_KEY or the Case.dev provider settings.`,
+        }),
+      )
+    }
+    if (input.status === 402 || (input.status === 429 && /quota|credit|billing|insufficient/i.test(input.body))) {
+      return named(
+        new QuotaError({
+          ...data,
+          message: `Case.dev quota or credits are used up (${input.status}): ${input.body}`,
+        }),
+      )
+    }
+    if (input.status === 429) {
+      const retryAfter = input.headers ? SessionRetry.after(input.headers) : undefined
+      return named(
+        new RateLimitedError({
+          ...data,
+          message: `Case.dev rate limit reached${retryAfter !== undefined ? `; retry in ${Math.ceil(retryAfter / 1000)}s` : ""}: ${input.body}`,
+          retryAfter,
+        }),
+      )
+    }
+    if (input.status === 404) {
+      return named(new NotFoundError({ ...data, message: `Not found on Case.dev: ${input.body}` }))
+    }
+    if (input.status >= 500) return named(new ServerError(data))
+    return named(new RequestError(data))
+  }
+
+  /**
+   * How long to wait before trying a failed request again, or undefined to give up. Rate limits are retried for
+   * every request; server errors and timeouts only for requests that are safe to repeat.
+   */
+  export function retry(error: unknown, attempt: number, idempotent: boolean) {
+    if (attempt >= MAX_ATTEMPTS) return
+    if (RateLimitedError.isInstance(error)) {
+      const wait = error.data.retryAfter ?? SessionRetry.delay(attempt)
+      return wait <= MAX_RETRY_AFTER ? wait : undefined
+    }
+    if (!idempotent) return
+    if (ServerError.isInstance(error) || UnreachableError.isInstance(error)) return SessionRetry.delay(attempt)
+    return
+  }
+
   /**
    * Get the Case.dev API key from auth storage, environment, or config
    */
@@ -27,8 +144,120 @@ export namespace CaseDevClient {
     return undefined
   }
 
+  async function key(endpoint: string) {
+    const apiKey = await getApiKey()
+    if (apiKey) return apiKey
+    throw named(
+      new AuthError({
+        message:
+          "Case.dev API key not found. Please set THURGOOD_API_KEY or CASEDEV_API_KEY environment variable, or connect Case.dev in the provider settings.",
+        endpoint,
+      }),
+    )
+  }
+
+  /**
+   * Base URL of the Case.dev API: CASEDEV_API_URL, then casedev.url in the config, then api.case.dev. Point it
+   * at a CaseDevEmulator to run the tools offline.
+   */
+  export async function baseURL() {
+    const configured = process.env.CASEDEV_API_URL ?? (await Config.get()).casedev?.url
+    return (configured || CASEDEV_API_URL).replace(/\/+$/, "")
+  }
+
+  /**
+   * Send one request and read its body, turning error statuses and connection failures into typed errors. The
+   * timeout covers waiting for the response headers, so a large download is not cut off while its body arrives.
+   * Aborting the signal cancels the request and rejects with its AbortError.
+   */
+  async function send<T>(
+    endpoint: string,
+    init: RequestInit & { timeout: number; signal?: AbortSignal },
+    read: (response: Response) => Promise<T>,
+  ): Promise<T> {
+    const url = `${await baseURL()}${endpoint}`
+    const requestID = crypto.randomUUID()
+    const timeout = new AbortController()
+    const timer = setTimeout(() => timeout.abort(), init.timeout)
+    const signal = init.signal ? AbortSignal.any([init.signal, timeout.signal]) : timeout.signal
+    const unreachable = (error: unknown, message: string) =>
+      named(
+        new UnreachableError(
+          {
+            endpoint,
+            requestID,
+            message: `${message}: ${error instanceof globalThis.Error ? error.message : error}`,
+          },
+          { cause: error },
+        ),
+      )
+    const response = await fetch(url, {
+      ...init,
+      signal,
+      headers: { ...init.headers, "X-Request-Id": requestID },
+    })
+      .catch((error) => {
+        if (init.signal?.aborted) throw error
+        if (timeout.signal.aborted) {
+          throw named(
+            new UnreachableError({
+              endpoint,
+              requestID,
+              message: `Case.dev API request timed out after ${init.timeout}ms`,
+            }),
+          )
+        }
+        // Otherwise fetch only rejects when the connection itself fails
+        throw unreachable(error, "Case.dev API is unreachable")
+      })
+      .finally(() => clearTimeout(timer))
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "Unknown error")
+      throw classify({
+        status: response.status,
+        body,
+        endpoint,
+        requestID: response.headers.get("x-request-id") ?? requestID,
+        headers: Object.fromEntries(response.headers.entries()),
+      })
+    }
+    return read(response).catch((error) => {
+      if (init.signal?.aborted || error instanceof SyntaxError) throw error
+      throw unreachable(error, "Case.dev API connection dropped while reading the response")
+    })
+  }
+
   /**
-   * Make an authenticated request to the Case.dev API
+   * Try a request until it succeeds, retry gives up, or signal is aborted
+   */
+  async function attempt<T>(
+    endpoint: string,
+    options: { method: string; idempotent: boolean; signal?: AbortSignal },
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn()
+      } catch (error) {
+        const wait = retry(error, attempt, options.idempotent)
+        if (wait === undefined || options.signal?.aborted) throw error
+        log.warn("retrying", {
+          endpoint,
+          method: options.method,
+          attempt,
+          wait,
+          error: error instanceof globalThis.Error ? error.message : String(error),
+        })
+        await SessionRetry.sleep(wait, options.signal ?? new AbortController().signal)
+      }
+    }
+  }
+
+  /**
+   * Make an authenticated request to the Case.dev API. GET, PUT and DELETE requests are retried after server errors
+   * and timeouts; POST requests only when idempotent is set, since they usually start jobs. Rate-limited requests
+   * are always retried, after the Retry-After delay.
    */
   export async function request<T = unknown>(
     endpoint: string,
@@ -38,60 +267,37 @@ export namespace CaseDevClient {
       headers?: Record<string, string>
       timeout?: number
       responseType?: "json" | "text" | "arraybuffer"
+      signal?: AbortSignal
+      idempotent?: boolean
     } = {},
   ): Promise<T> {
-    const apiKey = await getApiKey()
-    if (!apiKey) {
-      throw new Error(
-        "Case.dev API key not found. Please set THURGOOD_API_KEY or CASEDEV_API_KEY environment variable, or connect Case.dev in the provider settings.",
-      )
-    }
-
-    const url = `${CASEDEV_API_URL}${endpoint}`
-    const { method = "GET", body, headers = {}, timeout = 30000, responseType = "json" } = options
-
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), timeout)
-
-    try {
-      log.info({ url, method }, "Case.dev API request")
+    const apiKey = await key(endpoint)
+    const { method = "GET", body, headers = {}, timeout = DEFAULT_TIMEOUT, responseType = "json", signal } = options
+    const idempotent = options.idempotent ?? method !== "POST"
 
-      const response = await fetch(url, {
-        method,
-        signal: controller.signal,
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-          ...headers,
+    return attempt(endpoint, { method, idempotent, signal }, async () => {
+      log.info("Case.dev API request", { endpoint, method })
+      return send(
+        endpoint,
+        {
+          method,
+          signal,
+          timeout,
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            "Content-Type": "application/json",
+            ...headers,
+          },
+          body: body ? JSON.stringify(body) : undefined,
         },
-        body: body ? JSON.stringify(body) : undefined,
-      })
-
-      clearTimeout(timeoutId)
-
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => "Unknown error")
-        throw new Error(`Case.dev API error (${response.status}): ${errorText}`)
-      }
-
-      // Handle different response types
-      if (responseType === "arraybuffer") {
-        const data = await response.arrayBuffer()
-        return data as T
-      } else if (responseType === "text") {
-        const data = await response.text()
-        return data as T
-      } else {
-        const data = await response.json()
-        return data as T
-      }
-    } catch (error) {
-      clearTimeout(timeoutId)
-      if (error instanceof Error && error.name === "AbortError") {
-        throw new Error(`Case.dev API request timed out after ${timeout}ms`)
-      }
-      throw error
-    }
+        // Handle different response types
+        async (response) => {
+          if (responseType === "arraybuffer") return (await response.arrayBuffer()) as T
+          if (responseType === "text") return (await response.text()) as T
+          return (await response.json()) as T
+        },
+      )
+    })
   }
 
   /**
@@ -105,41 +311,39 @@ export namespace CaseDevClient {
       contentType?: string
     },
     additionalFields?: Record<string, string>,
+    options: { timeout?: number; signal?: AbortSignal } = {},
   ): Promise<unknown> {
-    const apiKey = await getApiKey()
-    if (!apiKey) {
-      throw new Error("Case.dev API key not found")
-    }
+    const apiKey = await key(endpoint)
 
-    const url = `${CASEDEV_API_URL}${endpoint}`
-    const formData = new FormData()
+    return attempt(endpoint, { method: "POST", idempotent: false, signal: options.signal }, async () => {
+      const formData = new FormData()
 
-    // Add the file
-    const blob = new Blob([file.content], { type: file.contentType ?? "application/octet-stream" })
-    formData.append("file", blob, file.filename)
+      // Add the file
+      const blob = new Blob([new Uint8Array(file.content)], { type: file.contentType ?? "application/octet-stream" })
+      formData.append("file", blob, file.filename)
 
-    // Add any additional fields
-    if (additionalFields) {
-      for (const [key, value] of Object.entries(additionalFields)) {
-        formData.append(key, value)
+      // Add any additional fields
+      if (additionalFields) {
+        for (const [key, value] of Object.entries(additionalFields)) {
+          formData.append(key, value)
+        }
       }
-    }
 
-    log.info({ url, filename: file.filename }, "Case.dev file upload")
+      log.info("Case.dev file upload", { endpoint, filename: file.filename })
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: formData,
+      return send(
+        endpoint,
+        {
+          method: "POST",
+          signal: options.signal,
+          timeout: options.timeout ?? UPLOAD_TIMEOUT,
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+          },
+          body: formData,
+        },
+        (response) => response.json(),
+      )
     })
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => "Unknown error")
-      throw new Error(`Case.dev upload error (${response.status}): ${errorText}`)
-    }
-
-    return response.json()
   }
 }
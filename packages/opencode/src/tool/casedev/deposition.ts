@@ -0,0 +1,395 @@
+import z from "zod"
+import path from "path"
+import fs from "fs/promises"
+import { Tool } from "../tool"
+import { CaseDevClient } from "./client"
+import { Instance } from "../../project/instance"
+import { Storage } from "../../storage/storage"
+
+/**
+ * Court-reporter style layout of transcripts: numbered pages of 25 numbered lines, so testimony can be
+ * cited and designated by page:line (e.g. 45:12-46:3).
+ */
+export namespace Deposition {
+  export const LINES_PER_PAGE = 25
+  export const LINE_WIDTH = 56
+  const PREFIX_WIDTH = 6
+
+  export const Line = z.object({
+    page: z.number(),
+    line: z.number(),
+    speaker: z.string().optional(),
+    text: z.string(),
+    start: z.number(),
+    end: z.number(),
+  })
+  export type Line = z.infer<typeof Line>
+
+  export const Info = z.object({
+    id: z.string(),
+    title: z.string(),
+    source: z.string(),
+    pages: z.number(),
+    lines: Line.array(),
+    path: z.string(),
+    time: z.object({
+      created: z.number(),
+    }),
+  })
+  export type Info = z.infer<typeof Info>
+
+  export interface Utterance {
+    speaker: string
+    text: string
+    start: number
+    end: number
+  }
+
+  export interface Word {
+    text: string
+    start: number
+    end: number
+  }
+
+  export interface Range {
+    from: { page: number; line: number }
+    to: { page: number; line: number }
+  }
+
+  /**
+   * Wrap utterances into numbered lines. Each speaker turn starts a new line with its prefix ("Q.", "A.",
+   * "MR. SMITH:"); continuation lines wrap to the margin. Line timestamps come from word timings
+   * when available and are interpolated across the utterance otherwise.
+   */
+  export function layout(utterances: Utterance[], speakers: Record<string, string> = {}, words: Word[] = []) {
+    const lines: Line[] = []
+    const push = (line: Omit<Line, "page" | "line">) => {
+      lines.push({
+        ...line,
+        page: Math.floor(lines.length / LINES_PER_PAGE) + 1,
+        line: (lines.length % LINES_PER_PAGE) + 1,
+      })
+    }
+
+    for (const utterance of utterances) {
+      const label = speakers[utterance.speaker] ?? `SPEAKER ${utterance.speaker}`
+      const prefix = (label === "Q" || label === "A" ? `${label}.` : `${label.toUpperCase()}:`) + " "
+      const tokens = utterance.text.split(/\s+/).filter(Boolean)
+      const timed = words.filter((w) => w.start >= utterance.start && w.end <= utterance.end)
+      const time = (index: number) =>
+        timed.length === tokens.length
+          ? timed[index].start
+          : utterance.start + ((utterance.end - utterance.start) * index) / Math.max(tokens.length, 1)
+
+      let current: string[] = []
+      let first = 0
+      const flush = (next: number) => {
+        push({
+          speaker: utterance.speaker,
+          text: (first === 0 ? prefix.padEnd(PREFIX_WIDTH) : "") + current.join(" "),
+          start: time(first),
+          end: next < tokens.length ? time(next) : utterance.end,
+        })
+        current = []
+        first = next
+      }
+      tokens.forEach((token, i) => {
+        const width = (first === 0 ? Math.max(prefix.length, PREFIX_WIDTH) : 0) + [...current, token].join(" ").length
+        if (current.length > 0 && width > LINE_WIDTH) flush(i)
+        current.push(token)
+      })
+      if (current.length > 0 || tokens.length === 0) flush(tokens.length)
+    }
+    return lines
+  }
+
+  /**
+   * Plain-text transcript with a page header, 25 numbered lines per page, and form feeds between pages
+   */
+  export function render(title: string, lines: Line[]) {
+    const pages = Math.max(1, Math.ceil(lines.length / LINES_PER_PAGE))
+    const output: string[] = []
+    for (let page = 1; page <= pages; page++) {
+      // Numbered lines are "NN  text", so the header spans the line number column too
+      const header = `Page ${page}`
+      const width = LINE_WIDTH + 4 - header.length
+      const body = [`${title.slice(0, width - 1).padEnd(width)}${header}`, ""]
+      for (let line = 1; line <= LINES_PER_PAGE; line++) {
+        const entry = lines[(page - 1) * LINES_PER_PAGE + line - 1]
+        body.push(`${String(line).padStart(2)}  ${entry?.text ?? ""}`.trimEnd())
+      }
+      output.push(body.join("\n"))
+    }
+    return output.join("\n\f")
+  }
+
+  /**
+   * Parse designations such as "45:12-46:3", "45:12-20" (same page) or "45:12"
+   */
+  export function parse(designation: string): Range | undefined {
+    const match = designation.trim().match(/^(\d+):(\d+)(?:\s*[-–]\s*(?:(\d+):)?(\d+))?$/)
+    if (!match) return
+    const from = { page: Number(match[1]), line: Number(match[2]) }
+    const to = match[4]
+      ? { page: match[3] ? Number(match[3]) : from.page, line: Number(match[4]) }
+      : { page: from.page, line: from.line }
+    return { from, to }
+  }
+
+  export function format(range: Range) {
+    if (range.from.page === range.to.page && range.from.line === range.to.line) {
+      return `${range.from.page}:${range.from.line}`
+    }
+    if (range.from.page === range.to.page) return `${range.from.page}:${range.from.line}-${range.to.line}`
+    return `${range.from.page}:${range.from.line}-${range.to.page}:${range.to.line}`
+  }
+
+  /**
+   * The transcript lines inside a designation, or an explanation of why it does not fit the transcript
+   */
+  export function excerpt(transcript: Info, range: Range): Line[] | string {
+    const index = (point: { page: number; line: number }) => (point.page - 1) * LINES_PER_PAGE + point.line - 1
+    for (const point of [range.from, range.to]) {
+      if (point.line < 1 || point.line > LINES_PER_PAGE) return `line ${point.line} is outside 1-${LINES_PER_PAGE}`
+      if (point.page < 1 || point.page > transcript.pages) return `page ${point.page} is outside 1-${transcript.pages}`
+    }
+    if (index(range.from) > index(range.to)) return "the range ends before it starts"
+    const result = transcript.lines.slice(index(range.from), index(range.to) + 1)
+    if (result.length === 0) return "the range has no testimony"
+    return result
+  }
+
+  export async function get(id: string) {
+    return Storage.read<Info>(["deposition", Instance.project.id, id]).catch(() => undefined)
+  }
+
+  export async function list() {
+    const keys = await Storage.list(["deposition", Instance.project.id])
+    return Promise.all(keys.map((key) => Storage.read<Info>(key)))
+  }
+
+  export async function save(info: Info) {
+    await Storage.write(["deposition", Instance.project.id, info.id], info)
+  }
+
+  export function timestamp(seconds: number) {
+    const hours = Math.floor(seconds / 3600)
+    const minutes = Math.floor((seconds % 3600) / 60)
+    const secs = Math.floor(seconds % 60)
+    return `${hours}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`
+  }
+}
+
+interface TranscriptResponse {
+  status?: string
+  utterances?: Deposition.Utterance[]
+  words?: Deposition.Word[]
+}
+
+interface DepositionFormatMetadata {
+  transcriptId?: string
+  pages?: number
+  lines?: number
+  savedTo?: string
+  status?: string
+  error?: true
+}
+
+export const DepositionFormatTool = Tool.define("casedev_deposition_format", {
+  description: `Convert a finished transcription into a court-reporter style deposition transcript.
+
+The transcript is laid out as numbered pages of ${Deposition.LINES_PER_PAGE} numbered lines with speaker prefixes,
+so testimony can be cited by page and line (e.g. 45:12-46:3). It is saved as a text file and indexed
+locally so casedev_deposition_designations can export excerpts with timestamps.
+
+Requires a transcription made with speaker_labels=true. Provide either:
+- job_id: the transcription job ID from casedev_transcribe
+- file_path: a transcript JSON file (e.g. downloaded from the vault with casedev_vault_download)
+
+Map diarization labels to names with speakers, e.g. {"A": "Q", "B": "A", "C": "MR. JONES"}.
+"Q" and "A" produce question/answer prefixes; any other name is used as a colloquy prefix.`,
+  parameters: z.object({
+    job_id: z.string().optional().describe("Transcription job ID"),
+    file_path: z.string().optional().describe("Path to a transcript JSON file with utterances"),
+    title: z.string().optional().describe("Caption for the page header, e.g. 'Deposition of Jane Doe, March 3, 2025'"),
+    speakers: z
+      .record(z.string(), z.string())
+      .optional()
+      .describe('Map of speaker labels to prefixes, e.g. {"A": "Q", "B": "A", "C": "MR. JONES"}'),
+    save_to: z.string().optional().describe("Path for the formatted transcript. Defaults to deposition-<id>.txt"),
+  }),
+  async execute(params, ctx): Promise<Tool.Result<DepositionFormatMetadata>> {
+    if (!params.job_id === !params.file_path) {
+      return {
+        title: "Error: Invalid parameters",
+        metadata: { error: true },
+        output: "Provide exactly one of job_id or file_path.",
+      }
+    }
+
+    const transcript = params.job_id
+      ? await CaseDevClient.request<TranscriptResponse>(`/voice/transcription/${params.job_id}`, { signal: ctx.abort })
+      : ((await Bun.file(path.resolve(params.file_path!)).json()) as TranscriptResponse)
+
+    if (params.job_id && transcript.status !== "completed") {
+      return {
+        title: `Transcription not ready`,
+        metadata: { error: true, status: transcript.status },
+        output: `Transcription ${params.job_id} is ${transcript.status}. Format it once it has completed.`,
+      }
+    }
+    if (!transcript.utterances || transcript.utterances.length === 0) {
+      return {
+        title: "No speaker turns",
+        metadata: { error: true },
+        output: `The transcript has no speaker utterances. Transcribe with speaker_labels=true to produce a deposition layout.`,
+      }
+    }
+
+    const id = params.job_id ?? path.basename(params.file_path!, path.extname(params.file_path!))
+    const title = params.title ?? `Deposition Transcript ${id}`
+    const lines = Deposition.layout(transcript.utterances, params.speakers, transcript.words)
+    const outputPath = path.resolve(params.save_to ?? path.join(Instance.directory, `deposition-${id}.txt`))
+    await fs.mkdir(path.dirname(outputPath), { recursive: true })
+    await Bun.write(outputPath, Deposition.render(title, lines))
+
+    const info: Deposition.Info = {
+      id,
+      title,
+      source: params.job_id ? `transcription ${params.job_id}` : path.resolve(params.file_path!),
+      pages: Math.ceil(lines.length / Deposition.LINES_PER_PAGE),
+      lines,
+      path: outputPath,
+      time: {
+        created: Date.now(),
+      },
+    }
+    await Deposition.save(info)
+
+    const speakers = [...new Set(transcript.utterances.map((u) => u.speaker))]
+    return {
+      title: `Formatted ${info.pages} page(s): ${path.basename(outputPath)}`,
+      metadata: {
+        transcriptId: id,
+        pages: info.pages,
+        lines: lines.length,
+        savedTo: outputPath,
+      },
+      output: `Deposition transcript formatted.
+
+Transcript ID: ${id}
+File: ${outputPath}
+Pages: ${info.pages} (${Deposition.LINES_PER_PAGE} lines per page)
+Speakers: ${speakers.map((s) => `${s} -> ${params.speakers?.[s] ?? `SPEAKER ${s}`}`).join(", ")}
+
+--- Page 1 ---
+${Deposition.render(title, lines.slice(0, Deposition.LINES_PER_PAGE))}
+
+Cite testimony by page:line. Export excerpts with casedev_deposition_designations transcript_id="${id}".`,
+    }
+  },
+})
+
+export const DepositionDesignationsTool = Tool.define("casedev_deposition_designations", {
+  description: `Export deposition designations as a report of excerpts with page:line ranges and timestamps.
+
+Use after casedev_deposition_format. Designations are page:line ranges such as:
+- "45:12-46:3" (across pages)
+- "45:12-20" (same page)
+- "45:12" (a single line)
+
+The report lists each designation with its start and end timestamps (for video clips) and the designated
+testimony. Ranges that do not fit the transcript are reported instead of silently dropped.`,
+  parameters: z.object({
+    transcript_id: z.string().describe("Transcript ID from casedev_deposition_format"),
+    designations: z.array(z.string()).min(1).describe('Page:line ranges, e.g. ["45:12-46:3", "50:1-8"]'),
+    party: z.string().optional().describe("Designating party, shown in the report heading"),
+    format: z.enum(["md", "csv"]).optional().describe("Report format. Defaults to 'md'"),
+    save_to: z.string().describe("Path to save the designation report"),
+  }),
+  async execute(params) {
+    const transcript = await Deposition.get(params.transcript_id)
+    if (!transcript) {
+      const available = await Deposition.list().then((x) => x.map((t) => t.id).join(", "))
+      throw new Error(
+        `Transcript "${params.transcript_id}" not found. Format it first with casedev_deposition_format. Available transcripts: ${available || "none"}`,
+      )
+    }
+
+    const entries = params.designations.map((designation) => {
+      const range = Deposition.parse(designation)
+      if (!range) return { designation, error: "not a page:line range" }
+      const lines = Deposition.excerpt(transcript, range)
+      if (typeof lines === "string") return { designation: Deposition.format(range), error: lines }
+      return { designation: Deposition.format(range), lines }
+    })
+    const valid = entries.flatMap((entry) =>
+      entry.lines ? [{ designation: entry.designation, lines: entry.lines }] : [],
+    )
+    const invalid = entries.flatMap((entry) =>
+      entry.error ? [{ designation: entry.designation, error: entry.error }] : [],
+    )
+
+    const format = params.format ?? "md"
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`
+    const strip = (line: Deposition.Line) => line.text.trim()
+    const report =
+      format === "csv"
+        ? [
+            "designation,start,end,duration_seconds,testimony",
+            ...valid.map((entry) => {
+              const start = entry.lines[0].start
+              const end = entry.lines[entry.lines.length - 1].end
+              return [
+                entry.designation,
+                Deposition.timestamp(start),
+                Deposition.timestamp(end),
+                Math.round(end - start),
+                quote(entry.lines.map(strip).join(" ")),
+              ].join(",")
+            }),
+          ].join("\n") + "\n"
+        : [
+            `# Deposition Designations${params.party ? ` of ${params.party}` : ""}`,
+            "",
+            transcript.title,
+            "",
+            ...valid.flatMap((entry) => [
+              `## ${entry.designation} (${Deposition.timestamp(entry.lines[0].start)}-${Deposition.timestamp(entry.lines[entry.lines.length - 1].end)})`,
+              "",
+              "```",
+              ...entry.lines.map((line) => `${line.page}:${String(line.line).padStart(2)}  ${line.text}`),
+              "```",
+              "",
+            ]),
+            ...(invalid.length > 0
+              ? ["## Not exported", "", ...invalid.map((entry) => `- ${entry.designation}: ${entry.error}`), ""]
+              : []),
+          ].join("\n")
+
+    const outputPath = path.resolve(params.save_to)
+    await fs.mkdir(path.dirname(outputPath), { recursive: true })
+    await Bun.write(outputPath, report)
+
+    let output = `Exported ${valid.length} of ${entries.length} designation(s) from ${transcript.title}\n`
+    output += `File: ${outputPath}\n`
+    for (const entry of valid) {
+      output += `• ${entry.designation} (${entry.lines.length} lines, ${Deposition.timestamp(entry.lines[0].start)}-${Deposition.timestamp(entry.lines[entry.lines.length - 1].end)})\n`
+    }
+    if (invalid.length > 0) {
+      output += `\nNot exported:\n`
+      for (const entry of invalid) output += `• ${entry.designation}: ${entry.error}\n`
+    }
+
+    return {
+      title: `${valid.length} designation(s) exported`,
+      metadata: {
+        transcriptId: transcript.id,
+        exported: valid.length,
+        invalid: invalid.length,
+        savedTo: outputPath,
+      },
+      output,
+    }
+  },
+})
@@ -0,0 +1,797 @@
+import z from "zod"
+import path from "path"
+import { Hono, type Context } from "hono"
+import { BlobWriter, TextReader, ZipWriter } from "@zip.js/zip.js"
+import { Extract } from "../../extract"
+import { Log } from "../../util/log"
+
+/**
+ * An in-process emulator of the Case.dev vault, OCR, voice, search and format endpoints, for tests and offline
+ * demos. Point CASEDEV_API_URL (or casedev.url in the config) at its URL and the casedev_* tools run against it.
+ *
+ * Everything is kept in memory. Text comes from fixtures, keyed by file name or URL, or is extracted from the
+ * uploaded bytes (plain text, Word, Excel, email, RTF, and PDFs with an uncompressed text layer). Jobs and vault
+ * ingestion move from pending through processing to completed one status check at a time.
+ */
+export namespace CaseDevEmulator {
+  const log = Log.create({ service: "casedev.emulator" })
+
+  const Pages = z.union([z.string(), z.string().array()])
+
+  export const Transcript = z.object({
+    text: z.string().optional(),
+    utterances: z
+      .object({
+        speaker: z.string(),
+        text: z.string(),
+        start: z.number().default(0),
+        end: z.number().default(0),
+        confidence: z.number().default(1),
+      })
+      .array()
+      .optional(),
+    audio_duration: z.number().optional(),
+    language_code: z.string().optional(),
+  })
+  export type Transcript = z.infer<typeof Transcript>
+
+  export const Fixtures = z.object({
+    vaults: z
+      .object({
+        id: z.string().optional(),
+        name: z.string(),
+        description: z.string().optional(),
+        documents: z
+          .object({
+            id: z.string().optional(),
+            filename: z.string(),
+            content_type: z.string().optional(),
+            text: Pages.describe("Text of the document; an array holds one string per page"),
+          })
+          .array()
+          .default([]),
+      })
+      .array()
+      .default([])
+      .describe("Vaults that exist when the emulator starts, with documents already ingested"),
+    documents: z
+      .record(z.string(), Pages)
+      .default({})
+      .describe("Text that ingestion and OCR return for a file name or document URL"),
+    transcripts: z.record(z.string(), Transcript).default({}).describe("Transcripts by file name or audio URL"),
+    research: z.record(z.string(), z.record(z.string(), z.unknown())).default({}).describe("Research results by query"),
+    fail: z
+      .string()
+      .array()
+      .default([])
+      .describe("File names, URLs or research queries whose ingestion, OCR, transcription or research fail"),
+    steps: z.number().int().min(0).default(1).describe("Status checks a job stays pending or processing"),
+    errors: z
+      .object({
+        method: z.string().optional(),
+        path: z.string().describe("Request path, or a prefix of it ending in *"),
+        status: z.number().int().min(400).max(599),
+        message: z.string().optional(),
+        retry_after: z.number().optional().describe("Seconds sent in the Retry-After header"),
+        times: z.number().int().min(1).default(1).describe("Requests that fail before the endpoint recovers"),
+      })
+      .array()
+      .default([])
+      .describe("Error responses to answer matching requests with, such as 429 or 503, before serving them"),
+  })
+  export type Fixtures = z.input<typeof Fixtures>
+
+  type Status = "pending" | "processing" | "completed" | "failed"
+
+  interface Job {
+    checks: number
+    fail: boolean
+  }
+
+  interface StoredObject {
+    id: string
+    filename: string
+    contentType: string
+    sizeBytes: number
+    tags: string[]
+    metadata: Record<string, unknown>
+    createdAt: string
+    data?: Uint8Array<ArrayBuffer>
+    pages?: string[]
+    ingestion?: Job
+    ingestionCompletedAt?: string
+  }
+
+  interface Vault {
+    id: string
+    name: string
+    description?: string
+    createdAt: string
+    objects: Map<string, StoredObject>
+  }
+
+  interface OcrJob extends Job {
+    id: string
+    pages: string[]
+    pdf?: Uint8Array
+    completedAt?: string
+  }
+
+  interface ResearchJob extends Job {
+    id: string
+    model: string
+    query: string
+    results: Record<string, unknown>
+    started: string
+  }
+
+  interface TranscriptionJob extends Job {
+    id: string
+    transcript: Transcript
+    vault_id?: string
+    source_object_id?: string
+  }
+
+  export interface State {
+    fixtures: z.output<typeof Fixtures>
+    vaults: Map<string, Vault>
+    ocr: Map<string, OcrJob>
+    transcriptions: Map<string, TranscriptionJob>
+    research: Map<string, ResearchJob>
+    /** Every API request, for tests to assert on */
+    requests: { method: string; path: string; body?: unknown }[]
+    ids: Record<string, number>
+  }
+
+  export type Server = {
+    url: string
+    state: State
+    stop(): Promise<void>
+    [Symbol.asyncDispose](): Promise<void>
+  }
+
+  export function state(fixtures: Fixtures = {}): State {
+    const result: State = {
+      fixtures: Fixtures.parse(fixtures),
+      vaults: new Map(),
+      ocr: new Map(),
+      transcriptions: new Map(),
+      research: new Map(),
+      requests: [],
+      ids: {},
+    }
+    const now = new Date().toISOString()
+    for (const vault of result.fixtures.vaults) {
+      const id = vault.id ?? next(result, "vault")
+      const objects = new Map<string, StoredObject>()
+      for (const document of vault.documents) {
+        const pages = typeof document.text === "string" ? document.text.split("\f") : document.text
+        const object: StoredObject = {
+          id: document.id ?? next(result, "obj"),
+          filename: document.filename,
+          contentType: document.content_type ?? contentType(document.filename),
+          sizeBytes: Buffer.byteLength(pages.join("\f")),
+          tags: [],
+          metadata: {},
+          createdAt: now,
+          data: new TextEncoder().encode(pages.join("\f")),
+          pages,
+          ingestionCompletedAt: now,
+        }
+        objects.set(object.id, object)
+      }
+      result.vaults.set(id, { id, name: vault.name, description: vault.description, createdAt: now, objects })
+    }
+    return result
+  }
+
+  /**
+   * Start the emulator on a local port (a free one unless given) and return its URL
+   */
+  export function start(input: { fixtures?: Fixtures; port?: number; key?: string } = {}): Server {
+    const emulator = state(input.fixtures)
+    let url = ""
+    const app = routes(emulator, { key: input.key, url: () => url })
+    const server = Bun.serve({ port: input.port ?? 0, hostname: "127.0.0.1", fetch: app.fetch })
+    url = `http://127.0.0.1:${server.port}`
+    log.info("started", { url })
+    const stop = async () => {
+      await server.stop(true)
+    }
+    return { url, state: emulator, stop, [Symbol.asyncDispose]: stop }
+  }
+
+  export function routes(state: State, options: { key?: string; url: () => string }) {
+    const app = new Hono()
+
+    // Presigned upload URLs carry their own authorization, like S3
+    app.put("/storage/:vault/:object", async (c) => {
+      const object = state.vaults.get(c.req.param("vault"))?.objects.get(c.req.param("object"))
+      if (!object || c.req.query("signature") !== signature(object)) return error(c, 403, "Invalid signature")
+      object.data = new Uint8Array(await c.req.arrayBuffer())
+      object.sizeBytes = object.data.byteLength
+      return c.body(null, 200)
+    })
+
+    app.use("*", async (c, next) => {
+      const body = c.req.header("content-type")?.includes("application/json")
+        ? await c.req.raw
+            .clone()
+            .json()
+            .catch(() => undefined)
+        : undefined
+      state.requests.push({ method: c.req.method, path: c.req.path, body })
+      const id = `req_emu_${state.requests.length}`
+      c.header("x-request-id", id)
+      const auth = c.req.header("authorization")?.match(/^Bearer (.+)$/)?.[1]
+      if (!auth || (options.key && auth !== options.key)) return error(c, 401, "Invalid or missing API key")
+      const failure = scripted(state, c.req.method, c.req.path)
+      if (failure) {
+        failure.headers.set("x-request-id", id)
+        return failure
+      }
+      await next()
+    })
+
+    app.get("/vault", (c) => {
+      const vaults = [...state.vaults.values()].map((vault) => ({
+        id: vault.id,
+        name: vault.name,
+        description: vault.description,
+        enableGraph: false,
+        totalObjects: vault.objects.size,
+        totalBytes: [...vault.objects.values()].reduce((sum, object) => sum + object.sizeBytes, 0),
+        createdAt: vault.createdAt,
+      }))
+      return c.json({ vaults, total: vaults.length })
+    })
+
+    app.post("/vault", async (c) => {
+      const body = await c.req.json<{ name?: string; description?: string }>()
+      if (!body.name) return error(c, 400, "name is required")
+      const vault: Vault = {
+        id: next(state, "vault"),
+        name: body.name,
+        description: body.description,
+        createdAt: new Date().toISOString(),
+        objects: new Map(),
+      }
+      state.vaults.set(vault.id, vault)
+      return c.json({
+        id: vault.id,
+        name: vault.name,
+        description: vault.description,
+        filesBucket: "emulator-files",
+        vectorBucket: "emulator-vectors",
+        indexName: vault.id,
+        region: "local",
+        createdAt: vault.createdAt,
+      })
+    })
+
+    app.post("/vault/:vault/upload", async (c) => {
+      const vault = state.vaults.get(c.req.param("vault"))
+      if (!vault) return error(c, 404, "Vault not found")
+      const body = await c.req.json<{
+        filename?: string
+        contentType?: string
+        auto_index?: boolean
+        sizeBytes?: number
+        metadata?: Record<string, unknown>
+      }>()
+      if (!body.filename) return error(c, 400, "filename is required")
+      const object: StoredObject = {
+        id: next(state, "obj"),
+        filename: body.filename,
+        contentType: body.contentType ?? contentType(body.filename),
+        sizeBytes: body.sizeBytes ?? 0,
+        tags: [],
+        metadata: body.metadata ?? {},
+        createdAt: new Date().toISOString(),
+      }
+      vault.objects.set(object.id, object)
+      const autoIndex = body.auto_index ?? true
+      return c.json({
+        objectId: object.id,
+        uploadUrl: `${options.url()}/storage/${vault.id}/${object.id}?signature=${signature(object)}`,
+        expiresIn: 3600,
+        s3Key: `${vault.id}/${object.id}/${object.filename}`,
+        auto_index: autoIndex,
+        next_step: autoIndex ? `POST /vault/${vault.id}/ingest/${object.id}` : null,
+      })
+    })
+
+    app.post("/vault/:vault/ingest/:object", async (c) => {
+      const object = state.vaults.get(c.req.param("vault"))?.objects.get(c.req.param("object"))
+      if (!object) return error(c, 404, "Object not found")
+      if (!object.data) return error(c, 400, "The object has not been uploaded")
+      object.ingestion = { checks: 0, fail: failing(state, object.filename) }
+      object.pages = undefined
+      object.ingestionCompletedAt = undefined
+      return c.json({ status: "processing", message: `Ingestion of ${object.filename} started` })
+    })
+
+    app.get("/vault/:vault/objects", async (c) => {
+      const vault = state.vaults.get(c.req.param("vault"))
+      if (!vault) return error(c, 404, "Vault not found")
+      const objects = await Promise.all([...vault.objects.values()].map((object) => info(state, object)))
+      return c.json({ vaultId: vault.id, objects, count: objects.length })
+    })
+
+    app.get("/vault/:vault/objects/:object/text", (c) => {
+      const object = state.vaults.get(c.req.param("vault"))?.objects.get(c.req.param("object"))
+      if (!object) return error(c, 404, "Object not found")
+      if (!object.pages) return error(c, 400, "The object has not been ingested")
+      const text = object.pages.join("\f")
+      return c.json({
+        objectId: object.id,
+        filename: object.filename,
+        text,
+        pageCount: object.pages.length,
+        textLength: text.length,
+        pages: object.pages,
+      })
+    })
+
+    app.get("/vault/:vault/objects/:object/download", (c) => {
+      const object = state.vaults.get(c.req.param("vault"))?.objects.get(c.req.param("object"))
+      if (!object?.data) return error(c, 404, "Object not found")
+      return new Response(object.data, { headers: { "Content-Type": object.contentType } })
+    })
+
+    app.post("/vault/:vault/search", async (c) => {
+      const vault = state.vaults.get(c.req.param("vault"))
+      if (!vault) return error(c, 404, "Vault not found")
+      const body = await c.req.json<{
+        query?: string
+        method?: string
+        topK?: number
+        filters?: { object_id?: string }
+      }>()
+      if (!body.query) return error(c, 400, "query is required")
+      const objects = [...vault.objects.values()].filter(
+        (object) => object.pages && (!body.filters?.object_id || object.id === body.filters.object_id),
+      )
+      const chunks = objects
+        .flatMap((object) =>
+          chunk(object.pages!).map((text, index) => ({
+            text,
+            object_id: object.id,
+            chunk_index: index,
+            score: score(body.query!, text),
+          })),
+        )
+        .filter((item) => item.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, body.topK ?? 10)
+      const sources = objects
+        .filter((object) => chunks.some((item) => item.object_id === object.id))
+        .map((object) => ({
+          id: object.id,
+          filename: object.filename,
+          pageCount: object.pages!.length,
+          textLength: object.pages!.join("\f").length,
+          chunkCount: chunk(object.pages!).length,
+        }))
+      return c.json({ method: body.method ?? "hybrid", query: body.query, chunks, sources, vault_id: vault.id })
+    })
+
+    app.post("/ocr/v1/process", async (c) => {
+      const body = await c.req.json<{ document_url?: string; document_id?: string }>()
+      if (!body.document_url) return error(c, 400, "document_url is required")
+      const source = resolve(state, options.url(), body.document_url)
+      const pages = source ? await extract(state, source) : fixture(state, body.document_url)
+      const job: OcrJob = {
+        id: next(state, "ocr"),
+        checks: 0,
+        fail: pages === undefined || failing(state, body.document_url, source?.filename),
+        pages: pages ?? [],
+        pdf: source?.contentType === "application/pdf" ? source.data : undefined,
+      }
+      state.ocr.set(job.id, job)
+      return c.json({ id: job.id, status: "pending" })
+    })
+
+    app.get("/ocr/v1/:id", (c) => {
+      const job = state.ocr.get(c.req.param("id"))
+      if (!job) return error(c, 404, "OCR job not found")
+      const status = advance(state, job)
+      if (status === "completed") job.completedAt ??= new Date().toISOString()
+      return c.json({
+        id: job.id,
+        status,
+        progress: status === "completed" ? 100 : status === "processing" ? 50 : 0,
+        message: status === "failed" ? "The document could not be processed" : undefined,
+        pages: status === "completed" ? job.pages.length : undefined,
+        completedAt: job.completedAt,
+      })
+    })
+
+    app.get("/ocr/v1/:id/download/:format", (c) => {
+      const job = state.ocr.get(c.req.param("id"))
+      if (!job) return error(c, 404, "OCR job not found")
+      if (!job.completedAt) return error(c, 400, "The OCR job has not completed")
+      const format = c.req.param("format")
+      const content = job.pages.join("\f")
+      if (format === "text") return c.json({ content, format, pages: job.pages.length })
+      if (format === "json") {
+        const results = job.pages.map((text, i) => ({ page: i + 1, text, words: [] }))
+        return c.json({ content, format, pages: job.pages.length, results })
+      }
+      if (format === "pdf") {
+        const pdf = job.pdf ?? render(content)
+        return c.json({ content: Buffer.from(pdf).toString("base64"), format, pages: job.pages.length })
+      }
+      return error(c, 400, `Unknown format: ${format}`)
+    })
+
+    app.post("/voice/transcription", async (c) => {
+      const body = await c.req.json<{ vault_id?: string; object_id?: string; audio_url?: string }>()
+      const object = body.vault_id ? state.vaults.get(body.vault_id)?.objects.get(body.object_id ?? "") : undefined
+      if (body.vault_id && !object) return error(c, 404, "Object not found")
+      if (!object && !body.audio_url) return error(c, 400, "Provide vault_id and object_id, or audio_url")
+      const name = object?.filename ?? body.audio_url!
+      const job: TranscriptionJob = {
+        id: next(state, "tr"),
+        checks: 0,
+        fail: failing(state, name, body.audio_url),
+        transcript: Transcript.parse(
+          state.fixtures.transcripts[name] ??
+            state.fixtures.transcripts[path.basename(name)] ?? {
+              text: `Synthetic transcript of ${path.basename(name)}.`,
+              utterances: [{ speaker: "A", text: `Synthetic transcript of ${path.basename(name)}.`, end: 1000 }],
+              audio_duration: 1,
+            },
+        ),
+        vault_id: body.vault_id,
+        source_object_id: body.object_id,
+      }
+      state.transcriptions.set(job.id, job)
+      return c.json({ id: job.id, status: "queued", vault_id: job.vault_id, source_object_id: job.source_object_id })
+    })
+
+    app.get("/voice/transcription/:id", (c) => {
+      const job = state.transcriptions.get(c.req.param("id"))
+      if (!job) return error(c, 404, "Transcription not found")
+      const status = { pending: "queued", processing: "processing", completed: "completed", failed: "error" }[
+        advance(state, job)
+      ]
+      const base = { id: job.id, status, vault_id: job.vault_id, source_object_id: job.source_object_id }
+      if (status !== "completed") return c.json(base)
+      const words = (job.transcript.utterances ?? []).flatMap((utterance) =>
+        utterance.text.split(/\s+/).map((text) => ({ ...utterance, text })),
+      )
+      return c.json({ ...base, language_code: "en_us", ...job.transcript, words })
+    })
+
+    app.post("/search/v1/research", async (c) => {
+      const body = await c.req.json<{ instructions?: string; model?: string; async?: boolean }>()
+      if (!body.instructions) return error(c, 400, "instructions is required")
+      const job: ResearchJob = {
+        id: next(state, "research"),
+        checks: 0,
+        fail: failing(state, body.instructions),
+        model: body.model ?? "normal",
+        query: body.instructions,
+        results: state.fixtures.research[body.instructions] ?? {
+          summary: `Synthetic research summary for: ${body.instructions}`,
+          sources: [],
+        },
+        started: new Date().toISOString(),
+      }
+      state.research.set(job.id, job)
+      if (body.async) return c.json({ researchId: job.id, model: job.model, status: "pending" })
+      // Without async the API answers once the research is done, with no events to poll
+      if (job.fail) return error(c, 500, "The research could not be completed")
+      return c.json({ researchId: job.id, model: job.model, status: "completed", results: job.results })
+    })
+
+    // Events accumulate as the run moves on: the query first, then its sources, then the summary
+    app.get("/search/v1/research/:id", (c) => {
+      const job = state.research.get(c.req.param("id"))
+      if (!job) return error(c, 404, "Research not found")
+      const status = advance(state, job)
+      const timestamp = job.started
+      const sources = Array.isArray(job.results.sources) ? job.results.sources : []
+      const events: Record<string, unknown>[] = [{ type: "query", query: job.query, timestamp }]
+      if (status !== "pending") {
+        for (const source of sources) {
+          events.push(
+            typeof source === "string"
+              ? { type: "source", text: source, timestamp }
+              : { type: "source", ...(source as object), timestamp },
+          )
+        }
+      }
+      if (status === "completed" && typeof job.results.summary === "string") {
+        events.push({ type: "summary", text: job.results.summary, timestamp })
+      }
+      return c.json({
+        researchId: job.id,
+        model: job.model,
+        status: status === "processing" ? "running" : status,
+        error: status === "failed" ? "The research could not be completed" : undefined,
+        events: c.req.query("events") === "true" ? events : undefined,
+        results: status === "completed" ? job.results : undefined,
+      })
+    })
+
+    app.post("/format/v1/document", async (c) => {
+      const body = await c.req.json<{
+        content?: string
+        output_format?: string
+        options?: { components?: { variables?: Record<string, string> }[] }
+      }>()
+      if (body.content === undefined) return error(c, 400, "content is required")
+      const variables = Object.assign({}, ...(body.options?.components ?? []).map((item) => item.variables))
+      const content = body.content.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, name) => variables[name] ?? match)
+      if (body.output_format === "html_preview") {
+        return c.html(`<!DOCTYPE html>\n<html><body><pre>${escape(content)}</pre></body></html>`)
+      }
+      if (body.output_format === "pdf") {
+        return new Response(render(content), { headers: { "Content-Type": "application/pdf" } })
+      }
+      if (body.output_format === "docx") {
+        return new Response(await docx(content), {
+          headers: { "Content-Type": "application/vnd.openxmlformats-officedocument.wordprocessingml.document" },
+        })
+      }
+      return error(c, 400, `Unknown output_format: ${body.output_format}`)
+    })
+
+    app.notFound((c) => error(c, 404, `No emulated endpoint for ${c.req.method} ${c.req.path}`))
+
+    return app
+  }
+
+  function error(c: Context, status: 400 | 401 | 403 | 404 | 500, message: string) {
+    return c.json({ error: message }, status)
+  }
+
+  function next(state: State, kind: string) {
+    state.ids[kind] = (state.ids[kind] ?? 0) + 1
+    return `${kind}_emu_${state.ids[kind]}`
+  }
+
+  function scripted(state: State, method: string, pathname: string) {
+    const match = state.fixtures.errors.find(
+      (item) =>
+        item.times > 0 &&
+        (!item.method || item.method.toUpperCase() === method) &&
+        (item.path.endsWith("*") ? pathname.startsWith(item.path.slice(0, -1)) : item.path === pathname),
+    )
+    if (!match) return
+    match.times--
+    return new Response(JSON.stringify({ error: match.message ?? `Emulated error ${match.status}` }), {
+      status: match.status,
+      headers: {
+        "Content-Type": "application/json",
+        ...(match.retry_after !== undefined && { "Retry-After": String(match.retry_after) }),
+      },
+    })
+  }
+
+  function signature(object: StoredObject) {
+    return Bun.hash(`${object.id}:${object.createdAt}`).toString(16)
+  }
+
+  /**
+   * Each status check moves a job on one stage; it fails on its last check when its input is in fixtures.fail
+   */
+  function advance(state: State, job: Job): Status {
+    const checks = job.checks++
+    if (checks >= state.fixtures.steps) return job.fail ? "failed" : "completed"
+    return checks === 0 ? "pending" : "processing"
+  }
+
+  function failing(state: State, ...names: (string | undefined)[]) {
+    return names.some(
+      (name) => name && (state.fixtures.fail.includes(name) || state.fixtures.fail.includes(path.basename(name))),
+    )
+  }
+
+  async function info(state: State, object: StoredObject) {
+    const status: Status = object.ingestion ? advance(state, object.ingestion) : object.pages ? "completed" : "pending"
+    if (status === "completed" && !object.pages) {
+      object.pages = (await extract(state, object)) ?? []
+      object.ingestionCompletedAt = new Date().toISOString()
+    }
+    if (status === "completed" || status === "failed") object.ingestion = undefined
+    const text = object.pages?.join("\f")
+    return {
+      id: object.id,
+      filename: object.filename,
+      contentType: object.contentType,
+      sizeBytes: object.sizeBytes,
+      ingestionStatus: status,
+      pageCount: object.pages?.length,
+      textLength: text?.length,
+      chunkCount: object.pages ? chunk(object.pages).length : undefined,
+      tags: object.tags,
+      metadata: object.metadata,
+      createdAt: object.createdAt,
+      ingestionCompletedAt: object.ingestionCompletedAt,
+    }
+  }
+
+  /**
+   * The vault object a presigned upload URL from this emulator points to
+   */
+  function resolve(state: State, base: string, url: string) {
+    if (!url.startsWith(`${base}/storage/`)) return
+    const [vault, object] = new URL(url).pathname.split("/").slice(2)
+    return state.vaults.get(vault)?.objects.get(object)
+  }
+
+  function fixture(state: State, name: string) {
+    const text = state.fixtures.documents[name] ?? state.fixtures.documents[path.basename(name)]
+    if (text === undefined) return
+    return typeof text === "string" ? text.split("\f") : text
+  }
+
+  async function extract(state: State, object: StoredObject): Promise<string[] | undefined> {
+    const pages = fixture(state, object.filename)
+    if (pages) return pages
+    if (!object.data) return
+    if (object.contentType === "application/pdf") return pdf(object.data)
+    if (Extract.supported(object.filename)) {
+      const text = await Extract.content(object.filename, object.data).catch(() => undefined)
+      return text === undefined ? undefined : [text]
+    }
+    if (object.contentType.startsWith("text/") || object.contentType === "application/json") {
+      return new TextDecoder().decode(object.data).split("\f")
+    }
+    // Images and audio have no text without a fixture
+    return []
+  }
+
+  const CONTENT_TYPES: Record<string, string> = {
+    ".pdf": "application/pdf",
+    ".txt": "text/plain",
+    ".md": "text/markdown",
+    ".json": "application/json",
+    ".html": "text/html",
+    ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".mp3": "audio/mpeg",
+    ".wav": "audio/wav",
+    ".m4a": "audio/mp4",
+  }
+
+  function contentType(filename: string) {
+    return CONTENT_TYPES[path.extname(filename).toLowerCase()] ?? "application/octet-stream"
+  }
+
+  const CHUNK_SIZE = 1000
+
+  /**
+   * Chunks never cross a page, so search results can be located on a single page
+   */
+  function chunk(pages: string[]) {
+    return pages.flatMap((page) => {
+      const chunks: string[] = []
+      for (const paragraph of page.split(/\n\s*\n/)) {
+        const last = chunks.at(-1)
+        if (last !== undefined && last.length + paragraph.length < CHUNK_SIZE)
+          chunks[chunks.length - 1] += `\n\n${paragraph}`
+        else if (paragraph.trim()) chunks.push(paragraph)
+      }
+      return chunks
+    })
+  }
+
+  /**
+   * Share of the query's words found in the text, standing in for semantic similarity
+   */
+  function score(query: string, text: string) {
+    const words = query.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []
+    if (words.length === 0) return 0
+    const found = new Set(text.toLowerCase().match(/[a-z0-9]{3,}/g))
+    return Math.round((words.filter((word) => found.has(word)).length / words.length) * 100) / 100
+  }
+
+  function escape(text: string) {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+  }
+
+  const LINES_PER_PAGE = 50
+
+  /**
+   * A plain PDF with the text in Courier, one uncompressed content stream per page
+   */
+  export function render(text: string) {
+    const lines = text.split("\n").flatMap((line) => line.match(/.{1,90}(\s|$)|\S+/g) ?? [""])
+    const pages: string[][] = []
+    for (let i = 0; i < Math.max(lines.length, 1); i += LINES_PER_PAGE) pages.push(lines.slice(i, i + LINES_PER_PAGE))
+    const objects = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>",
+    ]
+    for (const [i, page] of pages.entries()) {
+      const stream = [
+        "BT /F1 10 Tf 72 750 Td 13 TL",
+        ...page.map(
+          (line) =>
+            `(${line
+              .trimEnd()
+              .replace(/[\\()]/g, "\\$&")
+              .replace(/[^\x20-\x7e]/g, "?")}) Tj T*`,
+        ),
+        "ET",
+      ].join("\n")
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`,
+        `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+      )
+    }
+    let out = "%PDF-1.4\n"
+    const offsets = objects.map((object, i) => {
+      const offset = out.length
+      out += `${i + 1} 0 obj\n${object}\nendobj\n`
+      return offset
+    })
+    const xref = out.length
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+    for (const offset of offsets) out += `${offset.toString().padStart(10, "0")} 00000 n \n`
+    out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+    return new TextEncoder().encode(out)
+  }
+
+  /**
+   * Text of a PDF's uncompressed content streams, one page per stream that shows text. Scans and compressed PDFs
+   * need a fixture instead.
+   */
+  export function pdf(data: Uint8Array) {
+    const source = Buffer.from(data).toString("latin1")
+    const pages: string[] = []
+    for (const match of source.matchAll(/<<((?:(?!>>\s*stream)[\s\S])*)>>\s*stream\r?\n([\s\S]*?)endstream/g)) {
+      if (match[1].includes("/Filter")) continue
+      const shown: string[] = []
+      for (const op of match[2].matchAll(/\(((?:\\.|[^\\)])*)\)\s*(?:Tj|'|")|\[((?:\\.|[^\]])*)\]\s*TJ/g)) {
+        const strings = op[1] !== undefined ? [op[1]] : [...op[2].matchAll(/\(((?:\\.|[^\\)])*)\)/g)].map((x) => x[1])
+        shown.push(strings.map(unescape).join(""))
+      }
+      if (shown.length) pages.push(shown.join("\n").trimEnd())
+    }
+    return pages
+  }
+
+  function unescape(text: string) {
+    return text.replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, code: string) => {
+      if (/^[0-7]/.test(code)) return String.fromCharCode(parseInt(code, 8))
+      return { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" }[code] ?? code
+    })
+  }
+
+  async function docx(text: string) {
+    const paragraphs = text
+      .split("\n")
+      .map((line) => `<w:p><w:r><w:t xml:space="preserve">${escape(line)}</w:t></w:r></w:p>`)
+      .join("")
+    const writer = new ZipWriter(
+      new BlobWriter("application/vnd.openxmlformats-officedocument.wordprocessingml.document"),
+    )
+    await writer.add(
+      "[Content_Types].xml",
+      new TextReader(
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`,
+      ),
+    )
+    await writer.add(
+      "_rels/.rels",
+      new TextReader(
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`,
+      ),
+    )
+    await writer.add(
+      "word/document.xml",
+      new TextReader(
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${paragraphs}</w:body></w:document>`,
+      ),
+    )
+    return new Uint8Array(await (await writer.close()).arrayBuffer())
+  }
+}
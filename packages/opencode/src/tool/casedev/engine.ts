@@ -0,0 +1,229 @@
+import z from "zod"
+import os from "os"
+import path from "path"
+import fs from "fs/promises"
+import { readableStreamToText } from "bun"
+import { Config } from "../../config/config"
+import { Identifier } from "../../id/id"
+import { Instance } from "../../project/instance"
+import { Storage } from "../../storage/storage"
+import { Log } from "../../util/log"
+
+/**
+ * OCR engines that run on this machine, so a local scan can be OCR'd without uploading it to Case.dev.
+ * Results are stored under a job ID and served by casedev_ocr_status and casedev_ocr_download like remote jobs.
+ */
+export namespace OcrEngine {
+  const log = Log.create({ service: "casedev.ocr" })
+
+  export const DEFAULT_MAX_SIZE = 25 * 1024 * 1024
+  // Scanned pages are rasterized at the resolution Tesseract is tuned for
+  const RESOLUTION = 300
+
+  export const IMAGE_EXTENSIONS = [".png", ".jpg", ".jpeg", ".tif", ".tiff", ".bmp"]
+
+  export const Word = z.object({
+    text: z.string(),
+    confidence: z.number(),
+    bbox: z.object({
+      x: z.number(),
+      y: z.number(),
+      width: z.number(),
+      height: z.number(),
+    }),
+  })
+  export type Word = z.infer<typeof Word>
+
+  export const Page = z.object({
+    page: z.number(),
+    text: z.string(),
+    words: Word.array(),
+  })
+  export type Page = z.infer<typeof Page>
+
+  export const Result = z.object({
+    id: Identifier.schema("job"),
+    engine: z.string(),
+    file: z.string(),
+    pages: Page.array(),
+    // Base64 searchable PDF, when the engine produces one
+    pdf: z.string().optional(),
+    time: z.object({
+      created: z.number(),
+    }),
+  })
+  export type Result = z.infer<typeof Result>
+
+  export interface Info {
+    name: string
+    extensions: string[]
+    enabled(): Promise<boolean>
+    recognize(file: string, signal: AbortSignal): Promise<Pick<Result, "pages" | "pdf">>
+  }
+
+  async function spawn(cmd: string[], signal: AbortSignal) {
+    const proc = Bun.spawn({
+      cmd,
+      cwd: Instance.directory,
+      stdout: "pipe",
+      stderr: "pipe",
+    })
+    const abort = () => proc.kill()
+    signal.addEventListener("abort", abort, { once: true })
+    const [stdout, stderr, exit] = await Promise.all([
+      readableStreamToText(proc.stdout),
+      readableStreamToText(proc.stderr),
+      proc.exited,
+    ]).finally(() => signal.removeEventListener("abort", abort))
+    if (signal.aborted) throw new Error("OCR was cancelled")
+    if (exit !== 0) {
+      throw new Error(`${path.basename(cmd[0])} exited with code ${exit}: ${stderr.trim().slice(0, 500)}`)
+    }
+    return stdout
+  }
+
+  /**
+   * Words with confidence and bounding boxes from Tesseract's TSV output, grouped by page
+   */
+  export function words(tsv: string) {
+    const pages = new Map<number, Word[]>()
+    for (const row of tsv.split("\n").slice(1)) {
+      const cols = row.split("\t")
+      // Level 5 rows are words; the others describe pages, blocks, paragraphs and lines
+      if (cols.length < 12 || cols[0] !== "5") continue
+      const text = cols.slice(11).join("\t").trim()
+      if (!text) continue
+      const page = Number(cols[1])
+      const list = pages.get(page) ?? []
+      list.push({
+        text,
+        confidence: Math.max(0, Number(cols[10])) / 100,
+        bbox: {
+          x: Number(cols[6]),
+          y: Number(cols[7]),
+          width: Number(cols[8]),
+          height: Number(cols[9]),
+        },
+      })
+      pages.set(page, list)
+    }
+    return pages
+  }
+
+  /**
+   * Split engine text output into pages on form feeds
+   */
+  export function paginate(text: string) {
+    return text
+      .replace(/\f\s*$/, "")
+      .split("\f")
+      .map((page) => page.trim())
+  }
+
+  export const tesseract: Info = {
+    name: "tesseract",
+    extensions: [...IMAGE_EXTENSIONS, ".pdf"],
+    async enabled() {
+      return Bun.which("tesseract") !== null
+    },
+    async recognize(file, signal) {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "thurgood-ocr-"))
+      try {
+        let images = [file]
+        if (path.extname(file).toLowerCase() === ".pdf") {
+          if (Bun.which("pdftoppm") === null) {
+            throw new Error("OCR of PDFs on this machine needs pdftoppm (poppler-utils) to rasterize the pages")
+          }
+          await spawn(["pdftoppm", "-r", String(RESOLUTION), "-png", file, path.join(dir, "page")], signal)
+          // pdftoppm zero-pads page numbers to the same width, so names sort in page order
+          images = (await fs.readdir(dir))
+            .filter((name) => name.endsWith(".png"))
+            .sort()
+            .map((name) => path.join(dir, name))
+        }
+
+        // A list of images makes one multi-page text, TSV and PDF output in a single run
+        const list = path.join(dir, "images.txt")
+        await Bun.write(list, images.join("\n") + "\n")
+        const output = path.join(dir, "result")
+        await spawn(["tesseract", list, output, "txt", "tsv", "pdf"], signal)
+
+        const text = paginate(await Bun.file(`${output}.txt`).text())
+        const tsv = words(await Bun.file(`${output}.tsv`).text())
+        const pdf = await Bun.file(`${output}.pdf`).arrayBuffer()
+        return {
+          pages: text.map((page, i) => ({
+            page: i + 1,
+            text: page,
+            words: tsv.get(i + 1) ?? [],
+          })),
+          pdf: Buffer.from(pdf).toString("base64"),
+        }
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true })
+      }
+    },
+  }
+
+  /**
+   * A configured OCR command. $FILE is replaced with the document path and the text is read from stdout.
+   */
+  function command(cmd: string[]): Info {
+    return {
+      name: path.basename(cmd[0]),
+      extensions: [...IMAGE_EXTENSIONS, ".pdf"],
+      async enabled() {
+        return true
+      },
+      async recognize(file, signal) {
+        const text = await spawn(
+          cmd.map((x) => x.replace("$FILE", file)),
+          signal,
+        )
+        return {
+          pages: paginate(text).map((page, i) => ({ page: i + 1, text: page, words: [] })),
+        }
+      },
+    }
+  }
+
+  /**
+   * The engine used for local files: the configured command, else Tesseract if it is installed
+   */
+  export async function resolve(): Promise<Info | undefined> {
+    const cfg = await Config.get()
+    if (cfg.ocr?.local === false) return
+    if (cfg.ocr?.command?.length) return command(cfg.ocr.command)
+    if (await tesseract.enabled()) return tesseract
+  }
+
+  export async function maxSize() {
+    const cfg = await Config.get()
+    return cfg.ocr?.max_size ?? DEFAULT_MAX_SIZE
+  }
+
+  export async function run(engine: Info, file: string, signal: AbortSignal) {
+    log.info("recognizing", { engine: engine.name, file })
+    const recognized = await engine.recognize(file, signal)
+    const result: Result = {
+      id: Identifier.ascending("job"),
+      engine: engine.name,
+      file,
+      pages: recognized.pages,
+      pdf: recognized.pdf,
+      time: {
+        created: Date.now(),
+      },
+    }
+    await Storage.write(["ocr", Instance.project.id, result.id], result)
+    return result
+  }
+
+  export async function get(id: string) {
+    return Storage.read<Result>(["ocr", Instance.project.id, id]).catch(() => undefined)
+  }
+
+  export function text(result: Result) {
+    return result.pages.map((page) => page.text).join("\n\f")
+  }
+}
@@ -0,0 +1,373 @@
+import z from "zod"
+import os from "os"
+import path from "path"
+import fs from "fs/promises"
+import { readableStreamToText } from "bun"
+import { Tool } from "../tool"
+import { Instance } from "../../project/instance"
+import { CaseDevClient } from "./client"
+import { DocumentFormat } from "./format"
+import { Csv } from "../../util/csv"
+
+/**
+ * Exhibit sets for productions and motions: PDFs are numbered as exhibits, Bates-stamped with Ghostscript and
+ * listed in an exhibit index with their Bates ranges, descriptions and page counts.
+ */
+export namespace Exhibit {
+  export const Position = z.enum([
+    "bottom-right",
+    "bottom-center",
+    "bottom-left",
+    "top-right",
+    "top-center",
+    "top-left",
+  ])
+  export type Position = z.infer<typeof Position>
+
+  export const Source = z.object({
+    file: z.string().optional().describe("Path to a local PDF"),
+    vault_id: z.string().optional().describe("Vault ID of a PDF stored in a Case.dev Vault"),
+    object_id: z.string().optional().describe("Object ID of the PDF in the vault"),
+    description: z.string().optional().describe("Description for the exhibit index. Defaults to the file name"),
+  })
+  export type Source = z.infer<typeof Source>
+
+  export interface Options {
+    prefix: string
+    start?: number
+    digits?: number
+    position?: Position
+    numbering?: "numbers" | "letters"
+  }
+
+  export interface Item {
+    exhibit: string
+    description: string
+    source: string
+    file: string
+    pages: number
+    begin: string
+    end: string
+  }
+
+  // Stamps sit half an inch in from the side and a third of an inch from the edge, clear of most page content
+  const MARGIN = 36
+  const BOTTOM = 24
+  const TOP = 34
+
+  export function label(prefix: string, n: number, digits = 6) {
+    return prefix + String(n).padStart(digits, "0")
+  }
+
+  /**
+   * Exhibit numbers 1, 2, 3 or letters A, B, ... Z, AA, AB
+   */
+  export function number(index: number, numbering: Options["numbering"] = "numbers") {
+    if (numbering === "numbers") return String(index + 1)
+    let result = ""
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+      result = String.fromCharCode(65 + ((n - 1) % 26)) + result
+    }
+    return result
+  }
+
+  function escape(text: string) {
+    return text.replace(/[\\()]/g, (match) => "\\" + match)
+  }
+
+  /**
+   * PostScript run before a PDF that draws one label on each page as Ghostscript writes it out
+   */
+  export function postscript(labels: string[], position: Position = "bottom-right") {
+    const [vertical, horizontal] = position.split("-")
+    const x = {
+      left: `${MARGIN}`,
+      center: "BatesWidth BatesTextWidth sub 2 div",
+      right: `BatesWidth BatesTextWidth sub ${MARGIN} sub`,
+    }[horizontal]
+    const y = vertical === "top" ? `BatesHeight ${TOP} sub` : `${BOTTOM}`
+    return [
+      `/BatesLabels [${labels.map((text) => `(${escape(text)})`).join(" ")}] def`,
+      `<< /EndPage {`,
+      `  userdict begin`,
+      `  exch /BatesPage exch def`,
+      // Reason 2 is the device being closed, not a page being written
+      `  dup 2 ne BatesPage BatesLabels length lt and {`,
+      `    pop gsave initgraphics`,
+      `    /Helvetica-Bold 10 selectfont`,
+      `    currentpagedevice /PageSize get aload pop /BatesHeight exch def /BatesWidth exch def`,
+      `    BatesLabels BatesPage get dup stringwidth pop /BatesTextWidth exch def`,
+      `    ${x} ${y} moveto show`,
+      `    grestore true`,
+      `  } { 2 ne } ifelse`,
+      `  end`,
+      `} bind >> setpagedevice`,
+      ``,
+    ].join("\n")
+  }
+
+  async function spawn(cmd: string[]) {
+    const proc = Bun.spawn({ cmd, stdout: "pipe", stderr: "pipe" })
+    const [stdout, stderr, exit] = await Promise.all([
+      readableStreamToText(proc.stdout),
+      readableStreamToText(proc.stderr),
+      proc.exited,
+    ])
+    if (exit !== 0) throw new Error(`${cmd[0]} exited with code ${exit}: ${stderr.trim().slice(0, 500)}`)
+    return stdout
+  }
+
+  export async function pages(file: string) {
+    const info = await spawn(["pdfinfo", file])
+    const match = info.match(/^Pages:\s+(\d+)/m)
+    if (!match) throw new Error(`Could not read the page count of ${path.basename(file)}`)
+    return Number(match[1])
+  }
+
+  export async function stamp(input: { file: string; output: string; labels: string[]; position?: Position }) {
+    const script = path.join(path.dirname(input.output), `.${path.basename(input.output)}.ps`)
+    await Bun.write(script, postscript(input.labels, input.position))
+    try {
+      await spawn(["gs", "-q", "-dSAFER", "-sDEVICE=pdfwrite", "-o", input.output, script, input.file])
+    } finally {
+      await fs.rm(script, { force: true })
+    }
+  }
+
+  export function csv(items: Item[]) {
+    const header = ["exhibit", "description", "bates_begin", "bates_end", "pages", "file"]
+    const rows = items.map((item) =>
+      [item.exhibit, item.description, item.begin, item.end, item.pages, path.basename(item.file)]
+        .map(Csv.quote)
+        .join(","),
+    )
+    return [header.join(","), ...rows].join("\n") + "\n"
+  }
+
+  /**
+   * Exhibit index as a markdown table, for the Case.dev Format pipeline
+   */
+  export function markdown(items: Item[], title = "Exhibit Index") {
+    const cell = (text: string | number) =>
+      String(text)
+        .replace(/\|/g, "\\|")
+        .replace(/\s*\n\s*/g, " ")
+    const total = items.reduce((sum, item) => sum + item.pages, 0)
+    return [
+      `# ${title}`,
+      "",
+      "| Exhibit | Description | Bates Range | Pages |",
+      "| --- | --- | --- | --- |",
+      ...items.map(
+        (item) =>
+          `| ${cell(item.exhibit)} | ${cell(item.description)} | ${item.begin === item.end ? item.begin : `${item.begin} - ${item.end}`} | ${item.pages} |`,
+      ),
+      "",
+      `${items.length} exhibit(s), ${total} page(s)`,
+      "",
+    ].join("\n")
+  }
+
+  /**
+   * Vault objects are downloaded under their file names so the index describes them the way the vault does
+   */
+  async function download(source: Source, dir: string, names: Map<string, Map<string, string>>, signal?: AbortSignal) {
+    const vault = source.vault_id!
+    if (!names.has(vault)) {
+      const response = await CaseDevClient.request<{ objects: { id: string; filename: string }[] }>(
+        `/vault/${vault}/objects`,
+        { signal },
+      )
+      names.set(vault, new Map(response.objects.map((object) => [object.id, object.filename])))
+    }
+    const filename = names.get(vault)!.get(source.object_id!) ?? `${source.object_id}.pdf`
+    const data = await CaseDevClient.request<ArrayBuffer>(`/vault/${vault}/objects/${source.object_id}/download`, {
+      responseType: "arraybuffer",
+      signal,
+    })
+    const file = path.join(dir, source.object_id!, path.basename(filename))
+    await fs.mkdir(path.dirname(file), { recursive: true })
+    await Bun.write(file, data)
+    return file
+  }
+
+  /**
+   * Stamp a set of exhibits into output, numbering pages consecutively across the set, and write the index.
+   * A DOCX index that Case.dev cannot render is reported in warnings; the CSV index is still written.
+   */
+  export async function build(
+    input: Options & {
+      exhibits: Source[]
+      output: string
+      index?: "docx" | "csv" | "both"
+      title?: string
+      signal?: AbortSignal
+    },
+  ) {
+    for (const source of input.exhibits) {
+      if (!source.file === !(source.vault_id && source.object_id)) {
+        throw new Error("Each exhibit needs either file, or vault_id and object_id")
+      }
+    }
+    for (const command of ["gs", "pdfinfo"]) {
+      if (Bun.which(command) === null) {
+        throw new Error(
+          "Bates stamping needs Ghostscript (gs) and pdfinfo (poppler-utils) on this machine to stamp and count pages",
+        )
+      }
+    }
+
+    const tmp = await fs.mkdtemp(path.join(os.tmpdir(), "thurgood-exhibits-"))
+    const items: Item[] = []
+    const warnings: string[] = []
+    const digits = input.digits ?? 6
+    let next = input.start ?? 1
+    try {
+      const names = new Map<string, Map<string, string>>()
+      const files: string[] = []
+      for (const source of input.exhibits) {
+        const file = source.file
+          ? path.resolve(Instance.directory, source.file)
+          : await download(source, tmp, names, input.signal)
+        if (path.extname(file).toLowerCase() !== ".pdf") throw new Error(`Exhibits must be PDFs: ${file}`)
+        if (!(await Bun.file(file).exists())) throw new Error(`File not found: ${file}`)
+        files.push(file)
+      }
+
+      await fs.mkdir(input.output, { recursive: true })
+      for (const [i, source] of input.exhibits.entries()) {
+        const file = files[i]
+        const name = path.basename(file, path.extname(file))
+        const exhibit = number(i, input.numbering)
+        const count = await pages(file)
+        const labels = Array.from({ length: count }, (_, page) => label(input.prefix, next + page, digits))
+        const output = path.join(input.output, `Exhibit ${exhibit} - ${name}.pdf`)
+        await stamp({ file, output, labels, position: input.position })
+        items.push({
+          exhibit,
+          description: source.description ?? name,
+          source: source.file ? file : `vault://${source.vault_id}/${source.object_id}`,
+          file: output,
+          pages: count,
+          begin: labels[0] ?? label(input.prefix, next, digits),
+          end: labels.at(-1) ?? label(input.prefix, next, digits),
+        })
+        next += count
+      }
+    } finally {
+      await fs.rm(tmp, { recursive: true, force: true })
+    }
+
+    const index: string[] = []
+    const formats = input.index ?? "both"
+    if (formats !== "docx") {
+      const file = path.join(input.output, "Exhibit Index.csv")
+      await Bun.write(file, csv(items))
+      index.push(file)
+    }
+    if (formats !== "csv") {
+      const file = path.join(input.output, "Exhibit Index.docx")
+      await DocumentFormat.render({
+        content: markdown(items, input.title),
+        output_format: "docx",
+        signal: input.signal,
+      }).then(
+        async ({ data }) => {
+          await Bun.write(file, data)
+          index.push(file)
+        },
+        (error) => {
+          warnings.push(
+            `The DOCX exhibit index could not be rendered: ${error instanceof Error ? error.message : error}`,
+          )
+        },
+      )
+    }
+    return { items, index, warnings, next }
+  }
+}
+
+interface ExhibitMetadata {
+  output?: string
+  exhibits?: number
+  pages?: number
+  begin?: string
+  end?: string
+  index?: string[]
+  warnings?: string[]
+  error?: true
+}
+
+export const ExhibitTool = Tool.define("casedev_exhibits", {
+  description: `Number, Bates-stamp and index a set of exhibits for a production or a motion.
+
+Takes local PDFs and PDFs stored in Case.dev Vaults, in exhibit order, and:
+- Numbers them as exhibits (1, 2, 3 or A, B, C)
+- Stamps every page with a Bates number (prefix + zero-padded number), consecutive across the whole set
+- Saves the stamped copies as "Exhibit <n> - <name>.pdf" in the output folder
+- Writes an exhibit index listing each exhibit's description, Bates range and page count, as DOCX (rendered with
+  the casedev_format pipeline) and/or CSV
+
+The originals are not changed. Needs Ghostscript (gs) and pdfinfo (poppler-utils) on this machine.
+Continue a production by setting start to the next unused Bates number.
+
+Example usage:
+- casedev_exhibits with exhibits=[{file:"Contract.pdf", description:"Master Services Agreement"}, {vault_id:"vault_abc", object_id:"obj_123"}] prefix="ACME" output_dir="Production 001"`,
+  parameters: z.object({
+    exhibits: z.array(Exhibit.Source).min(1).describe("The exhibits in order. Each is a local file or a vault object"),
+    prefix: z.string().describe("Bates prefix, e.g. ACME or SMITH-"),
+    start: z.number().int().min(0).optional().describe("First Bates number. Defaults to 1"),
+    digits: z.number().int().min(1).max(12).optional().describe("Digits in the Bates number. Defaults to 6"),
+    position: Exhibit.Position.optional().describe("Where the Bates number goes on the page. Defaults to bottom-right"),
+    numbering: z
+      .enum(["numbers", "letters"])
+      .optional()
+      .describe("Number exhibits 1, 2, 3 (default) or letter them A, B, C"),
+    output_dir: z.string().optional().describe("Folder for the stamped exhibits and index. Defaults to 'Exhibits'"),
+    index: z.enum(["docx", "csv", "both"]).optional().describe("Exhibit index format. Defaults to both"),
+    title: z.string().optional().describe("Title of the exhibit index. Defaults to 'Exhibit Index'"),
+  }),
+  async execute(params, ctx): Promise<Tool.Result<ExhibitMetadata>> {
+    const invalid = params.exhibits.findIndex((source) => !source.file === !(source.vault_id && source.object_id))
+    if (invalid !== -1) {
+      return {
+        title: "Error: Invalid parameters",
+        metadata: { error: true },
+        output: `Exhibit ${invalid + 1} needs either file, or vault_id and object_id.`,
+      }
+    }
+
+    const output = path.resolve(Instance.directory, params.output_dir ?? "Exhibits")
+    ctx.metadata({
+      title: `Stamping ${params.exhibits.length} exhibit(s)...`,
+      metadata: { status: "stamping", output },
+    })
+    const result = await Exhibit.build({ ...params, output, signal: ctx.abort })
+
+    const pages = result.items.reduce((sum, item) => sum + item.pages, 0)
+    const first = result.items[0]?.begin
+    const last = result.items.at(-1)?.end
+    let text = `Stamped ${result.items.length} exhibit(s), ${pages} page(s), Bates ${first} to ${last}.\n`
+    text += `Next Bates number: ${Exhibit.label(params.prefix, result.next, params.digits)}\n\n`
+    for (const item of result.items) {
+      text += `Exhibit ${item.exhibit}: ${item.description} (${item.begin}-${item.end}, ${item.pages} page(s))\n`
+    }
+    text += `\nStamped exhibits: ${output}\n`
+    for (const file of result.index) text += `Exhibit index: ${file}\n`
+    for (const warning of result.warnings) text += `\nWarning: ${warning}\n`
+
+    return {
+      title: `${result.items.length} exhibit(s), ${first}-${last}`,
+      metadata: {
+        output,
+        exhibits: result.items.length,
+        pages,
+        begin: first,
+        end: last,
+        index: result.index,
+        warnings: result.warnings,
+      },
+      output: text,
+    }
+  },
+})
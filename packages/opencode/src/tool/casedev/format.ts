@@ -1,11 +1,14 @@
 import z from "zod"
 import { Tool } from "../tool"
 import { CaseDevClient } from "./client"
+import { Citation } from "./citation"
+import { TableOfAuthorities } from "./authorities"
+import { Template } from "../../template"
+import { marked } from "marked"
 import fs from "fs/promises"
 import path from "path"
 
-export const FormatDocumentTool = Tool.define("casedev_format", {
-  description: `Generate professional documents using Case.dev Format API.
+const DESCRIPTION = `Generate professional documents using Case.dev Format API.
 
 Converts markdown or structured content into polished PDFs, DOCX, or HTML files.
 Supports templates with variable interpolation for legal documents.
@@ -18,89 +21,286 @@ Output formats:
 Example usage:
 - Generate a PDF memo: casedev_format with content="# Legal Memo\\n\\n..." output_format="pdf" save_to="/path/to/memo.pdf"
 - Create a Word document: casedev_format with content="..." output_format="docx" save_to="/path/to/doc.docx"
-- Preview as HTML: casedev_format with content="..." output_format="html_preview" save_to="/path/to/preview.html"`,
-  parameters: z.object({
-    content: z.string().describe("Markdown or text content to format"),
-    output_format: z
-      .enum(["pdf", "docx", "html_preview"])
-      .describe("Output format: pdf, docx, or html_preview"),
-    save_to: z.string().describe("Path to save the output file"),
-    input_format: z
-      .enum(["md", "json", "text"])
-      .optional()
-      .describe("Input format: md (default), json, or text"),
-    variables: z
-      .record(z.string(), z.string())
-      .optional()
-      .describe("Variables for template interpolation (e.g., client_name, case_number). Use {{variable_name}} in content."),
-  }),
-  async execute(params, ctx) {
-    ctx.metadata({
-      title: `Formatting document...`,
-      metadata: { status: "formatting", output_format: params.output_format },
-    })
-
-    // Build request body
+- Preview as HTML: casedev_format with content="..." output_format="html_preview" save_to="/path/to/preview.html"
+
+Table of Authorities:
+- Set table_of_authorities=true to build a Table of Authorities from the citations in the markdown
+- Cases, constitutional provisions, statutes, and rules/regulations are grouped, sorted, and linked to the pages that cite them
+- The table goes where {{table_of_authorities}} appears, or after the document title
+- Page numbers are estimated (about ${TableOfAuthorities.WORDS_PER_PAGE} words per page, plus explicit \\newpage breaks)
+- Check the table without the API: output_format="html_preview" local=true
+
+Firm templates:
+- Set template="<name>" to render a reviewed firm template instead of writing the document from scratch
+- Pass the template's variables in variables; the call fails with the list of missing ones if any required variable is absent
+- content, if given, fills the template's {{content}} slot (e.g. the argument section of a motion), or follows the body when the template has none
+- output_format defaults to the template's format`
+
+const parameters = z.object({
+  content: z
+    .string()
+    .optional()
+    .describe(
+      "Markdown or text content to format. With a template, fills its {{content}} slot, or is appended to the body.",
+    ),
+  output_format: z
+    .enum(["pdf", "docx", "html_preview"])
+    .optional()
+    .describe("Output format: pdf, docx, or html_preview. Defaults to the template's format, or pdf."),
+  save_to: z.string().describe("Path to save the output file"),
+  input_format: z.enum(["md", "json", "text"]).optional().describe("Input format: md (default), json, or text"),
+  variables: z
+    .record(z.string(), z.string())
+    .optional()
+    .describe(
+      "Variables for template interpolation (e.g., client_name, case_number). Use {{variable_name}} in content.",
+    ),
+  table_of_authorities: z
+    .boolean()
+    .optional()
+    .describe("Insert a Table of Authorities built from the citations in the content"),
+  local: z
+    .boolean()
+    .optional()
+    .describe(
+      "Render html_preview locally without calling Case.dev. Also used automatically when Case.dev is unreachable.",
+    ),
+  template: z.string().optional().describe("Name of a firm template to render, e.g. motion-to-compel"),
+})
+
+interface FormatMetadata {
+  format?: "pdf" | "docx" | "html_preview"
+  savedTo?: string
+  size?: number
+  template?: string
+  missing?: string[]
+  citationIssues?: number
+  authorities?: number
+  local?: boolean
+  error?: true
+}
+
+export const FormatDocumentTool = Tool.define("casedev_format", async () => {
+  const templates = await Template.all()
+  const description =
+    templates.length === 0
+      ? DESCRIPTION
+      : [
+          DESCRIPTION,
+          "",
+          "<available_templates>",
+          ...templates.flatMap((template) => [
+            `  <template>`,
+            `    <name>${template.name}</name>`,
+            ...(template.description ? [`    <description>${template.description}</description>`] : []),
+            `    <format>${template.format}</format>`,
+            `    <variables>${template.variables.map((v) => (v.required && v.default === undefined ? v.name : `${v.name}?`)).join(", ")}</variables>`,
+            `  </template>`,
+          ]),
+          "</available_templates>",
+        ].join("\n")
+
+  return {
+    description,
+    parameters,
+    async execute(params, ctx): Promise<Tool.Result<FormatMetadata>> {
+      const template = params.template ? await Template.get(params.template) : undefined
+      if (params.template && !template) {
+        const available = await Template.all().then((x) => x.map((t) => t.name).join(", "))
+        throw new Error(`Template "${params.template}" not found. Available templates: ${available || "none"}`)
+      }
+      if (!template && params.content === undefined) {
+        return {
+          title: "Error: Invalid parameters",
+          metadata: { error: true },
+          output: "Provide content, or a template to render.",
+        }
+      }
+
+      const values = { ...params.variables, ...(params.content !== undefined ? { content: params.content } : {}) }
+      const missing = template ? Template.missing(template, values) : []
+      if (template && missing.length > 0) {
+        const declared = new Map(template.variables.map((v) => [v.name, v]))
+        return {
+          title: `Error: Missing template variables`,
+          metadata: { error: true, template: template.name, missing },
+          output: `Template "${template.name}" needs values for:\n${missing
+            .map((name) => `- ${name}${declared.get(name)?.description ? `: ${declared.get(name)!.description}` : ""}`)
+            .join("\n")}\n\nAsk the user for any values you do not know rather than inventing them.`,
+        }
+      }
+      const rendered = template ? Template.render(template, values) : undefined
+      const source = rendered?.content ?? params.content!
+      const format = params.output_format ?? template?.format ?? "pdf"
+
+      if (params.local && format !== "html_preview") {
+        return {
+          title: "Error: Invalid parameters",
+          metadata: { error: true },
+          output: 'Local rendering only supports output_format="html_preview". Use the Case.dev API for PDF and DOCX.',
+        }
+      }
+
+      ctx.metadata({
+        title: `Formatting document...`,
+        metadata: { status: "formatting", output_format: format },
+      })
+
+      const toa =
+        params.table_of_authorities && params.input_format !== "json" ? TableOfAuthorities.build(source) : undefined
+      // Templates can reserve a spot for the table even when none is asked for
+      const content = toa?.content ?? source.replaceAll(TableOfAuthorities.PLACEHOLDER, "")
+
+      // API returns binary directly for PDF/DOCX, HTML string for html_preview
+      const { data: response, local } = await DocumentFormat.render({
+        content,
+        input_format: params.input_format,
+        output_format: format,
+        // Templates are already interpolated
+        variables: template ? undefined : params.variables,
+        local: params.local,
+        signal: ctx.abort,
+      })
+
+      // Resolve and prepare output path
+      const outputPath = path.resolve(params.save_to)
+      const outputDir = path.dirname(outputPath)
+
+      // Ensure directory exists
+      await fs.mkdir(outputDir, { recursive: true })
+
+      // Write the file
+      if (format === "html_preview") {
+        // HTML is returned as plain text
+        await fs.writeFile(outputPath, response as string)
+      } else {
+        // PDF and DOCX are returned as binary
+        const buffer = Buffer.from(response as ArrayBuffer)
+        await fs.writeFile(outputPath, buffer)
+      }
+
+      const stats = await fs.stat(outputPath)
+      const sizeKB = Math.round(stats.size / 1024)
+
+      // Flag malformed or unsupported citations in the final document so they are not filed unnoticed
+      const flagged = params.input_format === "json" ? [] : Citation.flagged(Citation.extract(source))
+      let warnings = ""
+      if (rendered && rendered.unknown.length > 0) {
+        warnings += `\n\nTemplate placeholders with no declared variable were left as-is: ${rendered.unknown.map((name) => `{{${name}}}`).join(", ")}`
+      }
+      if (flagged.length > 0) {
+        warnings += `\n\nCitation check: ${flagged.length} citation(s) need attention:\n`
+        for (const citation of flagged.slice(0, 20)) {
+          warnings += `• L${citation.span.line} ${citation.text}: ${citation.issues.join("; ")}\n`
+        }
+        if (flagged.length > 20)
+          warnings += `...and ${flagged.length - 20} more. Run casedev_citations for the full list.\n`
+      }
+
+      return {
+        title: `Document created: ${path.basename(outputPath)}`,
+        metadata: {
+          format,
+          savedTo: outputPath,
+          size: stats.size,
+          template: template?.name,
+          citationIssues: flagged.length,
+          authorities: toa?.authorities.length,
+          local,
+        },
+        output: `Document generated successfully!
+
+File: ${outputPath}
+Format: ${format.toUpperCase()}${template ? `\nTemplate: ${template.name}` : ""}
+Size: ${sizeKB} KB${local ? "\nRendered: locally (Case.dev was not called)" : ""}${toa ? `\nTable of Authorities: ${toa.authorities.length} authorities (page numbers are estimates; confirm against the final PDF)` : ""}
+
+The document has been saved and is ready to use.${warnings}`,
+      }
+    },
+  }
+})
+
+/**
+ * The Case.dev Format pipeline, shared by the tools that produce documents
+ */
+export namespace DocumentFormat {
+  export type InputFormat = "md" | "json" | "text"
+  export type OutputFormat = "pdf" | "docx" | "html_preview"
+
+  /**
+   * Render content with the Case.dev Format API. HTML previews are rendered locally when asked, or when Case.dev
+   * is unreachable; local tells which happened.
+   */
+  export async function render(input: {
+    content: string
+    input_format?: InputFormat
+    output_format: OutputFormat
+    variables?: Record<string, string>
+    local?: boolean
+    signal?: AbortSignal
+  }): Promise<{ data: ArrayBuffer | string; local: boolean }> {
+    if (input.local) return { data: await preview(input.content, input.input_format, input.variables), local: true }
+
     const body: Record<string, unknown> = {
-      content: params.content,
-      input_format: params.input_format ?? "md",
-      output_format: params.output_format,
+      content: input.content,
+      input_format: input.input_format ?? "md",
+      output_format: input.output_format,
     }
-
     // If variables provided, set up components for interpolation
-    if (params.variables && Object.keys(params.variables).length > 0) {
+    if (input.variables && Object.keys(input.variables).length > 0) {
       body.options = {
         components: [
           {
-            content: params.content,
-            variables: params.variables,
+            content: input.content,
+            variables: input.variables,
           },
         ],
       }
     }
 
-    // Make request - API returns binary directly for PDF/DOCX, HTML string for html_preview
-    const response = await CaseDevClient.request<ArrayBuffer | string>("/format/v1/document", {
+    return CaseDevClient.request<ArrayBuffer | string>("/format/v1/document", {
       method: "POST",
       body,
       // For binary responses, we need to handle differently
-      responseType: params.output_format === "html_preview" ? "text" : "arraybuffer",
-    })
-
-    // Resolve and prepare output path
-    const outputPath = path.resolve(params.save_to)
-    const outputDir = path.dirname(outputPath)
-
-    // Ensure directory exists
-    await fs.mkdir(outputDir, { recursive: true })
-
-    // Write the file
-    if (params.output_format === "html_preview") {
-      // HTML is returned as plain text
-      await fs.writeFile(outputPath, response as string)
-    } else {
-      // PDF and DOCX are returned as binary
-      const buffer = Buffer.from(response as ArrayBuffer)
-      await fs.writeFile(outputPath, buffer)
-    }
-
-    const stats = await fs.stat(outputPath)
-    const sizeKB = Math.round(stats.size / 1024)
-
-    return {
-      title: `Document created: ${path.basename(outputPath)}`,
-      metadata: {
-        format: params.output_format,
-        savedTo: outputPath,
-        size: stats.size,
+      responseType: input.output_format === "html_preview" ? "text" : "arraybuffer",
+      idempotent: true,
+      signal: input.signal,
+    }).then(
+      (data) => ({ data, local: false }),
+      async (error) => {
+        if (input.output_format !== "html_preview" || !(error instanceof CaseDevClient.UnreachableError)) throw error
+        return { data: await preview(input.content, input.input_format, input.variables), local: true }
       },
-      output: `Document generated successfully!
-
-File: ${outputPath}
-Format: ${params.output_format.toUpperCase()}
-Size: ${sizeKB} KB
+    )
+  }
 
-The document has been saved and is ready to use.`,
-    }
-  },
-})
+  /**
+   * Render a standalone HTML preview without the Case.dev API, laid out like a double-spaced filing
+   */
+  async function preview(content: string, inputFormat?: InputFormat, variables?: Record<string, string>) {
+    const interpolated = content.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, name) => variables?.[name] ?? match)
+    const html =
+      inputFormat === "md" || inputFormat === undefined
+        ? await marked.parse(interpolated.replace(TableOfAuthorities.PAGE_BREAK, `<div class="page-break"></div>`))
+        : `<pre>${interpolated.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")}</pre>`
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<style>
+body { font-family: "Times New Roman", Times, serif; font-size: 12pt; line-height: 2; max-width: 6.5in; margin: 1in auto; }
+h1, h2, h3 { text-align: center; line-height: 1.2; }
+table { width: 100%; border-collapse: collapse; line-height: 1.2; }
+th, td { text-align: left; padding: 4pt 0; vertical-align: top; }
+td:last-child, th:last-child { text-align: right; white-space: nowrap; }
+pre { white-space: pre-wrap; font-family: inherit; }
+.page-break { page-break-after: always; border-top: 1px dashed #999; margin: 2em 0; }
+</style>
+</head>
+<body>
+${html}
+</body>
+</html>
+`
+  }
+}
@@ -18,6 +18,7 @@ export {
   VaultIngestTool,
   VaultObjectsListTool,
   VaultObjectTextTool,
+  VaultMirrorTool,
   VaultObjectDownloadTool,
 } from "./vault"
 
@@ -27,6 +28,21 @@ export { LegalSearchTool } from "./search"
 // Document Format Tool
 export { FormatDocumentTool } from "./format"
 
+// Citation Tool
+export { CitationsTool } from "./citation"
+
+// Deposition Tools
+export { DepositionFormatTool, DepositionDesignationsTool } from "./deposition"
+
+// Redline Tool
+export { RedlineTool } from "./redline"
+
+// Redaction Tool
+export { RedactTool } from "./redact"
+
+// Exhibit Tool
+export { ExhibitTool } from "./exhibit"
+
 // All tools as an array for easy registration
 import { OcrProcessTool, OcrStatusTool, OcrDownloadTool } from "./ocr"
 import { TranscribeTool, TranscribeStatusTool } from "./transcribe"
@@ -38,10 +54,16 @@ import {
   VaultIngestTool,
   VaultObjectsListTool,
   VaultObjectTextTool,
+  VaultMirrorTool,
   VaultObjectDownloadTool,
 } from "./vault"
 import { LegalSearchTool } from "./search"
 import { FormatDocumentTool } from "./format"
+import { CitationsTool } from "./citation"
+import { DepositionFormatTool, DepositionDesignationsTool } from "./deposition"
+import { RedlineTool } from "./redline"
+import { RedactTool } from "./redact"
+import { ExhibitTool } from "./exhibit"
 
 export const CaseDevTools = [
   OcrProcessTool,
@@ -56,7 +78,14 @@ export const CaseDevTools = [
   VaultIngestTool,
   VaultObjectsListTool,
   VaultObjectTextTool,
+  VaultMirrorTool,
   VaultObjectDownloadTool,
   LegalSearchTool,
   FormatDocumentTool,
+  CitationsTool,
+  DepositionFormatTool,
+  DepositionDesignationsTool,
+  RedlineTool,
+  RedactTool,
+  ExhibitTool,
 ]
@@ -0,0 +1,342 @@
+import z from "zod"
+import { BusEvent } from "@/bus/bus-event"
+import { Bus } from "@/bus"
+import { Instance } from "@/project/instance"
+import { Identifier } from "@/id/id"
+import { Session } from "@/session"
+import { Storage } from "@/storage/storage"
+import { MessageV2 } from "@/session/message-v2"
+import { Log } from "@/util/log"
+import { CaseDevClient } from "./client"
+
+export namespace CaseDevJob {
+  const log = Log.create({ service: "casedev.job" })
+
+  export const POLL_INITIAL_DELAY = 5_000
+  export const POLL_BACKOFF_FACTOR = 1.5
+  export const POLL_MAX_DELAY = 60_000
+  export const POLL_MAX_ERRORS = 10
+  export const JOB_TIMEOUT = 3 * 60 * 60 * 1000 // 3 hours
+  const RESULT_MAX_LENGTH = 10_000
+
+  export const Kind = z.enum(["ocr", "transcription", "ingest", "research"])
+  export type Kind = z.infer<typeof Kind>
+
+  export const Status = z.enum(["pending", "running", "completed", "failed"])
+  export type Status = z.infer<typeof Status>
+
+  export const Info = z
+    .object({
+      id: Identifier.schema("job"),
+      sessionID: z.string(),
+      kind: Kind,
+      remoteID: z.string(),
+      vaultID: z.string().optional(),
+      title: z.string(),
+      status: Status,
+      progress: z.number().optional(),
+      error: z.string().optional(),
+      time: z.object({
+        created: z.number(),
+        updated: z.number(),
+        completed: z.number().optional(),
+      }),
+    })
+    .meta({
+      ref: "CaseDevJob",
+    })
+  export type Info = z.infer<typeof Info>
+
+  export const Event = {
+    Updated: BusEvent.define("casedev.job.updated", Info),
+  }
+
+  type Check =
+    | { status: "pending" | "running"; progress?: number }
+    | { status: "completed"; result: string }
+    | { status: "failed"; error: string }
+
+  const state = Instance.state(
+    () => {
+      const jobs: Record<string, Info> = {}
+      const timers: Record<string, ReturnType<typeof setTimeout>> = {}
+      const followed: Record<string, AbortController> = {}
+      return {
+        jobs,
+        timers,
+        followed,
+      }
+    },
+    async (state) => {
+      for (const timer of Object.values(state.timers)) clearTimeout(timer)
+      for (const controller of Object.values(state.followed)) controller.abort()
+    },
+  )
+
+  export function delay(attempt: number) {
+    return Math.min(POLL_INITIAL_DELAY * Math.pow(POLL_BACKOFF_FACTOR, attempt), POLL_MAX_DELAY)
+  }
+
+  /**
+   * Load the jobs saved by earlier runs. Unfinished jobs are polled again; research runs cannot be resumed because
+   * the tool that followed them is gone, so they are marked failed and the session is told.
+   */
+  export async function init() {
+    const s = state()
+    for (const key of await Storage.list(["casedev_job", Instance.project.id])) {
+      const job = await Storage.read<Info>(key).catch(() => undefined)
+      if (!job || s.jobs[job.id]) continue
+      s.jobs[job.id] = job
+      if (job.status === "completed" || job.status === "failed") continue
+      if (job.kind === "research") {
+        update(job, { status: "failed", error: "Interrupted by a restart" })
+        await inject(job, "Thurgood restarted before the research run finished. Start it again if it is still needed.")
+        continue
+      }
+      schedule(job.id, 0, 0)
+    }
+  }
+
+  /**
+   * Start tracking a remote Case.dev job. The job is polled in the background and its result is
+   * injected into the session once it finishes, so the model does not need to poll for it. Jobs are
+   * saved to storage and picked up again by init() after a restart.
+   */
+  export function track(input: { sessionID: string; kind: Kind; remoteID: string; vaultID?: string; title: string }) {
+    const info = create(input)
+    schedule(info.id, 0, 0)
+    return info
+  }
+
+  /**
+   * Start tracking a remote job that the calling tool waits on itself, such as a research run. It is listed with the
+   * other jobs but not polled, and its result is returned by the tool rather than injected. Cancelling the job
+   * aborts the returned signal.
+   */
+  export function follow(input: Parameters<typeof track>[0]) {
+    const info = create(input)
+    const controller = new AbortController()
+    state().followed[info.id] = controller
+    return { info, signal: controller.signal }
+  }
+
+  /**
+   * Report progress on a followed job; it stops being followed once it completes or fails
+   */
+  export function report(jobID: string, patch: Partial<Pick<Info, "status" | "progress" | "error">>) {
+    const s = state()
+    const job = s.jobs[jobID]
+    if (!job || job.status === "completed" || job.status === "failed") return
+    update(job, patch)
+    if (patch.status === "completed" || patch.status === "failed") delete s.followed[jobID]
+  }
+
+  function create(input: Parameters<typeof track>[0]) {
+    const info: Info = {
+      id: Identifier.ascending("job"),
+      sessionID: input.sessionID,
+      kind: input.kind,
+      remoteID: input.remoteID,
+      vaultID: input.vaultID,
+      title: input.title,
+      status: "pending",
+      time: {
+        created: Date.now(),
+        updated: Date.now(),
+      },
+    }
+    state().jobs[info.id] = info
+    save(info)
+    Bus.publish(Event.Updated, info)
+    return info
+  }
+
+  export function get(jobID: string) {
+    return state().jobs[jobID]
+  }
+
+  export function list(sessionID?: string) {
+    return Object.values(state().jobs)
+      .filter((job) => !sessionID || job.sessionID === sessionID)
+      .sort((a, b) => a.id.localeCompare(b.id))
+  }
+
+  export function cancel(jobID: string) {
+    const s = state()
+    clearTimeout(s.timers[jobID])
+    delete s.timers[jobID]
+    const job = s.jobs[jobID]
+    if (!job || job.status === "completed" || job.status === "failed") return
+    update(job, { status: "failed", error: "Cancelled" })
+    s.followed[jobID]?.abort()
+    delete s.followed[jobID]
+  }
+
+  function schedule(jobID: string, attempt: number, errors: number) {
+    const s = state()
+    s.timers[jobID] = setTimeout(() => {
+      delete s.timers[jobID]
+      poll(jobID, attempt, errors).catch((error) => log.error("failed to process job", { jobID, error }))
+    }, delay(attempt))
+  }
+
+  async function poll(jobID: string, attempt: number, errors: number) {
+    const job = state().jobs[jobID]
+    if (!job) return
+    if (Date.now() - job.time.created > JOB_TIMEOUT) {
+      update(job, { status: "failed", error: "Timed out waiting for the job to finish" })
+      await inject(job, `The job did not finish within ${Math.round(JOB_TIMEOUT / 3_600_000)} hours.`)
+      return
+    }
+
+    const result = await check(job).catch((e) => e as Error)
+    if (result instanceof Error) {
+      log.error("poll failed", { jobID, error: result.message })
+      if (errors + 1 >= POLL_MAX_ERRORS) {
+        update(job, { status: "failed", error: result.message })
+        await inject(job, `Tracking stopped after repeated errors: ${result.message}`)
+        return
+      }
+      schedule(jobID, attempt + 1, errors + 1)
+      return
+    }
+
+    switch (result.status) {
+      case "pending":
+      case "running":
+        if (result.status !== job.status || result.progress !== job.progress) {
+          update(job, { status: result.status, progress: result.progress })
+        }
+        schedule(jobID, attempt + 1, 0)
+        return
+      case "completed":
+        update(job, { status: "completed", progress: 100 })
+        await inject(job, result.result)
+        return
+      case "failed":
+        update(job, { status: "failed", error: result.error })
+        await inject(job, `The job failed: ${result.error}`)
+        return
+    }
+  }
+
+  function update(job: Info, patch: Partial<Pick<Info, "status" | "progress" | "error">>) {
+    Object.assign(job, patch)
+    job.time.updated = Date.now()
+    if (job.status === "completed" || job.status === "failed") job.time.completed = Date.now()
+    save(job)
+    Bus.publish(Event.Updated, job)
+  }
+
+  function save(job: Info) {
+    Storage.write(["casedev_job", Instance.project.id, job.id], job).catch((error) =>
+      log.error("failed to save job", { jobID: job.id, error }),
+    )
+  }
+
+  async function check(job: Info): Promise<Check> {
+    switch (job.kind) {
+      case "ocr": {
+        const status = await CaseDevClient.request<{
+          status: "pending" | "processing" | "completed" | "failed"
+          progress?: number
+          message?: string
+          pages?: number
+        }>(`/ocr/v1/${job.remoteID}`)
+        if (status.status === "failed") return { status: "failed", error: status.message ?? "OCR failed" }
+        if (status.status !== "completed") {
+          return { status: status.status === "pending" ? "pending" : "running", progress: status.progress }
+        }
+        const download = await CaseDevClient.request<{ content: string; pages?: number }>(
+          `/ocr/v1/${job.remoteID}/download/text`,
+        )
+        return {
+          status: "completed",
+          result: `Pages: ${download.pages ?? status.pages ?? "unknown"}\n\n${truncate(download.content, `casedev_ocr_download with job_id="${job.remoteID}"`)}`,
+        }
+      }
+      case "transcription": {
+        const response = await CaseDevClient.request<{
+          status: "queued" | "processing" | "completed" | "error"
+          text?: string
+          utterances?: Array<{ text: string; start: number; speaker: string }>
+        }>(`/voice/transcription/${job.remoteID}`)
+        if (response.status === "error") return { status: "failed", error: "Transcription failed" }
+        if (response.status !== "completed") {
+          return { status: response.status === "queued" ? "pending" : "running" }
+        }
+        const transcript =
+          response.utterances && response.utterances.length > 0
+            ? response.utterances.map((u) => `[${u.speaker}]: ${u.text}`).join("\n")
+            : (response.text ?? "")
+        return {
+          status: "completed",
+          result: truncate(transcript, `casedev_transcribe_status with job_id="${job.remoteID}"`),
+        }
+      }
+      case "research":
+        // Research is followed by the tool that started it and never polled here
+        return { status: "running" }
+      case "ingest": {
+        const response = await CaseDevClient.request<{
+          objects: Array<{
+            id: string
+            filename: string
+            ingestionStatus: "pending" | "processing" | "completed" | "failed"
+            pageCount?: number
+            chunkCount?: number
+          }>
+        }>(`/vault/${job.vaultID}/objects`)
+        const object = response.objects.find((o) => o.id === job.remoteID)
+        if (!object) return { status: "failed", error: `Object ${job.remoteID} no longer exists in the vault` }
+        if (object.ingestionStatus === "failed") return { status: "failed", error: "Ingestion failed" }
+        if (object.ingestionStatus !== "completed") {
+          return { status: object.ingestionStatus === "pending" ? "pending" : "running" }
+        }
+        return {
+          status: "completed",
+          result: `${object.filename} is indexed and searchable with casedev_vault_search.\nPages: ${object.pageCount ?? "unknown"}\nChunks: ${object.chunkCount ?? "unknown"}`,
+        }
+      }
+    }
+  }
+
+  function truncate(text: string, more: string) {
+    if (text.length <= RESULT_MAX_LENGTH) return text
+    return text.slice(0, RESULT_MAX_LENGTH) + `\n\n...(truncated, use ${more} for the full result)`
+  }
+
+  /**
+   * Append the job result to the session as a synthetic user message so the model sees it on its next turn
+   */
+  async function inject(job: Info, result: string) {
+    const lastUser = (await Session.messages({ sessionID: job.sessionID })).findLast((msg) => msg.info.role === "user")
+      ?.info as MessageV2.User | undefined
+    if (!lastUser) return
+    const message = await Session.updateMessage({
+      id: Identifier.ascending("message"),
+      role: "user",
+      sessionID: job.sessionID,
+      time: {
+        created: Date.now(),
+      },
+      agent: lastUser.agent,
+      model: lastUser.model,
+    })
+    await Session.updatePart({
+      id: Identifier.ascending("part"),
+      messageID: message.id,
+      sessionID: job.sessionID,
+      type: "text",
+      synthetic: true,
+      text: `<casedev-job id="${job.remoteID}" kind="${job.kind}" status="${job.status}">\n${job.title}\n\n${result}\n</casedev-job>`,
+      time: {
+        start: Date.now(),
+        end: Date.now(),
+      },
+      metadata: {
+        jobID: job.id,
+      },
+    })
+  }
+}
@@ -0,0 +1,45 @@
+import z from "zod"
+import { createReadStream } from "fs"
+import { Storage } from "../../storage/storage"
+
+export namespace VaultManifest {
+  export const Entry = z.object({
+    objectId: z.string(),
+    sha256: z.string(),
+    size: z.number(),
+    modified: z.number().optional().describe("Modification time of the file when it was hashed"),
+    uploaded: z.number(),
+  })
+  export type Entry = z.infer<typeof Entry>
+
+  export const Info = z.object({
+    vaultID: z.string(),
+    files: z.record(z.string(), Entry),
+  })
+  export type Info = z.infer<typeof Info>
+
+  /**
+   * Load the upload manifest for a vault, or an empty one if nothing has been uploaded yet
+   */
+  export async function get(vaultID: string): Promise<Info> {
+    return Storage.read<Info>(["vault_manifest", vaultID]).catch(() => ({
+      vaultID,
+      files: {},
+    }))
+  }
+
+  export async function save(manifest: Info) {
+    await Storage.write(["vault_manifest", manifest.vaultID], manifest)
+  }
+
+  /**
+   * Stream a file through sha256 so large productions never sit in memory
+   */
+  export async function hash(filepath: string): Promise<string> {
+    const hasher = new Bun.CryptoHasher("sha256")
+    for await (const chunk of createReadStream(filepath)) {
+      hasher.update(chunk as Buffer)
+    }
+    return hasher.digest("hex")
+  }
+}
@@ -0,0 +1,229 @@
+import z from "zod"
+import { Instance } from "../../project/instance"
+import { Storage } from "../../storage/storage"
+import { Lock } from "../../util/lock"
+import { Log } from "../../util/log"
+
+/**
+ * Local copy of the extracted text of vault objects, with a per-vault inverted index over pages,
+ * so vault search keeps working when api.case.dev cannot be reached.
+ */
+export namespace VaultMirror {
+  const log = Log.create({ service: "casedev.mirror" })
+
+  const BM25_K1 = 1.2
+  const BM25_B = 0.75
+  const PHRASE_BOOST = 2
+  const SNIPPET_LENGTH = 400
+
+  const STOPWORDS = new Set([
+    "a",
+    "an",
+    "and",
+    "are",
+    "as",
+    "at",
+    "be",
+    "by",
+    "for",
+    "from",
+    "in",
+    "is",
+    "it",
+    "of",
+    "on",
+    "or",
+    "that",
+    "the",
+    "this",
+    "to",
+    "was",
+    "with",
+  ])
+
+  export const Document = z.object({
+    objectId: z.string(),
+    filename: z.string(),
+    pages: z.string().array(),
+    time: z.object({
+      mirrored: z.number(),
+    }),
+  })
+  export type Document = z.infer<typeof Document>
+
+  export const Index = z.object({
+    vaultID: z.string(),
+    // "<objectId>:<page>" -> token count of that page
+    pages: z.record(z.string(), z.number()),
+    // term -> "<objectId>:<page>" -> term frequency
+    terms: z.record(z.string(), z.record(z.string(), z.number())),
+  })
+  export type Index = z.infer<typeof Index>
+
+  export interface Result {
+    objectId: string
+    filename: string
+    page: number
+    score: number
+    text: string
+  }
+
+  function key(vaultID: string, ...rest: string[]) {
+    return ["vault_mirror", Instance.project.id, vaultID, ...rest]
+  }
+
+  export function tokenize(text: string) {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((token) => token.length > 0 && !STOPWORDS.has(token))
+  }
+
+  /**
+   * Split extracted text into pages. Extractors separate pages with form feeds; text without them is one page.
+   */
+  export function paginate(text: string) {
+    return text.split("\f")
+  }
+
+  async function index(vaultID: string): Promise<Index> {
+    return Storage.read<Index>(key(vaultID, "index")).catch(() => ({
+      vaultID,
+      pages: {},
+      terms: {},
+    }))
+  }
+
+  export async function get(vaultID: string, objectId: string) {
+    return Storage.read<Document>(key(vaultID, "object", objectId)).catch(() => undefined)
+  }
+
+  /**
+   * Mirrored documents of a vault, for the current project unless another project is given
+   */
+  export async function list(vaultID: string, projectID = Instance.project.id) {
+    const keys = await Storage.list(["vault_mirror", projectID, vaultID, "object"])
+    return Promise.all(keys.map((x) => Storage.read<Document>(x)))
+  }
+
+  /**
+   * Store an object's text in the mirror and (re)index its pages
+   */
+  export async function put(vaultID: string, input: { objectId: string; filename: string; pages: string[] }) {
+    const doc: Document = {
+      objectId: input.objectId,
+      filename: input.filename,
+      pages: input.pages,
+      time: {
+        mirrored: Date.now(),
+      },
+    }
+    await Storage.write(key(vaultID, "object", input.objectId), doc)
+
+    // The index is read, changed and written back whole, so puts to the same vault take turns
+    using _ = await Lock.write(key(vaultID, "index").join("/"))
+    const idx = await index(vaultID)
+    remove(idx, input.objectId)
+    doc.pages.forEach((text, i) => {
+      const page = `${input.objectId}:${i + 1}`
+      const tokens = tokenize(text)
+      idx.pages[page] = tokens.length
+      for (const token of tokens) {
+        const postings = (idx.terms[token] ??= {})
+        postings[page] = (postings[page] ?? 0) + 1
+      }
+    })
+    await Storage.write(key(vaultID, "index"), idx)
+    log.info("mirrored", { vaultID, objectId: input.objectId, pages: doc.pages.length })
+    return doc
+  }
+
+  function remove(idx: Index, objectId: string) {
+    const prefix = `${objectId}:`
+    for (const page of Object.keys(idx.pages)) {
+      if (page.startsWith(prefix)) delete idx.pages[page]
+    }
+    for (const [term, postings] of Object.entries(idx.terms)) {
+      for (const page of Object.keys(postings)) {
+        if (page.startsWith(prefix)) delete postings[page]
+      }
+      if (Object.keys(postings).length === 0) delete idx.terms[term]
+    }
+  }
+
+  /**
+   * BM25 keyword search over mirrored pages. Pages containing the query verbatim (e.g. a citation
+   * such as "410 U.S. 113") are boosted so exact matches rank first.
+   */
+  export async function search(
+    vaultID: string,
+    query: string,
+    options: { topK?: number; objectId?: string } = {},
+  ): Promise<Result[]> {
+    const idx = await index(vaultID)
+    const pages = Object.keys(idx.pages).filter((page) => !options.objectId || page.startsWith(`${options.objectId}:`))
+    if (pages.length === 0) return []
+    const allowed = new Set(pages)
+    const avg = pages.reduce((sum, page) => sum + idx.pages[page], 0) / pages.length || 1
+
+    const scores = new Map<string, number>()
+    for (const term of new Set(tokenize(query))) {
+      const postings = idx.terms[term]
+      if (!postings) continue
+      const matches = Object.entries(postings).filter(([page]) => allowed.has(page))
+      const idf = Math.log(1 + (pages.length - matches.length + 0.5) / (matches.length + 0.5))
+      for (const [page, tf] of matches) {
+        const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (idx.pages[page] / avg))
+        scores.set(page, (scores.get(page) ?? 0) + (idf * (tf * (BM25_K1 + 1))) / norm)
+      }
+    }
+
+    const phrase = query.trim().toLowerCase()
+    const topK = options.topK ?? 10
+    const docs = new Map<string, Document | undefined>()
+    const top: Result[] = []
+    // Pages are read best first; a phrase match lifts a page by at most PHRASE_BOOST, so once the next page cannot
+    // reach the top K even with it, no further documents are loaded
+    for (const [page, score] of [...scores].sort((a, b) => b[1] - a[1])) {
+      if (top.length >= topK && score * PHRASE_BOOST < top[topK - 1].score) break
+      const split = page.lastIndexOf(":")
+      const objectId = page.slice(0, split)
+      const number = Number(page.slice(split + 1))
+      if (!docs.has(objectId)) docs.set(objectId, await get(vaultID, objectId))
+      const doc = docs.get(objectId)
+      if (!doc) continue
+      const text = doc.pages[number - 1] ?? ""
+      const exact = phrase.length > 0 && text.toLowerCase().includes(phrase)
+      top.push({
+        objectId,
+        filename: doc.filename,
+        page: number,
+        score: exact ? score * PHRASE_BOOST : score,
+        text: snippet(text, query),
+      })
+      top.sort((a, b) => b.score - a.score)
+      top.splice(topK)
+    }
+
+    // Normalize to 0..1 so offline results read like API confidence scores
+    const max = top[0]?.score ?? 1
+    return top.map((result) => ({ ...result, score: result.score / max }))
+  }
+
+  function snippet(text: string, query: string) {
+    const lower = text.toLowerCase()
+    const phrase = lower.indexOf(query.trim().toLowerCase())
+    const first =
+      phrase >= 0
+        ? phrase
+        : Math.min(
+            ...tokenize(query)
+              .map((t) => lower.indexOf(t))
+              .filter((i) => i >= 0),
+            Number.MAX_SAFE_INTEGER,
+          )
+    const start = first === Number.MAX_SAFE_INTEGER ? 0 : Math.max(0, first - SNIPPET_LENGTH / 2)
+    const result = text.slice(start, start + SNIPPET_LENGTH).trim()
+    return (start > 0 ? "..." : "") + result + (start + SNIPPET_LENGTH < text.length ? "..." : "")
+  }
+}
@@ -2,6 +2,9 @@ import z from "zod"
 import { Tool } from "../tool"
 import { CaseDevClient } from "./client"
 import fs from "fs/promises"
+import path from "path"
+import { CaseDevJob } from "./job"
+import { OcrEngine } from "./engine"
 
 interface OcrProcessResponse {
   id: string
@@ -22,39 +25,101 @@ interface OcrDownloadResponse {
   content: string
   format: string
   pages?: number
+  // Word boxes and confidence from a local OCR engine, in json downloads
+  engine?: string
+  results?: OcrEngine.Page[]
+}
+
+interface OcrProcessMetadata {
+  jobId?: string
+  trackedJobId?: string
+  status?: OcrStatusResponse["status"]
+  documentUrl?: string
+  engine?: string
+  pages?: number
+  local?: true
+  error?: true
+}
+
+interface OcrStatusMetadata {
+  jobId: string
+  status: OcrStatusResponse["status"]
+  progress?: number
+  pages?: number
+}
+
+interface OcrDownloadMetadata {
+  jobId?: string
+  format?: "text" | "json" | "pdf"
+  savedTo?: string
+  pages?: number
+  length?: number
+  error?: true
+}
+
+/**
+ * Shape a local OCR result like the Case.dev download response so both are saved and returned the same way
+ */
+function download(result: OcrEngine.Result, format: "text" | "json" | "pdf"): OcrDownloadResponse {
+  if (format === "pdf") return { content: result.pdf!, format, pages: result.pages.length }
+  if (format === "text") return { content: OcrEngine.text(result), format, pages: result.pages.length }
+  return {
+    content: OcrEngine.text(result),
+    format,
+    pages: result.pages.length,
+    engine: result.engine,
+    results: result.pages,
+  }
 }
 
 export const OcrProcessTool = Tool.define("casedev_ocr_process", {
-  description: `Process a document (PDF, image) through Case.dev OCR to extract text.
+  description: `Process a document (PDF, image) through OCR to extract text.
 
-IMPORTANT: Local file paths are NOT supported. Files must be either:
-1. Uploaded to a vault first (recommended) - use casedev_vault_upload to get a presigned URL
-2. Available at a publicly accessible URL (https://)
+Two providers:
+- local: pass file_path to OCR a file on this machine without uploading it. Runs Tesseract (or the command
+  configured under "ocr" in the config) and returns the text immediately. Works offline. Used for files up to
+  the configured size limit (25 MB by default) when a local engine is installed.
+- casedev: pass document_url to OCR with Case.dev. Files must be uploaded to a vault first (casedev_vault_upload
+  returns a presigned URL) or be available at a public https:// URL. The job is tracked in the background and
+  the extracted text is added to the conversation automatically when it finishes, so there is no need to poll
+  casedev_ocr_status.
 
-For local files, ALWAYS use this workflow:
+For large local files, or when no local engine is available, use this workflow:
 1. First: casedev_vault_create (if no vault exists)
 2. Then: casedev_vault_upload with the local file path - this returns a presigned URL
 3. Finally: casedev_ocr_process with the presigned URL as document_url
 
-This tool submits a document for OCR processing and returns a job ID.
-Use casedev_ocr_status to check the status and casedev_ocr_download to get results.
+Both providers return a job ID for casedev_ocr_download (text, JSON with word boxes and confidence, or a
+searchable PDF).
 
 Supported file types: PDF, PNG, JPG, JPEG, TIFF, BMP
 
 Example usage:
+- Local scan: casedev_ocr_process with file_path="/path/to/exhibit-12.pdf"
 - From vault upload: casedev_ocr_process with document_url="<presigned_url_from_vault_upload>"
 - From public URL: casedev_ocr_process with document_url="https://example.com/document.pdf"`,
   parameters: z.object({
-    document_url: z.string().describe("URL to the document (HTTP/HTTPS or S3 path)"),
+    document_url: z.string().optional().describe("URL to the document (HTTP/HTTPS or S3 path) for Case.dev OCR"),
+    file_path: z.string().optional().describe("Path to a local PDF or image to OCR on this machine"),
     engine: z
       .enum(["doctr", "paddleocr"])
       .optional()
-      .describe("OCR engine to use. doctr is more accurate, paddleocr is faster. Defaults to 'doctr'"),
+      .describe("Case.dev OCR engine to use. doctr is more accurate, paddleocr is faster. Defaults to 'doctr'"),
     document_id: z.string().optional().describe("Optional custom document ID for tracking"),
   }),
-  async execute(params, ctx) {
+  async execute(params, ctx): Promise<Tool.Result<OcrProcessMetadata>> {
+    if (!params.document_url === !params.file_path) {
+      return {
+        title: "Error: Invalid parameters",
+        metadata: { error: true },
+        output: "Provide exactly one of document_url (Case.dev OCR) or file_path (local OCR).",
+      }
+    }
+    if (params.file_path) return processLocal(params.file_path, ctx.abort, (title) => ctx.metadata({ title }))
+
     const response = await CaseDevClient.request<OcrProcessResponse>("/ocr/v1/process", {
       method: "POST",
+      signal: ctx.abort,
       body: {
         document_url: params.document_url,
         engine: params.engine ?? "doctr",
@@ -62,10 +127,18 @@ Example usage:
       },
     })
 
+    const job = CaseDevJob.track({
+      sessionID: ctx.sessionID,
+      kind: "ocr",
+      remoteID: response.id,
+      title: `OCR of ${params.document_id ?? params.document_url}`,
+    })
+
     return {
       title: `OCR job submitted: ${response.id}`,
       metadata: {
         jobId: response.id,
+        trackedJobId: job.id,
         status: response.status,
         documentUrl: params.document_url,
       },
@@ -76,12 +149,74 @@ Status: ${response.status}
 Document: ${params.document_url}
 Engine: ${params.engine ?? "doctr"}
 
-Use casedev_ocr_status with job_id="${response.id}" to check progress.
-Once complete, use casedev_ocr_download with job_id="${response.id}" to get results.`,
+The job is being tracked in the background. The extracted text will be added to this conversation
+automatically when it finishes; do not poll casedev_ocr_status.
+For JSON or searchable PDF output, use casedev_ocr_download with job_id="${response.id}" once it completes.`,
     }
   },
 })
 
+async function processLocal(
+  file: string,
+  abort: AbortSignal,
+  progress: (title: string) => void,
+): Promise<Tool.Result<OcrProcessMetadata>> {
+  const filepath = path.resolve(file)
+  const uploadInstead = `To OCR it with Case.dev instead, upload it with casedev_vault_upload and pass the returned URL as document_url.`
+  const engine = await OcrEngine.resolve()
+  if (!engine) {
+    return {
+      title: "Error: No local OCR engine",
+      metadata: { error: true },
+      output: `No local OCR engine is available. Install Tesseract (and poppler-utils for PDFs), or set "ocr.command" in the config.\n\n${uploadInstead}`,
+    }
+  }
+  if (!engine.extensions.includes(path.extname(filepath).toLowerCase())) {
+    return {
+      title: "Error: Unsupported file type",
+      metadata: { error: true },
+      output: `${engine.name} cannot OCR ${path.extname(filepath) || "files without an extension"}. Supported: ${engine.extensions.join(", ")}`,
+    }
+  }
+  const stats = await fs.stat(filepath)
+  const limit = await OcrEngine.maxSize()
+  if (stats.size > limit) {
+    return {
+      title: "Error: File too large for local OCR",
+      metadata: { error: true },
+      output: `${path.basename(filepath)} is ${Math.round(stats.size / 1024 / 1024)} MB; local OCR is limited to ${Math.round(limit / 1024 / 1024)} MB (ocr.max_size).\n\n${uploadInstead}`,
+    }
+  }
+
+  progress(`Running ${engine.name} on ${path.basename(filepath)}...`)
+  const result = await OcrEngine.run(engine, filepath, abort)
+  const text = OcrEngine.text(result)
+  const preview = 10_000
+
+  return {
+    title: `OCR complete: ${path.basename(filepath)} (${result.pages.length} page(s), local)`,
+    metadata: {
+      jobId: result.id,
+      status: "completed",
+      engine: engine.name,
+      pages: result.pages.length,
+      local: true,
+    },
+    output: `OCR completed on this machine.
+
+Job ID: ${result.id}
+File: ${filepath}
+Engine: ${engine.name}
+Pages: ${result.pages.length}
+
+--- Extracted Text ---
+
+${text.length > preview ? text.slice(0, preview) + `\n\n...(truncated, use casedev_ocr_download with job_id="${result.id}" for the full text)` : text}
+
+For JSON${result.pdf ? " or a searchable PDF" : ""}, use casedev_ocr_download with job_id="${result.id}".`,
+  }
+}
+
 export const OcrStatusTool = Tool.define("casedev_ocr_status", {
   description: `Check the status of a Case.dev OCR processing job.
 
@@ -89,8 +224,21 @@ Returns the current status, progress percentage, and page count when available.`
   parameters: z.object({
     job_id: z.string().describe("The OCR job ID returned from casedev_ocr_process"),
   }),
-  async execute(params, ctx) {
-    const response = await CaseDevClient.request<OcrStatusResponse>(`/ocr/v1/${params.job_id}`)
+  async execute(params, ctx): Promise<Tool.Result<OcrStatusMetadata>> {
+    const local = await OcrEngine.get(params.job_id)
+    if (local) {
+      return {
+        title: `OCR status: completed`,
+        metadata: {
+          jobId: params.job_id,
+          status: "completed",
+          pages: local.pages.length,
+        },
+        output: `OCR Job Status: ✅ completed (local, ${local.engine})\nPages: ${local.pages.length}\nFile: ${local.file}\n\nUse casedev_ocr_download with job_id="${params.job_id}" to get the extracted text.`,
+      }
+    }
+
+    const response = await CaseDevClient.request<OcrStatusResponse>(`/ocr/v1/${params.job_id}`, { signal: ctx.abort })
 
     const statusEmoji: Record<string, string> = {
       pending: "⏳",
@@ -146,12 +294,9 @@ The text format is recommended for most use cases.`,
       .enum(["text", "json", "pdf"])
       .optional()
       .describe("Output format: text, json, or pdf. Defaults to 'text'"),
-    save_to: z
-      .string()
-      .optional()
-      .describe("Optional path to save the output file. Required for PDF format."),
+    save_to: z.string().optional().describe("Optional path to save the output file. Required for PDF format."),
   }),
-  async execute(params, ctx) {
+  async execute(params, ctx): Promise<Tool.Result<OcrDownloadMetadata>> {
     const format = params.format ?? "text"
 
     if (format === "pdf" && !params.save_to) {
@@ -162,9 +307,19 @@ The text format is recommended for most use cases.`,
       }
     }
 
-    const response = await CaseDevClient.request<OcrDownloadResponse>(
-      `/ocr/v1/${params.job_id}/download/${format}`,
-    )
+    const local = await OcrEngine.get(params.job_id)
+    if (local && format === "pdf" && !local.pdf) {
+      return {
+        title: "Error: No searchable PDF",
+        metadata: { error: true },
+        output: `Job ${params.job_id} was OCR'd locally with ${local.engine}, which only produces text. Download text or json instead.`,
+      }
+    }
+    const response = local
+      ? download(local, format)
+      : await CaseDevClient.request<OcrDownloadResponse>(`/ocr/v1/${params.job_id}/download/${format}`, {
+          signal: ctx.abort,
+        })
 
     // For PDF, we need to save to file
     if (format === "pdf" && params.save_to) {
@@ -0,0 +1,117 @@
+import z from "zod"
+import { pathToFileURL } from "url"
+import { VaultManifest } from "./manifest"
+
+/**
+ * Where a vault search chunk sits in its source document: file, page range and character offsets,
+ * plus a deep link to the page of the local copy when the document was uploaded from this machine.
+ */
+export namespace VaultProvenance {
+  // Search chunks are matched against the page text by their opening and closing words when the
+  // exact text cannot be found (chunkers often normalize whitespace or trim at the boundaries)
+  const ANCHOR_LENGTH = 80
+
+  export const Source = z.object({
+    objectId: z.string(),
+    chunkIndex: z.number().optional(),
+    filename: z.string().optional(),
+    pages: z
+      .object({
+        start: z.number(),
+        end: z.number(),
+      })
+      .optional(),
+    // Offsets into the document text with pages separated by form feeds, as returned by casedev_vault_text
+    offsets: z
+      .object({
+        start: z.number(),
+        end: z.number(),
+      })
+      .optional(),
+    path: z.string().optional(),
+    link: z.string().optional(),
+  })
+  export type Source = z.infer<typeof Source>
+
+  export interface Location {
+    pages: { start: number; end: number }
+    offsets: { start: number; end: number }
+  }
+
+  /**
+   * Collapse whitespace runs to single spaces, keeping the original offset of every character
+   */
+  function normalize(text: string) {
+    let result = ""
+    const offsets: number[] = []
+    let space = false
+    for (let i = 0; i < text.length; i++) {
+      if (/\s/.test(text[i])) {
+        space = result.length > 0
+        continue
+      }
+      if (space) {
+        result += " "
+        offsets.push(i - 1)
+        space = false
+      }
+      // Some characters lowercase to more than one code unit
+      for (const char of text[i].toLowerCase()) {
+        result += char
+        offsets.push(i)
+      }
+    }
+    return { text: result, offsets }
+  }
+
+  /**
+   * Find a chunk in a document's pages and report the pages it spans and its character offsets
+   */
+  export function locate(pages: string[], chunk: string): Location | undefined {
+    const document = normalize(pages.join("\f"))
+    const needle = normalize(chunk).text
+    if (!needle) return
+
+    let start = document.text.indexOf(needle)
+    let end = start + needle.length
+    if (start < 0) {
+      start = document.text.indexOf(needle.slice(0, ANCHOR_LENGTH))
+      if (start < 0) return
+      const tail = needle.slice(-ANCHOR_LENGTH)
+      const last = document.text.indexOf(tail, start)
+      end = last < 0 ? Math.min(start + needle.length, document.text.length) : last + tail.length
+    }
+
+    const from = document.offsets[start]
+    const to = document.offsets[end - 1] + 1
+    const breaks = [...pages.join("\f").matchAll(/\f/g)].map((match) => match.index!)
+    const page = (offset: number) => breaks.filter((index) => index < offset).length + 1
+    return {
+      pages: { start: page(from), end: page(to - 1) },
+      offsets: { start: from, end: to },
+    }
+  }
+
+  /**
+   * Local files uploaded to the vault, keyed by object ID, from the folder upload manifest
+   */
+  export async function paths(vaultID: string) {
+    const manifest = await VaultManifest.get(vaultID)
+    return new Map(Object.entries(manifest.files).map(([filepath, entry]) => [entry.objectId, filepath]))
+  }
+
+  /**
+   * file:// URL opening the local copy at a page. PDF viewers honour #page=N; other files open at the start.
+   */
+  export function link(filepath: string, page?: number) {
+    const url = pathToFileURL(filepath).href
+    return page && filepath.toLowerCase().endsWith(".pdf") ? `${url}#page=${page}` : url
+  }
+
+  export function cite(source: Source) {
+    const name = source.filename ?? source.objectId
+    if (!source.pages) return name
+    if (source.pages.start === source.pages.end) return `${name}, p. ${source.pages.start}`
+    return `${name}, pp. ${source.pages.start}-${source.pages.end}`
+  }
+}
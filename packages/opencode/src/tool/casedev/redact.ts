@@ -0,0 +1,421 @@
+import z from "zod"
+import path from "path"
+import fs from "fs/promises"
+import { Tool } from "../tool"
+import { Instance } from "../../project/instance"
+import { Permission } from "../../permission"
+import { Filesystem } from "../../util/filesystem"
+import { Csv } from "../../util/csv"
+import { Extract } from "../../extract"
+import { CaseDevClient } from "./client"
+import { OcrEngine } from "./engine"
+
+/**
+ * Local redaction of personal identifiers and privileged material. Finds Social Security, account and medical
+ * record numbers, dates of birth, names of minors and caller-supplied privileged terms, and records each
+ * redaction with its location, category and reason so the log can back a privilege or redaction log.
+ */
+export namespace Redaction {
+  export type Category = "ssn" | "account" | "dob" | "minor" | "medical" | "privileged"
+
+  export interface Span {
+    category: Category
+    /** The redacted text; never written to the redaction log */
+    text: string
+    replacement: string
+    reason: string
+    start: number
+    end: number
+    line: number
+    /** Pages are separated by form feeds, as in OCR output */
+    page: number
+  }
+
+  export interface Options {
+    /** Names of minors to redact in addition to the ones found from context such as "a minor" or "age 12" */
+    minors?: string[]
+    /** Privileged terms, matched as whole words regardless of case */
+    terms?: string[]
+    /** Partial keeps what Fed. R. Civ. P. 5.2(a) allows in filings; full removes everything */
+    mode?: "partial" | "full"
+  }
+
+  export const LABELS: Record<Category, string> = {
+    ssn: "SSN",
+    account: "Account number",
+    dob: "Date of birth",
+    minor: "Minor",
+    medical: "Medical identifier",
+    privileged: "Privileged",
+  }
+
+  const REASONS: Record<Category, string> = {
+    ssn: "Social Security or taxpayer ID number; Fed. R. Civ. P. 5.2(a)(1) allows only the last four digits",
+    account: "Financial account number; Fed. R. Civ. P. 5.2(a)(4) allows only the last four digits",
+    dob: "Date of birth; Fed. R. Civ. P. 5.2(a)(2) allows only the year",
+    minor: "Name of a minor; Fed. R. Civ. P. 5.2(a)(3) allows only initials",
+    medical: "Medical record or health plan identifier (HIPAA)",
+    privileged: "Privileged: attorney-client communication or attorney work product",
+  }
+
+  const MONTH = "(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\\.?"
+  const DATE = `(?:\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|\\d{4}-\\d{2}-\\d{2}|${MONTH}\\s+\\d{1,2},?\\s+\\d{4}|\\d{1,2}\\s+${MONTH}\\s+\\d{4})`
+  const NAME = "[A-Z][a-z]+(?:[-'][A-Z]?[a-z]+)?"
+  const FULL_NAME = `${NAME}(?:\\s+[A-Z]\\.)?(?:\\s+${NAME}){0,2}`
+
+  // Each pattern's first group is what gets redacted; the rest is context that identifies it
+  const PATTERNS: { category: Category; pattern: RegExp; check?: (digits: string) => boolean }[] = [
+    { category: "ssn", pattern: /\b((?!000|666|9\d\d)\d{3}([- ])(?!00)\d{2}\2(?!0000)\d{4})\b/g },
+    {
+      category: "ssn",
+      pattern: /\b(?:SSN|SS#|social security(?: number| no\.?)?|TIN|ITIN|EIN)\s*[:#]?\s*(\d{9}|\d{2}-\d{7})\b/gi,
+    },
+    {
+      category: "account",
+      pattern:
+        /\b(?:account|acct\.?|a\/c|routing|card|IBAN|loan)(?:\s+(?:number|no\.?|#))?\s*[:#]?\s*([A-Z]{0,4}\d[\d -]{5,30}\d)\b/gi,
+    },
+    // A bare run of digits is only taken for a card number if it passes the check every card number does
+    { category: "account", pattern: /\b(\d{4}[ -]\d{4}[ -]\d{4}[ -]\d{1,7}|\d{13,19})\b/g, check: luhn },
+    {
+      category: "dob",
+      pattern: new RegExp(`\\b(?:DOB|D\\.O\\.B\\.|date of birth|birth ?date|born(?: on)?)\\s*[:-]?\\s*(${DATE})`, "gi"),
+    },
+    {
+      category: "medical",
+      pattern:
+        /\b(?:MRN|medical record(?: number| no\.?| #)?|patient (?:ID|number|no\.?)|member (?:ID|number)|health plan (?:ID|number)|subscriber (?:ID|number)|beneficiary (?:ID|number)|medicare (?:ID|number|no\.?)|medicaid (?:ID|number|no\.?))\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})/gi,
+    },
+  ]
+
+  // Context that marks a name as a minor's
+  const MINOR_PATTERNS = [
+    new RegExp(`\\bminor (?:child|children|plaintiff|defendant|victim|witness)?\\s*,?\\s*(${FULL_NAME})`, "g"),
+    new RegExp(`\\b(${FULL_NAME}),?\\s+\\(?(?:a minor|a juvenile|minor child)\\b`, "g"),
+    new RegExp(`\\b(${FULL_NAME}),?\\s+\\(?(?:age|aged)\\s+(\\d{1,2})\\b`, "g"),
+    new RegExp(`\\b(${FULL_NAME}),?\\s+\\(?(\\d{1,2})[- ]years?[- ]old\\b`, "g"),
+  ]
+
+  // Capitalized words that the name patterns pick up but are not names
+  const NOT_NAMES = new Set(["The", "A", "An", "Her", "His", "Their", "Minor", "Child", "Plaintiff", "Defendant"])
+
+  function luhn(digits: string) {
+    let sum = 0
+    for (let i = 0; i < digits.length; i++) {
+      let digit = Number(digits[digits.length - 1 - i])
+      if (i % 2 === 1) digit = digit * 2 > 9 ? digit * 2 - 9 : digit * 2
+      sum += digit
+    }
+    return sum % 10 === 0
+  }
+
+  function escape(text: string) {
+    return text.replace(/[.*+?^$()|[\]{}\\]/g, "\\$&")
+  }
+
+  /**
+   * Names of minors found from context in the text
+   */
+  export function minors(text: string) {
+    const names = new Set<string>()
+    for (const pattern of MINOR_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        if (match[2] && Number(match[2]) >= 18) continue
+        const words = match[1].split(/\s+/).filter((word) => !NOT_NAMES.has(word))
+        // A capitalized word that also appears in lowercase starts the sentence rather than the name
+        while (words.length > 1 && new RegExp(`\\b${words[0].toLowerCase()}\\b`).test(text)) words.shift()
+        const name = words.join(" ")
+        if (name) names.add(name)
+      }
+    }
+    return [...names]
+  }
+
+  function initials(name: string) {
+    return (
+      name
+        .split(/\s+/)
+        .filter((word) => /^[A-Z]/.test(word))
+        .map((word) => `${word[0]}.`)
+        .join("") || "[minor]"
+    )
+  }
+
+  function replace(category: Category, text: string, mode: "partial" | "full") {
+    if (mode === "full") return `[REDACTED: ${LABELS[category]}]`
+    const digits = text.replace(/\D/g, "")
+    switch (category) {
+      case "ssn":
+        return `XXX-XX-${digits.slice(-4)}`
+      case "account":
+        return `${"X".repeat(Math.max(digits.length - 4, 4))}${digits.slice(-4)}`
+      case "dob": {
+        const year = text.match(/\b\d{4}\b/)?.[0] ?? text.match(/\d{2}$/)?.[0]
+        return year ? `[DOB redacted] ${year}` : `[REDACTED: ${LABELS.dob}]`
+      }
+      case "minor":
+        return initials(text)
+      default:
+        return `[REDACTED: ${LABELS[category]}]`
+    }
+  }
+
+  export function find(text: string, options: Options = {}): Span[] {
+    const mode = options.mode ?? "partial"
+    const found: Omit<Span, "line" | "page">[] = []
+    const add = (category: Category, start: number, value: string) =>
+      found.push({
+        category,
+        text: value,
+        replacement: replace(category, value, mode),
+        reason: REASONS[category],
+        start,
+        end: start + value.length,
+      })
+
+    for (const { category, pattern, check } of PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        const value = match[1]
+        if (check && !check(value.replace(/\D/g, ""))) continue
+        add(category, match.index! + match[0].lastIndexOf(value), value)
+      }
+    }
+
+    const names = [...new Set([...(options.minors ?? []), ...minors(text)].map((name) => name.trim()).filter(Boolean))]
+    for (const name of names) {
+      // The first name on its own identifies the child too; a shared surname alone does not
+      const forms = [name, name.split(/\s+/)[0]].filter((form, i, all) => all.indexOf(form) === i)
+      for (const form of forms) {
+        for (const match of text.matchAll(new RegExp(`\\b${escape(form)}\\b`, "g")))
+          add("minor", match.index!, match[0])
+      }
+    }
+
+    for (const term of options.terms ?? []) {
+      if (!term.trim()) continue
+      const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escape(term.trim())}(?![\\p{L}\\p{N}])`, "giu")
+      for (const match of text.matchAll(pattern)) add("privileged", match.index!, match[0])
+    }
+
+    // Where spans overlap, the earliest and then the longest wins
+    const spans: Span[] = []
+    let end = -1
+    for (const span of found.sort((a, b) => a.start - b.start || b.end - a.end)) {
+      if (span.start < end) continue
+      const before = text.slice(0, span.start)
+      spans.push({
+        ...span,
+        line: before.split("\n").length,
+        page: before.split("\f").length,
+      })
+      end = span.end
+    }
+    return spans
+  }
+
+  export function apply(text: string, spans: Span[]) {
+    let result = ""
+    let position = 0
+    for (const span of spans) {
+      result += text.slice(position, span.start) + span.replacement
+      position = span.end
+    }
+    return result + text.slice(position)
+  }
+
+  /**
+   * Redaction log as CSV. The redacted text is only included when originals is set.
+   */
+  export function log(source: string, spans: Span[], originals = false) {
+    const header = ["entry", "source", "page", "line", "start", "end", "category", "redacted_as", "reason"]
+    if (originals) header.push("original")
+    const rows = spans.map((span, i) => {
+      const row = [
+        i + 1,
+        source,
+        span.page,
+        span.line,
+        span.start,
+        span.end,
+        LABELS[span.category],
+        span.replacement,
+        span.reason,
+      ]
+      if (originals) row.push(span.text)
+      return row.map(Csv.quote).join(",")
+    })
+    return [header.join(","), ...rows].join("\n") + "\n"
+  }
+}
+
+interface OcrJson {
+  content?: string
+  results?: OcrEngine.Page[]
+}
+
+/**
+ * OCR JSON keeps the page text, which is joined with form feeds the same way as text downloads
+ */
+function ocr(json: OcrJson) {
+  if (json.results?.length) return json.results.map((page) => page.text).join("\n\f")
+  return json.content ?? ""
+}
+
+interface RedactMetadata {
+  source?: string
+  total?: number
+  counts?: Record<Redaction.Category, number>
+  path?: string
+  log?: string
+  originals?: string
+  error?: true
+}
+
+export const RedactTool = Tool.define("casedev_redact", {
+  description: `Redact personal identifiers and privileged material from text or OCR output. Runs locally.
+
+Finds and redacts:
+- Social Security and taxpayer ID numbers (123-45-6789, or 9 digits labeled SSN/TIN)
+- Financial account numbers labeled as account, routing, card or loan numbers, and card numbers
+- Dates of birth labeled DOB, date of birth or born
+- Names of minors: names given in minors, and names marked "a minor", "minor child", "age 12" or "12 years old"
+- Medical record, patient, member, health plan and Medicare/Medicaid numbers
+- Privileged terms given in terms, matched as whole words regardless of case
+
+By default redactions keep what Fed. R. Civ. P. 5.2(a) allows in a public filing: the last four digits of SSNs
+and account numbers, the year of birth, and a minor's initials. Use mode="full" to remove them entirely.
+
+Writes a redacted copy and a CSV redaction log listing each redaction's page, line, offsets, category and
+reason, without the redacted text. Review the log before producing the document: the patterns can miss
+identifiers written unusually, and names of minors are only found from the context above or from minors.
+
+Provide exactly one of:
+- text: the text itself
+- file_path: a text, markdown, DOCX, RTF or email file, or OCR JSON saved by casedev_ocr_download
+- job_id: an OCR job from casedev_ocr_process (run OCR first for scanned PDFs and images)
+
+Set originals_to to also save the log with the original text of every redaction, for the privilege reviewer.
+Saving it outside the matter folder asks the user first.`,
+  parameters: z.object({
+    text: z.string().optional().describe("Text to redact"),
+    file_path: z.string().optional().describe("Path to a document or OCR JSON file to redact"),
+    job_id: z.string().optional().describe("ID of an OCR job whose text to redact"),
+    minors: z.array(z.string()).optional().describe("Full names of minors to redact"),
+    terms: z
+      .array(z.string())
+      .optional()
+      .describe("Privileged terms to redact, e.g. counsel names or matter code names"),
+    mode: z
+      .enum(["partial", "full"])
+      .optional()
+      .describe("partial keeps what Rule 5.2 allows (last four digits, year, initials); full removes everything"),
+    save_to: z.string().optional().describe("Path for the redacted copy. Defaults to '<name> (redacted).txt'"),
+    originals_to: z
+      .string()
+      .optional()
+      .describe("Path to save a log that includes the original text. Asks first when outside the matter"),
+  }),
+  async execute(params, ctx): Promise<Tool.Result<RedactMetadata>> {
+    const provided = [params.text, params.file_path, params.job_id].filter((x) => x !== undefined)
+    if (provided.length !== 1) {
+      return {
+        title: "Error: Invalid parameters",
+        metadata: { error: true },
+        output: "Provide exactly one of text, file_path, or job_id.",
+      }
+    }
+
+    const file = params.file_path ? path.resolve(Instance.directory, params.file_path) : undefined
+    const source = file ? path.basename(file) : params.job_id ? `ocr-${params.job_id}` : "text"
+    const text = await (async () => {
+      if (file) {
+        if (path.extname(file).toLowerCase() === ".json") return ocr(await Bun.file(file).json())
+        if (Extract.supported(file)) return Extract.text(file)
+        return Bun.file(file).text()
+      }
+      if (params.job_id) {
+        const local = await OcrEngine.get(params.job_id)
+        if (local) return OcrEngine.text(local)
+        return ocr(
+          await CaseDevClient.request<OcrJson>(`/ocr/v1/${params.job_id}/download/json`, { signal: ctx.abort }),
+        )
+      }
+      return params.text!
+    })()
+
+    const spans = Redaction.find(text, { minors: params.minors, terms: params.terms, mode: params.mode })
+    const name = file ? path.basename(file, path.extname(file)) : source
+    const dir = file ? path.dirname(file) : Instance.directory
+    const ext = file && [".md", ".txt"].includes(path.extname(file).toLowerCase()) ? path.extname(file) : ".txt"
+    const outputPath = path.resolve(Instance.directory, params.save_to ?? path.join(dir, `${name} (redacted)${ext}`))
+    const logPath = path.join(path.dirname(outputPath), `${name} (redaction log).csv`)
+
+    // The originals are what the redaction protects, so they stay in the matter unless the user agrees
+    const originals = params.originals_to ? path.resolve(Instance.directory, params.originals_to) : undefined
+    const matter = Instance.project.matter ? Instance.worktree : Instance.directory
+    if (originals && !Filesystem.contains(matter, originals)) {
+      const parentDir = path.dirname(originals)
+      await Permission.ask({
+        type: "redaction_originals",
+        pattern: [parentDir, path.join(parentDir, "*")],
+        sessionID: ctx.sessionID,
+        messageID: ctx.messageID,
+        callID: ctx.callID,
+        title: `Save unredacted originals outside the matter: ${originals}`,
+        metadata: {
+          filepath: originals,
+          parentDir,
+          redactions: spans.length,
+        },
+      })
+    }
+
+    await fs.mkdir(path.dirname(outputPath), { recursive: true })
+    await Bun.write(outputPath, Redaction.apply(text, spans))
+    await Bun.write(logPath, Redaction.log(source, spans))
+    if (originals) {
+      await fs.mkdir(path.dirname(originals), { recursive: true })
+      await Bun.write(originals, Redaction.log(source, spans, true))
+    }
+
+    const counts = Object.fromEntries(
+      Object.keys(Redaction.LABELS).map((category) => [
+        category,
+        spans.filter((span) => span.category === category).length,
+      ]),
+    ) as Record<Redaction.Category, number>
+
+    let output = `Redacted ${spans.length} item(s) from ${source}`
+    output += spans.length > 0 ? `: ` : `.\n`
+    if (spans.length > 0) {
+      output += (Object.keys(counts) as Redaction.Category[])
+        .filter((category) => counts[category] > 0)
+        .map((category) => `${counts[category]} ${Redaction.LABELS[category]}`)
+        .join(", ")
+      output += `\n`
+    }
+    output += `Redacted copy: ${outputPath}\nRedaction log: ${logPath}\n`
+    if (originals) output += `Log with originals: ${originals}\n`
+
+    if (spans.length > 0) {
+      output += `\n--- Redactions ---\n`
+      for (const span of spans.slice(0, 100)) {
+        output += `p${span.page} L${span.line} [${Redaction.LABELS[span.category]}] -> ${span.replacement}\n`
+      }
+      if (spans.length > 100) output += `... ${spans.length - 100} more in the redaction log\n`
+    }
+
+    return {
+      title: `${spans.length} redaction(s) in ${source}`,
+      metadata: {
+        source,
+        total: spans.length,
+        counts,
+        path: outputPath,
+        log: logPath,
+        originals,
+      },
+      output,
+    }
+  },
+})
@@ -0,0 +1,114 @@
+import z from "zod"
+import path from "path"
+import fs from "fs/promises"
+import { Tool } from "../tool"
+import { Instance } from "../../project/instance"
+import { Compare } from "../../compare"
+import type { Redline } from "@opencode-ai/util/redline"
+
+// Changed paragraphs listed in the tool output; the redlined document has all of them
+const MAX_LISTED = 100
+
+function inline(paragraph: Redline.Paragraph) {
+  return paragraph.segments
+    .map((segment) => {
+      if (segment.type === "insert") return `{+${segment.text}+}`
+      if (segment.type === "delete") return `[-${segment.text}-]`
+      return segment.text
+    })
+    .join("")
+}
+
+interface RedlineMetadata {
+  original?: string
+  revised?: string
+  path?: string
+  insertions?: number
+  deletions?: number
+  moves?: number
+  paragraphs?: Redline.Paragraph[]
+  error?: true
+}
+
+export const RedlineTool = Tool.define("casedev_redline", {
+  description: `Compare two versions of a document and produce a redline. Runs locally.
+
+Accepts DOCX, PDF, markdown and text files; the two versions may be in different formats. Tracked changes
+already in a DOCX are accepted before comparing. PDFs need pdftotext (poppler-utils) on this machine.
+
+Paragraphs are aligned first, so a reworded paragraph shows only the words that changed, and a paragraph that
+was moved is reported as a move rather than as a deletion and an insertion.
+
+Writes a Word document with the changes as tracked insertions, deletions and moves, which the client can
+review and accept in Word. Use this after revising a contract or other draft the client sent.`,
+  parameters: z.object({
+    original: z.string().describe("Path to the original version"),
+    revised: z.string().describe("Path to the revised version"),
+    save_to: z.string().optional().describe("Path for the redlined DOCX. Defaults to '<revised name> (redline).docx'"),
+    author: z.string().optional().describe("Author name shown on the tracked changes. Defaults to Thurgood"),
+  }),
+  async execute(params, ctx): Promise<Tool.Result<RedlineMetadata>> {
+    const original = path.resolve(Instance.directory, params.original)
+    const revised = path.resolve(Instance.directory, params.revised)
+    for (const file of [original, revised]) {
+      if (!(await Bun.file(file).exists())) {
+        return {
+          title: "Error: File not found",
+          metadata: { error: true },
+          output: `File not found: ${file}`,
+        }
+      }
+      if (!Compare.EXTENSIONS.includes(path.extname(file).toLowerCase())) {
+        return {
+          title: "Error: Unsupported format",
+          metadata: { error: true },
+          output: `Cannot compare ${path.basename(file)}. Supported formats: ${Compare.EXTENSIONS.join(", ")}`,
+        }
+      }
+    }
+
+    ctx.metadata({ title: `Comparing ${path.basename(original)} and ${path.basename(revised)}` })
+    const result = await Compare.compare(original, revised)
+
+    const name = path.basename(revised, path.extname(revised))
+    const outputPath = path.resolve(
+      Instance.directory,
+      params.save_to ?? path.join(path.dirname(revised), `${name} (redline).docx`),
+    )
+    await fs.mkdir(path.dirname(outputPath), { recursive: true })
+    await Bun.write(outputPath, await Compare.docx(result, params.author ?? "Thurgood"))
+
+    const changed = result.paragraphs.flatMap((paragraph, index) =>
+      paragraph.type === "equal" ? [] : [{ index, paragraph }],
+    )
+    let output = `Compared ${path.basename(original)} to ${path.basename(revised)}: `
+    output += `${result.insertions} word(s) inserted, ${result.deletions} deleted, ${result.moves} paragraph(s) moved, `
+    output += `${changed.length} of ${result.paragraphs.length} paragraph(s) changed.\n`
+    output += `Redline saved to ${outputPath}\n`
+
+    if (changed.length > 0) {
+      output += `\n--- Changes ({+inserted+} [-deleted-]) ---\n`
+      for (const { index, paragraph } of changed.slice(0, MAX_LISTED)) {
+        const label = paragraph.move ? `${paragraph.type} #${paragraph.move}` : paragraph.type
+        output += `¶${index + 1} (${label}) ${inline(paragraph)}\n`
+      }
+      if (changed.length > MAX_LISTED) {
+        output += `... ${changed.length - MAX_LISTED} more changed paragraph(s) in the redline\n`
+      }
+    }
+
+    return {
+      title: `Redline: ${path.basename(revised)}`,
+      metadata: {
+        original,
+        revised,
+        path: outputPath,
+        insertions: result.insertions,
+        deletions: result.deletions,
+        moves: result.moves,
+        paragraphs: result.paragraphs,
+      },
+      output,
+    }
+  },
+})
@@ -1,16 +1,209 @@
 import z from "zod"
 import { Tool } from "../tool"
 import { CaseDevClient } from "./client"
+import { CaseDevJob } from "./job"
+import { SessionRetry } from "@/session/retry"
+import { Research } from "@/research"
 
-interface ResearchResponse {
-  researchId: string
-  model: string
-  results: {
+export namespace LegalResearch {
+  export const POLL_INTERVAL = 3_000
+  // Pro research takes about 5 minutes; give up well after that rather than poll forever
+  export const TIMEOUT = 30 * 60 * 1000
+
+  export const Mode = z.enum(["fast", "normal", "pro"])
+  export type Mode = z.infer<typeof Mode>
+
+  export const Source = z
+    .object({
+      url: z.string(),
+      title: z.string(),
+      snippet: z.string().optional(),
+    })
+    .meta({
+      ref: "ResearchSource",
+    })
+  export type Source = z.infer<typeof Source>
+
+  export const Step = z
+    .object({
+      type: z.enum(["query", "source", "summary", "status"]),
+      text: z.string(),
+      time: z.number(),
+    })
+    .meta({
+      ref: "ResearchStep",
+    })
+  export type Step = z.infer<typeof Step>
+
+  export interface Result {
+    researchId: string
+    model: string
     summary?: string
-    sources?: string[]
     analysis?: string
-    [key: string]: unknown
+    sources: Source[]
+    steps: Step[]
+    /** Any other sections the API returned, by name */
+    other: Record<string, unknown>
+  }
+
+  interface Event {
+    type?: string
+    timestamp?: string | number
+    message?: string
+    text?: string
+    query?: string
+    url?: string
+    title?: string
+    snippet?: string
+  }
+
+  interface Response {
+    researchId: string
+    model: string
+    status?: "pending" | "running" | "completed" | "failed"
+    error?: string
+    events?: Event[]
+    results?: {
+      summary?: string
+      sources?: unknown[]
+      analysis?: string
+      [key: string]: unknown
+    }
+  }
+
+  /**
+   * Start a research run and wait for it, reporting each new step as the API streams events. Runs whose results
+   * come back with the first response finish at once.
+   */
+  export async function run(input: {
+    query: string
+    mode: Mode
+    signal: AbortSignal
+    /** Called with the research ID once the run is accepted; a returned signal also cancels it */
+    onStart?: (researchId: string) => AbortSignal | void
+    onStep?: (steps: Step[], sources: Source[]) => void
+  }): Promise<Result | undefined> {
+    const started = await CaseDevClient.request<Response>("/search/v1/research", {
+      method: "POST",
+      body: {
+        instructions: input.query,
+        model: input.mode,
+        // Return the research ID right away and run in the background, so progress can be polled as events
+        async: true,
+      },
+      // An API that ignores async answers once the research is done
+      timeout: input.mode === "pro" ? 360000 : input.mode === "normal" ? 180000 : 60000,
+      // Every POST starts a new, billed research run, so a failed one is not sent again
+      signal: input.signal,
+    })
+    const cancel = input.onStart?.(started.researchId)
+    const signal = cancel ? AbortSignal.any([input.signal, cancel]) : input.signal
+
+    const steps: Step[] = []
+    const found = new Map<string, Source>()
+    let response = started
+    let seen = 0
+    const deadline = Date.now() + TIMEOUT
+    while (true) {
+      const events = (response.events ?? []).slice(seen)
+      seen += events.length
+      for (const event of events) {
+        const item = step(event)
+        if (item) steps.push(item)
+        const cited = event.type === "source" ? reference(event) : undefined
+        if (cited) found.set(cited.url, cited)
+      }
+      if (events.length > 0) input.onStep?.(steps, [...found.values()])
+
+      if (response.status === "failed") throw new Error(`Research failed: ${response.error ?? "unknown error"}`)
+      if (response.status === undefined || response.status === "completed") break
+      if (Date.now() > deadline) {
+        throw new Error(`Research ${started.researchId} did not finish within ${Math.round(TIMEOUT / 60_000)} minutes`)
+      }
+
+      signal.throwIfAborted()
+      await SessionRetry.sleep(POLL_INTERVAL, signal)
+      response = await CaseDevClient.request<Response>(`/search/v1/research/${started.researchId}?events=true`, {
+        signal,
+      })
+    }
+    if (!response.results) return
+
+    const { summary, analysis, sources: listed, ...other } = response.results
+    // The final list comes first since it is what the summary cites; sources only seen in events follow it
+    const sources = new Map<string, Source>()
+    for (const item of listed ?? []) {
+      const cited = source(item)
+      if (cited) sources.set(cited.url, cited)
+    }
+    for (const cited of found.values()) if (!sources.has(cited.url)) sources.set(cited.url, cited)
+    return {
+      researchId: response.researchId,
+      model: response.model,
+      summary: typeof summary === "string" ? summary : undefined,
+      analysis: typeof analysis === "string" ? analysis : undefined,
+      sources: [...sources.values()],
+      steps,
+      other,
+    }
+  }
+
+  /**
+   * A structured citation from a source as the API reports it: a bare URL, "Title - URL", or an object
+   */
+  export function source(value: unknown): Source | undefined {
+    if (typeof value === "string") {
+      const match = value.match(/^(.*?)\s*(?:[-–—:|]\s*)?<?(https?:\/\/\S+?)>?$/)
+      if (!match) return { url: value, title: value }
+      return { url: match[2], title: match[1] || hostname(match[2]) }
+    }
+    if (!value || typeof value !== "object") return
+    const item = value as Record<string, unknown>
+    const url = [item.url, item.link, item.href].find((field) => typeof field === "string") as string | undefined
+    if (!url) return
+    const title = [item.title, item.name].find((field) => typeof field === "string") as string | undefined
+    const snippet = [item.snippet, item.text, item.content, item.description].find(
+      (field) => typeof field === "string",
+    ) as string | undefined
+    return { url, title: title || hostname(url), snippet: snippet?.trim() || undefined }
   }
+
+  export function step(event: Event): Step | undefined {
+    const time = typeof event.timestamp === "string" ? Date.parse(event.timestamp) : (event.timestamp ?? Date.now())
+    const text = (() => {
+      switch (event.type) {
+        case "query":
+          return event.query ?? event.text ?? event.message
+        case "source":
+          return reference(event)?.title
+        default:
+          return event.text ?? event.message
+      }
+    })()
+    if (!text) return
+    const type = Step.shape.type.safeParse(event.type)
+    return { type: type.success ? type.data : "status", text, time: Number.isNaN(time) ? Date.now() : time }
+  }
+
+  // A source event either carries the source's fields or its text as the API would list it
+  function reference(event: Event) {
+    return event.url ? source(event) : source(event.text)
+  }
+
+  function hostname(url: string) {
+    return URL.canParse(url) ? new URL(url).hostname : url
+  }
+}
+
+interface LegalSearchMetadata {
+  query: string
+  // The mode asked for, or the model the API reports it used
+  mode: string
+  researchId?: string
+  artifactID?: string
+  resultCount: number
+  steps?: LegalResearch.Step[]
+  sources: LegalResearch.Source[]
 }
 
 export const LegalSearchTool = Tool.define("casedev_search", {
@@ -18,6 +211,7 @@ export const LegalSearchTool = Tool.define("casedev_search", {
 
 This tool conducts comprehensive multi-step research, gathering information from multiple sources
 and providing detailed insights with citations. Ideal for legal research, case analysis, and due diligence.
+Progress (queries issued, sources found, partial summaries) is shown to the user while the research runs.
 
 Research modes:
 - fast: Quick results (~30 seconds) - good for simple queries
@@ -30,36 +224,60 @@ Example usage:
 - Deep research: casedev_search with query="federal court precedents software licensing damages" mode="pro"`,
   parameters: z.object({
     query: z.string().describe("The research question or search query"),
-    mode: z
-      .enum(["fast", "normal", "pro"])
-      .optional()
-      .describe("Research depth: fast (~30s), normal (~2min), or pro (~5min). Defaults to 'normal'"),
+    mode: LegalResearch.Mode.optional().describe(
+      "Research depth: fast (~30s), normal (~2min), or pro (~5min). Defaults to 'normal'",
+    ),
   }),
-  async execute(params, ctx) {
+  async execute(params, ctx): Promise<Tool.Result<LegalSearchMetadata>> {
+    const mode = params.mode ?? "normal"
     ctx.metadata({
       title: `Researching: ${params.query.slice(0, 40)}...`,
-      metadata: { mode: params.mode, status: "searching" },
+      metadata: { mode, status: "searching" },
     })
 
-    // For pro mode, we need longer timeout
-    const timeout = params.mode === "pro" ? 360000 : params.mode === "normal" ? 180000 : 60000
-
-    const response = await CaseDevClient.request<ResearchResponse>("/search/v1/research", {
-      method: "POST",
-      body: {
-        instructions: params.query,
-        model: params.mode ?? "normal",
+    let job: CaseDevJob.Info | undefined
+    const result = await LegalResearch.run({
+      query: params.query,
+      mode,
+      signal: ctx.abort,
+      onStart(researchId) {
+        const tracked = CaseDevJob.follow({
+          sessionID: ctx.sessionID,
+          kind: "research",
+          remoteID: researchId,
+          title: `Research: ${params.query.slice(0, 60)}`,
+        })
+        job = tracked.info
+        return tracked.signal
       },
-      timeout,
-    })
+      onStep(steps, sources) {
+        const last = steps.at(-1)
+        if (job?.status === "pending") CaseDevJob.report(job.id, { status: "running" })
+        ctx.metadata({
+          title: last ? `Researching: ${last.text.slice(0, 60)}` : `Researching: ${params.query.slice(0, 40)}...`,
+          metadata: { mode, status: "searching", researchId: job?.remoteID, steps, sources },
+        })
+      },
+    }).then(
+      (result) => {
+        if (job) CaseDevJob.report(job.id, { status: "completed", progress: 100 })
+        return result
+      },
+      (error) => {
+        const message = error instanceof Error ? error.message : String(error)
+        if (job) CaseDevJob.report(job.id, { status: "failed", error: message })
+        throw error
+      },
+    )
 
-    if (!response.results) {
+    if (!result) {
       return {
         title: "No results found",
         metadata: {
           query: params.query,
-          mode: params.mode,
+          mode,
           resultCount: 0,
+          sources: [],
         },
         output: `No results found for: "${params.query}"
 
@@ -70,32 +288,43 @@ Try:
       }
     }
 
+    const artifact = await Research.save({
+      sessionID: ctx.sessionID,
+      tool: "casedev_search",
+      query: params.query,
+      mode: result.model,
+      remoteID: result.researchId,
+      summary: result.summary,
+      sources: result.sources,
+    })
+
     let output = `Research results for: "${params.query}"\n`
-    output += `Mode: ${response.model}\n`
-    output += `Research ID: ${response.researchId}\n\n`
+    output += `Mode: ${result.model}\n`
+    output += `Research ID: ${result.researchId}\n`
+    output += `Saved as ${artifact.id}; find it again with research_history\n\n`
 
     // Show summary if available
-    if (response.results.summary) {
-      output += `--- Summary ---\n${response.results.summary}\n\n`
+    if (result.summary) {
+      output += `--- Summary ---\n${result.summary}\n\n`
     }
 
     // Show analysis if available
-    if (response.results.analysis) {
-      output += `--- Analysis ---\n${response.results.analysis}\n\n`
+    if (result.analysis) {
+      output += `--- Analysis ---\n${result.analysis}\n\n`
     }
 
     // Show sources if available
-    if (response.results.sources && response.results.sources.length > 0) {
+    if (result.sources.length > 0) {
       output += `--- Sources ---\n`
-      for (const source of response.results.sources) {
-        output += `• ${source}\n`
+      for (const [index, source] of result.sources.entries()) {
+        output += `[${index + 1}] ${source.title} - ${source.url}\n`
+        if (source.snippet) output += `    ${source.snippet.replace(/\s+/g, " ").slice(0, 300)}\n`
       }
     }
 
     // Show any other results
-    const knownKeys = ["summary", "sources", "analysis"]
-    for (const [key, value] of Object.entries(response.results)) {
-      if (!knownKeys.includes(key) && value) {
+    for (const [key, value] of Object.entries(result.other)) {
+      if (value) {
         output += `\n--- ${key.charAt(0).toUpperCase() + key.slice(1)} ---\n`
         if (typeof value === "string") {
           output += `${value}\n`
@@ -113,8 +342,12 @@ Try:
       title: `Research complete: "${params.query.slice(0, 30)}..."`,
       metadata: {
         query: params.query,
-        mode: response.model,
-        researchId: response.researchId,
+        mode: result.model,
+        researchId: result.researchId,
+        artifactID: artifact.id,
+        resultCount: result.sources.length,
+        steps: result.steps,
+        sources: result.sources,
       },
       output,
     }
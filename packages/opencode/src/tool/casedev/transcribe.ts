@@ -1,6 +1,7 @@
 import z from "zod"
 import { Tool } from "../tool"
 import { CaseDevClient } from "./client"
+import { CaseDevJob } from "./job"
 
 interface TranscriptionResponse {
   id: string
@@ -52,34 +53,19 @@ Example usage:
       .string()
       .optional()
       .describe("Vault ID containing the audio file (use with object_id for vault-based mode)"),
-    object_id: z
-      .string()
-      .optional()
-      .describe("Object ID of the audio file in the vault (use with vault_id)"),
+    object_id: z.string().optional().describe("Object ID of the audio file in the vault (use with vault_id)"),
     audio_url: z
       .string()
       .optional()
       .describe("URL of the audio file to transcribe (for direct URL mode, no auto-storage)"),
-    format: z
-      .enum(["json", "text"])
-      .optional()
-      .describe("Output format when using vault mode. Defaults to 'json'"),
+    format: z.enum(["json", "text"]).optional().describe("Output format when using vault mode. Defaults to 'json'"),
     language_code: z
       .string()
       .optional()
       .describe("Language code (e.g., 'en_us', 'es', 'fr'). Auto-detected if not specified"),
-    speaker_labels: z
-      .boolean()
-      .optional()
-      .describe("Enable speaker identification and labeling. Defaults to false"),
-    speakers_expected: z
-      .number()
-      .optional()
-      .describe("Expected number of speakers (improves accuracy when known)"),
-    word_boost: z
-      .array(z.string())
-      .optional()
-      .describe("Custom vocabulary words to boost (e.g., legal terms, names)"),
+    speaker_labels: z.boolean().optional().describe("Enable speaker identification and labeling. Defaults to false"),
+    speakers_expected: z.number().optional().describe("Expected number of speakers (improves accuracy when known)"),
+    word_boost: z.array(z.string()).optional().describe("Custom vocabulary words to boost (e.g., legal terms, names)"),
   }),
   async execute(params, ctx) {
     // Validate mode
@@ -126,6 +112,15 @@ Direct URL mode:
       method: "POST",
       body,
       timeout: 30000,
+      signal: ctx.abort,
+    })
+
+    const job = CaseDevJob.track({
+      sessionID: ctx.sessionID,
+      kind: "transcription",
+      remoteID: response.id,
+      vaultID: params.vault_id,
+      title: `Transcription of ${isVaultMode ? params.object_id : params.audio_url}`,
     })
 
     // For vault mode, the job runs async and results are stored in vault
@@ -134,6 +129,7 @@ Direct URL mode:
         title: `Transcription job started: ${response.id}`,
         metadata: {
           jobId: response.id,
+          trackedJobId: job.id,
           status: response.status,
           vaultId: params.vault_id,
           objectId: params.object_id,
@@ -147,7 +143,7 @@ Source: ${params.object_id}
 
 The transcription is processing asynchronously. When complete:
 - Results will be saved to the vault
-- Use casedev_transcribe_status with job_id="${response.id}" to check progress`,
+- The transcript will be added to this conversation automatically; do not poll casedev_transcribe_status`,
       }
     }
 
@@ -156,6 +152,7 @@ The transcription is processing asynchronously. When complete:
       title: `Transcription job started: ${response.id}`,
       metadata: {
         jobId: response.id,
+        trackedJobId: job.id,
         status: response.status,
       },
       output: `Transcription job submitted.
@@ -164,7 +161,7 @@ Job ID: ${response.id}
 Status: ${response.status}
 Audio URL: ${params.audio_url}
 
-The transcription is processing. Use casedev_transcribe_status with job_id="${response.id}" to check progress and get results.`,
+The transcription is processing. The transcript will be added to this conversation automatically when it finishes; do not poll casedev_transcribe_status.`,
     }
   },
 })
@@ -177,9 +174,9 @@ Returns the current status and, when completed, the full transcript with timesta
     job_id: z.string().describe("The transcription job ID returned from casedev_transcribe"),
   }),
   async execute(params, ctx) {
-    const response = await CaseDevClient.request<TranscriptionResponse>(
-      `/voice/transcription/${params.job_id}`,
-    )
+    const response = await CaseDevClient.request<TranscriptionResponse>(`/voice/transcription/${params.job_id}`, {
+      signal: ctx.abort,
+    })
 
     const statusEmoji: Record<string, string> = {
       queued: "⏳",
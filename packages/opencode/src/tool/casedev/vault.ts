@@ -3,6 +3,12 @@ import { Tool } from "../tool"
 import { CaseDevClient } from "./client"
 import fs from "fs/promises"
 import path from "path"
+import { VaultManifest } from "./manifest"
+import { CaseDevJob } from "./job"
+import { VaultMirror } from "./mirror"
+import { VaultProvenance } from "./provenance"
+import { work } from "../../util/queue"
+import { Research } from "../../research"
 
 interface VaultCreateResponse {
   id: string
@@ -84,6 +90,7 @@ Example usage:
   async execute(params, ctx) {
     const response = await CaseDevClient.request<VaultCreateResponse>("/vault", {
       method: "POST",
+      signal: ctx.abort,
       body: {
         name: params.name,
         description: params.description,
@@ -117,7 +124,7 @@ export const VaultListTool = Tool.define("casedev_vault_list", {
 Returns vault IDs, names, descriptions, and document counts.`,
   parameters: z.object({}),
   async execute(params, ctx) {
-    const response = await CaseDevClient.request<VaultListResponse>("/vault")
+    const response = await CaseDevClient.request<VaultListResponse>("/vault", { signal: ctx.abort })
 
     if (response.vaults.length === 0) {
       return {
@@ -154,8 +161,113 @@ Use casedev_vault_create to create a new vault.`,
   },
 })
 
+const CONTENT_TYPES: Record<string, string> = {
+  // Documents
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".tiff": "image/tiff",
+  ".tif": "image/tiff",
+  ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".txt": "text/plain",
+  // Audio
+  ".mp3": "audio/mpeg",
+  ".wav": "audio/wav",
+  ".m4a": "audio/mp4",
+  ".aac": "audio/aac",
+  ".ogg": "audio/ogg",
+  ".flac": "audio/flac",
+  // Video
+  ".mp4": "video/mp4",
+  ".webm": "video/webm",
+  ".mov": "video/quicktime",
+  ".avi": "video/x-msvideo",
+}
+
+const DEFAULT_UPLOAD_CONCURRENCY = 4
+const MAX_UPLOAD_CONCURRENCY = 16
+
+/**
+ * Upload a single local file through a presigned URL and optionally start ingestion.
+ * The file is streamed from disk rather than buffered.
+ */
+async function uploadFile(input: {
+  vaultID: string
+  filePath: string
+  autoIndex: boolean
+  size: number
+  metadata?: Record<string, unknown>
+  signal?: AbortSignal
+}) {
+  const filename = path.basename(input.filePath)
+  const contentType = CONTENT_TYPES[path.extname(input.filePath).toLowerCase()] ?? "application/octet-stream"
+
+  // Step 1: Get presigned upload URL
+  const uploadResponse = await CaseDevClient.request<VaultUploadResponse>(`/vault/${input.vaultID}/upload`, {
+    method: "POST",
+    signal: input.signal,
+    body: {
+      filename,
+      contentType,
+      auto_index: input.autoIndex,
+      sizeBytes: input.size,
+      metadata: input.metadata,
+    },
+  })
+
+  // Step 2: Upload file directly to S3 using presigned URL
+  const s3Response = await fetch(uploadResponse.uploadUrl, {
+    method: "PUT",
+    headers: {
+      "Content-Type": contentType,
+    },
+    body: Bun.file(input.filePath),
+    signal: input.signal,
+  })
+
+  if (!s3Response.ok) {
+    throw new Error(`Failed to upload file to S3: ${s3Response.status} ${s3Response.statusText}`)
+  }
+
+  // Step 3: Trigger ingestion if auto_index is enabled
+  let ingestStatus = "skipped"
+  if (uploadResponse.next_step && uploadResponse.auto_index) {
+    try {
+      await CaseDevClient.request<{ status: string }>(`/vault/${input.vaultID}/ingest/${uploadResponse.objectId}`, {
+        method: "POST",
+        signal: input.signal,
+      })
+      ingestStatus = "started"
+    } catch (e) {
+      ingestStatus = "failed to start"
+    }
+  }
+
+  return {
+    objectId: uploadResponse.objectId,
+    autoIndex: uploadResponse.auto_index,
+    filename,
+    ingestStatus,
+  }
+}
+
+// A single file reports its object, a folder its counts
+interface UploadMetadata {
+  vaultId?: string
+  objectId?: string
+  filename?: string
+  autoIndex?: boolean
+  status?: string
+  total?: number
+  uploaded?: number
+  skipped?: number
+  failed?: number
+  error?: true
+}
+
 export const VaultUploadTool = Tool.define("casedev_vault_upload", {
-  description: `Upload a LOCAL file to a Case.dev Vault. This is THE way to work with local files.
+  description: `Upload LOCAL files to a Case.dev Vault. This is THE way to work with local files.
 
 IMPORTANT: This tool is the REQUIRED first step for processing ANY local file with Case.dev APIs.
 - For transcription: Upload audio/video here first, then use casedev_transcribe with vault_id + object_id
@@ -165,115 +277,265 @@ IMPORTANT: This tool is the REQUIRED first step for processing ANY local file wi
 Supported file types: PDF, PNG, JPG, JPEG, TIFF, DOCX, TXT, MP3, WAV, M4A, MP4, WEBM
 The file is uploaded via presigned URL and optionally auto-indexed for semantic search.
 
+Two modes:
+- Single file: pass file_path
+- Folder: pass directory (and optionally a glob pattern) to upload a whole production. Files are uploaded
+  with limited concurrency, files whose content already exists in the vault are skipped, and a manifest
+  mapping each path to its object ID is kept so an interrupted upload resumes where it stopped when the
+  same call is repeated.
+
 Returns: vault_id and object_id needed for subsequent operations (transcription, OCR, etc.)
 
 Example workflow for transcribing a local audio file:
 1. casedev_vault_upload with vault_id="vault_abc" file_path="/path/to/audio.mp3"
-2. casedev_transcribe with vault_id="vault_abc" object_id="<returned_object_id>"`,
+2. casedev_transcribe with vault_id="vault_abc" object_id="<returned_object_id>"
+
+Example folder upload:
+- casedev_vault_upload with vault_id="vault_abc" directory="/path/to/production" pattern="**/*.{pdf,tif}"`,
   parameters: z.object({
     vault_id: z.string().describe("The vault ID to upload to"),
-    file_path: z.string().describe("Absolute path to the file to upload"),
+    file_path: z.string().optional().describe("Absolute path to a single file to upload"),
+    directory: z.string().optional().describe("Absolute path to a folder to upload in bulk (use instead of file_path)"),
+    pattern: z
+      .string()
+      .optional()
+      .describe("Glob pattern relative to directory selecting files to upload. Defaults to all supported files"),
+    concurrency: z
+      .number()
+      .optional()
+      .describe(
+        `Number of files uploaded in parallel in folder mode (1-${MAX_UPLOAD_CONCURRENCY}). Defaults to ${DEFAULT_UPLOAD_CONCURRENCY}`,
+      ),
     auto_index: z
       .boolean()
       .optional()
       .describe("Automatically process and index the file for search. Defaults to true"),
   }),
-  async execute(params, ctx) {
-    // Read the file
-    const filePath = path.resolve(params.file_path)
-    const fileBuffer = await fs.readFile(filePath)
-    const filename = path.basename(filePath)
-    const stats = await fs.stat(filePath)
+  async execute(params, ctx): Promise<Tool.Result<UploadMetadata>> {
+    if (!params.file_path === !params.directory) {
+      return {
+        title: "Error: Invalid parameters",
+        metadata: { error: true },
+        output: `Exactly one of file_path or directory is required.
 
-    // Determine content type
-    const ext = path.extname(filePath).toLowerCase()
-    const contentTypeMap: Record<string, string> = {
-      // Documents
-      ".pdf": "application/pdf",
-      ".png": "image/png",
-      ".jpg": "image/jpeg",
-      ".jpeg": "image/jpeg",
-      ".tiff": "image/tiff",
-      ".tif": "image/tiff",
-      ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-      ".txt": "text/plain",
-      // Audio
-      ".mp3": "audio/mpeg",
-      ".wav": "audio/wav",
-      ".m4a": "audio/mp4",
-      ".aac": "audio/aac",
-      ".ogg": "audio/ogg",
-      ".flac": "audio/flac",
-      // Video
-      ".mp4": "video/mp4",
-      ".webm": "video/webm",
-      ".mov": "video/quicktime",
-      ".avi": "video/x-msvideo",
-    }
-    const contentType = contentTypeMap[ext] ?? "application/octet-stream"
-
-    // Step 1: Get presigned upload URL
-    const uploadResponse = await CaseDevClient.request<VaultUploadResponse>(
-      `/vault/${params.vault_id}/upload`,
-      {
-        method: "POST",
-        body: {
-          filename,
-          contentType,
-          auto_index: params.auto_index ?? true,
-          sizeBytes: stats.size,
+Single file mode:
+- file_path: The local file to upload
+
+Folder mode:
+- directory: The local folder to upload
+- pattern: Optional glob selecting files inside the folder`,
+      }
+    }
+
+    if (params.directory) {
+      return uploadDirectory(
+        {
+          vaultID: params.vault_id,
+          directory: path.resolve(params.directory),
+          pattern: params.pattern,
+          concurrency: params.concurrency,
+          autoIndex: params.auto_index ?? true,
         },
-      },
-    )
+        ctx,
+      )
+    }
 
-    // Step 2: Upload file directly to S3 using presigned URL
-    const s3Response = await fetch(uploadResponse.uploadUrl, {
-      method: "PUT",
-      headers: {
-        "Content-Type": contentType,
-      },
-      body: fileBuffer,
+    const filePath = path.resolve(params.file_path!)
+    const stats = await fs.stat(filePath)
+    const result = await uploadFile({
+      vaultID: params.vault_id,
+      filePath,
+      autoIndex: params.auto_index ?? true,
+      size: stats.size,
+      signal: ctx.abort,
     })
-
-    if (!s3Response.ok) {
-      throw new Error(`Failed to upload file to S3: ${s3Response.status} ${s3Response.statusText}`)
-    }
-
-    // Step 3: Trigger ingestion if auto_index is enabled
-    let ingestStatus = "skipped"
-    if (uploadResponse.next_step && uploadResponse.auto_index) {
-      try {
-        await CaseDevClient.request<{ status: string }>(
-          `/vault/${params.vault_id}/ingest/${uploadResponse.objectId}`,
-          { method: "POST" },
-        )
-        ingestStatus = "started"
-      } catch (e) {
-        ingestStatus = "failed to start"
-      }
+    if (result.ingestStatus === "started") {
+      CaseDevJob.track({
+        sessionID: ctx.sessionID,
+        kind: "ingest",
+        remoteID: result.objectId,
+        vaultID: params.vault_id,
+        title: `Indexing of ${result.filename}`,
+      })
     }
 
     return {
-      title: `Uploaded: ${filename}`,
+      title: `Uploaded: ${result.filename}`,
       metadata: {
-        objectId: uploadResponse.objectId,
+        objectId: result.objectId,
         vaultId: params.vault_id,
-        filename,
-        autoIndex: uploadResponse.auto_index,
+        filename: result.filename,
+        autoIndex: result.autoIndex,
       },
       output: `Document uploaded to vault.
 
-Object ID: ${uploadResponse.objectId}
-Filename: ${filename}
+Object ID: ${result.objectId}
+Filename: ${result.filename}
 Size: ${Math.round(stats.size / 1024)} KB
-Auto-index: ${uploadResponse.auto_index}
-Ingestion: ${ingestStatus}
+Auto-index: ${result.autoIndex}
+Ingestion: ${result.ingestStatus}
 
-${uploadResponse.auto_index ? "The document is being processed for indexing. Once complete, it will be searchable via casedev_vault_search." : "Document stored but not indexed. Use casedev_vault_ingest to process it later."}`,
+${result.autoIndex ? "The document is being processed for indexing. You will be notified in this conversation when it is searchable via casedev_vault_search." : "Document stored but not indexed. Use casedev_vault_ingest to process it later."}`,
     }
   },
 })
 
+async function uploadDirectory(
+  input: {
+    vaultID: string
+    directory: string
+    pattern?: string
+    concurrency?: number
+    autoIndex: boolean
+  },
+  ctx: Tool.Context,
+) {
+  const glob = new Bun.Glob(input.pattern ?? "**/*")
+  const files: string[] = []
+  let unsupported = 0
+  for await (const match of glob.scan({ cwd: input.directory, absolute: true, onlyFiles: true })) {
+    if (!CONTENT_TYPES[path.extname(match).toLowerCase()]) {
+      unsupported++
+      continue
+    }
+    files.push(match)
+  }
+  files.sort()
+
+  const manifest = await VaultManifest.get(input.vaultID)
+
+  // Content already in the vault, keyed by hash, from earlier runs and from object metadata
+  const existing = new Map<string, string>()
+  for (const entry of Object.values(manifest.files)) existing.set(entry.sha256, entry.objectId)
+  const objects = await CaseDevClient.request<VaultObjectsResponse>(`/vault/${input.vaultID}/objects`, {
+    signal: ctx.abort,
+  })
+  const live = new Set(objects.objects.map((o) => o.id))
+  const uploading = new Map<string, Promise<string | undefined>>()
+  for (const obj of objects.objects) {
+    const sha256 = obj.metadata?.["sha256"]
+    if (typeof sha256 === "string") existing.set(sha256, obj.id)
+  }
+
+  const progress = {
+    total: files.length,
+    uploaded: 0,
+    skipped: 0,
+    failed: [] as { path: string; error: string }[],
+  }
+  const report = () =>
+    ctx.metadata({
+      title: `Uploading ${progress.uploaded + progress.skipped + progress.failed.length}/${progress.total} files...`,
+      metadata: {
+        status: "uploading",
+        vaultId: input.vaultID,
+        total: progress.total,
+        uploaded: progress.uploaded,
+        skipped: progress.skipped,
+        failed: progress.failed.length,
+      },
+    })
+  report()
+
+  const concurrency = Math.min(Math.max(input.concurrency ?? DEFAULT_UPLOAD_CONCURRENCY, 1), MAX_UPLOAD_CONCURRENCY)
+  await work(concurrency, [...files].reverse(), async (filePath) => {
+    if (ctx.abort.aborted) return
+    try {
+      const stats = await fs.stat(filePath)
+      const modified = stats.mtimeMs
+      const previous = manifest.files[filePath]
+      // An unchanged size and modification time means the recorded hash still holds; otherwise the content is
+      // hashed again, so an edit that keeps the size is uploaded
+      if (previous && previous.size === stats.size && previous.modified === modified && live.has(previous.objectId)) {
+        progress.skipped++
+        return
+      }
+
+      const sha256 = await VaultManifest.hash(filePath)
+      // A copy of a file that is still uploading waits for it rather than uploading the same content again
+      const objectId = existing.get(sha256) ?? (await uploading.get(sha256))
+      if (objectId && live.has(objectId)) {
+        manifest.files[filePath] = { objectId, sha256, size: stats.size, modified, uploaded: Date.now() }
+        progress.skipped++
+        return
+      }
+
+      const pending = uploadFile({
+        vaultID: input.vaultID,
+        filePath,
+        autoIndex: input.autoIndex,
+        size: stats.size,
+        metadata: {
+          sha256,
+          sourcePath: path.relative(input.directory, filePath),
+        },
+        signal: ctx.abort,
+      })
+      uploading.set(
+        sha256,
+        pending.then(
+          (result) => result.objectId,
+          () => undefined,
+        ),
+      )
+      const result = await pending
+      existing.set(sha256, result.objectId)
+      live.add(result.objectId)
+      manifest.files[filePath] = {
+        objectId: result.objectId,
+        sha256,
+        size: stats.size,
+        modified,
+        uploaded: Date.now(),
+      }
+      progress.uploaded++
+      await VaultManifest.save(manifest)
+    } catch (e) {
+      progress.failed.push({ path: filePath, error: e instanceof Error ? e.message : String(e) })
+    } finally {
+      report()
+    }
+  })
+  await VaultManifest.save(manifest)
+
+  const remaining = progress.total - progress.uploaded - progress.skipped - progress.failed.length
+  let output = `Folder upload ${ctx.abort.aborted ? "interrupted" : "complete"}.
+
+Directory: ${input.directory}
+Files matched: ${progress.total}
+Uploaded: ${progress.uploaded}
+Skipped (already in vault): ${progress.skipped}
+Failed: ${progress.failed.length}
+`
+  if (unsupported > 0) output += `Ignored (unsupported type): ${unsupported}\n`
+  if (remaining > 0) output += `Not started: ${remaining}\n`
+
+  if (progress.failed.length > 0) {
+    output += `\n--- Failures ---\n`
+    for (const failure of progress.failed.slice(0, 50)) {
+      output += `• ${path.relative(input.directory, failure.path)}: ${failure.error}\n`
+    }
+    if (progress.failed.length > 50) output += `...and ${progress.failed.length - 50} more\n`
+  }
+
+  if (remaining > 0 || progress.failed.length > 0) {
+    output += `\nRun the same upload again to resume. Files already recorded in the manifest are skipped.`
+  }
+
+  return {
+    title: `Uploaded ${progress.uploaded} of ${progress.total} files`,
+    metadata: {
+      status: "completed",
+      vaultId: input.vaultID,
+      total: progress.total,
+      uploaded: progress.uploaded,
+      skipped: progress.skipped,
+      failed: progress.failed.length,
+    },
+    output,
+  }
+}
+
 export const VaultSearchTool = Tool.define("casedev_vault_search", {
   description: `Search documents in a Case.dev Vault using semantic search.
 
@@ -284,7 +546,9 @@ Search methods:
 - entity: GraphRAG entity-based search for specific entities
 - local: GraphRAG local search for entity-specific questions
 
-Returns relevant document chunks with page references and confidence scores.
+Returns relevant document chunks with confidence scores and, for each chunk, the source filename, page range
+and character offsets. Cite results by the page numbers shown. Page numbers are resolved from the document's
+OCR page structure (mirrored locally, so casedev_vault_text and offline search can reuse it).
 
 Example usage:
 - Find contract terms: casedev_vault_search with vault_id="vault_abc" query="termination clause"
@@ -308,18 +572,32 @@ Example usage:
       filters.object_id = params.object_id
     }
 
-    const response = await CaseDevClient.request<VaultSearchResponse>(
-      `/vault/${params.vault_id}/search`,
-      {
-        method: "POST",
-        body: {
-          query: params.query,
-          method: params.method ?? "hybrid",
-          topK: Math.min(Math.max(params.top_k ?? 10, 1), 100),
-          filters: Object.keys(filters).length > 0 ? filters : undefined,
-        },
+    const topK = Math.min(Math.max(params.top_k ?? 10, 1), 100)
+    const response = await CaseDevClient.request<VaultSearchResponse>(`/vault/${params.vault_id}/search`, {
+      method: "POST",
+      body: {
+        query: params.query,
+        method: params.method ?? "hybrid",
+        topK,
+        filters: Object.keys(filters).length > 0 ? filters : undefined,
       },
-    )
+      idempotent: true,
+      signal: ctx.abort,
+    }).catch((error) => {
+      if (error instanceof CaseDevClient.UnreachableError) return error
+      throw error
+    })
+
+    if (response instanceof CaseDevClient.UnreachableError) {
+      return searchOffline({
+        vaultID: params.vault_id,
+        query: params.query,
+        topK,
+        objectId: params.object_id,
+        reason: response.message,
+        sessionID: ctx.sessionID,
+      })
+    }
 
     if (!response.chunks || response.chunks.length === 0) {
       return {
@@ -340,6 +618,12 @@ Try:
       }
     }
 
+    ctx.metadata({
+      title: `Locating ${response.chunks.length} result(s) in source documents...`,
+      metadata: { status: "locating", vaultId: params.vault_id, query: params.query },
+    })
+    const citations = await locate(params.vault_id, response.chunks, response.sources)
+
     let output = `Search results for: "${params.query}"\n`
     output += `Method: ${response.method}\n`
     output += `Found ${response.chunks.length} relevant chunk(s)\n\n`
@@ -354,18 +638,38 @@ Try:
       const chunk = response.chunks[i]
       const score = chunk.hybridScore ?? chunk.score ?? 0
       const confidence = Math.round(score * 100)
+      const citation = citations[i]
 
       output += `--- Result ${i + 1} (${confidence}% match) ---\n`
       if (chunk.object_id) {
-        output += `Document: ${chunk.object_id}`
+        output += `Document: ${citation.filename ? `${citation.filename} (${chunk.object_id})` : chunk.object_id}`
         if (chunk.chunk_index !== undefined) {
           output += ` (chunk ${chunk.chunk_index})`
         }
         output += `\n`
+        output += citation.pages
+          ? `Cite as: ${VaultProvenance.cite(citation)} (characters ${citation.offsets!.start}-${citation.offsets!.end})\n`
+          : `Pages: unknown (the chunk could not be located in the document text)\n`
+        if (citation.link) output += `Open: ${citation.link}\n`
       }
       output += `\n${chunk.text}\n\n`
     }
 
+    const artifact = await Research.save({
+      sessionID: ctx.sessionID,
+      tool: "casedev_vault_search",
+      query: params.query,
+      mode: response.method,
+      vaultID: params.vault_id,
+      summary: response.response,
+      sources: response.chunks.map((chunk, i) => ({
+        title: VaultProvenance.cite(citations[i]),
+        url: citations[i].link,
+        snippet: chunk.text,
+        objectId: chunk.object_id,
+      })),
+    })
+
     // Show source documents
     if (response.sources && response.sources.length > 0) {
       output += `--- Source Documents ---\n`
@@ -375,6 +679,7 @@ Try:
         output += `\n`
       }
     }
+    output += `\nSaved as ${artifact.id}; find it again with research_history\n`
 
     return {
       title: `${response.chunks.length} result(s) for "${params.query.slice(0, 30)}..."`,
@@ -384,12 +689,157 @@ Try:
         method: response.method,
         resultCount: response.chunks.length,
         sources: response.sources,
+        citations,
+        artifactID: artifact.id,
       },
       output,
     }
   },
 })
 
+/**
+ * Resolve the filename, pages and character offsets of each search chunk. Page structure comes from the
+ * offline mirror, or is fetched from the document's extracted text and mirrored for next time.
+ */
+async function locate(vaultID: string, chunks: VaultSearchResult[], sources: VaultSearchResponse["sources"]) {
+  const filenames = new Map(sources?.map((source) => [source.id, source.filename]))
+  const local = await VaultProvenance.paths(vaultID)
+  const ids = [...new Set(chunks.map((chunk) => chunk.object_id).filter(Boolean))]
+  const documents = new Map<string, VaultMirror.Document>()
+  for (const objectId of ids) {
+    const mirrored = await VaultMirror.get(vaultID, objectId)
+    if (mirrored) documents.set(objectId, mirrored)
+  }
+  // Only documents that are not mirrored yet are fetched; they are mirrored one at a time since each one
+  // rewrites the vault's index
+  const fetched = await Promise.all(
+    ids.filter((objectId) => !documents.has(objectId)).map((objectId) => text(vaultID, objectId)),
+  )
+  for (const item of fetched) {
+    if (!item) continue
+    documents.set(
+      item.objectId,
+      await VaultMirror.put(vaultID, {
+        objectId: item.objectId,
+        filename: item.response.filename ?? filenames.get(item.objectId) ?? item.objectId,
+        pages: item.response.pages ?? VaultMirror.paginate(item.response.text),
+      }),
+    )
+  }
+
+  return chunks.map((chunk): VaultProvenance.Source => {
+    const document = documents.get(chunk.object_id)
+    const location = document ? VaultProvenance.locate(document.pages, chunk.text) : undefined
+    const filepath = local.get(chunk.object_id)
+    return {
+      objectId: chunk.object_id,
+      chunkIndex: chunk.chunk_index,
+      filename: filenames.get(chunk.object_id) ?? document?.filename,
+      pages: location?.pages,
+      offsets: location?.offsets,
+      path: filepath,
+      link: filepath ? VaultProvenance.link(filepath, location?.pages.start) : undefined,
+    }
+  })
+}
+
+async function text(vaultID: string, objectId: string) {
+  const response = await CaseDevClient.request<VaultObjectTextResponse>(
+    `/vault/${vaultID}/objects/${objectId}/text`,
+  ).catch(() => undefined)
+  if (!response?.text) return
+  return { objectId, response }
+}
+
+async function searchOffline(input: {
+  vaultID: string
+  query: string
+  topK: number
+  objectId?: string
+  reason: string
+  sessionID: string
+}) {
+  const results = await VaultMirror.search(input.vaultID, input.query, {
+    topK: input.topK,
+    objectId: input.objectId,
+  })
+  const mirrored = await VaultMirror.list(input.vaultID)
+  const local = await VaultProvenance.paths(input.vaultID)
+  const citations = results.map(
+    (result): VaultProvenance.Source => ({
+      objectId: result.objectId,
+      filename: result.filename,
+      pages: { start: result.page, end: result.page },
+      path: local.get(result.objectId),
+      link: local.has(result.objectId) ? VaultProvenance.link(local.get(result.objectId)!, result.page) : undefined,
+    }),
+  )
+
+  if (results.length === 0) {
+    return {
+      title: "No results found (offline index)",
+      metadata: {
+        vaultId: input.vaultID,
+        query: input.query,
+        method: "offline",
+        offline: true,
+        resultCount: 0,
+      },
+      output: `Case.dev could not be reached (${input.reason}), so the offline index was searched instead.
+
+No mirrored documents matched your query: "${input.query}"
+Documents in the offline index for this vault: ${mirrored.length}
+
+The offline index only covers documents mirrored with casedev_vault_mirror or read with casedev_vault_text, and matches keywords rather than meaning.`,
+    }
+  }
+
+  let output = `Search results for: "${input.query}"\n`
+  output += `Source: OFFLINE INDEX (Case.dev unreachable: ${input.reason})\n`
+  output += `Method: keyword (BM25) over ${mirrored.length} mirrored document(s)\n`
+  output += `Found ${results.length} matching page(s)\n\n`
+
+  for (let i = 0; i < results.length; i++) {
+    const result = results[i]
+    output += `--- Result ${i + 1} (${Math.round(result.score * 100)}% match, offline) ---\n`
+    output += `Document: ${result.filename} (${result.objectId}), page ${result.page}\n`
+    if (citations[i].link) output += `Open: ${citations[i].link}\n`
+    output += `\n${result.text}\n\n`
+  }
+
+  output += `These results come from the local offline mirror and may be out of date. Re-run the search once Case.dev is reachable for semantic results.`
+
+  const artifact = await Research.save({
+    sessionID: input.sessionID,
+    tool: "casedev_vault_search",
+    query: input.query,
+    mode: "offline",
+    vaultID: input.vaultID,
+    offline: true,
+    sources: results.map((result, i) => ({
+      title: VaultProvenance.cite(citations[i]),
+      url: citations[i].link,
+      snippet: result.text,
+      objectId: result.objectId,
+    })),
+  })
+  output += `\nSaved as ${artifact.id}; find it again with research_history\n`
+
+  return {
+    title: `${results.length} offline result(s) for "${input.query.slice(0, 30)}..."`,
+    metadata: {
+      vaultId: input.vaultID,
+      query: input.query,
+      method: "offline",
+      offline: true,
+      resultCount: results.length,
+      citations,
+      artifactID: artifact.id,
+    },
+    output,
+  }
+}
+
 export const VaultIngestTool = Tool.define("casedev_vault_ingest", {
   description: `Trigger indexing of a specific document in a Case.dev Vault.
 
@@ -401,8 +851,15 @@ Use this to process a document that was uploaded with auto_index=false, or to re
   async execute(params, ctx) {
     const response = await CaseDevClient.request<{ status: string; message?: string }>(
       `/vault/${params.vault_id}/ingest/${params.object_id}`,
-      { method: "POST" },
+      { method: "POST", signal: ctx.abort },
     )
+    CaseDevJob.track({
+      sessionID: ctx.sessionID,
+      kind: "ingest",
+      remoteID: params.object_id,
+      vaultID: params.vault_id,
+      title: `Indexing of ${params.object_id}`,
+    })
 
     return {
       title: `Ingestion started: ${params.object_id}`,
@@ -419,7 +876,7 @@ Status: ${response.status}
 ${response.message ? `Message: ${response.message}` : ""}
 
 The document will be OCR'd (if needed), chunked, and embedded for search.
-This may take a few minutes depending on document size.`,
+This may take a few minutes depending on document size. You will be notified in this conversation when it completes.`,
     }
   },
 })
@@ -465,7 +922,9 @@ Use this to:
     vault_id: z.string().describe("The vault ID to list objects from"),
   }),
   async execute(params, ctx) {
-    const response = await CaseDevClient.request<VaultObjectsResponse>(`/vault/${params.vault_id}/objects`)
+    const response = await CaseDevClient.request<VaultObjectsResponse>(`/vault/${params.vault_id}/objects`, {
+      signal: ctx.abort,
+    })
 
     if (response.objects.length === 0) {
       return {
@@ -528,6 +987,7 @@ interface VaultObjectTextResponse {
   text: string
   pageCount?: number
   textLength: number
+  pages?: string[]
 }
 
 export const VaultObjectTextTool = Tool.define("casedev_vault_text", {
@@ -547,7 +1007,44 @@ Note: Document must be fully ingested (status: completed) before text is availab
   async execute(params, ctx) {
     const response = await CaseDevClient.request<VaultObjectTextResponse>(
       `/vault/${params.vault_id}/objects/${params.object_id}/text`,
-    )
+      { signal: ctx.abort },
+    ).catch((error) => {
+      if (error instanceof CaseDevClient.UnreachableError) return error
+      throw error
+    })
+
+    if (response instanceof CaseDevClient.UnreachableError) {
+      const mirrored = await VaultMirror.get(params.vault_id, params.object_id)
+      if (!mirrored) throw response
+      const text = mirrored.pages.join("\f")
+      return {
+        title: `Text from ${mirrored.filename} (offline copy)`,
+        metadata: {
+          vaultId: params.vault_id,
+          objectId: params.object_id,
+          filename: mirrored.filename,
+          textLength: text.length,
+          pageCount: mirrored.pages.length,
+          offline: true,
+        },
+        output: `Document: ${mirrored.filename}
+Source: OFFLINE MIRROR from ${new Date(mirrored.time.mirrored).toISOString()} (Case.dev unreachable: ${response.message})
+Pages: ${mirrored.pages.length}
+Text length: ${text.length.toLocaleString()} characters
+
+--- Document Text ---
+
+${text.length > 5000 ? text.slice(0, 5000) + "\n\n...(truncated, showing first 5000 chars)" : text}`,
+      }
+    }
+
+    if (response.text && response.text.length > 0) {
+      await VaultMirror.put(params.vault_id, {
+        objectId: params.object_id,
+        filename: response.filename,
+        pages: response.pages ?? VaultMirror.paginate(response.text),
+      })
+    }
 
     if (!response.text || response.text.length === 0) {
       return {
@@ -588,6 +1085,98 @@ ${isLong ? response.text.slice(0, previewLength) + "\n\n...(truncated, showing f
   },
 })
 
+export const VaultMirrorTool = Tool.define("casedev_vault_mirror", {
+  description: `Mirror the extracted text of every processed document in a Case.dev Vault to this machine.
+
+The mirror keeps each document's text with its page boundaries and builds a local keyword index.
+When Case.dev cannot be reached (no connection on a plane or in a courthouse), casedev_vault_search
+falls back to this index and casedev_vault_text serves the mirrored copy.
+
+Run this before going offline. Documents already mirrored are skipped unless refresh=true.
+
+Example usage:
+- casedev_vault_mirror with vault_id="vault_abc"`,
+  parameters: z.object({
+    vault_id: z.string().describe("The vault ID to mirror"),
+    refresh: z.boolean().optional().describe("Re-download text for documents that are already mirrored"),
+  }),
+  async execute(params, ctx) {
+    const response = await CaseDevClient.request<VaultObjectsResponse>(`/vault/${params.vault_id}/objects`, {
+      signal: ctx.abort,
+    })
+    const existing = new Set((await VaultMirror.list(params.vault_id)).map((doc) => doc.objectId))
+    const ready = response.objects.filter((obj) => obj.ingestionStatus === "completed")
+    const pending = ready.filter((obj) => params.refresh || !existing.has(obj.id))
+
+    const progress = {
+      mirrored: 0,
+      failed: [] as { filename: string; error: string }[],
+    }
+    const report = () =>
+      ctx.metadata({
+        title: `Mirroring ${progress.mirrored + progress.failed.length}/${pending.length} documents...`,
+        metadata: {
+          status: "mirroring",
+          vaultId: params.vault_id,
+          total: pending.length,
+          mirrored: progress.mirrored,
+          failed: progress.failed.length,
+        },
+      })
+    report()
+
+    for (const obj of pending) {
+      if (ctx.abort.aborted) break
+      const result = await CaseDevClient.request<VaultObjectTextResponse>(
+        `/vault/${params.vault_id}/objects/${obj.id}/text`,
+        { timeout: 120000, signal: ctx.abort },
+      )
+        .then(async (text) => {
+          if (!text.text) throw new Error("No text available")
+          await VaultMirror.put(params.vault_id, {
+            objectId: obj.id,
+            filename: text.filename ?? obj.filename,
+            pages: text.pages ?? VaultMirror.paginate(text.text),
+          })
+        })
+        .catch((error) => error as Error)
+      if (result instanceof Error) {
+        progress.failed.push({ filename: obj.filename, error: result.message })
+      } else {
+        progress.mirrored++
+      }
+      report()
+    }
+
+    const skipped = ready.length - pending.length
+    const unprocessed = response.objects.length - ready.length
+    let output = `Mirrored ${progress.mirrored} document(s) from vault ${params.vault_id}\n`
+    if (skipped > 0) output += `Already mirrored: ${skipped}\n`
+    if (unprocessed > 0) output += `Not yet processed (not mirrored): ${unprocessed}\n`
+    if (ctx.abort.aborted) output += `\nMirroring was interrupted. Run it again to continue.\n`
+    if (progress.failed.length > 0) {
+      output += `\nFailed (${progress.failed.length}):\n`
+      for (const failure of progress.failed) {
+        output += `• ${failure.filename}: ${failure.error}\n`
+      }
+    }
+    const covered = (await VaultMirror.list(params.vault_id)).length
+    output += `\nThe offline index now covers ${covered} document(s). casedev_vault_search uses it automatically when Case.dev is unreachable.`
+
+    return {
+      title: `Mirrored ${progress.mirrored} document(s)`,
+      metadata: {
+        status: "completed",
+        vaultId: params.vault_id,
+        total: pending.length,
+        mirrored: progress.mirrored,
+        failed: progress.failed.length,
+      },
+      output,
+    }
+  },
+})
+
 export const VaultObjectDownloadTool = Tool.define("casedev_vault_download", {
   description: `Download a file from a Case.dev Vault to your local machine.
 
@@ -613,7 +1202,7 @@ Example usage:
     // Download the file as arraybuffer
     const response = await CaseDevClient.request<ArrayBuffer>(
       `/vault/${params.vault_id}/objects/${params.object_id}/download`,
-      { responseType: "arraybuffer" },
+      { responseType: "arraybuffer", signal: ctx.abort },
     )
 
     // Save to local path
@@ -0,0 +1,234 @@
+import z from "zod"
+import path from "path"
+import { Tool } from "./tool"
+import { Instance } from "../project/instance"
+import { Chronology } from "../chronology"
+import { CaseDevClient } from "./casedev/client"
+import { VaultMirror } from "./casedev/mirror"
+import { OcrEngine } from "./casedev/engine"
+import { Deposition } from "./casedev/deposition"
+import DESCRIPTION from "./chronology.txt"
+
+const PREVIEW = 40
+
+interface VaultObjectsResponse {
+  objects: { id: string; filename: string; ingestionStatus: string }[]
+}
+
+interface VaultObjectTextResponse {
+  filename: string
+  text: string
+  pages?: string[]
+}
+
+interface TranscriptionResponse {
+  status: string
+  text?: string
+  utterances?: { text: string; start: number; speaker: string }[]
+}
+
+/**
+ * Vault documents by their mirrored text, fetching and mirroring any that are not mirrored yet. When Case.dev
+ * cannot be reached, only the mirrored documents are used.
+ */
+async function vault(vaultID: string, objectIds: string[] | undefined, signal: AbortSignal, warnings: string[]) {
+  const objects = objectIds
+    ? objectIds.map((id) => ({ id, filename: id }))
+    : await CaseDevClient.request<VaultObjectsResponse>(`/vault/${vaultID}/objects`, { signal }).then(
+        (response) => response.objects.filter((object) => object.ingestionStatus === "completed"),
+        async (error) => {
+          if (!CaseDevClient.UnreachableError.isInstance(error)) throw error
+          warnings.push(`Case.dev is unreachable, so only documents mirrored from vault ${vaultID} were read`)
+          return (await VaultMirror.list(vaultID)).map((doc) => ({ id: doc.objectId, filename: doc.filename }))
+        },
+      )
+
+  const documents: Chronology.Document[] = []
+  for (const object of objects) {
+    signal.throwIfAborted()
+    const mirrored =
+      (await VaultMirror.get(vaultID, object.id)) ??
+      (await CaseDevClient.request<VaultObjectTextResponse>(`/vault/${vaultID}/objects/${object.id}/text`, {
+        timeout: 120000,
+        signal,
+      })
+        .then((response) => {
+          if (!response.text) throw new Error("no text available")
+          return VaultMirror.put(vaultID, {
+            objectId: object.id,
+            filename: response.filename ?? object.filename,
+            pages: response.pages ?? VaultMirror.paginate(response.text),
+          })
+        })
+        .catch((error) => {
+          if (signal.aborted) throw error
+          warnings.push(`${object.filename}: ${error instanceof Error ? error.message : error}`)
+          return undefined
+        }))
+    if (!mirrored) continue
+    documents.push({
+      kind: "vault",
+      id: object.id,
+      vaultID,
+      name: mirrored.filename,
+      passages: Chronology.pages(mirrored.pages),
+    })
+  }
+  return documents
+}
+
+async function ocr(jobID: string, signal: AbortSignal): Promise<Chronology.Document> {
+  const local = await OcrEngine.get(jobID)
+  if (local) {
+    return {
+      kind: "ocr",
+      id: jobID,
+      name: path.basename(local.file),
+      passages: Chronology.pages(local.pages.map((page) => page.text)),
+    }
+  }
+  const response = await CaseDevClient.request<{ content: string }>(`/ocr/v1/${jobID}/download/text`, { signal })
+  return {
+    kind: "ocr",
+    id: jobID,
+    name: `OCR ${jobID}`,
+    passages: Chronology.pages(OcrEngine.paginate(response.content)),
+  }
+}
+
+async function transcript(id: string, signal: AbortSignal): Promise<Chronology.Document> {
+  const formatted = await Deposition.get(id)
+  if (formatted) {
+    return { kind: "transcript", id, name: formatted.title, passages: Chronology.testimony(formatted.lines) }
+  }
+  const response = await CaseDevClient.request<TranscriptionResponse>(`/voice/transcription/${id}`, { signal })
+  if (response.status !== "completed") throw new Error(`Transcription ${id} is ${response.status}`)
+  return {
+    kind: "transcript",
+    id,
+    name: `Transcript ${id}`,
+    passages: response.utterances?.length
+      ? Chronology.utterances(response.utterances)
+      : [{ text: response.text ?? "", marks: [{ offset: 0 }] }],
+  }
+}
+
+interface ChronologyMetadata {
+  chronologyID?: string
+  events?: number
+  documents?: number
+  savedTo?: string
+  exported?: string
+  error?: true
+}
+
+export const ChronologyTool = Tool.define("chronology", {
+  description: DESCRIPTION,
+  parameters: z.object({
+    vault_id: z.string().optional().describe("Vault to read. Defaults to the vaults linked to the matter"),
+    object_ids: z.array(z.string()).optional().describe("Only read these vault objects"),
+    ocr_job_ids: z.array(z.string()).optional().describe("OCR jobs whose output to read"),
+    transcript_ids: z
+      .array(z.string())
+      .optional()
+      .describe("Formatted deposition transcript IDs or transcription job IDs"),
+    people: z.array(z.string()).optional().describe("Names to tag events with, besides the matter's parties"),
+    issues: z
+      .record(z.string(), z.array(z.string()))
+      .optional()
+      .describe('Issues to tag events with, each with the words that mark it, e.g. {"Notice": ["notice", "notified"]}'),
+    title: z.string().optional().describe("Title of the chronology. Defaults to the matter caption"),
+    format: Chronology.Format.optional().describe("File format: xlsx (default), csv or md"),
+    save_to: z.string().optional().describe("Path of the chronology file. Defaults to Chronology.<format>"),
+    export: z
+      .enum(["pdf", "docx"])
+      .optional()
+      .describe("Also render the chronology as PDF or DOCX with casedev_format"),
+  }),
+  async execute(params, ctx): Promise<Tool.Result<ChronologyMetadata>> {
+    const matter = Instance.project.matter
+    const vaults = params.vault_id ? [params.vault_id] : (matter?.vaults ?? [])
+    if (vaults.length === 0 && !params.ocr_job_ids?.length && !params.transcript_ids?.length) {
+      return {
+        title: "Error: Nothing to read",
+        metadata: { error: true },
+        output: "Pass vault_id, ocr_job_ids or transcript_ids. The matter has no linked vaults to read by default.",
+      }
+    }
+
+    const warnings: string[] = []
+    const documents: Chronology.Document[] = []
+    for (const vaultID of vaults) {
+      ctx.metadata({ title: `Reading vault ${vaultID}...`, metadata: { status: "reading" } })
+      documents.push(...(await vault(vaultID, params.object_ids, ctx.abort, warnings)))
+    }
+    for (const [ids, load] of [
+      [params.ocr_job_ids ?? [], ocr],
+      [params.transcript_ids ?? [], transcript],
+    ] as const) {
+      for (const id of ids) {
+        const document = await load(id, ctx.abort).catch((error) => {
+          if (ctx.abort.aborted) throw error
+          warnings.push(`${id}: ${error instanceof Error ? error.message : error}`)
+          return undefined
+        })
+        if (document) documents.push(document)
+      }
+    }
+
+    const tags: Chronology.Tags = {
+      people: [
+        ...(matter?.parties ?? []).map((party) => ({ name: party.name, aliases: party.aliases })),
+        ...(params.people ?? [])
+          .filter((name) => !matter?.parties.some((party) => party.name === name))
+          .map((name) => ({ name })),
+      ],
+      issues: params.issues ?? {},
+    }
+    const events = Chronology.merge(documents.flatMap((document) => Chronology.extract(document, tags)))
+
+    const format = params.format ?? "xlsx"
+    const title = params.title ?? (matter?.caption ? `Chronology - ${matter.caption}` : "Chronology")
+    let file = path.resolve(Instance.directory, params.save_to ?? `Chronology.${format}`)
+    if (path.extname(file).toLowerCase() !== `.${format}`) file += `.${format}`
+    await Chronology.write(file, events, title)
+    const info = await Chronology.save({ title, events, file, format })
+
+    const exported = params.export
+      ? await Chronology.render(info.id, { format: params.export, signal: ctx.abort }).then(
+          (result) => result.file,
+          (error) => {
+            if (ctx.abort.aborted) throw error
+            warnings.push(
+              `The ${params.export!.toUpperCase()} export failed: ${error instanceof Error ? error.message : error}`,
+            )
+            return undefined
+          },
+        )
+      : undefined
+
+    const sources = events.reduce((sum, event) => sum + event.sources.length, 0)
+    let output = `Chronology ${info.id}: ${events.length} event(s) from ${documents.length} document(s)\n`
+    output += `File: ${file}\n`
+    if (exported) output += `Export: ${exported}\n`
+    if (events.length > 0) {
+      output += `Merged: ${sources - events.length} duplicate mention(s) folded into existing events\n\n`
+      output += Chronology.markdown(events.slice(0, PREVIEW), title)
+      if (events.length > PREVIEW) output += `\n(${events.length - PREVIEW} more event(s) in the file)\n`
+    }
+    if (warnings.length > 0) output += `\nNot read:\n${warnings.map((warning) => `• ${warning}`).join("\n")}\n`
+    output += `\nThe user can filter this chronology by person and issue in the Chronology view and export the rows.`
+
+    return {
+      title: `${events.length} event(s) in ${path.basename(file)}`,
+      metadata: {
+        chronologyID: info.id,
+        events: events.length,
+        documents: documents.length,
+        savedTo: file,
+        exported,
+      },
+      output,
+    }
+  },
+})
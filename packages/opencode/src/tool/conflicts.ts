@@ -0,0 +1,57 @@
+import z from "zod"
+import path from "path"
+import fs from "fs/promises"
+import { Tool } from "./tool"
+import { Instance } from "../project/instance"
+import { Matter } from "../project/matter"
+import { Conflict } from "../conflict"
+import DESCRIPTION from "./conflicts.txt"
+
+export const ConflictsTool = Tool.define("conflicts", {
+  description: DESCRIPTION,
+  parameters: z.object({
+    parties: z
+      .array(
+        z.object({
+          name: z.string().describe("Name of the person or organization"),
+          role: Matter.Party.shape.role.unwrap().optional().describe("Role of the party in the new matter"),
+          aliases: z.array(z.string()).optional().describe("Other names the party has used"),
+          affiliates: z.array(z.string()).optional().describe("Parent companies, subsidiaries and other affiliates"),
+        }),
+      )
+      .min(1)
+      .describe("The parties to check"),
+    threshold: z.number().min(0).max(1).optional().describe("Minimum name similarity for a match (default 0.85)"),
+    save_to: z.string().optional().describe("Path of a markdown file to save the conflicts report to"),
+  }),
+  async execute(params) {
+    const entries = await Conflict.index()
+    const hits = await Conflict.check(params.parties, { threshold: params.threshold })
+    const matters = entries.filter((entry) => entry.projectID !== Instance.project.id).length
+    const report = Conflict.report(params.parties, hits, { matter: Instance.project.matter?.id, matters })
+
+    const file = params.save_to ? path.resolve(Instance.directory, params.save_to) : undefined
+    if (file) {
+      await fs.mkdir(path.dirname(file), { recursive: true })
+      await Bun.write(file, report)
+    }
+
+    const conflicts = hits.filter((hit) => hit.level === "conflict").length
+    return {
+      title: conflicts > 0 ? `${conflicts} potential conflict(s)` : `${hits.length} match(es) in ${matters} matter(s)`,
+      metadata: {
+        matters,
+        conflicts,
+        hits: hits.map((hit) => ({
+          query: hit.query,
+          name: hit.party.name,
+          level: hit.level,
+          score: hit.score,
+          projectID: hit.projectID,
+        })),
+        report: file,
+      },
+      output: report + (file ? `\nReport: ${file}\n` : ""),
+    }
+  },
+})
@@ -0,0 +1,135 @@
+import z from "zod"
+import path from "path"
+import fs from "fs/promises"
+import { Tool } from "./tool"
+import { Instance } from "../project/instance"
+import { Deadline } from "../deadline"
+import DESCRIPTION from "./deadline.txt"
+
+const parameters = z.object({
+  date: z.string().describe("Date of the trigger event, as YYYY-MM-DD"),
+  event: z
+    .string()
+    .optional()
+    .describe("Trigger event from the rule set, e.g. service_of_summons, or the ID of a single rule"),
+  jurisdiction: z
+    .string()
+    .optional()
+    .describe("Rule set name or jurisdiction, e.g. federal. Defaults to the matter's jurisdiction"),
+  service: z.string().optional().describe("Method of service, e.g. mail, electronic or personal"),
+  days: z.number().int().min(0).optional().describe("Length of a period no rule covers, instead of event"),
+  direction: z.enum(["after", "before"]).optional().describe("Count days after (default) or before the date"),
+  unit: z.enum(["calendar", "court"]).optional().describe("Count calendar days (default) or court days"),
+  name: z.string().optional().describe("Name of the deadline when using days"),
+  save_to: z.string().optional().describe("Path of an .ics calendar file to export the deadlines to"),
+})
+
+interface DeadlineMetadata {
+  ruleset?: string
+  deadlines?: { id: string; name: string; date: string }[]
+  calendar?: string
+  error?: true
+}
+
+export const DeadlineTool = Tool.define("deadline", async () => {
+  const sets = await Deadline.all()
+  const description = [
+    DESCRIPTION,
+    "",
+    "<available_rule_sets>",
+    ...sets.flatMap((set) => [
+      `  <rule_set>`,
+      `    <name>${set.name}</name>`,
+      ...(set.description ? [`    <description>${set.description}</description>`] : []),
+      ...(set.jurisdiction.length ? [`    <jurisdiction>${set.jurisdiction.join(", ")}</jurisdiction>`] : []),
+      `    <events>${[...new Set(set.rules.map((rule) => rule.trigger))].join(", ")}</events>`,
+      `    <service>${Object.keys(set.service).join(", ")}</service>`,
+      `  </rule_set>`,
+    ]),
+    "</available_rule_sets>",
+  ].join("\n")
+
+  return {
+    description,
+    parameters,
+    async execute(params): Promise<Tool.Result<DeadlineMetadata>> {
+      if ((params.event === undefined) === (params.days === undefined)) {
+        return {
+          title: "Error: Invalid parameters",
+          metadata: { error: true },
+          output: "Provide exactly one of event or days.",
+        }
+      }
+
+      const set = await Deadline.get(params.jurisdiction)
+      if (!set) {
+        const available = await Deadline.all().then((x) => x.map((item) => item.name).join(", "))
+        const jurisdiction = params.jurisdiction ?? Instance.project.matter?.jurisdiction
+        throw new Error(
+          `No deadline rule set for "${jurisdiction}". Pass jurisdiction with one of the available rule sets: ${available}`,
+        )
+      }
+
+      if (params.service !== undefined && set.service[params.service] === undefined) {
+        return {
+          title: "Error: Unknown service method",
+          metadata: { error: true },
+          output: `Rule set ${set.name} has no service method "${params.service}". Methods: ${Object.keys(set.service).join(", ")}`,
+        }
+      }
+
+      const results: Deadline.Result[] =
+        params.event !== undefined
+          ? Deadline.calculate(set, { event: params.event, date: params.date, service: params.service })
+          : [
+              {
+                ruleset: set.name,
+                rule: { id: "custom", name: params.name ?? `${params.days} days ${params.direction ?? "after"}` },
+                trigger: { event: params.name ?? "custom", date: params.date },
+                service: params.service,
+                ...Deadline.compute(set, {
+                  date: params.date,
+                  days: params.days!,
+                  direction: params.direction,
+                  unit: params.unit,
+                  extra: params.service ? set.service[params.service] : undefined,
+                  service: params.service,
+                }),
+              },
+            ]
+      if (results.length === 0) {
+        const events = [...new Set(set.rules.map((rule) => rule.trigger))].join(", ")
+        return {
+          title: "Error: Unknown event",
+          metadata: { error: true },
+          output: `Rule set ${set.name} has no rules for "${params.event}". Events: ${events}`,
+        }
+      }
+
+      const matter = Instance.project.matter?.id
+      const calendar = params.save_to ? path.resolve(Instance.directory, params.save_to) : undefined
+      if (calendar) {
+        await fs.mkdir(path.dirname(calendar), { recursive: true })
+        await Bun.write(calendar, Deadline.ics(results, { matter }))
+      }
+
+      let output = `Rule set: ${set.name}${set.location ? ` (${set.location})` : ""}\n`
+      for (const result of results) {
+        output += `\n${result.date}  ${result.rule.name}${result.rule.citation ? ` (${result.rule.citation})` : ""}\n`
+        for (const step of result.steps) output += `  - ${step}\n`
+        if (result.rule.note) output += `  Note: ${result.rule.note}\n`
+      }
+      if (calendar) output += `\nCalendar: ${calendar}\n`
+
+      return {
+        title: `${results.length} deadline(s) from ${params.date}`,
+        metadata: {
+          ruleset: set.name,
+          deadlines: results.map((result) => ({ id: result.rule.id, name: result.rule.name, date: result.date })),
+          calendar,
+        },
+        output,
+      }
+    },
+  }
+})
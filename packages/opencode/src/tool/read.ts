@@ -11,6 +11,7 @@ import { Identifier } from "../id/id"
 import { Permission } from "../permission"
 import { Agent } from "@/agent/agent"
 import { iife } from "@/util/iife"
+import { Extract } from "../extract"
 
 const DEFAULT_READ_LIMIT = 2000
 const MAX_LINE_LENGTH = 2000
@@ -119,12 +120,20 @@ export const ReadTool = Tool.define("read", {
       }
     }
 
-    const isBinary = await isBinaryFile(filepath, file)
-    if (isBinary) throw new Error(`Cannot read binary file: ${filepath}`)
+    const extracted = Extract.supported(filepath)
+    if (!extracted) {
+      const isBinary = await isBinaryFile(filepath, file)
+      if (isBinary) throw new Error(`Cannot read binary file: ${filepath}`)
+    }
 
     const limit = params.limit ?? DEFAULT_READ_LIMIT
     const offset = params.offset || 0
-    const lines = await file.text().then((text) => text.split("\n"))
+    const text = extracted
+      ? await Extract.text(filepath).catch((e) => {
+          throw new Error(`Cannot extract text from ${filepath}: ${e instanceof Error ? e.message : String(e)}`)
+        })
+      : await file.text()
+    const lines = text.split("\n")
     const raw = lines.slice(offset, offset + limit).map((line) => {
       return line.length > MAX_LINE_LENGTH ? line.substring(0, MAX_LINE_LENGTH) + "..." : line
     })
@@ -176,9 +185,7 @@ async function isBinaryFile(filepath: string, file: Bun.BunFile): Promise<boolea
     case ".war":
     case ".7z":
     case ".doc":
-    case ".docx":
     case ".xls":
-    case ".xlsx":
     case ".ppt":
     case ".pptx":
     case ".odt":
@@ -11,6 +11,10 @@ import { WebFetchTool } from "./webfetch"
 import { WriteTool } from "./write"
 import { InvalidTool } from "./invalid"
 import { SkillTool } from "./skill"
+import { DeadlineTool } from "./deadline"
+import { ConflictsTool } from "./conflicts"
+import { ResearchHistoryTool } from "./research"
+import { ChronologyTool } from "./chronology"
 import type { Agent } from "../agent/agent"
 import { Tool } from "./tool"
 import { Instance } from "../project/instance"
@@ -34,10 +38,16 @@ import {
   VaultIngestTool,
   VaultObjectsListTool,
   VaultObjectTextTool,
+  VaultMirrorTool,
   VaultObjectDownloadTool,
 } from "./casedev/vault"
 import { LegalSearchTool } from "./casedev/search"
 import { FormatDocumentTool } from "./casedev/format"
+import { CitationsTool } from "./casedev/citation"
+import { DepositionFormatTool, DepositionDesignationsTool } from "./casedev/deposition"
+import { RedlineTool } from "./casedev/redline"
+import { RedactTool } from "./casedev/redact"
+import { ExhibitTool } from "./casedev/exhibit"
 
 export namespace ToolRegistry {
   const log = Log.create({ service: "tool.registry" })
@@ -118,6 +128,10 @@ export namespace ToolRegistry {
       WebSearchTool,
       CodeSearchTool,
       SkillTool,
+      DeadlineTool,
+      ConflictsTool,
+      ResearchHistoryTool,
+      ChronologyTool,
       ...(Flag.OPENCODE_EXPERIMENTAL_LSP_TOOL ? [LspTool] : []),
       ...(config.experimental?.batch_tool === true ? [BatchTool] : []),
       // Case.dev tools
@@ -133,9 +147,16 @@ export namespace ToolRegistry {
       VaultIngestTool,
       VaultObjectsListTool,
       VaultObjectTextTool,
+      VaultMirrorTool,
       VaultObjectDownloadTool,
       LegalSearchTool,
       FormatDocumentTool,
+      CitationsTool,
+      DepositionFormatTool,
+      DepositionDesignationsTool,
+      RedlineTool,
+      RedactTool,
+      ExhibitTool,
       ...custom,
     ]
   }
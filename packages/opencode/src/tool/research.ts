@@ -0,0 +1,54 @@
+import z from "zod"
+import { Tool } from "./tool"
+import { Instance } from "../project/instance"
+import { Research } from "../research"
+import DESCRIPTION from "./research.txt"
+
+const LIMIT = 10
+
+export const ResearchHistoryTool = Tool.define("research_history", {
+  description: DESCRIPTION,
+  parameters: z.object({
+    query: z.string().optional().describe("Words to look for in earlier research"),
+    id: z.string().optional().describe("ID of a research record to show in full"),
+    tool: Research.Tool.optional().describe("Only list research from this tool"),
+  }),
+  async execute(params) {
+    if (params.id) {
+      const artifact = await Research.get(params.id).catch(() => undefined)
+      if (!artifact) throw new Error(`No research ${params.id} in this project. List it with research_history first.`)
+      return {
+        title: artifact.query,
+        metadata: { count: 1, ids: [artifact.id] },
+        output: Research.format(artifact),
+      }
+    }
+
+    const artifacts = await Research.list(Instance.project.id, { query: params.query, tool: params.tool })
+    const shown = artifacts.slice(0, LIMIT)
+    if (shown.length === 0) {
+      return {
+        title: "No saved research",
+        metadata: { count: 0, ids: [] as string[] },
+        output: params.query
+          ? `No saved research mentions "${params.query}".`
+          : "No research has been saved in this project yet.",
+      }
+    }
+
+    const lines = shown.map((artifact) => {
+      const date = new Date(artifact.time.created).toISOString().slice(0, 10)
+      const summary = artifact.summary ? `\n  ${artifact.summary.replace(/\s+/g, " ").slice(0, 200)}` : ""
+      return `${artifact.id} (${date}, ${artifact.tool}${artifact.mode ? ` ${artifact.mode}` : ""}, ${artifact.sources.length} sources): ${artifact.query}${summary}`
+    })
+    if (artifacts.length > shown.length) {
+      lines.push(`\n(${artifacts.length - shown.length} more; narrow the query to see them)`)
+    }
+    lines.push(`\nPass id to show a record in full with its sources.`)
+    return {
+      title: params.query ? `${artifacts.length} research record(s) for "${params.query}"` : "Recent research",
+      metadata: { count: artifacts.length, ids: shown.map((artifact) => artifact.id) },
+      output: lines.join("\n"),
+    }
+  },
+})
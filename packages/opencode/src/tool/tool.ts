@@ -20,20 +20,23 @@ export namespace Tool {
     extra?: { [key: string]: any }
     metadata(input: { title?: string; metadata?: M }): void
   }
+  /**
+   * What a tool call returns. Tools whose calls can end in different ways declare one metadata type covering all
+   * of them and annotate execute with it, since the type is otherwise inferred from the first return alone.
+   */
+  export interface Result<M extends Metadata = Metadata> {
+    title: string
+    metadata: M
+    output: string
+    attachments?: MessageV2.FilePart[]
+  }
+
   export interface Info<Parameters extends z.ZodType = z.ZodType, M extends Metadata = Metadata> {
     id: string
     init: (ctx?: InitContext) => Promise<{
       description: string
       parameters: Parameters
-      execute(
-        args: z.infer<Parameters>,
-        ctx: Context,
-      ): Promise<{
-        title: string
-        metadata: M
-        output: string
-        attachments?: MessageV2.FilePart[]
-      }>
+      execute(args: z.infer<Parameters>, ctx: Context): Promise<Result<M>>
       formatValidationError?(error: z.ZodError): string
     }>
   }
@@ -0,0 +1,9 @@
+export namespace Csv {
+  /**
+   * Quote a field that holds a comma, quote or line break, doubling the quotes inside it
+   */
+  export function quote(value: string | number | undefined) {
+    const text = value === undefined ? "" : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+}
@@ -0,0 +1,156 @@
+import { describe, expect, test } from "bun:test"
+import { Billing } from "../../src/billing"
+import { Identifier } from "../../src/id/id"
+import { Instance } from "../../src/project/instance"
+import { Session } from "../../src/session"
+import type { MessageV2 } from "../../src/session/message-v2"
+import { tmpdir } from "../fixture/fixture"
+
+const MINUTE = 60 * 1000
+const start = new Date(2026, 2, 2, 9, 0).getTime()
+
+const user = (created: number) =>
+  ({
+    info: { id: "msg_user", sessionID: "ses_test", role: "user", time: { created } },
+    parts: [],
+  }) as unknown as MessageV2.WithParts
+
+const assistant = (created: number, minutes: number, tools: [string, Record<string, unknown>][]) =>
+  ({
+    info: {
+      id: "msg_assistant",
+      sessionID: "ses_test",
+      role: "assistant",
+      time: { created, completed: created + minutes * MINUTE },
+    },
+    parts: tools.map(([tool, input]) => ({
+      type: "tool",
+      tool,
+      state: { status: "completed", input, time: { start: created, end: created + MINUTE } },
+    })),
+  }) as unknown as MessageV2.WithParts
+
+const entry = (date: string, hours: number, narrative: string): Billing.Entry => ({
+  id: "bil_test" + date,
+  projectID: "matter_2024-0117",
+  sessionID: "ses_test",
+  matterID: "2024-0117",
+  date,
+  hours,
+  narrative,
+  task: "L120",
+  activity: "A104",
+  timekeeper: "JD",
+  time: { created: 0, updated: 0 },
+})
+
+describe("billing", () => {
+  test("proposes an entry per day in tenths of an hour", () => {
+    const messages = [
+      user(start),
+      assistant(start + MINUTE, 7, [
+        ["read", { filePath: "/matter/Complaint.pdf" }],
+        ["read", { filePath: "/matter/Answer.pdf" }],
+        ["casedev_search", { query: "motion to dismiss standard" }],
+      ]),
+      // Back after lunch: the gap is not billed
+      user(start + 3 * 60 * MINUTE),
+      assistant(start + 3 * 60 * MINUTE, 2, [["casedev_redact", { file_path: "/matter/Production.pdf" }]]),
+      user(start + 24 * 60 * MINUTE),
+      assistant(start + 24 * 60 * MINUTE, 1, [["write", { filePath: "/matter/Motion.docx" }]]),
+    ]
+    const proposals = Billing.draft({ title: "Motion to dismiss" }, messages)
+    expect(proposals).toEqual([
+      {
+        date: "2026-03-02",
+        hours: 0.2,
+        narrative:
+          "Motion to dismiss: legal research; reviewed Complaint.pdf and Answer.pdf; drafted and revised Production.pdf.",
+        task: "L320",
+        activity: "A104",
+      },
+      {
+        date: "2026-03-03",
+        hours: 0.1,
+        narrative: "Motion to dismiss: drafted and revised Motion.docx.",
+        task: "L120",
+        activity: "A103",
+      },
+    ])
+    expect(Billing.draft({ title: "Motion to dismiss" }, messages, { idle: 240 })[0].hours).toBe(3.1)
+  })
+
+  test("exports LEDES 1998B and CSV", () => {
+    const entries = [
+      entry("2026-03-02", 0.3, "Reviewed complaint | exhibits []"),
+      entry("2026-03-03", 1.5, "Drafted, revised"),
+    ]
+    const ledes = Billing.ledes(entries, {
+      number: "INV-7",
+      date: "2026-03-31",
+      client: "ACME",
+      matter: "2024-0117",
+      rate: 400,
+      timekeeper: { name: "Doe, Jane", classification: "PT" },
+    }).split("\n")
+    expect(ledes[0]).toBe("LEDES1998B[]")
+    expect(ledes[1].split("|")).toHaveLength(24)
+    const line = ledes[2].replace(/\[\]$/, "").split("|")
+    expect(line).toHaveLength(24)
+    expect(line.slice(0, 14)).toEqual([
+      "20260331",
+      "INV-7",
+      "ACME",
+      "2024-0117",
+      "720.00",
+      "20260302",
+      "20260303",
+      "",
+      "1",
+      "F",
+      "0.3",
+      "0.00",
+      "120.00",
+      "20260302",
+    ])
+    expect(line[18]).toBe("Reviewed complaint exhibits")
+    expect(line[21]).toBe("Doe, Jane")
+
+    const csv = Billing.csv(entries, 400).trim().split("\n")
+    expect(csv).toHaveLength(3)
+    expect(csv[2]).toBe('2026-03-03,2024-0117,ses_test,JD,1.5,400.00,600.00,L120,A104,"Drafted, revised"')
+  })
+
+  test("keeps edited entries when proposing again", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const session = await Session.create({})
+        for (const created of [start, start + 5 * MINUTE]) {
+          await Session.updateMessage({
+            id: Identifier.ascending("message"),
+            sessionID: session.id,
+            role: "user",
+            time: { created },
+            agent: "build",
+            model: { providerID: "test", modelID: "test" },
+          })
+        }
+        const [proposed] = await Billing.propose(session.id)
+        expect(proposed.hours).toBe(0.1)
+
+        const edited = await Billing.update(proposed.id, { hours: 0.44, narrative: "Call with client" })
+        expect(edited.hours).toBe(0.4)
+        expect(edited.time.edited).toBeDefined()
+
+        const again = await Billing.propose(session.id)
+        expect(again).toHaveLength(1)
+        expect(again[0]).toMatchObject({ id: proposed.id, hours: 0.4, narrative: "Call with client" })
+
+        await Billing.remove(proposed.id)
+        expect(await Billing.list(Instance.project.id, { sessionID: session.id })).toEqual([])
+      },
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test"
+import { Chronology } from "../../src/chronology"
+import { Xlsx } from "../../src/extract/xlsx"
+
+const lease: Chronology.Document = {
+  kind: "vault",
+  id: "obj_lease",
+  vaultID: "vault_1",
+  name: "Complaint.pdf",
+  passages: Chronology.pages([
+    "Plaintiff Acme Corp. leased the premises to Initech, LLC.",
+    "On March 3, 2021, Bill Lumbergh signed the lease on behalf of Initech. Initech stopped paying rent in June 2021. " +
+      "Acme sent a notice of default on 7/1/2021.",
+  ]),
+}
+
+const deposition: Chronology.Document = {
+  kind: "transcript",
+  id: "dep_lumbergh",
+  name: "Deposition of Bill Lumbergh",
+  passages: Chronology.testimony([
+    { page: 12, line: 4, speaker: "A", text: "Q.    When did you sign the lease?", start: 600, end: 603 },
+    { page: 12, line: 5, speaker: "B", text: "A.    I believe I signed the lease for", start: 604, end: 606 },
+    { page: 12, line: 6, speaker: "B", text: "Initech on March 3, 2021. We got the", start: 606, end: 608 },
+    { page: 12, line: 7, speaker: "B", text: "default notice on July 1, 2021.", start: 608, end: 611 },
+  ]),
+}
+
+const tags: Chronology.Tags = {
+  people: [{ name: "Bill Lumbergh", aliases: ["Lumbergh"] }],
+  issues: { Notice: ["notice"], Payment: ["rent", "paying"] },
+}
+
+describe("chronology", () => {
+  test("finds dates in the ways documents write them", () => {
+    const text =
+      "Signed March 3, 2021 and again on the 4th day of March, 2021; amended 2021-04-01 and 4/15/21. " +
+      "Payments stopped in Sept. 2021, but we may 2022 revisit it. Filed 13/45/2021."
+    expect(Chronology.dates(text).map((found) => found.date)).toEqual([
+      "2021-03-03",
+      "2021-03-04",
+      "2021-04-01",
+      "2021-04-15",
+      "2021-09",
+    ])
+  })
+
+  test("splits sentences without breaking after abbreviations", () => {
+    expect(
+      Chronology.sentences("Mr. Smith sued Acme Corp. in the U.S. District Court. It settled.").map((s) => s.text),
+    ).toEqual(["Mr. Smith sued Acme Corp. in the U.S. District Court.", "It settled."])
+  })
+
+  test("merges the same event found in several documents and keeps each citation", () => {
+    const events = Chronology.merge([...Chronology.extract(lease, tags), ...Chronology.extract(deposition, tags)])
+    expect(events.map((event) => event.date)).toEqual(["2021-03-03", "2021-06", "2021-07-01"])
+
+    const [signed, unpaid, notice] = events
+    expect(signed.people).toEqual(["Bill Lumbergh"])
+    expect(signed.sources.map(Chronology.cite)).toEqual([
+      "Complaint.pdf, p. 2",
+      "Deposition of Bill Lumbergh 12:5 [0:10:04]",
+    ])
+    expect(unpaid.issues).toEqual(["Payment"])
+    expect(notice.issues).toEqual(["Notice"])
+    expect(notice.sources.map(Chronology.cite)).toEqual([
+      "Complaint.pdf, p. 2",
+      "Deposition of Bill Lumbergh 12:6 [0:10:06]",
+    ])
+    expect(Chronology.filter(events, { person: "Bill Lumbergh" })).toEqual([signed])
+    expect(Chronology.filter(events, { issue: "Notice" })).toEqual([notice])
+  })
+
+  test("writes sortable CSV, markdown and XLSX files", async () => {
+    const events = Chronology.merge(Chronology.extract(lease, tags))
+    const csv = Chronology.csv(events).split("\n")
+    expect(csv[0]).toBe("Date,Event,People,Issues,Sources")
+    expect(csv[1]).toStartWith("2021-03-03,")
+    expect(Chronology.markdown(events, "Acme v. Initech")).toContain(
+      "| 2021-06 | Initech stopped paying rent in June 2021. |",
+    )
+
+    const [sheet] = await Xlsx.sheets(await Chronology.xlsx(events))
+    expect(sheet.name).toBe("Chronology")
+    expect(sheet.rows).toHaveLength(events.length + 1)
+    expect(sheet.rows[3]).toEqual([
+      "2021-07-01",
+      "Acme sent a notice of default on 7/1/2021.",
+      "",
+      "Notice",
+      "Complaint.pdf, p. 2",
+    ])
+  })
+})
@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test"
+import { Redline } from "@opencode-ai/util/redline"
+import { Compare } from "../../src/compare"
+import { Docx } from "../../src/extract/docx"
+import { Xml } from "../../src/extract/xml"
+
+const original = [
+  "1. Services. Provider will perform the services described in Exhibit A.",
+  "2. Fees. Client will pay a fee of $5,000 within thirty days of each invoice.",
+  "3. Confidentiality. Each party will keep the other party's confidential information secret.",
+  "4. Term. This agreement lasts for one year.",
+]
+
+const revised = [
+  "1. Services. Provider will perform the services described in Exhibit A.",
+  "3. Confidentiality. Each party will keep the other party's confidential information secret.",
+  "2. Fees. Client will pay a fee of $7,500 within thirty days of each invoice.",
+  "4. Term. This agreement lasts for one year.",
+  "5. Governing Law. New York law governs this agreement.",
+]
+
+describe("compare.redline", () => {
+  test("shows word changes, moved paragraphs and new paragraphs", () => {
+    const result = Redline.compare(original, revised)
+    expect(result.paragraphs.map((paragraph) => paragraph.type)).toEqual([
+      "equal",
+      "move-from",
+      "equal",
+      "move-to",
+      "equal",
+      "insert",
+    ])
+    // The fees paragraph moved and was edited on the way
+    const fees = result.paragraphs[3].segments.filter((segment) => segment.type !== "equal")
+    expect(fees).toEqual([
+      { type: "delete", text: "5,000" },
+      { type: "insert", text: "7,500" },
+    ])
+    expect(result.paragraphs[1].move).toBe(result.paragraphs[3].move)
+    expect(result.moves).toBe(1)
+    expect(result.insertions).toBe(9)
+    expect(result.deletions).toBe(0)
+  })
+
+  test("falls back to a plain delete and insert past the cell limit", () => {
+    const result = Redline.compare(original, revised, 1)
+    expect(result.paragraphs.map((paragraph) => paragraph.type)).toEqual([
+      "equal",
+      "delete",
+      "delete",
+      "delete",
+      "insert",
+      "insert",
+      "insert",
+      "insert",
+    ])
+    expect(result.moves).toBe(0)
+  })
+
+  test("joins wrapped lines into paragraphs", () => {
+    expect(Compare.blocks("The fee is\n  $5,000 per\nmonth.\n\n\nTerm of one year.\n")).toEqual([
+      "The fee is $5,000 per month.",
+      "Term of one year.",
+    ])
+  })
+})
+
+describe("compare.docx", () => {
+  test("accepting the tracked changes gives the revised text", async () => {
+    const result = Redline.compare(original, revised)
+    const bytes = await Compare.docx(result, "Jane Roe", new Date("2024-03-01T10:00:00Z"))
+    const part = await Xml.open(bytes)
+    const document = (await part("word/document.xml"))!
+    expect(document).toContain('w:author="Jane Roe" w:date="2024-03-01T10:00:00Z"')
+    expect(document).toContain('w:name="move1"')
+    expect(await part("word/settings.xml")).toContain("<w:trackRevisions/>")
+    expect(Docx.paragraphs(document, true)).toEqual(revised)
+  })
+
+  test("marks changes when read without accepting them", () => {
+    const document = Compare.document(
+      Redline.compare(["The fee is due in thirty days."], ["The fee is due in sixty days."]),
+      "Jane Roe",
+    )
+    expect(Docx.paragraphs(document)).toEqual([
+      "The fee is due in [Deleted by Jane Roe: thirty][Inserted by Jane Roe: sixty] days.",
+    ])
+  })
+})
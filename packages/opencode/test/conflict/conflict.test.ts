@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Conflict } from "../../src/conflict"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+const COMPLAINT = `UNITED STATES DISTRICT COURT
+SOUTHERN DISTRICT OF NEW YORK
+
+GLOBEX CORPORATION,
+          Plaintiff,
+     v.
+INITECH, LLC and JOHN Q. PUBLIC,
+          Defendants.
+
+COMPLAINT
+
+1. Plaintiff Globex Corporation ("Globex") is a Delaware corporation.
+2. Initrode Holdings Inc., a wholly owned subsidiary of Vandelay Industries, Inc., supplied the parts.
+3. Defendant Peter Gibbons was employed by Initech, LLC, a/k/a Initech Software.
+4. The witness Milton Waddams saw the shipment arrive.
+
+                              /s/ Jane Doe
+                              DOE & ROE LLP
+                              Attorneys for Plaintiff
+`
+
+describe("conflict", () => {
+  test("matches names regardless of suffixes, word order and small misspellings", () => {
+    expect(Conflict.normalize("The Acme Corporation, Inc.")).toBe("acme")
+    expect(Conflict.similarity("ACME Corp.", "Acme Corporation")).toBe(1)
+    expect(Conflict.similarity("Smith, John", "John Smith")).toBe(1)
+    expect(Conflict.similarity("Jon Smith", "John Smith")).toBeGreaterThan(0.85)
+    expect(Conflict.similarity("J. Smith", "John Smith")).toBe(1)
+    expect(Conflict.similarity("Mary Smith", "John Smith")).toBeLessThan(0.85)
+    expect(Conflict.similarity("Smith", "John Smith")).toBeLessThan(0.85)
+    expect(Conflict.caption("Acme Corp. v. Widget Co., et al.")).toEqual(["Acme Corp.", "Widget Co."])
+  })
+
+  test("finds parties, counsel, aliases and affiliates in a document", () => {
+    const parties = Conflict.entities(COMPLAINT, "Complaint.pdf", "Globex Corp.")
+    const find = (name: string) => parties.find((party) => party.name === name)
+    expect(find("Globex Corporation")).toMatchObject({ role: "client", aliases: ["Globex"] })
+    expect(find("Initech, LLC")).toMatchObject({ role: "adverse", aliases: ["Initech Software"] })
+    expect(find("John Q. Public")?.role).toBe("adverse")
+    expect(find("Peter Gibbons")?.role).toBe("adverse")
+    expect(find("Milton Waddams")?.role).toBe("witness")
+    expect(find("Jane Doe")?.role).toBe("counsel")
+    expect(find("Doe & Roe LLP")?.role).toBe("counsel")
+    expect(find("Initrode Holdings Inc.")).toMatchObject({
+      role: "related",
+      affiliates: ["Vandelay Industries, Inc."],
+    })
+
+    // Without knowing the client, nobody in the caption is assumed to be adverse
+    expect(Conflict.entities(COMPLAINT, "Complaint.pdf").find((party) => party.name === "Initech, LLC")?.role).toBe(
+      "related",
+    )
+  })
+
+  test("reports former adverse parties and affiliates of indexed parties", async () => {
+    await using tmp = await tmpdir({
+      init: async (dir) => {
+        await Bun.write(
+          path.join(dir, ".thurgood", "matter.json"),
+          JSON.stringify({
+            id: "2023-0042",
+            client: "Globex Corporation",
+            caption: "Globex Corporation v. Initech, LLC",
+            parties: [{ name: "Initrode Holdings Inc.", role: "adverse", affiliates: ["Vandelay Industries, Inc."] }],
+          }),
+        )
+      },
+    })
+
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const entries = await Conflict.index()
+        const entry = entries.find((item) => item.projectID === Instance.project.id)!
+        expect(entry.parties.map((party) => [party.name, party.role, party.source])).toEqual([
+          ["Initrode Holdings Inc.", "adverse", "matter"],
+          ["Globex Corporation", "client", "matter"],
+          ["Initech, LLC", "adverse", "caption"],
+        ])
+
+        const parties = [
+          { name: "INITECH LLC", role: "client" as const },
+          { name: "Vandelay Industries", role: "adverse" as const },
+          { name: "Kramerica", role: "adverse" as const },
+        ]
+        const hits = (await Conflict.check(parties, { exclude: "none" })).filter(
+          (hit) => hit.projectID === Instance.project.id,
+        )
+        expect(hits.map((hit) => [hit.query, hit.party.name, hit.via, hit.level])).toEqual([
+          ["INITECH LLC", "Initech, LLC", "name", "conflict"],
+          ["Vandelay Industries", "Initrode Holdings Inc.", "affiliate", "review"],
+        ])
+        expect(await Conflict.check(parties)).not.toContainEqual(
+          expect.objectContaining({ projectID: Instance.project.id }),
+        )
+
+        const report = Conflict.report(parties, hits, { matter: "2026-0001", date: "2026-03-02" })
+        expect(report).toContain(
+          "| conflict | 2023-0042 - Globex Corporation v. Initech, LLC | Initech, LLC | adverse |",
+        )
+        expect(report).toContain("## Kramerica (adverse)\n\nNo matches.")
+        expect(report).toContain("1 potential conflict(s) and 1 other match(es) need attorney review.")
+      },
+    })
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { Deadline } from "../../src/deadline"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+const CALIFORNIA = `
+description: California Code of Civil Procedure
+jurisdiction: [california, ca]
+federal_holidays: false
+holidays:
+  - { name: "New Year's Day", date: "01-01" }
+  - { name: "Cesar Chavez Day", date: "03-31" }
+  - { name: "Day after Thanksgiving", month: 11, weekday: thursday, week: 4, offset: 1 }
+service:
+  personal: 0
+  mail: 5
+rules:
+  - id: opposition
+    name: Opposition to motion
+    trigger: hearing
+    days: 9
+    direction: before
+    unit: court
+    citation: Cal. Civ. Proc. Code § 1005(b)
+`
+
+describe("deadline", () => {
+  test("counts under Rule 6(a) and adds days for mail service after the period", () => {
+    const [answer] = Deadline.calculate(Deadline.FRCP, {
+      event: "answer",
+      date: "2026-05-04",
+    })
+    expect(answer.date).toBe("2026-05-26")
+    expect(answer.steps[1]).toBe("Monday 2026-05-25 is a legal holiday (Memorial Day); moved to Tuesday 2026-05-26")
+
+    // Day 30 is a Wednesday; the 3 days for mail end on July 4, a Saturday
+    const discovery = Deadline.calculate(Deadline.FRCP, {
+      event: "service_of_discovery",
+      date: "2026-06-01",
+      service: "mail",
+    })
+    expect(discovery.map((result) => result.date)).toEqual(["2026-07-06", "2026-07-06", "2026-07-06"])
+    expect(discovery[0].steps).toEqual([
+      "30 day(s) after Monday 2026-06-01: Wednesday 2026-07-01",
+      "3 day(s) added for service by mail: Saturday 2026-07-04",
+      "Saturday 2026-07-04 is a Saturday; moved to Sunday 2026-07-05",
+      "Sunday 2026-07-05 is a Sunday; moved to Monday 2026-07-06",
+    ])
+
+    // Counted backward from trial, a Saturday moves to the Friday before
+    const [disclosures] = Deadline.calculate(Deadline.FRCP, { event: "trial", date: "2026-12-07" })
+    expect(disclosures.date).toBe("2026-11-06")
+
+    expect(() => Deadline.calculate(Deadline.FRCP, { event: "answer", date: "2026-05-04", service: "fax" })).toThrow(
+      "Unknown service method",
+    )
+  })
+
+  test("observes weekend holidays on the nearest weekday", () => {
+    const federal = { federal_holidays: true, holidays: [] }
+    expect(Deadline.holidays(federal, 2026).get("2026-07-03")).toBe("Independence Day")
+    // January 1, 2022 was a Saturday
+    expect(Deadline.holidays(federal, 2021).get("2021-12-31")).toBe("New Year's Day")
+    expect(Deadline.holidays(federal, 2022).has("2022-01-01")).toBe(false)
+    expect(Deadline.holidays(federal, 2020).has("2020-06-19")).toBe(false)
+    expect(Deadline.closed(federal, "2026-11-26")).toBe("a legal holiday (Thanksgiving Day)")
+    expect(Deadline.closed(federal, "2026-11-27")).toBeUndefined()
+  })
+
+  test("loads rule sets from deadline/ in the config directories", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      init: async (dir) => {
+        await Bun.write(path.join(dir, ".opencode", "deadline", "california.yaml"), CALIFORNIA)
+        await Bun.write(
+          path.join(dir, ".opencode", "deadline", "sdny.json"),
+          JSON.stringify({
+            jurisdiction: "s.d.n.y.",
+            extends: "frcp",
+            rules: [{ id: "answer", name: "Answer (local)", trigger: "service_of_summons", days: 21 }],
+          }),
+        )
+      },
+    })
+
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        expect((await Deadline.get())?.name).toBe("frcp")
+
+        const california = (await Deadline.get("CA"))!
+        expect(california.name).toBe("california")
+        expect(Deadline.closed(california, "2026-11-27")).toBe("a legal holiday (Day after Thanksgiving)")
+        // Nine court days before a Friday hearing, skipping Cesar Chavez Day
+        const [opposition] = Deadline.calculate(california, { event: "hearing", date: "2026-04-10" })
+        expect(opposition.date).toBe("2026-03-27")
+
+        const sdny = (await Deadline.get("s.d.n.y."))!
+        expect(sdny.service.mail).toBe(3)
+        expect(sdny.rules.filter((rule) => rule.id === "answer").map((rule) => rule.name)).toEqual(["Answer (local)"])
+        expect(sdny.rules.length).toBe(Deadline.FRCP.rules.length)
+      },
+    })
+  })
+
+  test("exports deadlines as all-day calendar events", () => {
+    const results = Deadline.calculate(Deadline.FRCP, {
+      event: "entry_of_judgment",
+      date: "2026-03-02",
+    })
+    const ics = Deadline.ics(results, { matter: "2024-0117", now: Date.UTC(2026, 2, 2) })
+    const lines = ics.split("\r\n")
+    expect(lines[0]).toBe("BEGIN:VCALENDAR")
+    expect(lines.filter((line) => line === "BEGIN:VEVENT")).toHaveLength(results.length)
+    expect(lines).toContain("DTSTAMP:20260302T000000Z")
+    expect(lines).toContain("DTSTART;VALUE=DATE:20260401")
+    expect(lines).toContain("DTEND;VALUE=DATE:20260402")
+    expect(lines).toContain("SUMMARY:2024-0117: Notice of appeal")
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true)
+    expect(ics.replace(/\r\n /g, "")).toContain("Fed. R. App. P. 4(a)(1)(A)\\nTrigger: entry_of_judgment on 2026-03-02")
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, expect, test } from "bun:test"
+import { Docx } from "../../src/extract/docx"
+import { Xlsx } from "../../src/extract/xlsx"
+import { Email } from "../../src/extract/email"
+import { Rtf } from "../../src/extract/rtf"
+
+describe("extract.docx", () => {
+  test("keeps headings, lists, tables and tracked changes", () => {
+    const xml = [
+      "<w:document><w:body>",
+      '<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Master Services Agreement</w:t></w:r></w:p>',
+      '<w:p><w:r><w:t xml:space="preserve">The fee is </w:t></w:r>',
+      '<w:del w:author="Jane Roe"><w:r><w:delText>$5,000</w:delText></w:r></w:del>',
+      '<w:ins w:author="John Doe"><w:r><w:t>$7,500</w:t></w:r></w:ins>',
+      '<w:r><w:commentReference w:id="0"/></w:r></w:p>',
+      '<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/></w:numPr></w:pPr><w:r><w:t>Fees &amp; expenses</w:t></w:r></w:p>',
+      "<w:tbl>",
+      "<w:tr><w:tc><w:p><w:r><w:t>Party</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Role</w:t></w:r></w:p></w:tc></w:tr>",
+      "<w:tr><w:tc><w:p><w:r><w:t>Acme</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Client</w:t></w:r></w:p></w:tc></w:tr>",
+      "</w:tbl>",
+      "</w:body></w:document>",
+    ].join("")
+    expect(Docx.paragraphs(xml)).toEqual([
+      "# Master Services Agreement",
+      "The fee is [Deleted by Jane Roe: $5,000][Inserted by John Doe: $7,500][Comment 0]",
+      "- Fees & expenses",
+      "| Party | Role |",
+      "| --- | --- |",
+      "| Acme | Client |",
+    ])
+  })
+
+  test("reads comments", () => {
+    const xml =
+      '<w:comments><w:comment w:id="0" w:author="Jane Roe" w:date="2024-03-01T10:00:00Z">' +
+      "<w:p><w:r><w:t>Confirm with client</w:t></w:r></w:p></w:comment></w:comments>"
+    expect(Docx.comments(xml)).toEqual([
+      { id: "0", author: "Jane Roe", date: "2024-03-01", text: "Confirm with client" },
+    ])
+  })
+})
+
+describe("extract.xlsx", () => {
+  test("resolves shared strings, booleans and dates by column", () => {
+    const xml = [
+      "<worksheet><sheetData>",
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>Hours</t></is></c></row>',
+      '<row r="2"><c r="A2" s="1"><v>45292</v></c><c r="B2" t="b"><v>1</v></c><c r="C2"><f>1+2.5</f><v>3.5</v></c></row>',
+      "</sheetData></worksheet>",
+    ].join("")
+    expect(Xlsx.rows(xml, ["Date"], [false, true])).toEqual([
+      ["Date", "", "Hours"],
+      ["2024-01-01", "TRUE", "3.5"],
+    ])
+  })
+
+  test("column and date conversions", () => {
+    expect(Xlsx.column("A1")).toBe(0)
+    expect(Xlsx.column("AA12")).toBe(26)
+    expect(Xlsx.date(45292.5)).toBe("2024-01-01 12:00:00")
+  })
+})
+
+describe("extract.email", () => {
+  test("parses a multipart message with encoded headers and attachments", () => {
+    const raw = [
+      "From: =?UTF-8?B?SsO8cmdlbg==?= <j@example.com>",
+      "To: counsel@example.com",
+      "Subject: =?ISO-8859-1?Q?Re:_Settlement_r=E9sum=E9?=",
+      "  draft",
+      "Date: Mon, 4 Mar 2024 10:00:00 +0000",
+      'Content-Type: multipart/mixed; boundary="outer"',
+      "",
+      "--outer",
+      'Content-Type: multipart/alternative; boundary="inner"',
+      "",
+      "--inner",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: quoted-printable",
+      "",
+      "Please see the attached draft =E2=80=94 thanks.",
+      "--inner",
+      "Content-Type: text/html",
+      "",
+      "<p>Please see the attached draft</p>",
+      "--inner--",
+      "--outer",
+      'Content-Type: application/pdf; name="draft.pdf"',
+      "Content-Disposition: attachment; filename*=UTF-8''Settlement%20draft.pdf",
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from("x".repeat(2048)).toString("base64"),
+      "--outer--",
+      "",
+    ].join("\r\n")
+    expect(Email.format(Email.eml(raw))).toBe(
+      [
+        "From: Jürgen <j@example.com>",
+        "To: counsel@example.com",
+        "Date: Mon, 4 Mar 2024 10:00:00 +0000",
+        "Subject: Re: Settlement résumé draft",
+        "Attachments:",
+        "- Settlement draft.pdf (application/pdf, 2.0 KB)",
+        "",
+        "Please see the attached draft — thanks.",
+      ].join("\n"),
+    )
+  })
+})
+
+describe("extract.rtf", () => {
+  test("drops formatting and destinations and decodes escapes", () => {
+    const rtf = String.raw`{\rtf1\ansi\uc1{\fonttbl{\f0 Times;}}{\*\generator Word;}{\info{\title Memo}}\pard\b Privileged\b0\par The parties\rquote  agreement \'93as is\'94\u8212?final.\par\trowd\cellx1000 A\cell B\cell\row}`
+    expect(Rtf.text(rtf)).toBe("Privileged\nThe parties’ agreement “as is”—final.\nA | B")
+  })
+})
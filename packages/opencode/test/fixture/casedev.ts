@@ -0,0 +1,24 @@
+import { afterAll, beforeAll } from "bun:test"
+import { CaseDevEmulator } from "../../src/tool/casedev/emulator"
+
+// Points the Case.dev client at an emulator for the tests in the calling file and restores the environment after
+export function emulate(fixtures?: CaseDevEmulator.Fixtures) {
+  const env = { url: process.env.CASEDEV_API_URL, key: process.env.CASEDEV_API_KEY }
+  let server: CaseDevEmulator.Server | undefined
+
+  beforeAll(() => {
+    server = CaseDevEmulator.start({ fixtures })
+    process.env.CASEDEV_API_URL = server.url
+    process.env.CASEDEV_API_KEY = "test-key"
+  })
+
+  afterAll(async () => {
+    await server?.stop()
+    if (env.url === undefined) delete process.env.CASEDEV_API_URL
+    else process.env.CASEDEV_API_URL = env.url
+    if (env.key === undefined) delete process.env.CASEDEV_API_KEY
+    else process.env.CASEDEV_API_KEY = env.key
+  })
+
+  return () => server!
+}
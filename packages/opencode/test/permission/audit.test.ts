@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test"
+import { Permission } from "../../src/permission"
+import { PermissionAudit } from "../../src/permission/audit"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+const request = (sessionID: string, pattern: string) => ({
+  type: "bash",
+  pattern,
+  sessionID,
+  messageID: "msg_test",
+  callID: "call_test",
+  title: `Run ${pattern}`,
+  metadata: { command: pattern, content: "x".repeat(1000), lines: 2 },
+})
+
+// Answers each pending request as soon as it is asked
+async function answer(sessionID: string, response: Permission.Response) {
+  while (Object.keys(Permission.pending()[sessionID] ?? {}).length === 0) await Bun.sleep(1)
+  for (const id of Object.keys(Permission.pending()[sessionID]))
+    Permission.respond({ sessionID, permissionID: id, response })
+}
+
+describe("permission.audit", () => {
+  test("records who decided each request", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const sessionID = "ses_audit_" + Math.random().toString(36).slice(2)
+        await Promise.all([Permission.ask(request(sessionID, "ls")), answer(sessionID, "always")])
+        await Permission.ask(request(sessionID, "ls"))
+        const rejected = Permission.ask(request(sessionID, "rm -rf build")).catch((e) => e)
+        await answer(sessionID, "reject")
+        expect(await rejected).toBeInstanceOf(Permission.RejectedError)
+        await Bun.sleep(10)
+
+        const entries = await PermissionAudit.list(Instance.project.id, { sessionID })
+        expect(entries.map((entry) => [entry.decision, entry.response, entry.by])).toEqual([
+          ["allow", "always", "user"],
+          ["allow", undefined, "session"],
+          ["deny", "reject", "user"],
+        ])
+        expect(entries[0].user).toBeTruthy()
+        expect(entries[0].metadata).toMatchObject({ command: "ls", lines: 2 })
+        expect(String(entries[0].metadata.content).length).toBeLessThan(300)
+
+        const csv = PermissionAudit.csv(entries).trim().split("\n")
+        expect(csv).toHaveLength(4)
+        expect(csv[3]).toContain(",bash,rm -rf build,Run rm -rf build,deny,reject,user,")
+      },
+    })
+  })
+
+  test("saved rules allow matching requests in new sessions", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const rule = await Permission.allow({ type: "bash", pattern: ["git status*"] })
+        const sessionID = "ses_rule_" + Math.random().toString(36).slice(2)
+        await Permission.ask(request(sessionID, "git status --short"))
+        const [entry] = await PermissionAudit.list(Instance.project.id, { sessionID })
+        expect(entry).toMatchObject({ decision: "allow", by: "rule", ruleID: rule.id })
+
+        await Permission.revoke(rule.id)
+        expect(await Permission.rules()).toEqual([])
+        const pending = Permission.ask(request(sessionID, "git status"))
+        await answer(sessionID, "once")
+        await pending
+      },
+    })
+  })
+})
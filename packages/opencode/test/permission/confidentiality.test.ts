@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test"
+import { Permission } from "../../src/permission"
+import { Confidentiality } from "../../src/permission/confidentiality"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+
+const policy = (action: Confidentiality.Policy["action"]): Confidentiality.Policy => ({
+  terms: ["Acme Holdings", "2:24-cv-01234"],
+  action,
+  tools: ["webfetch", "websearch", "docs_*"],
+})
+
+const call = (action: Confidentiality.Policy["action"], tool: string, args: Record<string, any>) => ({
+  policy: policy(action),
+  tool,
+  args,
+  sessionID: "ses_confidentiality_" + Math.random().toString(36).slice(2),
+  messageID: "msg_test",
+  callID: "call_test",
+})
+
+describe("permission.confidentiality", () => {
+  test("finds and scrubs terms in nested arguments and URLs", () => {
+    const args = {
+      query: "acme holdings motion to dismiss",
+      urls: ["https://example.com/search?q=Acme+Holdings&case=2:24-cv-01234"],
+      limit: 5,
+    }
+    expect(Confidentiality.find(args, policy("scrub").terms)).toEqual(["Acme Holdings", "2:24-cv-01234"])
+    expect(Confidentiality.find({ query: "Acmeholdings" }, policy("scrub").terms)).toEqual([])
+    expect(Confidentiality.scrub(args, policy("scrub").terms)).toEqual({
+      query: "[REDACTED] motion to dismiss",
+      urls: ["https://example.com/search?q=[REDACTED]&case=[REDACTED]"],
+      limit: 5,
+    })
+  })
+
+  test("blocks, scrubs or passes outbound calls", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const blocked = await Confidentiality.guard(call("block", "websearch", { query: "Acme Holdings" })).catch(
+          (e) => e,
+        )
+        // A block goes back to the model as a tool error rather than stopping the session like a rejection
+        expect(blocked).toBeInstanceOf(Confidentiality.BlockedError)
+        expect(blocked).not.toBeInstanceOf(Permission.RejectedError)
+        expect(blocked.message).toContain("rephrase the request")
+        expect(blocked.metadata.confidentiality).toEqual({
+          action: "block",
+          terms: ["Acme Holdings"],
+          outcome: "blocked",
+        })
+
+        const scrubbed = await Confidentiality.guard(call("scrub", "docs_search", { query: "Acme Holdings merger" }))
+        expect(scrubbed.args).toEqual({ query: "[REDACTED] merger" })
+        expect(scrubbed.metadata.confidentiality?.outcome).toBe("scrubbed")
+
+        const clear = await Confidentiality.guard(call("block", "webfetch", { url: "https://example.com" }))
+        expect(clear.metadata.confidentiality?.outcome).toBe("clear")
+
+        const local = await Confidentiality.guard(call("block", "read", { filePath: "Acme Holdings.docx" }))
+        expect(local).toEqual({ args: { filePath: "Acme Holdings.docx" }, metadata: {} })
+      },
+    })
+  })
+
+  test("asks before sending terms and records the answer", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const input = call("ask", "websearch", { query: "Acme Holdings" })
+        const result = Confidentiality.guard(input).catch((e) => e)
+        while (Object.keys(Permission.pending()[input.sessionID] ?? {}).length === 0) await Bun.sleep(1)
+        const [{ info: request }] = Object.values(Permission.pending()[input.sessionID])
+        expect(request.type).toBe("confidentiality")
+        expect(request.pattern).toEqual(["websearch:Acme Holdings"])
+        Permission.respond({ sessionID: input.sessionID, permissionID: request.id, response: "reject" })
+        const rejected = await result
+        expect(rejected).toBeInstanceOf(Permission.RejectedError)
+        expect(rejected.metadata.confidentiality.outcome).toBe("rejected")
+      },
+    })
+  })
+})
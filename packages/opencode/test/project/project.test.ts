@@ -39,6 +39,65 @@ describe("Project.fromDirectory", () => {
     const fileExists = await Bun.file(opencodeFile).exists()
     expect(fileExists).toBe(true)
   })
+
+  test("should use a matter marker for a folder that is not a git repository", async () => {
+    await using tmp = await tmpdir({
+      init: async (dir) => {
+        await Bun.write(
+          path.join(dir, ".thurgood", "matter.json"),
+          JSON.stringify({ id: "2024/0113", client: "Acme Corp", caption: "Acme Corp v. Widget Co." }),
+        )
+        await Bun.write(path.join(dir, "pleadings", "complaint.md"), "# Complaint")
+      },
+    })
+
+    const project = await Project.fromDirectory(path.join(tmp.path, "pleadings"))
+
+    expect(project.id).toStartWith("matter_2024-0113_")
+    expect(project.worktree).toBe(tmp.path)
+    expect(project.vcs).toBeUndefined()
+    expect(project.matter).toEqual({
+      id: "2024/0113",
+      client: "Acme Corp",
+      caption: "Acme Corp v. Widget Co.",
+      vaults: [],
+      parties: [],
+      conflicts_cleared: false,
+    })
+  })
+
+  test("should keep matters apart whose IDs differ only in separators", async () => {
+    await using tmp = await tmpdir()
+    const slash = path.join(tmp.path, "slash")
+    const dash = path.join(tmp.path, "dash")
+    await Bun.write(path.join(slash, ".thurgood", "matter.json"), JSON.stringify({ id: "2024/0113" }))
+    await Bun.write(path.join(dash, ".thurgood", "matter.json"), JSON.stringify({ id: "2024-0113" }))
+
+    const a = await Project.fromDirectory(slash)
+    const b = await Project.fromDirectory(dash)
+
+    expect(a.id).not.toBe(b.id)
+    expect((await Project.fromDirectory(slash)).id).toBe(a.id)
+  })
+
+  test("should prefer a matter marker nearer than the git repository", async () => {
+    await using tmp = await tmpdir({ git: true })
+    const matter = path.join(tmp.path, "matters", "smith")
+    await Bun.write(path.join(matter, ".thurgood", "matter.json"), JSON.stringify({ id: "smith" }))
+
+    expect((await Project.fromDirectory(matter)).id).toStartWith("matter_smith_")
+    expect((await Project.fromDirectory(tmp.path)).vcs).toBe("git")
+  })
+
+  test("should ignore an invalid matter marker", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Bun.write(path.join(tmp.path, ".thurgood", "matter.json"), JSON.stringify({ caption: "No ID" }))
+
+    const project = await Project.fromDirectory(tmp.path)
+
+    expect(project.id).not.toStartWith("matter_")
+    expect(project.vcs).toBe("git")
+  })
 })
 
 describe("Project.discover", () => {
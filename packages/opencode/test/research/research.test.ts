@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test"
+import { Instance } from "../../src/project/instance"
+import { Research } from "../../src/research"
+import { tmpdir } from "../fixture/fixture"
+
+describe("research", () => {
+  test("saves research and finds it again by query", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const pleading = await Research.save({
+          sessionID: "ses_first",
+          tool: "casedev_search",
+          query: "motion to dismiss pleading standard",
+          mode: "normal",
+          summary: "A complaint must state a plausible claim for relief.",
+          sources: [
+            {
+              title: "Bell Atlantic Corp. v. Twombly",
+              url: "https://supreme.justia.com/cases/federal/us/550/544/",
+              snippet:
+                "Factual allegations must be enough to raise a right to relief above the speculative level. ".repeat(5),
+            },
+          ],
+        })
+        const deposition = await Research.save({
+          sessionID: "ses_second",
+          tool: "casedev_vault_search",
+          query: "who signed the lease",
+          mode: "hybrid",
+          vaultID: "vault_1",
+          summary: "The lease was signed by the landlord's agent; the complaint says it was never signed.",
+          sources: [{ title: "Lease.pdf, p. 4", objectId: "obj_1" }],
+        })
+
+        expect(pleading.id).toStartWith("res_")
+        expect(pleading.sources[0].snippet!.length).toBeLessThanOrEqual(300)
+
+        const all = await Research.list(Instance.project.id)
+        expect(all.map((item) => item.id)).toEqual([deposition.id, pleading.id])
+
+        // A word in the original query ranks above a word in the summary, even for older research
+        const ranked = await Research.list(Instance.project.id, { query: "Standard agent" })
+        expect(ranked.map((item) => item.id)).toEqual([pleading.id, deposition.id])
+        const plausible = await Research.list(Instance.project.id, { query: "plausible pleading" })
+        expect(plausible.map((item) => item.id)).toEqual([pleading.id])
+        const vault = await Research.list(Instance.project.id, { tool: "casedev_vault_search" })
+        expect(vault.map((item) => item.id)).toEqual([deposition.id])
+
+        const text = Research.format(await Research.get(pleading.id))
+        expect(text).toContain("Query: motion to dismiss pleading standard")
+        expect(text).toContain(
+          "[1] Bell Atlantic Corp. v. Twombly - https://supreme.justia.com/cases/federal/us/550/544/",
+        )
+
+        await Research.remove(pleading.id)
+        expect((await Research.list(Instance.project.id)).map((item) => item.id)).toEqual([deposition.id])
+        await expect(Research.remove(pleading.id)).rejects.toThrow()
+      },
+    })
+  })
+})
@@ -1,8 +1,11 @@
-import { test, expect } from "bun:test"
+import { test, expect, spyOn } from "bun:test"
 import { $ } from "bun"
+import fs from "fs/promises"
+import os from "os"
 import { Snapshot } from "../../src/snapshot"
 import { Instance } from "../../src/project/instance"
 import { tmpdir } from "../fixture/fixture"
+import { BlobWriter, TextReader, ZipWriter } from "@zip.js/zip.js"
 
 async function bootstrap() {
   return tmpdir({
@@ -937,3 +940,151 @@ test("diffFull with whitespace changes", async () => {
     },
   })
 })
+
+async function matter() {
+  return tmpdir({
+    init: async (dir) => {
+      await Bun.write(`${dir}/.thurgood/matter.json`, JSON.stringify({ id: Math.random().toString(36).slice(2) }))
+      await Bun.write(`${dir}/draft.md`, "Original draft")
+    },
+  })
+}
+
+async function docx(text: string) {
+  const writer = new ZipWriter(new BlobWriter())
+  await writer.add(
+    "word/document.xml",
+    new TextReader(`<w:document><w:body><w:p><w:r><w:t>${text}</w:t></w:r></w:p></w:body></w:document>`),
+  )
+  return new Uint8Array(await (await writer.close()).arrayBuffer())
+}
+
+test("tracks and reverts a matter folder that is not a git repository", async () => {
+  await using tmp = await matter()
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      expect(Instance.project.vcs).toBeUndefined()
+      const before = await Snapshot.track()
+      expect(before).toBeTruthy()
+
+      await Bun.write(`${tmp.path}/draft.md`, "Revised draft")
+      await Bun.write(`${tmp.path}/letter.md`, "New letter")
+
+      const patch = await Snapshot.patch(before!)
+      expect(patch.files.toSorted()).toEqual([`${tmp.path}/draft.md`, `${tmp.path}/letter.md`])
+
+      await Snapshot.revert([patch])
+      expect(await Bun.file(`${tmp.path}/draft.md`).text()).toBe("Original draft")
+      expect(await Bun.file(`${tmp.path}/letter.md`).exists()).toBe(false)
+    },
+  })
+})
+
+test("leaves lock files, dependencies and oversized files out of a folder that is not a git repository", async () => {
+  await using tmp = await matter()
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const before = await Snapshot.track()
+      expect(before).toBeTruthy()
+
+      await Bun.write(`${tmp.path}/~$draft.docx`, "lock")
+      await Bun.write(`${tmp.path}/node_modules/pkg/index.js`, "module.exports = {}")
+      await Bun.write(`${tmp.path}/video [1].mp4`, "")
+      await fs.truncate(`${tmp.path}/video [1].mp4`, Snapshot.MAX_FILE_SIZE + 1)
+      await Bun.write(`${tmp.path}/draft.md`, "Revised draft")
+
+      expect((await Snapshot.patch(before!)).files).toEqual([`${tmp.path}/draft.md`])
+      // Once left out, the file stays out even when another snapshot is taken
+      await Snapshot.track()
+      expect((await Snapshot.patch(before!)).files).toEqual([`${tmp.path}/draft.md`])
+    },
+  })
+})
+
+test("tracks and reverts a plain folder that is neither a git repository nor a matter", async () => {
+  await using tmp = await tmpdir({
+    init: async (dir) => {
+      await Bun.write(`${dir}/notes.md`, "Original notes")
+    },
+  })
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      expect(Instance.project.id).toBe("global")
+      expect(Instance.project.vcs).toBeUndefined()
+      const before = await Snapshot.track()
+      expect(before).toBeTruthy()
+
+      await Bun.write(`${tmp.path}/notes.md`, "Revised notes")
+      await Bun.write(`${tmp.path}/memo.md`, "New memo")
+
+      const patch = await Snapshot.patch(before!)
+      expect(patch.files.toSorted()).toEqual([`${tmp.path}/memo.md`, `${tmp.path}/notes.md`])
+
+      await Snapshot.revert([patch])
+      expect(await Bun.file(`${tmp.path}/notes.md`).text()).toBe("Original notes")
+      expect(await Bun.file(`${tmp.path}/memo.md`).exists()).toBe(false)
+    },
+  })
+})
+
+test("does not snapshot a home folder that is not a git repository", async () => {
+  await using tmp = await tmpdir({
+    init: async (dir) => {
+      await Bun.write(`${dir}/notes.md`, "Notes")
+    },
+  })
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const homedir = spyOn(os, "homedir").mockReturnValue(tmp.path)
+      try {
+        expect(await Snapshot.track()).toBeUndefined()
+      } finally {
+        homedir.mockRestore()
+      }
+      expect(await Snapshot.track()).toBeTruthy()
+    },
+  })
+})
+
+test("does not snapshot a folder with more files than MAX_FILES", async () => {
+  await using tmp = await matter()
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      expect(await Snapshot.track()).toBeTruthy()
+
+      await fs.mkdir(`${tmp.path}/exports`)
+      for (let i = 0; i < Snapshot.MAX_FILES; i++) await fs.writeFile(`${tmp.path}/exports/${i}.txt`, "")
+      expect(await Snapshot.track()).toBeUndefined()
+    },
+  })
+}, 60_000)
+
+test("diffFull compares DOCX drafts on their text", async () => {
+  await using tmp = await matter()
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      await Bun.write(`${tmp.path}/agreement.docx`, await docx("The fee is $5,000."))
+      const before = await Snapshot.track()
+
+      await Bun.write(`${tmp.path}/agreement.docx`, await docx("The fee is $7,500."))
+      const after = await Snapshot.track()
+
+      const diffs = await Snapshot.diffFull(before!, after!)
+      expect(diffs).toEqual([
+        {
+          file: "agreement.docx",
+          before: "The fee is $5,000.",
+          after: "The fee is $7,500.",
+          additions: 1,
+          deletions: 1,
+        },
+      ])
+    },
+  })
+})
@@ -0,0 +1,194 @@
+import { test, expect } from "bun:test"
+import { Template } from "../../src/template"
+import { Instance } from "../../src/project/instance"
+import { tmpdir } from "../fixture/fixture"
+import path from "path"
+
+const MOTION = `---
+name: motion-to-compel
+description: Motion to compel discovery responses under FRCP 37.
+format: docx
+variables:
+  - court
+  - plaintiff
+  - defendant
+  - name: case_number
+    description: Civil action number
+  - name: hearing_date
+    required: false
+caption: |
+  # {{court}}
+
+  {{plaintiff}} v. {{defendant}}, No. {{case_number}}
+signature: |
+  Respectfully submitted,
+
+  /s/ {{attorney}}
+---
+
+## Motion to Compel
+
+{{content}}
+
+Hearing: {{hearing_date}}
+`
+
+test("discovers templates from .opencode/template/ directory", async () => {
+  await using tmp = await tmpdir({
+    git: true,
+    init: async (dir) => {
+      await Bun.write(path.join(dir, ".opencode", "template", "litigation", "motion-to-compel.md"), MOTION)
+    },
+  })
+
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const templates = await Template.all()
+      expect(templates.length).toBe(1)
+      expect(templates[0].name).toBe("motion-to-compel")
+      expect(templates[0].format).toBe("docx")
+      expect(templates[0].variables.map((v) => v.name)).toEqual([
+        "court",
+        "plaintiff",
+        "defendant",
+        "case_number",
+        "hearing_date",
+      ])
+      expect(templates[0].location).toContain("template/litigation/motion-to-compel.md")
+    },
+  })
+})
+
+test("names templates by filename when frontmatter has no name", async () => {
+  await using tmp = await tmpdir({
+    git: true,
+    init: async (dir) => {
+      await Bun.write(path.join(dir, ".opencode", "template", "engagement-letter.md"), `# Engagement Letter\n`)
+    },
+  })
+
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const template = await Template.get("engagement-letter")
+      expect(template?.format).toBe("pdf")
+      expect(template?.variables).toEqual([])
+    },
+  })
+})
+
+test("render reports missing required variables", async () => {
+  await using tmp = await tmpdir({
+    git: true,
+    init: async (dir) => {
+      await Bun.write(path.join(dir, ".opencode", "template", "motion-to-compel.md"), MOTION)
+    },
+  })
+
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const template = (await Template.get("motion-to-compel"))!
+      expect(Template.missing(template, { court: "N.D. Cal.", plaintiff: "Acme" })).toEqual([
+        "defendant",
+        "case_number",
+      ])
+      expect(() => Template.render(template, {})).toThrow()
+    },
+  })
+})
+
+test("render assembles caption, body and signature", async () => {
+  await using tmp = await tmpdir({
+    git: true,
+    init: async (dir) => {
+      await Bun.write(path.join(dir, ".opencode", "template", "motion-to-compel.md"), MOTION)
+    },
+  })
+
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const template = (await Template.get("motion-to-compel"))!
+      const result = Template.render(template, {
+        court: "United States District Court",
+        plaintiff: "Acme Corp.",
+        defendant: "Widget LLC",
+        case_number: "3:24-cv-01234",
+        content: "Defendant has not answered the interrogatories.",
+      })
+      expect(result.content).toStartWith(
+        "# United States District Court\n\nAcme Corp. v. Widget LLC, No. 3:24-cv-01234",
+      )
+      expect(result.content).toContain("Defendant has not answered the interrogatories.")
+      expect(result.content).toContain("Hearing: \n")
+      expect(result.content).toEndWith("/s/ {{attorney}}")
+      expect(result.unknown).toEqual(["attorney"])
+    },
+  })
+})
+
+test("render appends content to a template without a content slot", async () => {
+  await using tmp = await tmpdir({
+    git: true,
+    init: async (dir) => {
+      await Bun.write(
+        path.join(dir, ".opencode", "template", "cover-letter.md"),
+        `---
+signature: |
+  Sincerely,
+---
+
+Enclosed please find the documents responsive to your request.
+`,
+      )
+    },
+  })
+
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const template = (await Template.get("cover-letter"))!
+      const result = Template.render(template, { content: "Production volume 3 follows under separate cover." })
+      expect(result.content).toBe(
+        "Enclosed please find the documents responsive to your request.\n\nProduction volume 3 follows under separate cover.\n\nSincerely,",
+      )
+      expect(Template.render(template, {}).content).not.toContain("{{content}}")
+    },
+  })
+})
+
+test("render keeps dollar signs in captions and signatures", async () => {
+  await using tmp = await tmpdir({
+    git: true,
+    init: async (dir) => {
+      await Bun.write(
+        path.join(dir, ".opencode", "template", "fee-demand.md"),
+        `---
+caption: |
+  Demand for $&500 in fees
+signature: |
+  Costs: $' and $$
+---
+
+{{caption}}
+
+Payment is due within 30 days.
+
+{{signature}}
+`,
+      )
+    },
+  })
+
+  await Instance.provide({
+    directory: tmp.path,
+    fn: async () => {
+      const template = (await Template.get("fee-demand"))!
+      expect(Template.render(template, {}).content).toBe(
+        "Demand for $&500 in fees\n\nPayment is due within 30 days.\n\nCosts: $' and $$",
+      )
+    },
+  })
+})
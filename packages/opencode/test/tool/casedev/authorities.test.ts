@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { TableOfAuthorities } from "../../../src/tool/casedev/authorities"
+import { FormatDocumentTool } from "../../../src/tool/casedev/format"
+import { Instance } from "../../../src/project/instance"
+import { tmpdir } from "../../fixture/fixture"
+
+const ctx = {
+  sessionID: "test",
+  messageID: "",
+  callID: "",
+  agent: "legal",
+  abort: AbortSignal.any([]),
+  metadata: () => {},
+}
+
+describe("tool.casedev.authorities", () => {
+  test("groups and sorts authorities at the placeholder", () => {
+    const result = TableOfAuthorities.build(
+      [
+        "# Motion to Dismiss",
+        "",
+        "{{table_of_authorities}}",
+        "",
+        "Under Fed. R. Civ. P. 12(b)(6), see *Roe v. Wade*, 410 U.S. 113 (1973), and 42 U.S.C. § 1983.",
+        "See Bell Atl. Corp. v. Twombly, 550 U.S. 544, 570 (2007).",
+      ].join("\n"),
+    )
+    expect(result.authorities.map((a) => a.category)).toEqual(["rules", "cases", "statutes", "cases"])
+    expect(result.content).toStartWith("# Motion to Dismiss\n\n## Table of Authorities")
+    expect(result.content).not.toContain(TableOfAuthorities.PLACEHOLDER)
+
+    const cases = result.content.slice(result.content.indexOf("### Cases"), result.content.indexOf("### Statutes"))
+    expect(cases.indexOf("Bell Atl. Corp. v. Twombly")).toBeLessThan(cases.indexOf("Roe v. Wade"))
+    expect(result.content).toContain(`| *Roe v. Wade*, 410 U.S. 113 (1973) | [1](#toa-2) |`)
+    expect(result.content).toContain(`<a id="toa-2"></a>410 U.S. 113`)
+    expect(result.content).toContain(`| Authority | Page(s)\\* |`)
+    expect(result.content).toContain(`\\* ${TableOfAuthorities.ESTIMATED}`)
+  })
+
+  test("counts short forms and Id. toward the full citation on later pages", () => {
+    const result = TableOfAuthorities.build(
+      [
+        "Smith v. Jones, 123 F.3d 456 (9th Cir. 1999).",
+        "\\newpage",
+        "Id. at 460.",
+        "\\newpage",
+        "123 F.3d at 470.",
+      ].join("\n"),
+    )
+    expect(result.authorities).toHaveLength(1)
+    expect(result.authorities[0].pages).toEqual([1, 2, 3])
+  })
+
+  test("paginate estimates pages from word count", () => {
+    const text = Array.from({ length: TableOfAuthorities.WORDS_PER_PAGE * 2 + 1 }, () => "word").join(" ")
+    const page = TableOfAuthorities.paginate(text)
+    expect(page(0)).toBe(1)
+    expect(page(text.length - 1)).toBe(3)
+  })
+
+  test("the placeholder is dropped when no table is asked for", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const tool = await FormatDocumentTool.init()
+        const save_to = path.join(tmp.path, "brief.html")
+        await tool.execute(
+          {
+            content: "# Brief\n\n{{table_of_authorities}}\n\nSee 42 U.S.C. § 1983.",
+            output_format: "html_preview",
+            save_to,
+            local: true,
+          },
+          ctx,
+        )
+        const html = await Bun.file(save_to).text()
+        expect(html).toContain("42 U.S.C. § 1983")
+        expect(html).not.toContain("table_of_authorities")
+      },
+    })
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test"
+import { Citation } from "../../../src/tool/casedev/citation"
+
+describe("tool.casedev.citation", () => {
+  test("parses a full case citation with name, pincite and court", () => {
+    const [citation] = Citation.extract("See Smith v. Jones, 123 F.3d 456, 460 (9th Cir. 1999).")
+    expect(citation).toMatchObject({
+      type: "case",
+      caseName: "Smith v. Jones",
+      volume: 123,
+      reporter: "F.3d",
+      page: 456,
+      pincite: "460",
+      court: "9th Cir.",
+      year: 1999,
+      normalized: "Smith v. Jones, 123 F.3d 456, 460 (9th Cir. 1999)",
+      issues: [],
+    })
+    expect(citation.span.line).toBe(1)
+  })
+
+  test("links parallel citations, short forms and Id. to the full citation", () => {
+    const text = [
+      "*Roe v. Wade*, 410 U.S. 113, 93 S. Ct. 705 (1973).",
+      "Id. at 120.",
+      "The Court later noted the point. 410 U.S. at 150.",
+    ].join("\n")
+    const citations = Citation.extract(text)
+    expect(citations.map((c) => c.type)).toEqual(["case", "case", "id", "short"])
+    expect(citations[0].year).toBe(1973)
+    expect(citations[1].parallel).toBe(true)
+    expect(citations[3].span.line).toBe(3)
+    expect(Citation.resolve(citations, 3)?.normalized).toBe("Roe v. Wade, 410 U.S. 113")
+    expect(Citation.flagged(citations)).toHaveLength(0)
+  })
+
+  test("normalizes statutes and regulations", () => {
+    const citations = Citation.extract("Claims under 42 U.S.C. § 1983 and 29 CFR 1630.2(g).")
+    expect(citations.map((c) => c.normalized)).toEqual(["42 U.S.C. § 1983", "29 C.F.R. § 1630.2(g)"])
+    expect(citations[1].issues).toContain(`write the code as "C.F.R."`)
+  })
+
+  test("flags malformed and unsupported citations", () => {
+    const citations = Citation.extract(
+      [
+        "Id. at 4.",
+        "Doe v. Roe, 55 F.Supp.2d 10 (2005).",
+        "Foo v. Bar, 5 F.4th 10 (9th Cir. 1990).",
+        "999 U.S. at 4.",
+      ].join("\n"),
+    )
+    expect(citations[0].issues).toEqual(["Id. with no preceding citation"])
+    expect(citations[1].issues).toEqual([
+      `write the reporter as "F. Supp. 2d"`,
+      "missing court in the year parenthetical",
+    ])
+    expect(citations[2].issues).toEqual(["F.4th covers 2021–present, not 1990"])
+    expect(citations[3].issues).toEqual(["short form with no earlier full citation to the same authority"])
+  })
+})
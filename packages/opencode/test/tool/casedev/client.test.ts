@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test"
+import { CaseDevClient } from "../../../src/tool/casedev/client"
+import { emulate } from "../../fixture/casedev"
+
+const emulator = emulate({
+  vaults: [{ id: "vault_1", name: "Smith v. Jones" }],
+  errors: [
+    { method: "GET", path: "/vault", status: 429, retry_after: 0 },
+    { path: "/vault/vault_1/ingest/*", status: 503, times: 5 },
+    { path: "/search/v1/research", status: 429, message: "Insufficient credits" },
+    { path: "/voice/transcription/*", status: 429, retry_after: 30 },
+  ],
+})
+
+// The error a request rejects with; requests that succeed fail the test
+const failure = <E = CaseDevClient.Error>(promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error("expected the request to fail")
+    },
+    (error: E) => error,
+  )
+
+const count = (method: string, path: string) =>
+  emulator().state.requests.filter((request) => request.method === method && request.path === path).length
+
+describe("tool.casedev.client", () => {
+  test("retries a rate-limited request after Retry-After", async () => {
+    const response = await CaseDevClient.request<{ vaults: { id: string }[] }>("/vault")
+    expect(response.vaults.map((vault) => vault.id)).toEqual(["vault_1"])
+    expect(count("GET", "/vault")).toBe(2)
+  })
+
+  test("throws typed errors carrying the request ID", async () => {
+    const missing = await failure(CaseDevClient.request("/vault/vault_2/objects"))
+    expect(missing).toBeInstanceOf(CaseDevClient.NotFoundError)
+    expect(missing.data.requestID).toStartWith("req_emu_")
+    expect(missing.message).toContain(`(request ID: ${missing.data.requestID})`)
+
+    // Starting a job twice is not safe, so a failed POST is not retried
+    const ingest = await failure(CaseDevClient.request("/vault/vault_1/ingest/obj_1", { method: "POST" }))
+    expect(CaseDevClient.ServerError.isInstance(ingest)).toBe(true)
+    expect(ingest.data.status).toBe(503)
+    expect(count("POST", "/vault/vault_1/ingest/obj_1")).toBe(1)
+
+    const research = await failure(CaseDevClient.request("/search/v1/research", { method: "POST", idempotent: true }))
+    expect(CaseDevClient.QuotaError.isInstance(research)).toBe(true)
+
+    const unauthorized = await fetch(`${emulator().url}/vault`)
+    expect(CaseDevClient.classify({ status: 401, body: "", endpoint: "/vault" }).name).toBe("CaseDevAuthError")
+    expect(unauthorized.headers.get("x-request-id")).toStartWith("req_emu_")
+  })
+
+  test("backs off only where it is safe to", () => {
+    const data = { message: "Bad gateway", endpoint: "/vault", status: 502 }
+    expect(CaseDevClient.retry(new CaseDevClient.ServerError(data), 1, true)).toBe(2000)
+    expect(CaseDevClient.retry(new CaseDevClient.ServerError(data), 1, false)).toBeUndefined()
+    expect(CaseDevClient.retry(new CaseDevClient.ServerError(data), CaseDevClient.MAX_ATTEMPTS, true)).toBeUndefined()
+    expect(CaseDevClient.retry(new CaseDevClient.RateLimitedError({ ...data, retryAfter: 5000 }), 1, false)).toBe(5000)
+    expect(
+      CaseDevClient.retry(new CaseDevClient.RateLimitedError({ ...data, retryAfter: 3_600_000 }), 1, true),
+    ).toBeUndefined()
+    expect(CaseDevClient.retry(new CaseDevClient.RequestError({ ...data, status: 400 }), 1, true)).toBeUndefined()
+  })
+
+  test("stops waiting for a rate limit when aborted", async () => {
+    const abort = new AbortController()
+    setTimeout(() => abort.abort(), 50)
+    const started = Date.now()
+    const error = await failure<Error>(CaseDevClient.request("/voice/transcription/tr_1", { signal: abort.signal }))
+    expect(error.name).toBe("AbortError")
+    expect(Date.now() - started).toBeLessThan(5000)
+  })
+
+  test("times out waiting for headers but not while a body downloads", async () => {
+    const server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        if (new URL(request.url).pathname === "/stalled") return Bun.sleep(500).then(() => new Response("late"))
+        return new Response(
+          new ReadableStream({
+            async start(controller) {
+              controller.enqueue(new TextEncoder().encode("first page\f"))
+              await Bun.sleep(300)
+              controller.enqueue(new TextEncoder().encode("second page"))
+              controller.close()
+            },
+          }),
+        )
+      },
+    })
+    process.env.CASEDEV_API_URL = server.url.origin
+    try {
+      const text = await CaseDevClient.request<string>("/slow", { timeout: 100, responseType: "text" })
+      expect(text).toBe("first page\fsecond page")
+
+      const stalled = await failure(CaseDevClient.request("/stalled", { method: "POST", timeout: 100 }))
+      expect(CaseDevClient.UnreachableError.isInstance(stalled)).toBe(true)
+      expect(stalled.message).toContain("timed out after 100ms")
+    } finally {
+      process.env.CASEDEV_API_URL = emulator().url
+      server.stop(true)
+    }
+  })
+})
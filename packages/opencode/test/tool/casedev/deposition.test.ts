@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test"
+import { Deposition } from "../../../src/tool/casedev/deposition"
+
+const UTTERANCES: Deposition.Utterance[] = [
+  {
+    speaker: "A",
+    text: "Please state your full name and address for the record, and spell your last name for the court reporter please.",
+    start: 0,
+    end: 9,
+  },
+  { speaker: "B", text: "John Smith, 12 Main Street.", start: 10, end: 12 },
+  { speaker: "C", text: "Objection, form.", start: 12.5, end: 13.5 },
+]
+const SPEAKERS = { A: "Q", B: "A", C: "Mr. Jones" }
+
+function transcript(lines: Deposition.Line[]): Deposition.Info {
+  return {
+    id: "test",
+    title: "Deposition of John Smith",
+    source: "test",
+    pages: Math.ceil(lines.length / Deposition.LINES_PER_PAGE),
+    lines,
+    path: "/tmp/deposition-test.txt",
+    time: { created: 0 },
+  }
+}
+
+describe("tool.casedev.deposition", () => {
+  test("layout wraps speaker turns with Q./A. and colloquy prefixes", () => {
+    const lines = Deposition.layout(UTTERANCES, SPEAKERS)
+    expect(lines.map((line) => line.text)).toEqual([
+      "Q.    Please state your full name and address for the",
+      "record, and spell your last name for the court reporter",
+      "please.",
+      "A.    John Smith, 12 Main Street.",
+      "MR. JONES: Objection, form.",
+    ])
+    expect(lines.every((line) => line.text.length <= Deposition.LINE_WIDTH)).toBe(true)
+    expect(lines[3]).toMatchObject({ page: 1, line: 4, speaker: "B", start: 10, end: 12 })
+  })
+
+  test("layout numbers 25 lines per page", () => {
+    const utterances = Array.from({ length: 30 }, (_, i) => ({ speaker: "A", text: "Yes.", start: i, end: i + 1 }))
+    const lines = Deposition.layout(utterances, SPEAKERS)
+    expect(lines[24]).toMatchObject({ page: 1, line: 25 })
+    expect(lines[25]).toMatchObject({ page: 2, line: 1 })
+
+    const rendered = Deposition.render("Deposition of John Smith", lines).split("\f")
+    expect(rendered).toHaveLength(2)
+    expect(rendered[1]).toContain("Page 2")
+    expect(rendered[1]).toContain(" 5  Q.    Yes.")
+  })
+
+  test("layout takes line timestamps from word timings", () => {
+    const words = UTTERANCES[0].text.split(" ").map((text, i) => ({ text, start: i * 0.4, end: i * 0.4 + 0.3 }))
+    const lines = Deposition.layout(UTTERANCES.slice(0, 1), SPEAKERS, words)
+    expect(lines[1].start).toBe(words[9].start)
+    expect(lines[0].end).toBe(lines[1].start)
+  })
+
+  test("parse accepts page:line designations", () => {
+    expect(Deposition.parse("45:12-46:3")).toEqual({ from: { page: 45, line: 12 }, to: { page: 46, line: 3 } })
+    expect(Deposition.parse("45:12-20")).toEqual({ from: { page: 45, line: 12 }, to: { page: 45, line: 20 } })
+    expect(Deposition.parse("45:12")).toEqual({ from: { page: 45, line: 12 }, to: { page: 45, line: 12 } })
+    expect(Deposition.parse("page 45")).toBeUndefined()
+    expect(Deposition.format(Deposition.parse("45:12-45:20")!)).toBe("45:12-20")
+  })
+
+  test("excerpt returns designated lines or why the range does not fit", () => {
+    const utterances = Array.from({ length: 30 }, (_, i) => ({
+      speaker: "B",
+      text: `Answer ${i}.`,
+      start: i,
+      end: i + 1,
+    }))
+    const info = transcript(Deposition.layout(utterances, SPEAKERS))
+
+    const lines = Deposition.excerpt(info, Deposition.parse("1:24-2:2")!)
+    expect(Array.isArray(lines) && lines.map((line) => line.text)).toEqual([
+      "A.    Answer 23.",
+      "A.    Answer 24.",
+      "A.    Answer 25.",
+      "A.    Answer 26.",
+    ])
+    expect(Deposition.excerpt(info, Deposition.parse("1:26")!)).toBe("line 26 is outside 1-25")
+    expect(Deposition.excerpt(info, Deposition.parse("3:1")!)).toBe("page 3 is outside 1-2")
+    expect(Deposition.excerpt(info, Deposition.parse("2:3-1:1")!)).toBe("the range ends before it starts")
+    expect(Deposition.excerpt(info, Deposition.parse("2:10")!)).toBe("the range has no testimony")
+  })
+})
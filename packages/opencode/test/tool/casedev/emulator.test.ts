@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { CaseDevEmulator } from "../../../src/tool/casedev/emulator"
+import { CaseDevClient } from "../../../src/tool/casedev/client"
+import {
+  VaultCreateTool,
+  VaultObjectsListTool,
+  VaultSearchTool,
+  VaultUploadTool,
+} from "../../../src/tool/casedev/vault"
+import { OcrDownloadTool, OcrProcessTool, OcrStatusTool } from "../../../src/tool/casedev/ocr"
+import { TranscribeStatusTool, TranscribeTool } from "../../../src/tool/casedev/transcribe"
+import { Instance } from "../../../src/project/instance"
+import { tmpdir } from "../../fixture/fixture"
+import { emulate } from "../../fixture/casedev"
+
+const ctx = {
+  sessionID: "test",
+  messageID: "",
+  callID: "",
+  agent: "legal",
+  abort: AbortSignal.any([]),
+  metadata: () => {},
+}
+
+const emulator = emulate({
+  documents: { "scan.pdf": ["IN THE UNITED STATES DISTRICT COURT", "Plaintiff demands a jury trial."] },
+  transcripts: {
+    "deposition.mp3": {
+      utterances: [
+        { speaker: "A", text: "Please state your name for the record." },
+        { speaker: "B", text: "Peter Gibbons." },
+      ],
+    },
+  },
+  fail: ["corrupt.pdf"],
+})
+
+describe("tool.casedev.emulator", () => {
+  test("uploads through a presigned URL, ingests and searches a vault", async () => {
+    await using tmp = await tmpdir({
+      init: async (dir) => {
+        await Bun.write(
+          path.join(dir, "contract.txt"),
+          "Services Agreement\n\nEither party may terminate this agreement on thirty days written notice.\fPayment is due within 45 days of invoice.",
+        )
+      },
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const create = await VaultCreateTool.init()
+        const upload = await VaultUploadTool.init()
+        const objects = await VaultObjectsListTool.init()
+        const search = await VaultSearchTool.init()
+        const vaultID = (await create.execute({ name: "Smith v. Jones" }, ctx)).metadata.vaultId as string
+        const uploaded = await upload.execute(
+          { vault_id: vaultID, file_path: path.join(tmp.path, "contract.txt") },
+          ctx,
+        )
+        expect(uploaded.output).toContain("Ingestion: started")
+
+        expect((await objects.execute({ vault_id: vaultID }, ctx)).output).toContain("Status: pending")
+        expect((await objects.execute({ vault_id: vaultID }, ctx)).output).toContain("Pages: 2")
+
+        const result = await search.execute({ vault_id: vaultID, query: "terminate on written notice" }, ctx)
+        expect(result.metadata.resultCount).toBe(1)
+        expect(result.output).toContain("Cite as: contract.txt, p. 1")
+        expect(emulator().state.requests.map((request) => `${request.method} ${request.path}`)).toContain(
+          `POST /vault/${vaultID}/ingest/${uploaded.metadata.objectId}`,
+        )
+      },
+    })
+  })
+
+  test("moves OCR and transcription jobs through their lifecycle", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const ocr = await OcrProcessTool.init()
+        const status = await OcrStatusTool.init()
+        const download = await OcrDownloadTool.init()
+        const job = (await ocr.execute({ document_url: "https://example.com/files/scan.pdf" }, ctx)).metadata
+          .jobId as string
+        expect((await status.execute({ job_id: job }, ctx)).metadata.status).toBe("pending")
+        expect((await status.execute({ job_id: job }, ctx)).metadata.status).toBe("completed")
+        expect((await download.execute({ job_id: job }, ctx)).output).toContain("Plaintiff demands a jury trial.")
+
+        const failed = (await ocr.execute({ document_url: "https://example.com/files/corrupt.pdf" }, ctx)).metadata
+          .jobId as string
+        await status.execute({ job_id: failed }, ctx)
+        expect((await status.execute({ job_id: failed }, ctx)).metadata.status).toBe("failed")
+
+        const transcribe = await TranscribeTool.init()
+        const transcript = await TranscribeStatusTool.init()
+        const id = (
+          await transcribe.execute({ audio_url: "https://example.com/audio/deposition.mp3", speaker_labels: true }, ctx)
+        ).metadata.jobId as string
+        expect((await transcript.execute({ job_id: id }, ctx)).metadata.status).toBe("queued")
+        expect((await transcript.execute({ job_id: id }, ctx)).output).toContain("Peter Gibbons.")
+      },
+    })
+  })
+
+  test("rejects requests without an API key", async () => {
+    const response = await fetch(`${emulator().url}/vault`)
+    expect(response.status).toBe(401)
+    expect(await CaseDevClient.baseURL()).toBe(emulator().url)
+  })
+
+  test("renders PDFs whose text layer can be read back", () => {
+    const pdf = CaseDevEmulator.render("MOTION TO DISMISS\nDefendant (Initech) moves to dismiss.")
+    expect(Buffer.from(pdf).toString("latin1")).toStartWith("%PDF-1.4")
+    expect(CaseDevEmulator.pdf(pdf)).toEqual(["MOTION TO DISMISS\nDefendant (Initech) moves to dismiss."])
+  })
+})
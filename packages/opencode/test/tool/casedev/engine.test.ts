@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test"
+import path from "path"
+import { OcrEngine } from "../../../src/tool/casedev/engine"
+import { Instance } from "../../../src/project/instance"
+import { tmpdir } from "../../fixture/fixture"
+
+const TSV = [
+  "level\tpage_num\tblock_num\tpar_num\tline_num\tword_num\tleft\ttop\twidth\theight\tconf\ttext",
+  "1\t1\t0\t0\t0\t0\t0\t0\t2550\t3300\t-1\t",
+  "4\t1\t1\t1\t1\t0\t300\t400\t900\t40\t-1\t",
+  "5\t1\t1\t1\t1\t1\t300\t400\t220\t40\t96.5\tEXHIBIT",
+  "5\t1\t1\t1\t1\t2\t540\t400\t60\t40\t91\t12",
+  "5\t2\t1\t1\t1\t1\t300\t400\t300\t40\t88\tDeclaration",
+].join("\n")
+
+describe("tool.casedev.engine", () => {
+  test("words groups Tesseract TSV words by page", () => {
+    const pages = OcrEngine.words(TSV)
+    expect([...pages.keys()]).toEqual([1, 2])
+    expect(pages.get(1)!.map((w) => w.text)).toEqual(["EXHIBIT", "12"])
+    expect(pages.get(1)![0]).toEqual({
+      text: "EXHIBIT",
+      confidence: 0.965,
+      bbox: { x: 300, y: 400, width: 220, height: 40 },
+    })
+  })
+
+  test("paginate splits on form feeds and drops the trailing one", () => {
+    expect(OcrEngine.paginate("Page one\n\fPage two\n\f")).toEqual(["Page one", "Page two"])
+  })
+
+  test("runs the configured OCR command and stores the result", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      init: async (dir) => {
+        await Bun.write(
+          path.join(dir, "opencode.json"),
+          JSON.stringify({
+            $schema: "https://opencode.ai/config.json",
+            ocr: { command: ["cat", "$FILE"] },
+          }),
+        )
+        await Bun.write(path.join(dir, "scan.png"), "EXHIBIT 12\fDeclaration of Jane Doe\f")
+      },
+    })
+
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const engine = await OcrEngine.resolve()
+        expect(engine?.name).toBe("cat")
+        const result = await OcrEngine.run(engine!, path.join(tmp.path, "scan.png"), new AbortController().signal)
+        expect(result.pages.map((page) => page.text)).toEqual(["EXHIBIT 12", "Declaration of Jane Doe"])
+        expect(result.pdf).toBeUndefined()
+        expect(await OcrEngine.get(result.id)).toEqual(result)
+      },
+    })
+  })
+
+  test("local OCR can be turned off", async () => {
+    await using tmp = await tmpdir({
+      git: true,
+      init: async (dir) => {
+        await Bun.write(
+          path.join(dir, "opencode.json"),
+          JSON.stringify({
+            $schema: "https://opencode.ai/config.json",
+            ocr: { local: false, command: ["cat", "$FILE"] },
+          }),
+        )
+      },
+    })
+
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        expect(await OcrEngine.resolve()).toBeUndefined()
+      },
+    })
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test"
+import { Exhibit } from "../../../src/tool/casedev/exhibit"
+
+const items: Exhibit.Item[] = [
+  {
+    exhibit: "1",
+    description: "Master Services Agreement",
+    source: "/matter/MSA.pdf",
+    file: "/matter/Exhibits/Exhibit 1 - MSA.pdf",
+    pages: 12,
+    begin: "ACME000001",
+    end: "ACME000012",
+  },
+  {
+    exhibit: "2",
+    description: 'Email re "termination", March 3',
+    source: "vault://vault_abc/obj_123",
+    file: "/matter/Exhibits/Exhibit 2 - Email.pdf",
+    pages: 1,
+    begin: "ACME000013",
+    end: "ACME000013",
+  },
+]
+
+describe("tool.casedev.exhibit", () => {
+  test("numbers exhibits and Bates labels", () => {
+    expect(Exhibit.label("ACME", 13)).toBe("ACME000013")
+    expect(Exhibit.label("SMITH-", 7, 4)).toBe("SMITH-0007")
+    expect([0, 1, 25, 26, 27].map((i) => Exhibit.number(i, "letters"))).toEqual(["A", "B", "Z", "AA", "AB"])
+    expect(Exhibit.number(9)).toBe("10")
+  })
+
+  test("stamps each page with its label in the chosen position", () => {
+    const bottom = Exhibit.postscript(["A(1)", "A\\2"])
+    expect(bottom).toContain("/BatesLabels [(A\\(1\\)) (A\\\\2)] def")
+    expect(bottom).toContain("BatesWidth BatesTextWidth sub 36 sub 24 moveto show")
+    expect(Exhibit.postscript(["A1"], "top-center")).toContain("BatesWidth BatesTextWidth sub 2 div BatesHeight 34 sub")
+  })
+
+  test("lists Bates ranges, descriptions and page counts in the index", () => {
+    expect(Exhibit.csv(items).split("\n")).toEqual([
+      "exhibit,description,bates_begin,bates_end,pages,file",
+      "1,Master Services Agreement,ACME000001,ACME000012,12,Exhibit 1 - MSA.pdf",
+      '2,"Email re ""termination"", March 3",ACME000013,ACME000013,1,Exhibit 2 - Email.pdf',
+      "",
+    ])
+    const markdown = Exhibit.markdown(items, "Exhibits to Motion for Summary Judgment")
+    expect(markdown).toContain("# Exhibits to Motion for Summary Judgment")
+    expect(markdown).toContain("| 1 | Master Services Agreement | ACME000001 - ACME000012 | 12 |")
+    expect(markdown).toContain('| 2 | Email re "termination", March 3 | ACME000013 | 1 |')
+    expect(markdown).toContain("2 exhibit(s), 13 page(s)")
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test"
+import { CaseDevJob } from "../../../src/tool/casedev/job"
+import { Instance } from "../../../src/project/instance"
+import { Identifier } from "../../../src/id/id"
+import { Session } from "../../../src/session"
+import { MessageV2 } from "../../../src/session/message-v2"
+import { Storage } from "../../../src/storage/storage"
+import { tmpdir } from "../../fixture/fixture"
+
+async function session() {
+  const info = await Session.create({})
+  await Session.updateMessage({
+    id: Identifier.ascending("message"),
+    role: "user",
+    sessionID: info.id,
+    agent: "legal",
+    model: {
+      providerID: "openai",
+      modelID: "gpt-4",
+    },
+    time: {
+      created: Date.now(),
+    },
+  })
+  return info.id
+}
+
+describe("tool.casedev.job", () => {
+  test("backs off between polls up to the maximum delay", () => {
+    expect(CaseDevJob.delay(0)).toBe(CaseDevJob.POLL_INITIAL_DELAY)
+    expect(CaseDevJob.delay(1)).toBe(CaseDevJob.POLL_INITIAL_DELAY * CaseDevJob.POLL_BACKOFF_FACTOR)
+    expect(CaseDevJob.delay(50)).toBe(CaseDevJob.POLL_MAX_DELAY)
+  })
+
+  test("a followed job stops being followed once it completes", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const { info, signal } = CaseDevJob.follow({
+          sessionID: "ses_follow",
+          kind: "research",
+          remoteID: "research_1",
+          title: "Research: adverse possession",
+        })
+        CaseDevJob.report(info.id, { status: "running", progress: 40 })
+        expect(CaseDevJob.get(info.id)).toMatchObject({ status: "running", progress: 40 })
+
+        CaseDevJob.report(info.id, { status: "completed", progress: 100 })
+        expect(CaseDevJob.get(info.id).time.completed).toBeDefined()
+        // Finished jobs ignore later reports, and cancelling no longer aborts the tool
+        CaseDevJob.report(info.id, { status: "failed", error: "late" })
+        CaseDevJob.cancel(info.id)
+        expect(CaseDevJob.get(info.id).status).toBe("completed")
+        expect(signal.aborted).toBe(false)
+      },
+    })
+  })
+
+  test("cancelling a followed job aborts it", async () => {
+    await using tmp = await tmpdir({ git: true })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const { info, signal } = CaseDevJob.follow({
+          sessionID: "ses_cancel",
+          kind: "research",
+          remoteID: "research_2",
+          title: "Research: easements",
+        })
+        CaseDevJob.cancel(info.id)
+        expect(signal.aborted).toBe(true)
+        expect(CaseDevJob.get(info.id)).toMatchObject({ status: "failed", error: "Cancelled" })
+        expect(CaseDevJob.list("ses_cancel").map((job) => job.id)).toEqual([info.id])
+        expect(CaseDevJob.list("ses_other")).toEqual([])
+      },
+    })
+  })
+
+  test("jobs survive a restart", async () => {
+    await using tmp = await tmpdir({ git: true })
+    const jobs = await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const sessionID = await session()
+        const ocr = CaseDevJob.track({ sessionID, kind: "ocr", remoteID: "ocr_1", title: "OCR: lease.pdf" })
+        const research = CaseDevJob.follow({
+          sessionID,
+          kind: "research",
+          remoteID: "research_3",
+          title: "Research: quiet title",
+        }).info
+        for (const job of [ocr, research]) {
+          expect(await Storage.read<CaseDevJob.Info>(["casedev_job", Instance.project.id, job.id])).toMatchObject({
+            status: "pending",
+          })
+        }
+        await Instance.dispose()
+        return { sessionID, ocr: ocr.id, research: research.id }
+      },
+    })
+
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        expect(CaseDevJob.list()).toEqual([])
+        await CaseDevJob.init()
+
+        // The OCR job is polled again
+        expect(CaseDevJob.get(jobs.ocr)).toMatchObject({ status: "pending", remoteID: "ocr_1" })
+
+        // Nothing is left to follow the research run, so the session is told it was lost
+        expect(CaseDevJob.get(jobs.research)).toMatchObject({ status: "failed", error: "Interrupted by a restart" })
+        const notice = (await Session.messages({ sessionID: jobs.sessionID }))
+          .flatMap((msg) => msg.parts)
+          .find((part): part is MessageV2.TextPart => part.type === "text" && part.text.includes("research_3"))
+        expect(notice?.synthetic).toBe(true)
+        expect(notice?.text).toContain("restarted before the research run finished")
+
+        CaseDevJob.cancel(jobs.ocr)
+      },
+    })
+  })
+})
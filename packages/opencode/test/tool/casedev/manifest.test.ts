@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test"
+import fs from "fs/promises"
+import path from "path"
+import { VaultManifest } from "../../../src/tool/casedev/manifest"
+import { VaultCreateTool, VaultUploadTool } from "../../../src/tool/casedev/vault"
+import { Instance } from "../../../src/project/instance"
+import { tmpdir } from "../../fixture/fixture"
+import { emulate } from "../../fixture/casedev"
+
+const ctx = {
+  sessionID: "test",
+  messageID: "",
+  callID: "",
+  agent: "legal",
+  abort: AbortSignal.any([]),
+  metadata: () => {},
+}
+
+const emulator = emulate()
+
+const uploads = (vaultID: string) =>
+  emulator().state.requests.filter(
+    (request) => request.method === "POST" && request.path === `/vault/${vaultID}/upload`,
+  )
+
+describe("tool.casedev.manifest", () => {
+  test("hashes file content", async () => {
+    await using tmp = await tmpdir({
+      init: (dir) => Bun.write(path.join(dir, "a.txt"), "abc"),
+    })
+    expect(await VaultManifest.hash(path.join(tmp.path, "a.txt"))).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    )
+  })
+
+  test("folder upload skips unchanged files and uploads same-size edits", async () => {
+    await using tmp = await tmpdir({
+      init: async (dir) => {
+        await Bun.write(path.join(dir, "production", "letter.txt"), "Payment is due on March 1.")
+        await Bun.write(path.join(dir, "production", "memo.txt"), "Privileged and confidential.")
+        await Bun.write(path.join(dir, "production", "copy.txt"), "Privileged and confidential.")
+        await Bun.write(path.join(dir, "production", "photo.heic"), "not supported")
+      },
+    })
+    const directory = path.join(tmp.path, "production")
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const create = await VaultCreateTool.init()
+        const upload = await VaultUploadTool.init()
+        const vaultID = (await create.execute({ name: "Production 001" }, ctx)).metadata.vaultId as string
+
+        const first = await upload.execute({ vault_id: vaultID, directory, auto_index: false }, ctx)
+        // The copy has the same content as the memo, so only two files are sent
+        expect(first.metadata).toMatchObject({ total: 3, uploaded: 2, skipped: 1, failed: 0 })
+        expect(first.output).toContain("Ignored (unsupported type): 1")
+        expect(uploads(vaultID)).toHaveLength(2)
+
+        const manifest = await VaultManifest.get(vaultID)
+        expect(Object.keys(manifest.files).map((file) => path.basename(file))).toEqual(
+          expect.arrayContaining(["letter.txt", "memo.txt", "copy.txt"]),
+        )
+        expect(manifest.files[path.join(directory, "copy.txt")].objectId).toBe(
+          manifest.files[path.join(directory, "memo.txt")].objectId,
+        )
+
+        const second = await upload.execute({ vault_id: vaultID, directory, auto_index: false }, ctx)
+        expect(second.metadata).toMatchObject({ uploaded: 0, skipped: 3 })
+        expect(uploads(vaultID)).toHaveLength(2)
+
+        // Same size, new content, and a modification time the manifest has not seen
+        const letter = path.join(directory, "letter.txt")
+        await Bun.write(letter, "Payment is due on March 9.")
+        await fs.utimes(letter, new Date(), new Date(Date.now() + 60_000))
+        const third = await upload.execute({ vault_id: vaultID, directory, auto_index: false }, ctx)
+        expect(third.metadata).toMatchObject({ uploaded: 1, skipped: 2 })
+        expect(uploads(vaultID)).toHaveLength(3)
+        expect((await VaultManifest.get(vaultID)).files[letter].sha256).toBe(await VaultManifest.hash(letter))
+      },
+    })
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, expect, spyOn, test } from "bun:test"
+import { VaultMirror } from "../../../src/tool/casedev/mirror"
+import { Instance } from "../../../src/project/instance"
+import { Storage } from "../../../src/storage/storage"
+import { tmpdir } from "../../fixture/fixture"
+
+describe("tool.casedev.mirror", () => {
+  test("paginate splits on form feeds", () => {
+    expect(VaultMirror.paginate("first\fsecond\fthird")).toEqual(["first", "second", "third"])
+    expect(VaultMirror.paginate("single page")).toEqual(["single page"])
+  })
+
+  test("search returns the matching page with filename", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await VaultMirror.put("vault_test", {
+          objectId: "obj_1",
+          filename: "complaint.pdf",
+          pages: ["Plaintiff alleges breach of contract.", "The termination clause requires thirty days notice."],
+        })
+        await VaultMirror.put("vault_test", {
+          objectId: "obj_2",
+          filename: "answer.pdf",
+          pages: ["Defendant denies the allegations."],
+        })
+
+        const results = await VaultMirror.search("vault_test", "termination clause")
+        expect(results).toHaveLength(1)
+        expect(results[0].objectId).toBe("obj_1")
+        expect(results[0].filename).toBe("complaint.pdf")
+        expect(results[0].page).toBe(2)
+        expect(results[0].score).toBe(1)
+      },
+    })
+  })
+
+  test("exact citation matches rank first", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await VaultMirror.put("vault_citation", {
+          objectId: "obj_1",
+          filename: "brief.pdf",
+          pages: ["See 113 U.S. 410 for the standard.", "Roe v. Wade, 410 U.S. 113 (1973)."],
+        })
+
+        const results = await VaultMirror.search("vault_citation", "410 U.S. 113")
+        expect(results[0].page).toBe(2)
+        expect(results[0].text).toContain("410 U.S. 113")
+        expect((await VaultMirror.search("vault_citation", "410 U.S. 113", { topK: 1 }))[0].page).toBe(2)
+      },
+    })
+  })
+
+  test("re-mirroring an object replaces its pages", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await VaultMirror.put("vault_remirror", {
+          objectId: "obj_1",
+          filename: "draft.pdf",
+          pages: ["original indemnity"],
+        })
+        await VaultMirror.put("vault_remirror", {
+          objectId: "obj_1",
+          filename: "draft.pdf",
+          pages: ["revised warranty"],
+        })
+
+        expect(await VaultMirror.search("vault_remirror", "indemnity")).toHaveLength(0)
+        expect(await VaultMirror.search("vault_remirror", "warranty")).toHaveLength(1)
+        expect(await VaultMirror.list("vault_remirror")).toHaveLength(1)
+      },
+    })
+  })
+
+  test("concurrent puts keep every document in the index", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        await Promise.all(
+          ["lease", "guaranty", "estoppel", "amendment"].map((name, i) =>
+            VaultMirror.put("vault_concurrent", { objectId: `obj_${i}`, filename: `${name}.pdf`, pages: [name] }),
+          ),
+        )
+
+        for (const name of ["lease", "guaranty", "estoppel", "amendment"]) {
+          expect(await VaultMirror.search("vault_concurrent", name)).toHaveLength(1)
+        }
+      },
+    })
+  })
+
+  test("search reads only the documents of the top hits", async () => {
+    await using tmp = await tmpdir()
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        for (const i of [1, 2, 3, 4, 5]) {
+          await VaultMirror.put("vault_reads", {
+            objectId: `obj_${i}`,
+            filename: `letter-${i}.pdf`,
+            pages: [i === 3 ? "Notice of default. Default interest accrues on the default." : "Notice of default."],
+          })
+        }
+
+        const read = spyOn(Storage, "read")
+        try {
+          const results = await VaultMirror.search("vault_reads", "default interest", { topK: 1 })
+          expect(results.map((result) => result.objectId)).toEqual(["obj_3"])
+          const objects = read.mock.calls.filter(([key]) => key.includes("object"))
+          expect(objects.length).toBeLessThan(5)
+        } finally {
+          read.mockRestore()
+        }
+      },
+    })
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test"
+import { VaultProvenance } from "../../../src/tool/casedev/provenance"
+
+const PAGES = [
+  "MASTER SERVICES AGREEMENT\n\n1. Term. This Agreement commences on the Effective Date.",
+  "2. Termination. Either party may terminate this Agreement\nupon thirty (30) days' written notice.\n\n3. Fees.",
+  "4. Governing Law. This Agreement is governed by and construed in accordance with the laws of the State of Delaware.",
+]
+
+describe("tool.casedev.provenance", () => {
+  test("locate reports the page and character offsets of a chunk", () => {
+    const location = VaultProvenance.locate(
+      PAGES,
+      "Either party may terminate this Agreement upon thirty (30) days' written notice.",
+    )
+    expect(location?.pages).toEqual({ start: 2, end: 2 })
+    const text = PAGES.join("\f")
+    expect(text.slice(location!.offsets.start, location!.offsets.end)).toBe(
+      "Either party may terminate this Agreement\nupon thirty (30) days' written notice.",
+    )
+  })
+
+  test("locate spans page breaks", () => {
+    const location = VaultProvenance.locate(PAGES, "3. Fees. 4. Governing Law.")
+    expect(location?.pages).toEqual({ start: 2, end: 3 })
+  })
+
+  test("locate falls back to the chunk's opening and closing words", () => {
+    // A running header the chunker kept but the page text does not have
+    const chunk = [PAGES[1], "ACME CONFIDENTIAL", PAGES[2]].join(" ")
+    const location = VaultProvenance.locate(PAGES, chunk)
+    expect(location?.pages).toEqual({ start: 2, end: 3 })
+    expect(location?.offsets.end).toBe(PAGES.join("\f").length)
+    expect(VaultProvenance.locate(PAGES, "text that is not in the document")).toBeUndefined()
+  })
+
+  test("cite and link", () => {
+    expect(VaultProvenance.cite({ objectId: "obj_1", filename: "msa.pdf", pages: { start: 2, end: 2 } })).toBe(
+      "msa.pdf, p. 2",
+    )
+    expect(VaultProvenance.cite({ objectId: "obj_1", filename: "msa.pdf", pages: { start: 2, end: 3 } })).toBe(
+      "msa.pdf, pp. 2-3",
+    )
+    expect(VaultProvenance.cite({ objectId: "obj_1" })).toBe("obj_1")
+    expect(VaultProvenance.link("/matters/acme/msa.pdf", 4)).toBe("file:///matters/acme/msa.pdf#page=4")
+    expect(VaultProvenance.link("/matters/acme/msa.docx", 4)).toBe("file:///matters/acme/msa.docx")
+  })
+})
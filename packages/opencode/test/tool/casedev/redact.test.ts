@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test"
+import { Redaction } from "../../../src/tool/casedev/redact"
+
+describe("tool.casedev.redact", () => {
+  test("keeps what Rule 5.2 allows in partial mode", () => {
+    const text = [
+      "Claimant: Maria Lopez, SSN 123-45-6789, DOB: March 4, 1980.",
+      "Deposit to account no. 004512345678 or card 4111 1111 1111 1111.",
+      "Her son Daniel Lopez, age 12, was treated under MRN A99-1234.",
+      "Daniel missed school.",
+    ].join("\n")
+    const spans = Redaction.find(text)
+    expect(spans.map((span) => [span.category, span.replacement])).toEqual([
+      ["ssn", "XXX-XX-6789"],
+      ["dob", "[DOB redacted] 1980"],
+      ["account", "XXXXXXXX5678"],
+      ["account", "XXXXXXXXXXXX1111"],
+      ["minor", "D.L."],
+      ["medical", "[REDACTED: Medical identifier]"],
+      ["minor", "D."],
+    ])
+    expect(spans[4].line).toBe(3)
+    expect(Redaction.apply(text, spans)).toContain("Her son D.L., age 12, was treated under MRN [REDACTED")
+  })
+
+  test("ignores adults and numbers that are not identifiers", () => {
+    const text = "Robert Green, age 45, paid invoice 4111111111111112 on 01/02/2024. Call 555-123-4567."
+    expect(Redaction.find(text)).toEqual([])
+  })
+
+  test("redacts privileged terms and supplied minors fully, with page numbers from form feeds", () => {
+    const text = "Summary for outside counsel.\n\fProject Falcon memo re: J. Smith.\fEmma Stone testified."
+    const spans = Redaction.find(text, { terms: ["project falcon"], minors: ["Emma Stone"], mode: "full" })
+    expect(spans.map((span) => [span.page, span.text, span.replacement])).toEqual([
+      [2, "Project Falcon", "[REDACTED: Privileged]"],
+      [3, "Emma Stone", "[REDACTED: Minor]"],
+    ])
+  })
+
+  test("leaves the redacted text out of the log unless originals are asked for", () => {
+    const spans = Redaction.find("SSN: 123456789")
+    const log = Redaction.log("intake.txt", spans)
+    expect(log).not.toContain("123456789")
+    expect(log.split("\n")[1]).toBe(
+      "1,intake.txt,1,1,5,14,SSN,XXX-XX-6789,Social Security or taxpayer ID number; Fed. R. Civ. P. 5.2(a)(1) allows only the last four digits",
+    )
+    expect(Redaction.log("intake.txt", spans, true)).toContain(",123456789\n")
+  })
+})
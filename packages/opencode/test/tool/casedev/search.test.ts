@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test"
+import { LegalResearch } from "../../../src/tool/casedev/search"
+import { emulate } from "../../fixture/casedev"
+
+const emulator = emulate({
+  research: {
+    "motion to dismiss standard": {
+      summary: "A complaint must state a plausible claim for relief.",
+      sources: [
+        { url: "https://supreme.justia.com/cases/federal/us/550/544/", title: "Bell Atlantic Corp. v. Twombly" },
+        "Ashcroft v. Iqbal - https://supreme.justia.com/cases/federal/us/556/662/",
+      ],
+    },
+  },
+  fail: ["unanswerable question"],
+  steps: 0,
+})
+
+describe("tool.casedev.search", () => {
+  test("turns sources into citations with a URL, title and snippet", () => {
+    expect(LegalResearch.source("https://www.law.cornell.edu/rules/frcp/rule_12")).toEqual({
+      url: "https://www.law.cornell.edu/rules/frcp/rule_12",
+      title: "www.law.cornell.edu",
+    })
+    expect(LegalResearch.source("Rule 12 – https://www.law.cornell.edu/rules/frcp/rule_12")).toEqual({
+      url: "https://www.law.cornell.edu/rules/frcp/rule_12",
+      title: "Rule 12",
+    })
+    expect(
+      LegalResearch.source({ link: "https://example.com/a", name: "A", content: "  Pleading standard.  " }),
+    ).toEqual({ url: "https://example.com/a", title: "A", snippet: "Pleading standard." })
+    expect(LegalResearch.source({ title: "No link" })).toBeUndefined()
+  })
+
+  test("streams steps while the research runs and returns structured sources", async () => {
+    const updates: string[][] = []
+    const result = await LegalResearch.run({
+      query: "motion to dismiss standard",
+      mode: "fast",
+      signal: AbortSignal.any([]),
+      onStep: (steps) => updates.push(steps.map((step) => `${step.type}: ${step.text}`)),
+    })
+    expect(updates).toEqual([
+      [
+        "query: motion to dismiss standard",
+        "source: Bell Atlantic Corp. v. Twombly",
+        "source: Ashcroft v. Iqbal",
+        "summary: A complaint must state a plausible claim for relief.",
+      ],
+    ])
+    expect(result?.summary).toBe("A complaint must state a plausible claim for relief.")
+    expect(result?.sources).toEqual([
+      { url: "https://supreme.justia.com/cases/federal/us/550/544/", title: "Bell Atlantic Corp. v. Twombly" },
+      { url: "https://supreme.justia.com/cases/federal/us/556/662/", title: "Ashcroft v. Iqbal" },
+    ])
+  })
+
+  test("reports research that fails", async () => {
+    await expect(
+      LegalResearch.run({ query: "unanswerable question", mode: "fast", signal: AbortSignal.any([]) }),
+    ).rejects.toThrow("Research failed")
+  })
+
+  test("stops polling when aborted", async () => {
+    const abort = new AbortController()
+    const result = LegalResearch.run({
+      query: "motion to dismiss standard",
+      mode: "pro",
+      signal: abort.signal,
+      onStart: () => abort.abort(),
+    })
+    await expect(result).rejects.toMatchObject({ name: "AbortError" })
+  })
+
+  test("asks for async mode and never resends the POST that starts a run", async () => {
+    emulator().state.fixtures.errors.push({ method: "POST", path: "/search/v1/research", status: 503, times: 1 })
+    const before = emulator().state.requests.length
+    await expect(
+      LegalResearch.run({ query: "motion to dismiss standard", mode: "pro", signal: AbortSignal.any([]) }),
+    ).rejects.toMatchObject({ name: "CaseDevServerError" })
+    const posts = emulator()
+      .state.requests.slice(before)
+      .filter((request) => request.method === "POST")
+    expect(posts).toHaveLength(1)
+    expect(posts[0].body).toMatchObject({ instructions: "motion to dismiss standard", async: true })
+  })
+})
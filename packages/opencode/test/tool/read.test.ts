@@ -171,3 +171,48 @@ describe("tool.read env file blocking", () => {
     })
   })
 })
+
+describe("tool.read document extraction", () => {
+  test("pages the extracted text of an email", async () => {
+    await using tmp = await tmpdir({
+      init: (dir) =>
+        Bun.write(
+          path.join(dir, "notice.eml"),
+          [
+            "From: Jane Roe <jane@example.com>",
+            "To: counsel@example.com",
+            "Subject: Notice of deposition",
+            "Content-Type: text/plain; charset=utf-8",
+            "",
+            "First line",
+            "Second line",
+          ].join("\r\n"),
+        ),
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const read = await ReadTool.init()
+        const result = await read.execute({ filePath: path.join(tmp.path, "notice.eml"), offset: 3, limit: 2 }, ctx)
+        expect(result.output).toContain("00004| ")
+        expect(result.output).toContain("00005| First line")
+        expect(result.output).not.toContain("Second line")
+        expect(result.output).toContain("(File has more lines. Use 'offset' parameter to read beyond line 5)")
+      },
+    })
+  })
+
+  test("still rejects legacy binary Office formats", async () => {
+    await using tmp = await tmpdir({
+      init: (dir) => Bun.write(path.join(dir, "contract.doc"), "content"),
+    })
+    await Instance.provide({
+      directory: tmp.path,
+      fn: async () => {
+        const read = await ReadTool.init()
+        const promise = read.execute({ filePath: path.join(tmp.path, "contract.doc") }, ctx)
+        await expect(promise).rejects.toThrow("Cannot read binary file")
+      },
+    })
+  })
+})
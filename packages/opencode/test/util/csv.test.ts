@@ -0,0 +1,16 @@
+import { test, expect } from "bun:test"
+import { Csv } from "../../src/util/csv"
+
+test("quote leaves plain fields alone", () => {
+  expect(Csv.quote("Smith v. Jones")).toBe("Smith v. Jones")
+  expect(Csv.quote(1.5)).toBe("1.5")
+  expect(Csv.quote(undefined)).toBe("")
+})
+
+test("quote wraps fields with commas, quotes and line breaks", () => {
+  expect(Csv.quote("Reviewed, revised")).toBe('"Reviewed, revised"')
+  expect(Csv.quote('the "Agreement"')).toBe('"the ""Agreement"""')
+  expect(Csv.quote("first\nsecond")).toBe('"first\nsecond"')
+  expect(Csv.quote("first\r\nsecond")).toBe('"first\r\nsecond"')
+  expect(Csv.quote("first\rsecond")).toBe('"first\rsecond"')
+})
@@ -10,6 +10,18 @@ import type {
   Auth as Auth2,
   AuthSetErrors,
   AuthSetResponses,
+  BillingListResponses,
+  BillingProposeErrors,
+  BillingProposeResponses,
+  BillingRemoveErrors,
+  BillingRemoveResponses,
+  BillingUpdateErrors,
+  BillingUpdateResponses,
+  ChronologyExportErrors,
+  ChronologyExportResponses,
+  ChronologyGetErrors,
+  ChronologyGetResponses,
+  ChronologyListResponses,
   CommandListResponses,
   Config as Config2,
   ConfigGetResponses,
@@ -54,9 +66,18 @@ import type {
   PartUpdateErrors,
   PartUpdateResponses,
   PathGetResponses,
+  PermissionAuditExportErrors,
+  PermissionAuditExportResponses,
+  PermissionAuditListErrors,
+  PermissionAuditListResponses,
   PermissionListResponses,
   PermissionRespondErrors,
   PermissionRespondResponses,
+  PermissionRuleCreateErrors,
+  PermissionRuleCreateResponses,
+  PermissionRuleListResponses,
+  PermissionRuleRemoveErrors,
+  PermissionRuleRemoveResponses,
   ProjectCurrentResponses,
   ProjectListResponses,
   ProjectUpdateErrors,
@@ -78,6 +99,11 @@ import type {
   PtyRemoveResponses,
   PtyUpdateErrors,
   PtyUpdateResponses,
+  ResearchGetErrors,
+  ResearchGetResponses,
+  ResearchListResponses,
+  ResearchRemoveErrors,
+  ResearchRemoveResponses,
   SessionAbortErrors,
   SessionAbortResponses,
   SessionChildrenErrors,
@@ -95,6 +121,8 @@ import type {
   SessionGetResponses,
   SessionInitErrors,
   SessionInitResponses,
+  SessionJobErrors,
+  SessionJobResponses,
   SessionListResponses,
   SessionMessageErrors,
   SessionMessageResponses,
@@ -935,6 +963,36 @@ export class Session extends HeyApiClient {
     })
   }
 
+  /**
+   * Get session jobs
+   *
+   * Retrieve the background Case.dev jobs (OCR, transcription, ingestion) tracked for a session.
+   */
+  public job<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<SessionJobResponses, SessionJobErrors, ThrowOnError>({
+      url: "/session/{sessionID}/job",
+      ...options,
+      ...params,
+    })
+  }
+
   /**
    * Initialize session
    *
@@ -1580,6 +1638,182 @@ export class Part extends HeyApiClient {
   }
 }
 
+export class Audit extends HeyApiClient {
+  /**
+   * List permission decisions
+   *
+   * Get the audit log of permission decisions for the current project: what was asked, whether it was allowed, and who decided.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+      sessionID?: string
+      type?: string
+      since?: number
+      until?: number
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "query", key: "directory" },
+            { in: "query", key: "sessionID" },
+            { in: "query", key: "type" },
+            { in: "query", key: "since" },
+            { in: "query", key: "until" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<PermissionAuditListResponses, PermissionAuditListErrors, ThrowOnError>({
+      url: "/permission/audit",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Export permission decisions
+   *
+   * Download the permission audit log for the current project as CSV or JSON.
+   */
+  public export<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+      sessionID?: string
+      type?: string
+      since?: number
+      until?: number
+      format?: "csv" | "json"
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "query", key: "directory" },
+            { in: "query", key: "sessionID" },
+            { in: "query", key: "type" },
+            { in: "query", key: "since" },
+            { in: "query", key: "until" },
+            { in: "query", key: "format" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<
+      PermissionAuditExportResponses,
+      PermissionAuditExportErrors,
+      ThrowOnError
+    >({
+      url: "/permission/audit/export",
+      ...options,
+      ...params,
+    })
+  }
+}
+
+export class Rule extends HeyApiClient {
+  /**
+   * List permission rules
+   *
+   * Get the allow rules saved for the current project.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams([parameters], [{ args: [{ in: "query", key: "directory" }] }])
+    return (options?.client ?? this.client).get<PermissionRuleListResponses, unknown, ThrowOnError>({
+      url: "/permission/rule",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Add permission rule
+   *
+   * Save an allow rule for the current project, so matching requests are allowed without asking in every session.
+   */
+  public create<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+      type?: string
+      pattern?: Array<string>
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "query", key: "directory" },
+            { in: "body", key: "type" },
+            { in: "body", key: "pattern" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<
+      PermissionRuleCreateResponses,
+      PermissionRuleCreateErrors,
+      ThrowOnError
+    >({
+      url: "/permission/rule",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+
+  /**
+   * Remove permission rule
+   *
+   * Remove a saved allow rule from the current project.
+   */
+  public remove<ThrowOnError extends boolean = false>(
+    parameters: {
+      ruleID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "ruleID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).delete<
+      PermissionRuleRemoveResponses,
+      PermissionRuleRemoveErrors,
+      ThrowOnError
+    >({
+      url: "/permission/rule/{ruleID}",
+      ...options,
+      ...params,
+    })
+  }
+}
+
 export class Permission extends HeyApiClient {
   /**
    * Respond to permission
@@ -1638,6 +1872,339 @@ export class Permission extends HeyApiClient {
       ...params,
     })
   }
+
+  audit = new Audit({ client: this.client })
+
+  rule = new Rule({ client: this.client })
+}
+
+export class Billing extends HeyApiClient {
+  /**
+   * List time entries
+   *
+   * Get the time entries proposed or edited for the current project.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+      sessionID?: string
+      from?: string
+      to?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "query", key: "directory" },
+            { in: "query", key: "sessionID" },
+            { in: "query", key: "from" },
+            { in: "query", key: "to" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<BillingListResponses, unknown, ThrowOnError>({
+      url: "/billing",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Remove time entry
+   *
+   * Remove a time entry from the current project.
+   */
+  public remove<ThrowOnError extends boolean = false>(
+    parameters: {
+      entryID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "entryID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).delete<BillingRemoveResponses, BillingRemoveErrors, ThrowOnError>({
+      url: "/billing/{entryID}",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Update time entry
+   *
+   * Edit a time entry. Edited entries are no longer replaced when entries are proposed again.
+   */
+  public update<ThrowOnError extends boolean = false>(
+    parameters: {
+      entryID: string
+      directory?: string
+      date?: string
+      hours?: number
+      narrative?: string
+      task?: string
+      activity?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "entryID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "date" },
+            { in: "body", key: "hours" },
+            { in: "body", key: "narrative" },
+            { in: "body", key: "task" },
+            { in: "body", key: "activity" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).patch<BillingUpdateResponses, BillingUpdateErrors, ThrowOnError>({
+      url: "/billing/{entryID}",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
+
+  /**
+   * Propose time entries
+   *
+   * Propose time entries for a session from its activity. Entries that have been edited are kept as they are.
+   */
+  public propose<ThrowOnError extends boolean = false>(
+    parameters: {
+      sessionID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "sessionID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<BillingProposeResponses, BillingProposeErrors, ThrowOnError>({
+      url: "/session/{sessionID}/billing",
+      ...options,
+      ...params,
+    })
+  }
+}
+
+export class Research extends HeyApiClient {
+  /**
+   * List research
+   *
+   * Get the research saved in the current project by casedev_search and casedev_vault_search, newest first, or the research matching a query.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+      query?: string
+      sessionID?: string
+      tool?: "casedev_search" | "casedev_vault_search"
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "query", key: "directory" },
+            { in: "query", key: "query" },
+            { in: "query", key: "sessionID" },
+            { in: "query", key: "tool" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<ResearchListResponses, unknown, ThrowOnError>({
+      url: "/research",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Remove research
+   *
+   * Remove a saved research record from the current project.
+   */
+  public remove<ThrowOnError extends boolean = false>(
+    parameters: {
+      researchID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "researchID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).delete<ResearchRemoveResponses, ResearchRemoveErrors, ThrowOnError>({
+      url: "/research/{researchID}",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Get research
+   *
+   * Get a saved research record with its summary and sources.
+   */
+  public get<ThrowOnError extends boolean = false>(
+    parameters: {
+      researchID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "researchID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<ResearchGetResponses, ResearchGetErrors, ThrowOnError>({
+      url: "/research/{researchID}",
+      ...options,
+      ...params,
+    })
+  }
+}
+
+export class Chronology extends HeyApiClient {
+  /**
+   * List chronologies
+   *
+   * Get the chronologies built in the current project with the chronology tool, newest first.
+   */
+  public list<ThrowOnError extends boolean = false>(
+    parameters?: {
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams([parameters], [{ args: [{ in: "query", key: "directory" }] }])
+    return (options?.client ?? this.client).get<ChronologyListResponses, unknown, ThrowOnError>({
+      url: "/chronology",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Get chronology
+   *
+   * Get a chronology with its events and their sources.
+   */
+  public get<ThrowOnError extends boolean = false>(
+    parameters: {
+      chronologyID: string
+      directory?: string
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "chronologyID" },
+            { in: "query", key: "directory" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).get<ChronologyGetResponses, ChronologyGetErrors, ThrowOnError>({
+      url: "/chronology/{chronologyID}",
+      ...options,
+      ...params,
+    })
+  }
+
+  /**
+   * Export chronology
+   *
+   * Render the events of a chronology, optionally only those about a person or issue, as PDF or DOCX with the casedev_format pipeline. The file is saved next to the chronology file.
+   */
+  public export<ThrowOnError extends boolean = false>(
+    parameters: {
+      chronologyID: string
+      directory?: string
+      person?: string
+      issue?: string
+      format?: "pdf" | "docx"
+    },
+    options?: Options<never, ThrowOnError>,
+  ) {
+    const params = buildClientParams(
+      [parameters],
+      [
+        {
+          args: [
+            { in: "path", key: "chronologyID" },
+            { in: "query", key: "directory" },
+            { in: "body", key: "person" },
+            { in: "body", key: "issue" },
+            { in: "body", key: "format" },
+          ],
+        },
+      ],
+    )
+    return (options?.client ?? this.client).post<ChronologyExportResponses, ChronologyExportErrors, ThrowOnError>({
+      url: "/chronology/{chronologyID}/export",
+      ...options,
+      ...params,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers,
+        ...params.headers,
+      },
+    })
+  }
 }
 
 export class Command extends HeyApiClient {
@@ -2705,6 +3272,12 @@ export class OpencodeClient extends HeyApiClient {
 
   permission = new Permission({ client: this.client })
 
+  billing = new Billing({ client: this.client })
+
+  research = new Research({ client: this.client })
+
+  chronology = new Chronology({ client: this.client })
+
   command = new Command({ client: this.client })
 
   provider = new Provider({ client: this.client })
@@ -18,10 +18,46 @@ export type EventInstallationUpdateAvailable = {
   }
 }
 
+export type MatterParty = {
+  name: string
+  role?: "client" | "adverse" | "co-party" | "counsel" | "witness" | "related"
+  /**
+   * Other names, e.g. former names, d/b/a names and short forms
+   */
+  aliases?: Array<string>
+  /**
+   * Parents, subsidiaries and other corporate affiliates
+   */
+  affiliates?: Array<string>
+}
+
+export type Matter = {
+  /**
+   * Matter number or other identifier, unique within the firm
+   */
+  id: string
+  client?: string
+  /**
+   * Case caption or matter name, e.g. Smith v. Jones
+   */
+  caption?: string
+  jurisdiction?: string
+  /**
+   * Case.dev vault IDs linked to the matter
+   */
+  vaults?: Array<string>
+  /**
+   * Parties and counsel, for conflicts checks
+   */
+  parties?: Array<MatterParty>
+  conflicts_cleared?: boolean
+}
+
 export type Project = {
   id: string
   worktree: string
   vcs?: "git"
+  matter?: Matter
   name?: string
   icon?: {
     url?: string
@@ -514,6 +550,28 @@ export type EventTodoUpdated = {
   }
 }
 
+export type CaseDevJob = {
+  id: string
+  sessionID: string
+  kind: "ocr" | "transcription" | "ingest" | "research"
+  remoteID: string
+  vaultID?: string
+  title: string
+  status: "pending" | "running" | "completed" | "failed"
+  progress?: number
+  error?: string
+  time: {
+    created: number
+    updated: number
+    completed?: number
+  }
+}
+
+export type EventCasedevJobUpdated = {
+  type: "casedev.job.updated"
+  properties: CaseDevJob
+}
+
 export type SessionStatus =
   | {
       type: "idle"
@@ -759,6 +817,7 @@ export type Event =
   | EventPermissionReplied
   | EventFileEdited
   | EventTodoUpdated
+  | EventCasedevJobUpdated
   | EventSessionStatus
   | EventSessionIdle
   | EventSessionCompacted
@@ -1174,6 +1233,21 @@ export type ServerConfig = {
   mdns?: boolean
 }
 
+export type ConfidentialityConfig = {
+  /**
+   * Protected terms such as client names, case numbers and opposing parties, matched without case
+   */
+  terms: Array<string>
+  /**
+   * What to do when an outbound tool's arguments mention a protected term: block the call, ask first, or replace the terms (default: ask)
+   */
+  action?: "block" | "ask" | "scrub"
+  /**
+   * More tools to check, as wildcard patterns. webfetch, websearch, codesearch, casedev_search and remote MCP tools are always checked
+   */
+  tools?: Array<string>
+}
+
 export type AgentConfig = {
   model?: string
   temperature?: number
@@ -1216,6 +1290,7 @@ export type AgentConfig = {
     doom_loop?: "ask" | "allow" | "deny"
     external_directory?: "ask" | "allow" | "deny"
   }
+  confidentiality?: ConfidentialityConfig
   [key: string]:
     | unknown
     | string
@@ -1249,6 +1324,7 @@ export type AgentConfig = {
         doom_loop?: "ask" | "allow" | "deny"
         external_directory?: "ask" | "allow" | "deny"
       }
+    | ConfidentialityConfig
     | undefined
 }
 
@@ -1552,6 +1628,62 @@ export type Config = {
               }
             }
       }
+  /**
+   * Local OCR for scanned PDFs and images
+   */
+  ocr?: {
+    /**
+     * Set to false to never run OCR on this machine
+     */
+    local?: boolean
+    /**
+     * Command for local OCR instead of tesseract. $FILE is replaced with the document path; the text is read from stdout, with pages separated by form feeds
+     */
+    command?: Array<string>
+    /**
+     * Largest file, in bytes, that is OCR'd locally (default 25 MB)
+     */
+    max_size?: number
+  }
+  /**
+   * Time entries proposed from session activity
+   */
+  billing?: {
+    /**
+     * Timekeeper ID on exported time entries
+     */
+    timekeeper_id?: string
+    timekeeper_name?: string
+    /**
+     * LEDES timekeeper classification, e.g. PT for partner or AS for associate
+     */
+    timekeeper_classification?: string
+    /**
+     * Hourly rate used for exported fees
+     */
+    rate?: number
+    /**
+     * Law firm ID, usually its tax ID, for LEDES invoices
+     */
+    law_firm_id?: string
+    /**
+     * UTBMS task code for entries with no more specific task (default: L120)
+     */
+    task?: string
+    /**
+     * Minutes without session activity after which the time is not billed (default: 10)
+     */
+    idle?: number
+  }
+  /**
+   * Case.dev API used by the casedev_* tools
+   */
+  casedev?: {
+    /**
+     * Base URL of the Case.dev API (default: https://api.case.dev). The CASEDEV_API_URL environment variable overrides it
+     */
+    url?: string
+  }
   /**
    * Additional instruction files or patterns to include
    */
@@ -1580,6 +1712,7 @@ export type Config = {
   tools?: {
     [key: string]: boolean
   }
+  confidentiality?: ConfidentialityConfig
   enterprise?: {
     /**
      * Enterprise URL
@@ -1703,6 +1836,151 @@ export type SubtaskPartInput = {
   command?: string
 }
 
+export type PermissionAuditEntry = {
+  id: string
+  projectID: string
+  permissionID: string
+  sessionID: string
+  messageID: string
+  callID?: string
+  type: string
+  pattern?: string | Array<string>
+  title: string
+  metadata: {
+    [key: string]: string | number | boolean
+  }
+  decision: "allow" | "deny"
+  response?: "once" | "always" | "reject"
+  by: "user" | "session" | "rule" | "plugin" | "shutdown"
+  user?: string
+  ruleID?: string
+  time: {
+    asked: number
+    decided: number
+  }
+}
+
+export type PermissionRule = {
+  id: string
+  projectID: string
+  type: string
+  pattern?: Array<string>
+  time: {
+    created: number
+  }
+}
+
+export type BillingEntry = {
+  id: string
+  projectID: string
+  sessionID: string
+  matterID?: string
+  date: string
+  hours: number
+  narrative: string
+  /**
+   * UTBMS task code, e.g. L110
+   */
+  task?: string
+  /**
+   * UTBMS activity code, e.g. A103
+   */
+  activity?: string
+  timekeeper?: string
+  time: {
+    created: number
+    updated: number
+    edited?: number
+  }
+}
+
+export type ResearchArtifactSource = {
+  title: string
+  /**
+   * Web address, or a link that opens a vault document at the page
+   */
+  url?: string
+  snippet?: string
+  /**
+   * Vault object the source was found in
+   */
+  objectId?: string
+}
+
+export type ResearchArtifact = {
+  id: string
+  projectID: string
+  sessionID: string
+  matterID?: string
+  tool: "casedev_search" | "casedev_vault_search"
+  query: string
+  /**
+   * Research mode, or vault search method
+   */
+  mode?: string
+  vaultID?: string
+  /**
+   * Case.dev research ID
+   */
+  remoteID?: string
+  summary?: string
+  sources: Array<ResearchArtifactSource>
+  /**
+   * Found in the offline vault index while Case.dev was unreachable
+   */
+  offline?: boolean
+  time: {
+    created: number
+  }
+}
+
+export type ChronologySource = {
+  kind: "vault" | "ocr" | "transcript"
+  /**
+   * Vault object ID, OCR job ID or transcript ID
+   */
+  id: string
+  vaultID?: string
+  /**
+   * File name or transcript title
+   */
+  name: string
+  page?: number
+  /**
+   * Transcript line on the page
+   */
+  line?: number
+  /**
+   * Seconds into the recording
+   */
+  timestamp?: number
+  quote: string
+}
+
+export type ChronologyEvent = {
+  /**
+   * YYYY-MM-DD, or YYYY-MM when the source only gives the month
+   */
+  date: string
+  description: string
+  people: Array<string>
+  issues: Array<string>
+  sources: Array<ChronologySource>
+}
+
+export type Chronology = {
+  id: string
+  projectID: string
+  matterID?: string
+  title: string
+  events: Array<ChronologyEvent>
+  file: string
+  format: "csv" | "xlsx" | "md"
+  time: {
+    created: number
+  }
+}
+
 export type Command = {
   name: string
   description?: string
@@ -1870,6 +2148,7 @@ export type Agent = {
     doom_loop?: "ask" | "allow" | "deny"
     external_directory?: "ask" | "allow" | "deny"
   }
+  confidentiality?: ConfidentialityConfig
   model?: {
     modelID: string
     providerID: string
@@ -2653,6 +2932,42 @@ export type SessionTodoResponses = {
 
 export type SessionTodoResponse = SessionTodoResponses[keyof SessionTodoResponses]
 
+export type SessionJobData = {
+  body?: never
+  path: {
+    /**
+     * Session ID
+     */
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/job"
+}
+
+export type SessionJobErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type SessionJobError = SessionJobErrors[keyof SessionJobErrors]
+
+export type SessionJobResponses = {
+  /**
+   * List of jobs
+   */
+  200: Array<CaseDevJob>
+}
+
+export type SessionJobResponse = SessionJobResponses[keyof SessionJobResponses]
+
 export type SessionInitData = {
   body?: {
     modelID: string
@@ -3374,6 +3689,461 @@ export type PermissionListResponses = {
 
 export type PermissionListResponse = PermissionListResponses[keyof PermissionListResponses]
 
+export type PermissionAuditListData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+    sessionID?: string
+    type?: string
+    /**
+     * Only decisions made at or after this time (ms)
+     */
+    since?: number
+    /**
+     * Only decisions made before this time (ms)
+     */
+    until?: number
+  }
+  url: "/permission/audit"
+}
+
+export type PermissionAuditListErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type PermissionAuditListError = PermissionAuditListErrors[keyof PermissionAuditListErrors]
+
+export type PermissionAuditListResponses = {
+  /**
+   * Permission decisions, oldest first
+   */
+  200: Array<PermissionAuditEntry>
+}
+
+export type PermissionAuditListResponse = PermissionAuditListResponses[keyof PermissionAuditListResponses]
+
+export type PermissionAuditExportData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+    sessionID?: string
+    type?: string
+    /**
+     * Only decisions made at or after this time (ms)
+     */
+    since?: number
+    /**
+     * Only decisions made before this time (ms)
+     */
+    until?: number
+    format?: "csv" | "json"
+  }
+  url: "/permission/audit/export"
+}
+
+export type PermissionAuditExportErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type PermissionAuditExportError = PermissionAuditExportErrors[keyof PermissionAuditExportErrors]
+
+export type PermissionAuditExportResponses = {
+  /**
+   * Audit log file
+   */
+  200: Array<PermissionAuditEntry>
+}
+
+export type PermissionAuditExportResponse = PermissionAuditExportResponses[keyof PermissionAuditExportResponses]
+
+export type PermissionRuleListData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/permission/rule"
+}
+
+export type PermissionRuleListResponses = {
+  /**
+   * Saved allow rules
+   */
+  200: Array<PermissionRule>
+}
+
+export type PermissionRuleListResponse = PermissionRuleListResponses[keyof PermissionRuleListResponses]
+
+export type PermissionRuleCreateData = {
+  body?: {
+    type: string
+    pattern?: Array<string>
+  }
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/permission/rule"
+}
+
+export type PermissionRuleCreateErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+}
+
+export type PermissionRuleCreateError = PermissionRuleCreateErrors[keyof PermissionRuleCreateErrors]
+
+export type PermissionRuleCreateResponses = {
+  /**
+   * Saved rule
+   */
+  200: PermissionRule
+}
+
+export type PermissionRuleCreateResponse = PermissionRuleCreateResponses[keyof PermissionRuleCreateResponses]
+
+export type PermissionRuleRemoveData = {
+  body?: never
+  path: {
+    ruleID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/permission/rule/{ruleID}"
+}
+
+export type PermissionRuleRemoveErrors = {
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type PermissionRuleRemoveError = PermissionRuleRemoveErrors[keyof PermissionRuleRemoveErrors]
+
+export type PermissionRuleRemoveResponses = {
+  /**
+   * Rule removed
+   */
+  200: boolean
+}
+
+export type PermissionRuleRemoveResponse = PermissionRuleRemoveResponses[keyof PermissionRuleRemoveResponses]
+
+export type BillingListData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+    sessionID?: string
+    /**
+     * First date to include (YYYY-MM-DD)
+     */
+    from?: string
+    /**
+     * Last date to include (YYYY-MM-DD)
+     */
+    to?: string
+  }
+  url: "/billing"
+}
+
+export type BillingListResponses = {
+  /**
+   * Time entries
+   */
+  200: Array<BillingEntry>
+}
+
+export type BillingListResponse = BillingListResponses[keyof BillingListResponses]
+
+export type BillingRemoveData = {
+  body?: never
+  path: {
+    entryID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/billing/{entryID}"
+}
+
+export type BillingRemoveErrors = {
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type BillingRemoveError = BillingRemoveErrors[keyof BillingRemoveErrors]
+
+export type BillingRemoveResponses = {
+  /**
+   * Entry removed
+   */
+  200: boolean
+}
+
+export type BillingRemoveResponse = BillingRemoveResponses[keyof BillingRemoveResponses]
+
+export type BillingUpdateData = {
+  body?: {
+    date?: string
+    hours?: number
+    narrative?: string
+    /**
+     * UTBMS task code, e.g. L110
+     */
+    task?: string
+    /**
+     * UTBMS activity code, e.g. A103
+     */
+    activity?: string
+  }
+  path: {
+    entryID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/billing/{entryID}"
+}
+
+export type BillingUpdateErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type BillingUpdateError = BillingUpdateErrors[keyof BillingUpdateErrors]
+
+export type BillingUpdateResponses = {
+  /**
+   * Updated entry
+   */
+  200: BillingEntry
+}
+
+export type BillingUpdateResponse = BillingUpdateResponses[keyof BillingUpdateResponses]
+
+export type BillingProposeData = {
+  body?: never
+  path: {
+    sessionID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/session/{sessionID}/billing"
+}
+
+export type BillingProposeErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type BillingProposeError = BillingProposeErrors[keyof BillingProposeErrors]
+
+export type BillingProposeResponses = {
+  /**
+   * The session's time entries
+   */
+  200: Array<BillingEntry>
+}
+
+export type BillingProposeResponse = BillingProposeResponses[keyof BillingProposeResponses]
+
+export type ResearchListData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+    /**
+     * Words to look for in the query, summary and sources
+     */
+    query?: string
+    sessionID?: string
+    tool?: "casedev_search" | "casedev_vault_search"
+  }
+  url: "/research"
+}
+
+export type ResearchListResponses = {
+  /**
+   * Saved research
+   */
+  200: Array<ResearchArtifact>
+}
+
+export type ResearchListResponse = ResearchListResponses[keyof ResearchListResponses]
+
+export type ResearchRemoveData = {
+  body?: never
+  path: {
+    researchID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/research/{researchID}"
+}
+
+export type ResearchRemoveErrors = {
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type ResearchRemoveError = ResearchRemoveErrors[keyof ResearchRemoveErrors]
+
+export type ResearchRemoveResponses = {
+  /**
+   * Research removed
+   */
+  200: boolean
+}
+
+export type ResearchRemoveResponse = ResearchRemoveResponses[keyof ResearchRemoveResponses]
+
+export type ResearchGetData = {
+  body?: never
+  path: {
+    researchID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/research/{researchID}"
+}
+
+export type ResearchGetErrors = {
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type ResearchGetError = ResearchGetErrors[keyof ResearchGetErrors]
+
+export type ResearchGetResponses = {
+  /**
+   * Research record
+   */
+  200: ResearchArtifact
+}
+
+export type ResearchGetResponse = ResearchGetResponses[keyof ResearchGetResponses]
+
+export type ChronologyListData = {
+  body?: never
+  path?: never
+  query?: {
+    directory?: string
+  }
+  url: "/chronology"
+}
+
+export type ChronologyListResponses = {
+  /**
+   * Chronologies
+   */
+  200: Array<Chronology>
+}
+
+export type ChronologyListResponse = ChronologyListResponses[keyof ChronologyListResponses]
+
+export type ChronologyGetData = {
+  body?: never
+  path: {
+    chronologyID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/chronology/{chronologyID}"
+}
+
+export type ChronologyGetErrors = {
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type ChronologyGetError = ChronologyGetErrors[keyof ChronologyGetErrors]
+
+export type ChronologyGetResponses = {
+  /**
+   * Chronology
+   */
+  200: Chronology
+}
+
+export type ChronologyGetResponse = ChronologyGetResponses[keyof ChronologyGetResponses]
+
+export type ChronologyExportData = {
+  body?: {
+    person?: string
+    issue?: string
+    format: "pdf" | "docx"
+  }
+  path: {
+    chronologyID: string
+  }
+  query?: {
+    directory?: string
+  }
+  url: "/chronology/{chronologyID}/export"
+}
+
+export type ChronologyExportErrors = {
+  /**
+   * Bad request
+   */
+  400: BadRequestError
+  /**
+   * Not found
+   */
+  404: NotFoundError
+}
+
+export type ChronologyExportError = ChronologyExportErrors[keyof ChronologyExportErrors]
+
+export type ChronologyExportResponses = {
+  /**
+   * Exported file
+   */
+  200: {
+    file: string
+    events: number
+  }
+}
+
+export type ChronologyExportResponse = ChronologyExportResponses[keyof ChronologyExportResponses]
+
 export type CommandListData = {
   body?: never
   path?: never
@@ -22,6 +22,7 @@ import { Icon } from "./icon"
 import { Checkbox } from "./checkbox"
 import { DiffChanges } from "./diff-changes"
 import { Markdown } from "./markdown"
+import { Redline } from "./redline"
 import { getDirectory as _getDirectory, getFilename } from "@opencode-ai/util/path"
 import { checksum } from "@opencode-ai/util/encode"
 import { createAutoScroll } from "../hooks"
@@ -176,6 +177,24 @@ export function getToolInfo(tool: string, input: any = {}): ToolInfo {
         icon: "checklist",
         title: "To-dos",
       }
+    case "casedev_vault_search":
+      return {
+        icon: "magnifying-glass-menu",
+        title: "Vault Search",
+        subtitle: input.query,
+      }
+    case "casedev_search":
+      return {
+        icon: "window-cursor",
+        title: "Research",
+        subtitle: input.query,
+      }
+    case "casedev_redline":
+      return {
+        icon: "pencil-line",
+        title: "Redline",
+        subtitle: input.revised ? getFilename(input.revised) : undefined,
+      }
     case "todoread":
       return {
         icon: "checklist",
@@ -606,6 +625,184 @@ ToolRegistry.register({
   },
 })
 
+interface VaultCitation {
+  objectId: string
+  chunkIndex?: number
+  filename?: string
+  pages?: { start: number; end: number }
+  offsets?: { start: number; end: number }
+  link?: string
+}
+
+function cite(citation: VaultCitation) {
+  const name = citation.filename ?? citation.objectId
+  if (!citation.pages) return name
+  if (citation.pages.start === citation.pages.end) return `${name}, p. ${citation.pages.start}`
+  return `${name}, pp. ${citation.pages.start}-${citation.pages.end}`
+}
+
+ToolRegistry.register({
+  name: "casedev_vault_search",
+  render(props) {
+    const data = useData()
+    const citations = () => (props.metadata.citations ?? []) as VaultCitation[]
+    const args: string[] = []
+    if (props.input.method) args.push("method=" + props.input.method)
+    if (props.metadata.offline) args.push("offline")
+    return (
+      <BasicTool
+        {...props}
+        icon="magnifying-glass-menu"
+        trigger={{
+          title: "Vault Search",
+          subtitle: props.input.query ?? "",
+          args,
+        }}
+      >
+        <Show when={citations().length}>
+          <div data-component="vault-citations">
+            <For each={citations()}>
+              {(citation) => (
+                <div data-slot="vault-citation">
+                  <Icon name="glasses" size="small" />
+                  <Show when={citation.link} fallback={<span data-slot="vault-citation-title">{cite(citation)}</span>}>
+                    {(link) => (
+                      <a
+                        data-slot="vault-citation-title"
+                        href={link()}
+                        target="_blank"
+                        onClick={(event) => {
+                          if (!data.openLink) return
+                          event.preventDefault()
+                          data.openLink(link())
+                        }}
+                      >
+                        {cite(citation)}
+                      </a>
+                    )}
+                  </Show>
+                  <Show when={citation.offsets}>
+                    {(offsets) => (
+                      <span data-slot="vault-citation-subtitle">
+                        chars {offsets().start}-{offsets().end}
+                      </span>
+                    )}
+                  </Show>
+                </div>
+              )}
+            </For>
+          </div>
+        </Show>
+      </BasicTool>
+    )
+  },
+})
+
+interface ResearchStep {
+  type: "query" | "source" | "summary" | "status"
+  text: string
+  time: number
+}
+
+interface ResearchSource {
+  url: string
+  title: string
+  snippet?: string
+}
+
+ToolRegistry.register({
+  name: "casedev_search",
+  render(props) {
+    const data = useData()
+    const steps = () => (props.metadata.steps ?? []) as ResearchStep[]
+    const sources = () => (props.metadata.sources ?? []) as ResearchSource[]
+    const running = () => props.status === "pending" || props.status === "running"
+    const args = () => [
+      ...(props.input.mode ? ["mode=" + props.input.mode] : []),
+      ...(sources().length ? [`${sources().length} sources`] : []),
+    ]
+    return (
+      <BasicTool
+        {...props}
+        icon="window-cursor"
+        forceOpen={props.forceOpen || (running() && steps().length > 0)}
+        trigger={{
+          title: "Research",
+          subtitle: props.input.query ?? "",
+          args: args(),
+        }}
+      >
+        <Show when={running() && steps().length}>
+          <div data-component="research-steps">
+            <For each={steps()}>
+              {(step) => (
+                <div data-slot="research-step" data-type={step.type}>
+                  {step.type === "query" ? "Searching: " : step.type === "source" ? "Found: " : ""}
+                  {step.text}
+                </div>
+              )}
+            </For>
+          </div>
+        </Show>
+        <Show when={sources().length}>
+          <div data-component="vault-citations">
+            <For each={sources()}>
+              {(source) => (
+                <div data-slot="vault-citation">
+                  <Icon name="square-arrow-top-right" size="small" />
+                  <a
+                    data-slot="vault-citation-title"
+                    href={source.url}
+                    target="_blank"
+                    title={source.snippet}
+                    onClick={(event) => {
+                      if (!data.openLink) return
+                      event.preventDefault()
+                      data.openLink(source.url)
+                    }}
+                  >
+                    {source.title}
+                  </a>
+                  <span data-slot="vault-citation-subtitle">
+                    {URL.canParse(source.url) ? new URL(source.url).hostname : ""}
+                  </span>
+                </div>
+              )}
+            </For>
+          </div>
+        </Show>
+      </BasicTool>
+    )
+  },
+})
+
+ToolRegistry.register({
+  name: "casedev_redline",
+  render(props) {
+    const args: string[] = []
+    if (props.metadata.insertions !== undefined) args.push(`+${props.metadata.insertions}`)
+    if (props.metadata.deletions !== undefined) args.push(`-${props.metadata.deletions}`)
+    if (props.metadata.moves) args.push(`${props.metadata.moves} moved`)
+    return (
+      <BasicTool
+        {...props}
+        icon="pencil-line"
+        trigger={{
+          title: "Redline",
+          subtitle: props.input.revised ? getFilename(props.input.revised) : "",
+          args,
+        }}
+      >
+        <Show when={props.metadata.paragraphs?.length}>
+          <div data-component="tool-output" data-scrollable>
+            <Redline paragraphs={props.metadata.paragraphs} changesOnly />
+          </div>
+        </Show>
+      </BasicTool>
+    )
+  },
+})
+
 ToolRegistry.register({
   name: "task",
   render(props) {
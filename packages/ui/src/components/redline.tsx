@@ -0,0 +1,37 @@
+import { For, Show } from "solid-js"
+import type { Redline as RedlineResult } from "@opencode-ai/util/redline"
+
+export function Redline(props: { paragraphs: RedlineResult.Paragraph[]; changesOnly?: boolean; class?: string }) {
+  const paragraphs = () =>
+    props.paragraphs
+      .map((paragraph, index) => ({ paragraph, index }))
+      .filter((item) => !props.changesOnly || item.paragraph.type !== "equal")
+
+  return (
+    <div data-component="redline" classList={{ [props.class ?? ""]: !!props.class }}>
+      <For each={paragraphs()}>
+        {(item) => (
+          <div data-slot="redline-paragraph" data-type={item.paragraph.type}>
+            <Show when={props.changesOnly}>
+              <span data-slot="redline-number">¶{item.index + 1}</span>
+            </Show>
+            <Show when={item.paragraph.move}>
+              <span data-slot="redline-move">
+                {item.paragraph.type === "move-from" ? "Moved from" : "Moved to"} #{item.paragraph.move}
+              </span>
+            </Show>
+            <For each={item.paragraph.segments}>
+              {(segment) => (
+                <Show when={segment.type !== "equal"} fallback={<span>{segment.text}</span>}>
+                  <Show when={segment.type === "insert"} fallback={<del>{segment.text}</del>}>
+                    <ins>{segment.text}</ins>
+                  </Show>
+                </Show>
+              )}
+            </For>
+          </div>
+        )}
+      </For>
+    </div>
+  )
+}
@@ -6,12 +6,14 @@ import { Icon } from "./icon"
 import { StickyAccordionHeader } from "./sticky-accordion-header"
 import { useDiffComponent } from "../context/diff"
 import { getDirectory, getFilename } from "@opencode-ai/util/path"
-import { For, Match, Show, Switch, type JSX } from "solid-js"
+import { createMemo, For, Match, Show, Switch, type JSX } from "solid-js"
 import { createStore } from "solid-js/store"
 import { type FileDiff } from "@opencode-ai/sdk/v2"
 import { PreloadMultiFileDiffResult } from "@pierre/diffs/ssr"
 import { Dynamic } from "solid-js/web"
 import { checksum } from "@opencode-ai/util/encode"
+import { Redline as RedlineResult } from "@opencode-ai/util/redline"
+import { Redline } from "./redline"
 
 export interface SessionReviewProps {
   split?: boolean
@@ -22,6 +24,20 @@ export interface SessionReviewProps {
   diffs: (FileDiff & { preloaded?: PreloadMultiFileDiffResult<any> })[]
 }
 
+// Documents are diffed as extracted text, which reads better as a redline than as changed lines
+const DOCUMENT = /\.(docx|docm|pdf)$/i
+// The redline is computed on the UI thread, so large documents fall back to a plain delete and insert sooner
+const REDLINE_MAX_CELLS = 250_000
+
+function DocumentDiff(props: { diff: FileDiff }) {
+  const paragraphs = (text: string) => text.split("\n").filter((line) => line.trim())
+  const redline = createMemo(
+    () =>
+      RedlineResult.compare(paragraphs(props.diff.before), paragraphs(props.diff.after), REDLINE_MAX_CELLS).paragraphs,
+  )
+  return <Redline paragraphs={redline()} />
+}
+
 export const SessionReview = (props: SessionReviewProps) => {
   const diffComponent = useDiffComponent()
   const [store, setStore] = createStore({
@@ -99,21 +115,28 @@ export const SessionReview = (props: SessionReviewProps) => {
                   </Accordion.Trigger>
                 </StickyAccordionHeader>
                 <Accordion.Content data-slot="session-review-accordion-content">
-                  <Dynamic
-                    component={diffComponent}
-                    preloadedDiff={diff.preloaded}
-                    diffStyle={props.split ? "split" : "unified"}
-                    before={{
-                      name: diff.file!,
-                      contents: diff.before!,
-                      cacheKey: checksum(diff.before),
-                    }}
-                    after={{
-                      name: diff.file!,
-                      contents: diff.after!,
-                      cacheKey: checksum(diff.after),
-                    }}
-                  />
+                  <Show
+                    when={DOCUMENT.test(diff.file)}
+                    fallback={
+                      <Dynamic
+                        component={diffComponent}
+                        preloadedDiff={diff.preloaded}
+                        diffStyle={props.split ? "split" : "unified"}
+                        before={{
+                          name: diff.file!,
+                          contents: diff.before!,
+                          cacheKey: checksum(diff.before),
+                        }}
+                        after={{
+                          name: diff.file!,
+                          contents: diff.after!,
+                          cacheKey: checksum(diff.after),
+                        }}
+                      />
+                    }
+                  >
+                    <DocumentDiff diff={diff} />
+                  </Show>
                 </Accordion.Content>
               </Accordion.Item>
             )}
@@ -32,7 +32,12 @@ export type PermissionRespondFn = (input: {
 
 export const { use: useData, provider: DataProvider } = createSimpleContext({
   name: "Data",
-  init: (props: { data: Data; directory: string; onPermissionRespond?: PermissionRespondFn }) => {
+  init: (props: {
+    data: Data
+    directory: string
+    onPermissionRespond?: PermissionRespondFn
+    onOpenLink?: (url: string) => void
+  }) => {
     return {
       get store() {
         return props.data
@@ -41,6 +46,7 @@ export const { use: useData, provider: DataProvider } = createSimpleContext({
         return props.directory
       },
       respondToPermission: props.onPermissionRespond,
+      openLink: props.onOpenLink,
     }
   },
 })
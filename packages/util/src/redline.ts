@@ -0,0 +1,239 @@
+/**
+ * Word-level comparison of two versions of a document, given as paragraphs. Paragraphs are aligned first, so
+ * reworded paragraphs show word changes, and paragraphs that moved are reported as moves rather than as a
+ * deletion and an unrelated insertion.
+ */
+export namespace Redline {
+  export interface Segment {
+    type: "equal" | "insert" | "delete"
+    text: string
+  }
+
+  export interface Paragraph {
+    type: "equal" | "insert" | "delete" | "modify" | "move-from" | "move-to"
+    segments: Segment[]
+    // Links a move-from paragraph to its move-to paragraph
+    move?: number
+  }
+
+  export interface Result {
+    paragraphs: Paragraph[]
+    // Counted in words; moved paragraphs are counted in moves instead
+    insertions: number
+    deletions: number
+    moves: number
+  }
+
+  // Reworded paragraphs must share at least this share of their words to be shown as one modified paragraph
+  const MODIFIED = 0.5
+  // Moved paragraphs may have been edited a little on the way
+  const MOVED = 0.8
+  // Larger comparisons fall back to a plain delete and insert rather than filling a huge table
+  const MAX_CELLS = 25_000_000
+
+  type Op = { type: "equal"; a: number; b: number } | { type: "delete"; a: number } | { type: "insert"; b: number }
+
+  /**
+   * Longest common subsequence alignment of two sequences
+   */
+  function align(a: string[], b: string[], cells: number): Op[] {
+    let start = 0
+    while (start < a.length && start < b.length && a[start] === b[start]) start++
+    let end = 0
+    while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++
+
+    const ops: Op[] = []
+    for (let i = 0; i < start; i++) ops.push({ type: "equal", a: i, b: i })
+
+    const n = a.length - start - end
+    const m = b.length - start - end
+    if (n * m > cells) {
+      for (let i = 0; i < n; i++) ops.push({ type: "delete", a: start + i })
+      for (let j = 0; j < m; j++) ops.push({ type: "insert", b: start + j })
+    } else {
+      // table[i][j] is the LCS length of a[start+i..] and b[start+j..]
+      const table = new Uint32Array((n + 1) * (m + 1))
+      for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+          table[i * (m + 1) + j] =
+            a[start + i] === b[start + j]
+              ? table[(i + 1) * (m + 1) + j + 1] + 1
+              : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1])
+        }
+      }
+      let i = 0
+      let j = 0
+      while (i < n || j < m) {
+        if (i < n && j < m && a[start + i] === b[start + j]) {
+          ops.push({ type: "equal", a: start + i++, b: start + j++ })
+        } else if (i < n && (j === m || table[(i + 1) * (m + 1) + j] >= table[i * (m + 1) + j + 1])) {
+          // Deletions come before insertions, as in a redline
+          ops.push({ type: "delete", a: start + i++ })
+        } else {
+          ops.push({ type: "insert", b: start + j++ })
+        }
+      }
+    }
+
+    for (let k = 0; k < end; k++) ops.push({ type: "equal", a: a.length - end + k, b: b.length - end + k })
+    return ops
+  }
+
+  export function tokens(text: string) {
+    return text.match(/\s+|[\p{L}\p{N}]+(?:['’.,][\p{L}\p{N}]+)*|[^\s\p{L}\p{N}]/gu) ?? []
+  }
+
+  function words(text: string) {
+    return tokens(text).filter((token) => /[\p{L}\p{N}]/u.test(token))
+  }
+
+  /**
+   * Share of words two paragraphs have in common, from 0 to 1
+   */
+  export function similarity(a: string, b: string) {
+    const left = words(a.toLowerCase())
+    const right = words(b.toLowerCase())
+    if (left.length + right.length === 0) return 1
+    const counts = new Map<string, number>()
+    for (const word of left) counts.set(word, (counts.get(word) ?? 0) + 1)
+    let common = 0
+    for (const word of right) {
+      const count = counts.get(word) ?? 0
+      if (count === 0) continue
+      counts.set(word, count - 1)
+      common++
+    }
+    return (2 * common) / (left.length + right.length)
+  }
+
+  /**
+   * Word-level changes between two versions of a paragraph
+   */
+  export function segments(before: string, after: string, cells = MAX_CELLS): Segment[] {
+    const a = tokens(before)
+    const b = tokens(after)
+    const result: Segment[] = []
+    const push = (type: Segment["type"], text: string) => {
+      const last = result.at(-1)
+      if (last?.type === type) last.text += text
+      else result.push({ type, text })
+    }
+    for (const op of align(a, b, cells)) {
+      if (op.type === "equal") push("equal", a[op.a])
+      if (op.type === "delete") push("delete", a[op.a])
+      if (op.type === "insert") push("insert", b[op.b])
+    }
+    // Whitespace left between two changes reads better as part of them
+    for (let i = 1; i < result.length - 1; i++) {
+      const [prev, current, next] = [result[i - 1], result[i], result[i + 1]]
+      if (current.type !== "equal" || current.text.trim() || prev.type === "equal" || next.type === "equal") continue
+      result.splice(i, 1)
+      const deleted = prev.type === "delete" ? prev : next
+      const inserted = prev.type === "insert" ? prev : next
+      deleted.text += current.text
+      inserted.text += current.text
+      i--
+    }
+    // Changes that now sit next to each other are merged, deletions first
+    const merged: Segment[] = []
+    for (const segment of result) {
+      const last = merged.at(-1)
+      const before = merged.at(-2)
+      if (last?.type === segment.type) last.text += segment.text
+      else if (segment.type === "delete" && last?.type === "insert" && before?.type === "delete") {
+        before.text += segment.text
+      } else if (segment.type === "insert" && last?.type === "delete" && before?.type === "insert") {
+        before.text += segment.text
+      } else merged.push({ ...segment })
+    }
+    return merged
+  }
+
+  function normalize(text: string) {
+    return text.replace(/\s+/g, " ").trim()
+  }
+
+  /**
+   * Compare two versions paragraph by paragraph. Callers on the UI thread can pass a lower cell limit; past it,
+   * paragraphs fall back to a plain delete and insert instead of being aligned, paired up or checked for moves.
+   */
+  export function compare(before: string[], after: string[], cells = MAX_CELLS): Result {
+    const paragraphs: Paragraph[] = []
+    const ops = align(before.map(normalize), after.map(normalize), cells)
+
+    // Each run of deleted and inserted paragraphs between unchanged ones is paired up in order, so a
+    // paragraph that was reworded in place becomes one modified paragraph
+    for (let k = 0; k < ops.length; ) {
+      const op = ops[k]
+      if (op.type === "equal") {
+        paragraphs.push({ type: "equal", segments: [{ type: "equal", text: after[op.b] }] })
+        k++
+        continue
+      }
+      const deleted: number[] = []
+      const inserted: number[] = []
+      for (; k < ops.length && ops[k].type !== "equal"; k++) {
+        const run = ops[k]
+        if (run.type === "delete") deleted.push(run.a)
+        if (run.type === "insert") inserted.push(run.b)
+      }
+      const pair = deleted.length * inserted.length <= cells
+      let i = 0
+      let j = 0
+      while (i < deleted.length || j < inserted.length) {
+        const match =
+          pair && i < deleted.length
+            ? inserted.findIndex((b, index) => index >= j && similarity(before[deleted[i]], after[b]) >= MODIFIED)
+            : -1
+        if (match === -1) {
+          if (i < deleted.length) {
+            paragraphs.push({ type: "delete", segments: [{ type: "delete", text: before[deleted[i++]] }] })
+            continue
+          }
+          paragraphs.push({ type: "insert", segments: [{ type: "insert", text: after[inserted[j++]] }] })
+          continue
+        }
+        while (j < match)
+          paragraphs.push({ type: "insert", segments: [{ type: "insert", text: after[inserted[j++]] }] })
+        paragraphs.push({ type: "modify", segments: segments(before[deleted[i++]], after[inserted[j++]], cells) })
+      }
+    }
+
+    // A deleted paragraph that reappears elsewhere was moved
+    let moves = 0
+    const count = (type: Paragraph["type"]) => paragraphs.filter((paragraph) => paragraph.type === type).length
+    const moved = count("delete") * count("insert") <= cells
+    for (const from of paragraphs) {
+      if (!moved || from.type !== "delete") continue
+      const text = from.segments[0].text
+      let best: Paragraph | undefined
+      let score = MOVED
+      for (const to of paragraphs) {
+        if (to.type !== "insert") continue
+        const value = similarity(text, to.segments[0].text)
+        if (value >= score) {
+          best = to
+          score = value
+        }
+      }
+      if (!best) continue
+      moves++
+      from.type = "move-from"
+      from.move = moves
+      best.type = "move-to"
+      best.move = moves
+      best.segments = segments(text, best.segments[0].text, cells)
+    }
+
+    let insertions = 0
+    let deletions = 0
+    for (const paragraph of paragraphs) {
+      if (paragraph.type === "move-from" || paragraph.type === "move-to") continue
+      for (const segment of paragraph.segments) {
+        if (segment.type === "insert") insertions += words(segment.text).length
+        if (segment.type === "delete") deletions += words(segment.text).length
+      }
+    }
+    return { paragraphs, insertions, deletions, moves }
+  }
+}